@@ -1,32 +1,74 @@
-import React from 'react';
-import { BrowserRouter as Router, Routes, Route } from 'react-router-dom';
+import { BrowserRouter as Router, Routes, Route, Outlet } from 'react-router-dom';
 import { ThemeProvider } from './contexts/ThemeContext';
 import Layout from './components/layout/Layout';
+import UpdatePrompt from './components/layout/UpdatePrompt';
+import ErrorBoundary from './components/ui/ErrorBoundary';
+import ProtectedRoute from './components/auth/ProtectedRoute';
 import Dashboard from './pages/Dashboard';
 import TradeJournal from './pages/TradeJournal';
 import TradeHistory from './pages/TradeHistory';
+import TradeDetail from './pages/TradeDetail';
+import Reviews from './pages/Reviews';
+import Calendar from './pages/Calendar';
+import ImportTrades from './pages/ImportTrades';
+import PerformanceReport from './pages/PerformanceReport';
 import Analytics from './pages/Analytics';
+import Ledger from './pages/Ledger';
 import Settings from './pages/Settings';
+import Login from './pages/Login';
+import ResetPassword from './pages/ResetPassword';
 import { SupabaseProvider } from './contexts/SupabaseContext';
+import { AuthProvider } from './contexts/AuthContext';
+import { DataProvider } from './contexts/DataContext';
+import { AccountProvider } from './contexts/AccountContext';
+import { NotificationProvider } from './contexts/NotificationContext';
 
 function App() {
   return (
     <ThemeProvider>
-      <SupabaseProvider>
-        <Router>
-          <Layout>
-            <Routes>
-              <Route path="/" element={<Dashboard />} />
-              <Route path="/journal" element={<TradeJournal />} />
-              <Route path="/history" element={<TradeHistory />} />
-              <Route path="/analytics" element={<Analytics />} />
-              <Route path="/settings" element={<Settings />} />
-            </Routes>
-          </Layout>
-        </Router>
-      </SupabaseProvider>
+      <ErrorBoundary>
+        <NotificationProvider>
+          <SupabaseProvider>
+            <AuthProvider>
+              <Router>
+                <Routes>
+                  <Route path="/login" element={<Login />} />
+                  <Route
+                    element={
+                      <ProtectedRoute>
+                        <DataProvider>
+                          <AccountProvider>
+                            <Layout>
+                              <Outlet />
+                            </Layout>
+                          </AccountProvider>
+                        </DataProvider>
+                      </ProtectedRoute>
+                    }
+                  >
+                    <Route path="/" element={<Dashboard />} />
+                    <Route path="/journal" element={<TradeJournal />} />
+                    <Route path="/journal/:id" element={<TradeJournal />} />
+                    <Route path="/history" element={<TradeHistory />} />
+                    <Route path="/trades/:id" element={<TradeDetail />} />
+                    <Route path="/reviews" element={<Reviews />} />
+                    <Route path="/calendar" element={<Calendar />} />
+                    <Route path="/import" element={<ImportTrades />} />
+                    <Route path="/ledger" element={<Ledger />} />
+                    <Route path="/analytics" element={<Analytics />} />
+                    <Route path="/report" element={<PerformanceReport />} />
+                    <Route path="/settings" element={<Settings />} />
+                    <Route path="/reset-password" element={<ResetPassword />} />
+                  </Route>
+                </Routes>
+              </Router>
+            </AuthProvider>
+          </SupabaseProvider>
+          <UpdatePrompt />
+        </NotificationProvider>
+      </ErrorBoundary>
     </ThemeProvider>
   );
 }
 
-export default App;
\ No newline at end of file
+export default App;
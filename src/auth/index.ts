@@ -0,0 +1,21 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Database } from '../types/supabase';
+import { DataBackend } from '../config';
+import { getOfflineStore } from '../repositories';
+import { AuthBackend } from './types';
+import { createSupabaseAuth } from './supabaseAuth';
+import { createLocalAuth } from './localAuth';
+
+export type { AuthBackend, AuthEvent, AuthUser } from './types';
+
+export function createAuthBackend(
+  backend: DataBackend,
+  supabase: SupabaseClient<Database> | null
+): AuthBackend {
+  if (backend === 'supabase') {
+    if (!supabase) throw new Error('The Supabase backend requires a Supabase client');
+    return createSupabaseAuth(supabase);
+  }
+
+  return createLocalAuth(getOfflineStore(backend));
+}
@@ -0,0 +1,55 @@
+import { KeyValueStore, readJson, writeJson } from '../repositories/localStore';
+import { AuthBackend, AuthEvent, AuthUser } from './types';
+
+const SESSION_KEY = 'fx-journal:session';
+
+// Offline stand-in for Supabase Auth used by the demo and test backends. Any
+// email and password are accepted; the email alone identifies the user.
+export function createLocalAuth(store: KeyValueStore): AuthBackend {
+  const listeners = new Set<(event: AuthEvent, user: AuthUser | null) => void>();
+
+  const emit = (event: AuthEvent, user: AuthUser | null) => {
+    listeners.forEach(listener => listener(event, user));
+  };
+
+  const startSession = (email: string) => {
+    const user: AuthUser = { id: `local-${email.trim().toLowerCase()}`, email };
+    writeJson(store, SESSION_KEY, user);
+    emit('SIGNED_IN', user);
+  };
+
+  return {
+    async getUser() {
+      return readJson<AuthUser | null>(store, SESSION_KEY, null);
+    },
+
+    onChange(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    async signIn(email) {
+      startSession(email);
+    },
+
+    async signUp(email) {
+      startSession(email);
+      return false;
+    },
+
+    async signOut() {
+      store.removeItem(SESSION_KEY);
+      emit('SIGNED_OUT', null);
+    },
+
+    async sendPasswordReset() {
+      // Nothing to reset: local accounts have no stored password
+    },
+
+    async updatePassword() {
+      emit('USER_UPDATED', readJson<AuthUser | null>(store, SESSION_KEY, null));
+    },
+  };
+}
@@ -0,0 +1,57 @@
+import { SupabaseClient, User } from '@supabase/supabase-js';
+import { Database } from '../types/supabase';
+import { AuthBackend, AuthEvent, AuthUser } from './types';
+
+const toAuthUser = (user: User | null | undefined): AuthUser | null =>
+  user ? { id: user.id, email: user.email ?? null } : null;
+
+export function createSupabaseAuth(supabase: SupabaseClient<Database>): AuthBackend {
+  return {
+    async getUser() {
+      // Restores a persisted session without a round trip
+      const { data } = await supabase.auth.getSession();
+      return toAuthUser(data.session?.user);
+    },
+
+    onChange(listener) {
+      const { data: { subscription } } = supabase.auth.onAuthStateChange((event, session) => {
+        listener(event as AuthEvent, toAuthUser(session?.user));
+      });
+      return () => subscription.unsubscribe();
+    },
+
+    async signIn(email, password) {
+      const { error } = await supabase.auth.signInWithPassword({ email, password });
+      if (error) throw error;
+    },
+
+    async signUp(email, password) {
+      const { data, error } = await supabase.auth.signUp({
+        email,
+        password,
+        options: { emailRedirectTo: window.location.origin },
+      });
+      if (error) throw error;
+
+      // Projects with email confirmation enabled return no session until the link is followed
+      return data.session === null;
+    },
+
+    async signOut() {
+      const { error } = await supabase.auth.signOut();
+      if (error) throw error;
+    },
+
+    async sendPasswordReset(email) {
+      const { error } = await supabase.auth.resetPasswordForEmail(email, {
+        redirectTo: `${window.location.origin}/reset-password`,
+      });
+      if (error) throw error;
+    },
+
+    async updatePassword(password) {
+      const { error } = await supabase.auth.updateUser({ password });
+      if (error) throw error;
+    },
+  };
+}
@@ -0,0 +1,17 @@
+export interface AuthUser {
+  id: string;
+  email: string | null;
+}
+
+export type AuthEvent = 'SIGNED_IN' | 'SIGNED_OUT' | 'PASSWORD_RECOVERY' | 'USER_UPDATED';
+
+export interface AuthBackend {
+  getUser(): Promise<AuthUser | null>;
+  onChange(listener: (event: AuthEvent, user: AuthUser | null) => void): () => void;
+  signIn(email: string, password: string): Promise<void>;
+  // Resolves to true when the user has to confirm their email before signing in
+  signUp(email: string, password: string): Promise<boolean>;
+  signOut(): Promise<void>;
+  sendPasswordReset(email: string): Promise<void>;
+  updatePassword(password: string): Promise<void>;
+}
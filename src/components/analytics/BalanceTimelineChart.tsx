@@ -0,0 +1,66 @@
+import React from 'react';
+import { Line } from 'react-chartjs-2';
+import { Chart as ChartJS, CategoryScale, LinearScale, PointElement, LineElement, Tooltip, Legend } from 'chart.js';
+import { format, parseISO } from 'date-fns';
+import { BalancePoint } from '../../lib/ledger';
+
+ChartJS.register(CategoryScale, LinearScale, PointElement, LineElement, Tooltip, Legend);
+
+interface BalanceTimelineChartProps {
+  points: BalancePoint[];
+}
+
+const chartOptions = {
+  responsive: true,
+  maintainAspectRatio: false,
+  animation: false as const,
+  interaction: {
+    mode: 'index' as const,
+    intersect: false,
+  },
+  plugins: {
+    legend: {
+      position: 'top' as const,
+    },
+  },
+  scales: {
+    // P/L sits around zero while the balance sits around the deposits
+    balance: { type: 'linear' as const, position: 'left' as const },
+    pnl: { type: 'linear' as const, position: 'right' as const, grid: { drawOnChartArea: false } },
+  },
+};
+
+const BalanceTimelineChart: React.FC<BalanceTimelineChartProps> = ({ points }) => {
+  const data = {
+    labels: points.map(point => format(parseISO(point.date), 'MMM dd')),
+    datasets: [
+      {
+        label: 'Balance',
+        data: points.map(point => point.balance),
+        borderColor: 'rgb(var(--color-primary))',
+        backgroundColor: 'rgba(var(--color-primary) / 0.1)',
+        tension: 0.3,
+        yAxisID: 'balance',
+      },
+      {
+        label: 'Gross P/L',
+        data: points.map(point => point.grossPnl),
+        borderColor: 'rgb(var(--color-secondary))',
+        borderDash: [4, 4],
+        tension: 0.3,
+        yAxisID: 'pnl',
+      },
+      {
+        label: 'Net P/L',
+        data: points.map(point => point.netPnl),
+        borderColor: 'rgb(var(--color-success))',
+        tension: 0.3,
+        yAxisID: 'pnl',
+      },
+    ],
+  };
+
+  return <Line data={data} options={chartOptions} />;
+};
+
+export default BalanceTimelineChart;
@@ -0,0 +1,87 @@
+import React from 'react';
+import {
+  ConditionPerformance,
+  INDICATOR_CONDITIONS,
+  INDICATOR_GROUP_LABELS,
+  IndicatorCondition,
+  conditionLabel,
+} from '../../lib/indicators';
+import { formatMoney } from '../../lib/money';
+import { useSelectedAccount } from '../../contexts/AccountContext';
+
+interface ConditionPerformanceTableProps {
+  rows: ConditionPerformance[];
+  // Single conditions can be ticked to build a combination of them
+  selected?: IndicatorCondition[];
+  onToggle?: (condition: IndicatorCondition) => void;
+  emptyMessage: string;
+}
+
+const ConditionPerformanceTable: React.FC<ConditionPerformanceTableProps> = ({
+  rows,
+  selected = [],
+  onToggle,
+  emptyMessage,
+}) => {
+  const { currency } = useSelectedAccount();
+  if (rows.length === 0) {
+    return <p className="text-sm text-text-muted">{emptyMessage}</p>;
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full">
+        <thead>
+          <tr className="border-b border-border text-left">
+            {onToggle && <th className="px-4 py-3 w-8"></th>}
+            <th className="px-4 py-3 text-sm font-medium">Condition</th>
+            <th className="px-4 py-3 text-sm font-medium text-right">Trades</th>
+            <th className="px-4 py-3 text-sm font-medium text-right">Win Rate</th>
+            <th className="px-4 py-3 text-sm font-medium text-right">Expectancy</th>
+            <th className="px-4 py-3 text-sm font-medium text-right">P/L</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(row => {
+            const single = row.conditions.length === 1 ? row.conditions[0] : null;
+
+            return (
+              <tr key={row.key} className="border-b border-border hover:bg-background/50">
+                {onToggle && (
+                  <td className="px-4 py-3">
+                    {single && (
+                      <input
+                        type="checkbox"
+                        checked={selected.includes(single)}
+                        onChange={() => onToggle(single)}
+                        aria-label={`Combine ${INDICATOR_CONDITIONS[single].label}`}
+                      />
+                    )}
+                  </td>
+                )}
+                <td className="px-4 py-3 text-sm">
+                  {conditionLabel(row.conditions)}
+                  {single && (
+                    <span className="block text-xs text-text-muted">
+                      {INDICATOR_GROUP_LABELS[INDICATOR_CONDITIONS[single].group]}
+                    </span>
+                  )}
+                </td>
+                <td className="px-4 py-3 text-sm text-right">{row.count}</td>
+                <td className="px-4 py-3 text-sm text-right">{row.winRate.toFixed(1)}%</td>
+                <td className={`px-4 py-3 text-sm text-right ${row.expectancy >= 0 ? 'text-success' : 'text-error'}`}>
+                  {formatMoney(row.expectancy, currency)}
+                </td>
+                <td className={`px-4 py-3 text-sm text-right font-medium ${row.pnl >= 0 ? 'text-success' : 'text-error'}`}>
+                  {formatMoney(row.pnl, currency)}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default ConditionPerformanceTable;
@@ -0,0 +1,44 @@
+import React from 'react';
+import { Line } from 'react-chartjs-2';
+import { Chart as ChartJS, CategoryScale, LinearScale, PointElement, LineElement, Filler, Tooltip, Legend } from 'chart.js';
+import { format, parseISO } from 'date-fns';
+import { PnlPoint } from '../../lib/metrics';
+
+ChartJS.register(CategoryScale, LinearScale, PointElement, LineElement, Filler, Tooltip, Legend);
+
+interface CumulativePnlChartProps {
+  points: PnlPoint[];
+  label?: string;
+}
+
+const chartOptions = {
+  responsive: true,
+  maintainAspectRatio: false,
+  // Charts are also printed in reports, where animation would leave them half drawn
+  animation: false as const,
+  plugins: {
+    legend: {
+      position: 'top' as const,
+    },
+  },
+};
+
+const CumulativePnlChart: React.FC<CumulativePnlChartProps> = ({ points, label = 'Cumulative P/L' }) => {
+  const data = {
+    labels: points.map(point => format(parseISO(point.date), 'MMM dd')),
+    datasets: [
+      {
+        label,
+        data: points.map(point => point.value),
+        borderColor: 'rgb(var(--color-primary))',
+        backgroundColor: 'rgba(var(--color-primary) / 0.1)',
+        tension: 0.3,
+        fill: true,
+      },
+    ],
+  };
+
+  return <Line data={data} options={chartOptions} />;
+};
+
+export default CumulativePnlChart;
@@ -0,0 +1,62 @@
+import React from 'react';
+import { RulePerformance } from '../../lib/plan';
+import { formatMoney } from '../../lib/money';
+import { useSelectedAccount } from '../../contexts/AccountContext';
+
+interface RulePerformanceTableProps {
+  rows: RulePerformance[];
+}
+
+const moneyClass = (value: number) => (value >= 0 ? 'text-success' : 'text-error');
+
+// How often each plan rule was broken and what the trades that broke it made
+const RulePerformanceTable: React.FC<RulePerformanceTableProps> = ({ rows }) => {
+  const { currency } = useSelectedAccount();
+  if (rows.length === 0) {
+    return (
+      <p className="text-sm text-text-muted">
+        Add a trading plan in Settings and journal trades against it to see which rules you break.
+      </p>
+    );
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full">
+        <thead>
+          <tr className="border-b border-border text-left">
+            <th className="px-4 py-3 text-sm font-medium">Rule</th>
+            <th className="px-4 py-3 text-sm font-medium text-right">Broken</th>
+            <th className="px-4 py-3 text-sm font-medium text-right">Win Rate When Broken</th>
+            <th className="px-4 py-3 text-sm font-medium text-right">Expectancy Followed</th>
+            <th className="px-4 py-3 text-sm font-medium text-right">Expectancy Broken</th>
+            <th className="px-4 py-3 text-sm font-medium text-right">P/L When Broken</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(row => (
+            <tr key={row.ruleId} className="border-b border-border hover:bg-background/50">
+              <td className="px-4 py-3 text-sm">{row.name}</td>
+              <td className="px-4 py-3 text-sm text-right">
+                {row.broken}
+                <span className="text-text-muted"> of {row.checked}</span>
+              </td>
+              <td className="px-4 py-3 text-sm text-right">{row.broken > 0 ? `${row.brokenWinRate.toFixed(1)}%` : '—'}</td>
+              <td className={`px-4 py-3 text-sm text-right ${moneyClass(row.followedExpectancy)}`}>
+                {formatMoney(row.followedExpectancy, currency)}
+              </td>
+              <td className={`px-4 py-3 text-sm text-right ${row.broken > 0 ? moneyClass(row.brokenExpectancy) : ''}`}>
+                {row.broken > 0 ? formatMoney(row.brokenExpectancy, currency) : '—'}
+              </td>
+              <td className={`px-4 py-3 text-sm text-right font-medium ${row.broken > 0 ? moneyClass(row.brokenPnl) : ''}`}>
+                {row.broken > 0 ? formatMoney(row.brokenPnl, currency) : '—'}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default RulePerformanceTable;
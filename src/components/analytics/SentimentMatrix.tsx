@@ -0,0 +1,79 @@
+import React from 'react';
+import { MARKET_SENTIMENTS, TradeType } from '../../types/trade';
+import { SentimentCell } from '../../lib/sentiment';
+import { formatMoney } from '../../lib/money';
+import { useSelectedAccount } from '../../contexts/AccountContext';
+
+interface SentimentMatrixProps {
+  cells: SentimentCell[];
+}
+
+const TRADE_TYPES: TradeType[] = ['Buy', 'Sell'];
+
+// Wins and losses per recorded sentiment and direction; trades taken against
+// the sentiment are highlighted
+const SentimentMatrix: React.FC<SentimentMatrixProps> = ({ cells }) => {
+  const { currency } = useSelectedAccount();
+  const cellFor = (sentiment: string, type: TradeType) =>
+    cells.find(cell => cell.sentiment === sentiment && cell.type === type)!;
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full">
+        <thead>
+          <tr className="border-b border-border text-left">
+            <th className="px-4 py-3 text-sm font-medium">Sentiment</th>
+            {TRADE_TYPES.map(type => (
+              <th key={type} className="px-4 py-3 text-sm font-medium text-right">{type}s (W / L)</th>
+            ))}
+            {TRADE_TYPES.map(type => (
+              <th key={type} className="px-4 py-3 text-sm font-medium text-right">{type} P/L</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {MARKET_SENTIMENTS.map(sentiment => (
+            <tr key={sentiment} className="border-b border-border hover:bg-background/50">
+              <td className="px-4 py-3 text-sm font-medium">{sentiment}</td>
+              {TRADE_TYPES.map(type => {
+                const cell = cellFor(sentiment, type);
+                return (
+                  <td
+                    key={type}
+                    className={`px-4 py-3 text-sm text-right ${cell.alignment === 'against' && cell.count > 0 ? 'bg-warning/10' : ''}`}
+                  >
+                    {cell.count > 0 ? (
+                      <>
+                        <span className="text-success">{cell.wins}</span>
+                        <span className="text-text-muted"> / </span>
+                        <span className="text-error">{cell.losses}</span>
+                        <span className="block text-xs text-text-muted">{cell.winRate.toFixed(0)}% of {cell.count}</span>
+                      </>
+                    ) : (
+                      <span className="text-text-muted">—</span>
+                    )}
+                  </td>
+                );
+              })}
+              {TRADE_TYPES.map(type => {
+                const cell = cellFor(sentiment, type);
+                return (
+                  <td
+                    key={type}
+                    className={`px-4 py-3 text-sm text-right font-medium ${
+                      cell.count === 0 ? 'text-text-muted' : cell.pnl >= 0 ? 'text-success' : 'text-error'
+                    } ${cell.alignment === 'against' && cell.count > 0 ? 'bg-warning/10' : ''}`}
+                  >
+                    {cell.count > 0 ? formatMoney(cell.pnl, currency) : '—'}
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default SentimentMatrix;
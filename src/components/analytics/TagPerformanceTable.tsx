@@ -0,0 +1,65 @@
+import React from 'react';
+import { TAG_CATEGORIES, TAG_CATEGORY_LABELS } from '../../types/tag';
+import { TagPerformance } from '../../lib/metrics';
+import { formatMoney } from '../../lib/money';
+import { useSelectedAccount } from '../../contexts/AccountContext';
+
+interface TagPerformanceTableProps {
+  rows: TagPerformance[];
+}
+
+const TagPerformanceTable: React.FC<TagPerformanceTableProps> = ({ rows }) => {
+  const { currency } = useSelectedAccount();
+  if (rows.length === 0) {
+    return (
+      <p className="text-sm text-text-muted">
+        Tag your trades in the journal to see which setups and habits make money.
+      </p>
+    );
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full">
+        <thead>
+          <tr className="border-b border-border text-left">
+            <th className="px-4 py-3 text-sm font-medium">Tag</th>
+            <th className="px-4 py-3 text-sm font-medium text-right">Trades</th>
+            <th className="px-4 py-3 text-sm font-medium text-right">Win Rate</th>
+            <th className="px-4 py-3 text-sm font-medium text-right">Expectancy</th>
+            <th className="px-4 py-3 text-sm font-medium text-right">P/L</th>
+          </tr>
+        </thead>
+        {TAG_CATEGORIES.map(category => {
+          const categoryRows = rows.filter(row => row.tag.category === category);
+          if (categoryRows.length === 0) return null;
+
+          return (
+            <tbody key={category}>
+              <tr>
+                <td colSpan={5} className="px-4 pt-4 pb-2 text-xs font-medium uppercase text-text-muted">
+                  {TAG_CATEGORY_LABELS[category]}
+                </td>
+              </tr>
+              {categoryRows.map(row => (
+                <tr key={row.key} className="border-b border-border hover:bg-background/50">
+                  <td className="px-4 py-3 text-sm">{row.tag.name}</td>
+                  <td className="px-4 py-3 text-sm text-right">{row.count}</td>
+                  <td className="px-4 py-3 text-sm text-right">{row.winRate.toFixed(1)}%</td>
+                  <td className={`px-4 py-3 text-sm text-right ${row.expectancy >= 0 ? 'text-success' : 'text-error'}`}>
+                    {formatMoney(row.expectancy, currency)}
+                  </td>
+                  <td className={`px-4 py-3 text-sm text-right font-medium ${row.pnl >= 0 ? 'text-success' : 'text-error'}`}>
+                    {formatMoney(row.pnl, currency)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          );
+        })}
+      </table>
+    </div>
+  );
+};
+
+export default TagPerformanceTable;
@@ -0,0 +1,79 @@
+import React from 'react';
+import { Chart } from 'react-chartjs-2';
+import {
+  Chart as ChartJS,
+  BarController,
+  BarElement,
+  CategoryScale,
+  LinearScale,
+  LineController,
+  LineElement,
+  PointElement,
+  Tooltip,
+  Legend,
+} from 'chart.js';
+import { GroupPerformance } from '../../lib/metrics';
+
+ChartJS.register(BarController, BarElement, CategoryScale, LinearScale, LineController, LineElement, PointElement, Tooltip, Legend);
+
+interface TimingPerformanceChartProps {
+  rows: GroupPerformance[];
+}
+
+const chartOptions = {
+  responsive: true,
+  maintainAspectRatio: false,
+  interaction: {
+    mode: 'index' as const,
+    intersect: false,
+  },
+  plugins: {
+    legend: {
+      position: 'top' as const,
+    },
+  },
+  scales: {
+    pnl: { type: 'linear' as const, position: 'left' as const },
+    winRate: {
+      type: 'linear' as const,
+      position: 'right' as const,
+      min: 0,
+      max: 100,
+      grid: { drawOnChartArea: false },
+    },
+  },
+};
+
+// P/L bars with the win rate of each bucket drawn over them
+const TimingPerformanceChart: React.FC<TimingPerformanceChartProps> = ({ rows }) => {
+  const data = {
+    labels: rows.map(row => row.key),
+    datasets: [
+      {
+        type: 'bar' as const,
+        label: 'Profit/Loss',
+        data: rows.map(row => row.pnl),
+        backgroundColor: rows.map(row =>
+          row.pnl >= 0 ? 'rgba(var(--color-success) / 0.7)' : 'rgba(var(--color-error) / 0.7)'
+        ),
+        yAxisID: 'pnl',
+        order: 2,
+      },
+      {
+        type: 'line' as const,
+        label: 'Win Rate (%)',
+        // Empty buckets leave a gap instead of a misleading 0%
+        data: rows.map(row => (row.count > 0 ? row.winRate : null)),
+        borderColor: 'rgb(var(--color-primary))',
+        backgroundColor: 'rgb(var(--color-primary))',
+        spanGaps: true,
+        yAxisID: 'winRate',
+        order: 1,
+      },
+    ],
+  };
+
+  return <Chart type="bar" data={data} options={chartOptions} />;
+};
+
+export default TimingPerformanceChart;
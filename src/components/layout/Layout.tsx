@@ -1,6 +1,8 @@
 import React from 'react';
+import { useLocation } from 'react-router-dom';
 import Navbar from './Navbar';
 import Sidebar from './Sidebar';
+import ErrorBoundary from '../ui/ErrorBoundary';
 
 interface LayoutProps {
   children: React.ReactNode;
@@ -8,22 +10,26 @@ interface LayoutProps {
 
 const Layout: React.FC<LayoutProps> = ({ children }) => {
   const [sidebarOpen, setSidebarOpen] = React.useState(false);
+  const location = useLocation();
 
   const toggleSidebar = () => {
     setSidebarOpen(!sidebarOpen);
   };
 
   return (
-    <div className="flex h-screen overflow-hidden">
+    <div className="flex h-screen overflow-hidden print:block print:h-auto print:overflow-visible">
       {/* Sidebar */}
       <Sidebar isOpen={sidebarOpen} toggleSidebar={toggleSidebar} />
       
       {/* Main content */}
-      <div className="flex flex-col flex-1 overflow-y-auto">
+      <div className="flex flex-col flex-1 overflow-y-auto print:overflow-visible">
         <Navbar toggleSidebar={toggleSidebar} />
-        <main className="flex-1 p-4 md:p-6 bg-background">
+        <main className="flex-1 p-4 md:p-6 bg-background print:p-0">
           <div className="mx-auto max-w-7xl animate-fade-in">
-            {children}
+            {/* Keyed by page so navigating away recovers from a crashed page */}
+            <ErrorBoundary key={location.pathname}>
+              {children}
+            </ErrorBoundary>
           </div>
         </main>
       </div>
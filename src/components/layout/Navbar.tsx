@@ -1,6 +1,11 @@
 import React from 'react';
-import { Menu, Moon, Sun } from 'lucide-react';
+import { LogOut, Menu, Moon, Sun } from 'lucide-react';
 import { useTheme } from '../../contexts/ThemeContext';
+import { useAuth } from '../../contexts/AuthContext';
+import { useSelectedAccount } from '../../contexts/AccountContext';
+import { useAccounts } from '../../hooks/useAccounts';
+import { useNotifications } from '../../contexts/NotificationContext';
+import SyncIndicator from './SyncIndicator';
 
 interface NavbarProps {
   toggleSidebar: () => void;
@@ -8,9 +13,22 @@ interface NavbarProps {
 
 const Navbar: React.FC<NavbarProps> = ({ toggleSidebar }) => {
   const { theme, toggleTheme } = useTheme();
+  const { user, signOut } = useAuth();
+  const { accounts } = useAccounts();
+  const { accountId, setAccountId, canCombineAccounts } = useSelectedAccount();
+  const { notifyError } = useNotifications();
+
+  const handleSignOut = async () => {
+    try {
+      await signOut();
+    } catch (error) {
+      console.error('Error signing out:', error);
+      notifyError(error, 'Failed to sign out. Please try again.');
+    }
+  };
 
   return (
-    <header className="sticky top-0 z-30 flex h-16 items-center gap-4 border-b border-border bg-foreground px-4 md:px-6">
+    <header className="sticky top-0 z-30 print:hidden flex h-16 items-center gap-4 border-b border-border bg-foreground px-4 md:px-6">
       <button
         onClick={toggleSidebar}
         className="inline-flex items-center justify-center rounded-md p-2 text-text hover:bg-background md:hidden"
@@ -24,6 +42,24 @@ const Navbar: React.FC<NavbarProps> = ({ toggleSidebar }) => {
       </div>
 
       <div className="flex items-center gap-4">
+        <SyncIndicator />
+
+        {accounts.length > 0 && (
+          <select
+            className="input h-9 w-auto max-w-[12rem] py-1 text-sm"
+            value={accountId ?? ''}
+            onChange={e => setAccountId(e.target.value || null)}
+            aria-label="Trading account"
+          >
+            <option value="" disabled={!canCombineAccounts}>
+              {canCombineAccounts ? 'All accounts' : 'All accounts (different currencies)'}
+            </option>
+            {accounts.map(account => (
+              <option key={account.id} value={account.id}>{account.name}</option>
+            ))}
+          </select>
+        )}
+
         <button
           onClick={toggleTheme}
           className="inline-flex items-center justify-center rounded-md p-2 text-text hover:bg-background"
@@ -35,6 +71,20 @@ const Navbar: React.FC<NavbarProps> = ({ toggleSidebar }) => {
             <Moon className="h-5 w-5" />
           )}
         </button>
+
+        {user && (
+          <div className="flex items-center gap-2">
+            <span className="hidden text-sm text-text-muted sm:inline">{user.email}</span>
+            <button
+              onClick={handleSignOut}
+              className="inline-flex items-center justify-center rounded-md p-2 text-text hover:bg-background"
+              aria-label="Sign out"
+              title="Sign out"
+            >
+              <LogOut className="h-5 w-5" />
+            </button>
+          </div>
+        )}
       </div>
     </header>
   );
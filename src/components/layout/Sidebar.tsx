@@ -3,10 +3,14 @@ import { Link, useLocation } from 'react-router-dom';
 import { 
   BarChart4, 
   BookText, 
+  CalendarDays,
   ChevronLeft, 
+  ClipboardCheck,
   Home, 
   ListFilter, 
-  Settings 
+  Settings,
+  Upload,
+  Wallet
 } from 'lucide-react';
 
 interface SidebarProps {
@@ -17,10 +21,18 @@ interface SidebarProps {
 const Sidebar: React.FC<SidebarProps> = ({ isOpen, toggleSidebar }) => {
   const location = useLocation();
 
+  // Nested routes such as /journal/:id keep their section highlighted
+  const isActive = (path: string) =>
+    path === '/' ? location.pathname === '/' : location.pathname.startsWith(path);
+
   const navItems = [
     { name: 'Dashboard', path: '/', icon: <Home className="w-5 h-5" /> },
     { name: 'Trade Journal', path: '/journal', icon: <BookText className="w-5 h-5" /> },
     { name: 'Trade History', path: '/history', icon: <ListFilter className="w-5 h-5" /> },
+    { name: 'Calendar', path: '/calendar', icon: <CalendarDays className="w-5 h-5" /> },
+    { name: 'Reviews', path: '/reviews', icon: <ClipboardCheck className="w-5 h-5" /> },
+    { name: 'Import', path: '/import', icon: <Upload className="w-5 h-5" /> },
+    { name: 'Ledger', path: '/ledger', icon: <Wallet className="w-5 h-5" /> },
     { name: 'Analytics', path: '/analytics', icon: <BarChart4 className="w-5 h-5" /> },
     { name: 'Settings', path: '/settings', icon: <Settings className="w-5 h-5" /> },
   ];
@@ -38,7 +50,7 @@ const Sidebar: React.FC<SidebarProps> = ({ isOpen, toggleSidebar }) => {
       
       {/* Sidebar */}
       <aside
-        className={`fixed top-0 left-0 z-50 h-full w-64 bg-foreground border-r border-border transform transition-transform duration-200 ease-in-out md:relative md:translate-x-0 ${
+        className={`fixed top-0 left-0 z-50 h-full w-64 bg-foreground border-r border-border transform transition-transform duration-200 ease-in-out md:relative md:translate-x-0 print:hidden ${
           isOpen ? 'translate-x-0' : '-translate-x-full'
         }`}
       >
@@ -64,7 +76,7 @@ const Sidebar: React.FC<SidebarProps> = ({ isOpen, toggleSidebar }) => {
               key={item.path}
               to={item.path}
               className={`flex items-center gap-3 rounded-md px-3 py-2 transition-colors ${
-                location.pathname === item.path
+                isActive(item.path)
                   ? 'bg-primary text-white'
                   : 'text-text hover:bg-background'
               }`}
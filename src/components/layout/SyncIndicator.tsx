@@ -0,0 +1,47 @@
+import React from 'react';
+import { format, parseISO } from 'date-fns';
+import { AlertTriangle, Cloud, CloudOff, RefreshCw } from 'lucide-react';
+import { useSyncStatus } from '../../hooks/useSyncStatus';
+
+const changes = (count: number) => `${count} ${count === 1 ? 'change' : 'changes'}`;
+
+// Shows whether trades journaled on this device have reached the server
+const SyncIndicator: React.FC = () => {
+  const { status, retryFailed } = useSyncStatus();
+  if (!status) return null;
+
+  const { state, pending, failed, lastSyncedAt, conflicts } = status;
+  const conflictFields = conflicts.reduce((count, conflict) => count + conflict.fields.length, 0);
+
+  const details = [
+    state === 'synced' && (lastSyncedAt ? `Synced at ${format(parseISO(lastSyncedAt), 'HH:mm')}` : 'All changes synced'),
+    state === 'syncing' && `Syncing ${changes(pending)}`,
+    state === 'offline' && (pending > 0 ? `Offline, ${changes(pending)} waiting to sync` : 'Offline, changes will sync when back online'),
+    failed > 0 && `${changes(failed)} rejected by the server`,
+    conflictFields > 0 && `${conflictFields} edited ${conflictFields === 1 ? 'field was' : 'fields were'} kept from a newer edit on another device`,
+  ].filter(Boolean).join('. ');
+
+  return (
+    <div className="flex items-center gap-2 text-sm" title={details} role="status" aria-label={details}>
+      {state === 'synced' && <Cloud className="h-5 w-5 text-success" />}
+      {state === 'syncing' && <RefreshCw className="h-5 w-5 animate-spin text-primary" />}
+      {state === 'offline' && <CloudOff className="h-5 w-5 text-warning" />}
+      {state === 'error' && <AlertTriangle className="h-5 w-5 text-error" />}
+
+      {state === 'offline' && pending > 0 && (
+        <span className="hidden text-text-muted sm:inline">{pending} pending</span>
+      )}
+      {state === 'error' && (
+        <button
+          type="button"
+          className="btn btn-outline px-2 py-1 text-xs"
+          onClick={retryFailed}
+        >
+          Retry sync
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default SyncIndicator;
@@ -0,0 +1,45 @@
+import React, { useState, useSyncExternalStore } from 'react';
+import { RefreshCw, X } from 'lucide-react';
+import { applyUpdate, isUpdateWaiting, subscribeToUpdate } from '../../lib/serviceWorker';
+
+// Offers to reload into a newly deployed version of the app
+const UpdatePrompt: React.FC = () => {
+  const updateWaiting = useSyncExternalStore(subscribeToUpdate, isUpdateWaiting);
+  const [dismissed, setDismissed] = useState(false);
+  const [updating, setUpdating] = useState(false);
+
+  if (!updateWaiting || dismissed) return null;
+
+  const handleUpdate = () => {
+    setUpdating(true);
+    applyUpdate();
+  };
+
+  return (
+    <div
+      className="fixed inset-x-4 bottom-4 z-50 mx-auto flex max-w-md items-center gap-3 rounded-lg border border-border bg-foreground p-4 shadow-lg print:hidden"
+      role="alert"
+    >
+      <p className="flex-1 text-sm">A new version of the journal is available.</p>
+      <button
+        type="button"
+        className="btn btn-primary px-3 py-1.5 gap-2 text-sm"
+        onClick={handleUpdate}
+        disabled={updating}
+      >
+        <RefreshCw className={`h-4 w-4 ${updating ? 'animate-spin' : ''}`} />
+        {updating ? 'Updating...' : 'Update'}
+      </button>
+      <button
+        type="button"
+        className="rounded-md p-1 text-text-muted hover:text-text"
+        onClick={() => setDismissed(true)}
+        aria-label="Dismiss update"
+      >
+        <X className="h-4 w-4" />
+      </button>
+    </div>
+  );
+};
+
+export default UpdatePrompt;
@@ -0,0 +1,212 @@
+import React, { useState } from 'react';
+import { Pencil, Plus, Trash2 } from 'lucide-react';
+import ConfirmDialog from '../ui/ConfirmDialog';
+import { Account, AccountValues, ACCOUNT_TYPES, ACCOUNT_TYPE_LABELS, AccountType } from '../../types/account';
+import { useAccounts } from '../../hooks/useAccounts';
+import { errorMessage } from '../../contexts/DataContext';
+import { useNotifications } from '../../contexts/NotificationContext';
+import { formatMoney } from '../../lib/money';
+
+const EMPTY_ACCOUNT: AccountValues = {
+  name: '',
+  broker: null,
+  currency: 'USD',
+  starting_balance: 10000,
+  type: 'live',
+};
+
+const AccountManager: React.FC = () => {
+  const { accounts, loading, createAccount, updateAccount, deleteAccount } = useAccounts();
+  // Id of the account being edited, 'new' while adding one
+  const [editing, setEditing] = useState<string | null>(null);
+  const [draft, setDraft] = useState<AccountValues>(EMPTY_ACCOUNT);
+  const [error, setError] = useState<string | null>(null);
+  const [deleting, setDeleting] = useState<Account | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const { notifyError } = useNotifications();
+
+  const startEditing = (account: Account | null) => {
+    setEditing(account ? account.id : 'new');
+    setDraft(account
+      ? {
+          name: account.name,
+          broker: account.broker,
+          currency: account.currency,
+          starting_balance: account.starting_balance,
+          type: account.type,
+        }
+      : EMPTY_ACCOUNT);
+    setError(null);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft.name.trim()) {
+      setError('Account name is required');
+      return;
+    }
+
+    setIsBusy(true);
+    setError(null);
+    try {
+      const values = { ...draft, broker: draft.broker?.trim() || null, currency: draft.currency.trim().toUpperCase() };
+      if (editing === 'new') await createAccount(values);
+      else if (editing) await updateAccount(editing, values);
+      setEditing(null);
+    } catch (error) {
+      console.error('Error saving account:', error);
+      setError(errorMessage(error, 'Failed to save account'));
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+
+    setIsBusy(true);
+    try {
+      await deleteAccount(deleting.id);
+    } catch (error) {
+      console.error('Error deleting account:', error);
+      notifyError(error, 'Failed to delete account. Please try again.');
+    } finally {
+      setIsBusy(false);
+      setDeleting(null);
+    }
+  };
+
+  if (loading) {
+    return <p className="text-sm text-text-muted">Loading accounts...</p>;
+  }
+
+  return (
+    <>
+      <div className="space-y-3">
+        {accounts.map(account => (
+          <div key={account.id} className="flex items-center justify-between gap-2 rounded-md border border-border px-3 py-2">
+            <div>
+              <p className="text-sm font-medium">{account.name}</p>
+              <p className="text-xs text-text-muted">
+                {ACCOUNT_TYPE_LABELS[account.type]}
+                {account.broker && ` · ${account.broker}`}
+                {` · ${formatMoney(account.starting_balance, account.currency)}`}
+              </p>
+            </div>
+            <div className="flex gap-1">
+              <button
+                type="button"
+                className="rounded-md p-1 text-text-muted hover:text-text"
+                onClick={() => startEditing(account)}
+                aria-label={`Edit account ${account.name}`}
+              >
+                <Pencil className="h-4 w-4" />
+              </button>
+              <button
+                type="button"
+                className="rounded-md p-1 text-text-muted hover:text-error"
+                onClick={() => setDeleting(account)}
+                aria-label={`Delete account ${account.name}`}
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </div>
+          </div>
+        ))}
+        {accounts.length === 0 && (
+          <p className="text-xs text-text-muted">No accounts yet. Trades are shown together until you add one.</p>
+        )}
+
+        {editing ? (
+          <form onSubmit={handleSave} className="space-y-3 rounded-md border border-border p-3">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="col-span-2">
+                <label htmlFor="account-name" className="block text-sm font-medium mb-1">Name</label>
+                <input
+                  id="account-name"
+                  className="input"
+                  value={draft.name}
+                  onChange={e => setDraft(prev => ({ ...prev, name: e.target.value }))}
+                />
+              </div>
+              <div>
+                <label htmlFor="account-broker" className="block text-sm font-medium mb-1">Broker</label>
+                <input
+                  id="account-broker"
+                  className="input"
+                  value={draft.broker ?? ''}
+                  onChange={e => setDraft(prev => ({ ...prev, broker: e.target.value }))}
+                />
+              </div>
+              <div>
+                <label htmlFor="account-type" className="block text-sm font-medium mb-1">Type</label>
+                <select
+                  id="account-type"
+                  className="input"
+                  value={draft.type}
+                  onChange={e => setDraft(prev => ({ ...prev, type: e.target.value as AccountType }))}
+                >
+                  {ACCOUNT_TYPES.map(type => (
+                    <option key={type} value={type}>{ACCOUNT_TYPE_LABELS[type]}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label htmlFor="account-currency" className="block text-sm font-medium mb-1">Currency</label>
+                <input
+                  id="account-currency"
+                  className="input"
+                  maxLength={3}
+                  value={draft.currency}
+                  onChange={e => setDraft(prev => ({ ...prev, currency: e.target.value }))}
+                />
+              </div>
+              <div>
+                <label htmlFor="account-starting-balance" className="block text-sm font-medium mb-1">Starting Balance</label>
+                <input
+                  type="number"
+                  id="account-starting-balance"
+                  className="input"
+                  min="0"
+                  step="100"
+                  value={draft.starting_balance}
+                  onChange={e => {
+                    const value = parseFloat(e.target.value);
+                    if (!isNaN(value) && value >= 0) setDraft(prev => ({ ...prev, starting_balance: value }));
+                  }}
+                />
+              </div>
+            </div>
+            {error && <p className="text-error text-xs">{error}</p>}
+            <div className="flex gap-2">
+              <button type="submit" className="btn btn-primary px-3 py-1.5 text-sm" disabled={isBusy}>
+                {isBusy ? 'Saving...' : 'Save Account'}
+              </button>
+              <button type="button" className="btn btn-outline px-3 py-1.5 text-sm" onClick={() => setEditing(null)}>
+                Cancel
+              </button>
+            </div>
+          </form>
+        ) : (
+          <button type="button" className="btn btn-outline px-3 py-1.5 gap-2 text-sm" onClick={() => startEditing(null)}>
+            <Plus className="h-4 w-4" />
+            Add Account
+          </button>
+        )}
+      </div>
+
+      <ConfirmDialog
+        title="Delete account?"
+        message={`"${deleting?.name}" will be removed. Its trades stay in the journal without an account.`}
+        confirmLabel="Delete"
+        destructive
+        isOpen={deleting !== null}
+        isBusy={isBusy}
+        onConfirm={handleDelete}
+        onCancel={() => setDeleting(null)}
+      />
+    </>
+  );
+};
+
+export default AccountManager;
@@ -0,0 +1,213 @@
+import React, { useState } from 'react';
+import { Pencil, Plus, Trash2 } from 'lucide-react';
+import ConfirmDialog from '../ui/ConfirmDialog';
+import {
+  PLAN_RULE_CHECKS,
+  PLAN_RULE_CHECK_LABELS,
+  PlanRule,
+  PlanRuleCheck,
+  PlanRuleValues,
+  THRESHOLD_CHECKS,
+} from '../../types/plan';
+import { usePlanRules } from '../../hooks/usePlanRules';
+import { errorMessage } from '../../contexts/DataContext';
+import { useNotifications } from '../../contexts/NotificationContext';
+
+const EMPTY_RULE: PlanRuleValues = {
+  name: '',
+  check: 'manual',
+  threshold: null,
+};
+
+// Starting values for the threshold checks
+const DEFAULT_THRESHOLDS: Partial<Record<PlanRuleCheck, number>> = {
+  min_risk_reward: 2,
+  max_risk_percent: 2,
+};
+
+const describeCheck = (rule: PlanRule) =>
+  THRESHOLD_CHECKS.includes(rule.check)
+    ? `${PLAN_RULE_CHECK_LABELS[rule.check]} ${rule.threshold}`
+    : PLAN_RULE_CHECK_LABELS[rule.check];
+
+const PlanRuleManager: React.FC = () => {
+  const { rules, loading, createRule, updateRule, deleteRule } = usePlanRules();
+  // Id of the rule being edited, 'new' while adding one
+  const [editing, setEditing] = useState<string | null>(null);
+  const [draft, setDraft] = useState<PlanRuleValues>(EMPTY_RULE);
+  const [error, setError] = useState<string | null>(null);
+  const [deleting, setDeleting] = useState<PlanRule | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const { notifyError } = useNotifications();
+
+  const needsThreshold = THRESHOLD_CHECKS.includes(draft.check);
+
+  const startEditing = (rule: PlanRule | null) => {
+    setEditing(rule ? rule.id : 'new');
+    setDraft(rule ? { name: rule.name, check: rule.check, threshold: rule.threshold } : EMPTY_RULE);
+    setError(null);
+  };
+
+  const handleCheckChange = (check: PlanRuleCheck) => {
+    setDraft(prev => ({ ...prev, check, threshold: DEFAULT_THRESHOLDS[check] ?? null }));
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft.name.trim()) {
+      setError('Rule name is required');
+      return;
+    }
+    if (needsThreshold && !(draft.threshold !== null && draft.threshold > 0)) {
+      setError('Enter a value greater than 0');
+      return;
+    }
+
+    setIsBusy(true);
+    setError(null);
+    try {
+      const values = { ...draft, name: draft.name.trim(), threshold: needsThreshold ? draft.threshold : null };
+      if (editing === 'new') await createRule(values);
+      else if (editing) await updateRule(editing, values);
+      setEditing(null);
+    } catch (error) {
+      console.error('Error saving plan rule:', error);
+      setError(errorMessage(error, 'Failed to save rule'));
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+
+    setIsBusy(true);
+    try {
+      await deleteRule(deleting.id);
+    } catch (error) {
+      console.error('Error deleting plan rule:', error);
+      notifyError(error, 'Failed to delete rule. Please try again.');
+    } finally {
+      setIsBusy(false);
+      setDeleting(null);
+    }
+  };
+
+  if (loading) {
+    return <p className="text-sm text-text-muted">Loading trading plan...</p>;
+  }
+
+  return (
+    <>
+      <div className="space-y-3">
+        {rules.map(rule => (
+          <div key={rule.id} className="flex items-center justify-between gap-2 rounded-md border border-border px-3 py-2">
+            <div>
+              <p className="text-sm font-medium">{rule.name}</p>
+              <p className="text-xs text-text-muted">{describeCheck(rule)}</p>
+            </div>
+            <div className="flex gap-1">
+              <button
+                type="button"
+                className="rounded-md p-1 text-text-muted hover:text-text"
+                onClick={() => startEditing(rule)}
+                aria-label={`Edit rule ${rule.name}`}
+              >
+                <Pencil className="h-4 w-4" />
+              </button>
+              <button
+                type="button"
+                className="rounded-md p-1 text-text-muted hover:text-error"
+                onClick={() => setDeleting(rule)}
+                aria-label={`Delete rule ${rule.name}`}
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </div>
+          </div>
+        ))}
+        {rules.length === 0 && (
+          <p className="text-xs text-text-muted">
+            No rules yet. Rules show up as a checklist when you journal a trade.
+          </p>
+        )}
+
+        {editing ? (
+          <form onSubmit={handleSave} className="space-y-3 rounded-md border border-border p-3">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="col-span-2">
+                <label htmlFor="rule-name" className="block text-sm font-medium mb-1">Rule</label>
+                <input
+                  id="rule-name"
+                  className="input"
+                  placeholder="H4 trend aligned"
+                  value={draft.name}
+                  onChange={e => setDraft(prev => ({ ...prev, name: e.target.value }))}
+                />
+              </div>
+              <div className={needsThreshold ? '' : 'col-span-2'}>
+                <label htmlFor="rule-check" className="block text-sm font-medium mb-1">Checked</label>
+                <select
+                  id="rule-check"
+                  className="input"
+                  value={draft.check}
+                  onChange={e => handleCheckChange(e.target.value as PlanRuleCheck)}
+                >
+                  {PLAN_RULE_CHECKS.map(check => (
+                    <option key={check} value={check}>{PLAN_RULE_CHECK_LABELS[check]}</option>
+                  ))}
+                </select>
+              </div>
+              {needsThreshold && (
+                <div>
+                  <label htmlFor="rule-threshold" className="block text-sm font-medium mb-1">
+                    {draft.check === 'min_risk_reward' ? 'Minimum R:R' : 'Maximum risk %'}
+                  </label>
+                  <input
+                    type="number"
+                    id="rule-threshold"
+                    className="input"
+                    min="0"
+                    step="0.1"
+                    value={draft.threshold ?? ''}
+                    onChange={e => {
+                      const value = parseFloat(e.target.value);
+                      setDraft(prev => ({ ...prev, threshold: isNaN(value) ? null : value }));
+                    }}
+                  />
+                </div>
+              )}
+            </div>
+            {error && <p className="text-error text-xs">{error}</p>}
+            <div className="flex gap-2">
+              <button type="submit" className="btn btn-primary px-3 py-1.5 text-sm" disabled={isBusy}>
+                {isBusy ? 'Saving...' : 'Save Rule'}
+              </button>
+              <button type="button" className="btn btn-outline px-3 py-1.5 text-sm" onClick={() => setEditing(null)}>
+                Cancel
+              </button>
+            </div>
+          </form>
+        ) : (
+          <button type="button" className="btn btn-outline px-3 py-1.5 gap-2 text-sm" onClick={() => startEditing(null)}>
+            <Plus className="h-4 w-4" />
+            Add Rule
+          </button>
+        )}
+      </div>
+
+      <ConfirmDialog
+        title="Delete rule?"
+        message={`"${deleting?.name}" will be removed from the checklist. Trades keep the result recorded for it.`}
+        confirmLabel="Delete"
+        destructive
+        isOpen={deleting !== null}
+        isBusy={isBusy}
+        onConfirm={handleDelete}
+        onCancel={() => setDeleting(null)}
+      />
+    </>
+  );
+};
+
+export default PlanRuleManager;
@@ -0,0 +1,83 @@
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+import ConfirmDialog from '../ui/ConfirmDialog';
+import { Tag, TAG_CATEGORIES, TAG_CATEGORY_LABELS } from '../../types/tag';
+import { useTags } from '../../hooks/useTags';
+import { useNotifications } from '../../contexts/NotificationContext';
+
+const TagManager: React.FC = () => {
+  const { tags, loading, deleteTag } = useTags();
+  const [deleting, setDeleting] = useState<Tag | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const { notifyError } = useNotifications();
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+
+    setIsBusy(true);
+    try {
+      await deleteTag(deleting.id);
+    } catch (error) {
+      console.error('Error deleting tag:', error);
+      notifyError(error, 'Failed to delete tag. Please try again.');
+    } finally {
+      setIsBusy(false);
+      setDeleting(null);
+    }
+  };
+
+  if (loading) {
+    return <p className="text-sm text-text-muted">Loading tags...</p>;
+  }
+
+  return (
+    <>
+      <div className="space-y-4">
+        {TAG_CATEGORIES.map(category => {
+          const categoryTags = tags.filter(tag => tag.category === category);
+
+          return (
+            <div key={category}>
+              <p className="text-sm font-medium mb-2">{TAG_CATEGORY_LABELS[category]}</p>
+              {categoryTags.length > 0 ? (
+                <div className="flex flex-wrap gap-2">
+                  {categoryTags.map(tag => (
+                    <span
+                      key={tag.id}
+                      className="inline-flex items-center gap-1 px-2 py-1 rounded-md text-xs font-medium border border-border"
+                    >
+                      {tag.name}
+                      <button
+                        type="button"
+                        className="text-text-muted hover:text-error"
+                        onClick={() => setDeleting(tag)}
+                        aria-label={`Delete tag ${tag.name}`}
+                      >
+                        <X className="h-3 w-3" />
+                      </button>
+                    </span>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-xs text-text-muted">No tags yet. Add them while journaling a trade.</p>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <ConfirmDialog
+        title="Delete tag?"
+        message={`"${deleting?.name}" will be removed from every trade it is attached to.`}
+        confirmLabel="Delete"
+        destructive
+        isOpen={deleting !== null}
+        isBusy={isBusy}
+        onConfirm={handleDelete}
+        onCancel={() => setDeleting(null)}
+      />
+    </>
+  );
+};
+
+export default TagManager;
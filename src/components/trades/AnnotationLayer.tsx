@@ -0,0 +1,100 @@
+import React from 'react';
+import { Annotation } from '../../types/screenshot';
+
+interface AnnotationLayerProps {
+  annotations: Annotation[];
+  // Natural size of the image, so strokes keep their proportions
+  width: number;
+  height: number;
+  className?: string;
+  onPointerDown?: (e: React.PointerEvent<SVGSVGElement>) => void;
+  onPointerMove?: (e: React.PointerEvent<SVGSVGElement>) => void;
+  onPointerUp?: (e: React.PointerEvent<SVGSVGElement>) => void;
+}
+
+const AnnotationShape: React.FC<{ annotation: Annotation; width: number; height: number }> = ({
+  annotation,
+  width,
+  height,
+}) => {
+  const stroke = Math.max(width, height) * 0.003;
+  const x1 = annotation.x1 * width;
+  const y1 = annotation.y1 * height;
+  const x2 = annotation.x2 * width;
+  const y2 = annotation.y2 * height;
+  const common = { stroke: annotation.color, strokeWidth: stroke, fill: 'none', strokeLinecap: 'round' as const };
+
+  switch (annotation.tool) {
+    case 'line':
+      return <line x1={x1} y1={y1} x2={x2} y2={y2} {...common} />;
+
+    case 'arrow': {
+      // Head drawn at the end point, pointing along the line
+      const angle = Math.atan2(y2 - y1, x2 - x1);
+      const size = stroke * 5;
+      const head = [angle - Math.PI / 7, angle + Math.PI / 7]
+        .map(side => `${x2 - size * Math.cos(side)},${y2 - size * Math.sin(side)}`)
+        .join(' ');
+      return (
+        <g>
+          <line x1={x1} y1={y1} x2={x2} y2={y2} {...common} />
+          <polygon points={`${x2},${y2} ${head}`} fill={annotation.color} />
+        </g>
+      );
+    }
+
+    case 'box':
+      return (
+        <rect
+          x={Math.min(x1, x2)}
+          y={Math.min(y1, y2)}
+          width={Math.abs(x2 - x1)}
+          height={Math.abs(y2 - y1)}
+          {...common}
+        />
+      );
+
+    case 'text':
+      return (
+        <text
+          x={x1}
+          y={y1}
+          fill={annotation.color}
+          fontSize={Math.max(width, height) * 0.025}
+          fontWeight={600}
+          dominantBaseline="hanging"
+          stroke="rgba(0, 0, 0, 0.6)"
+          strokeWidth={stroke / 2}
+          paintOrder="stroke"
+        >
+          {annotation.text}
+        </text>
+      );
+  }
+};
+
+// Drawings over a screenshot; sized by the image it covers
+const AnnotationLayer: React.FC<AnnotationLayerProps> = ({
+  annotations,
+  width,
+  height,
+  className = '',
+  onPointerDown,
+  onPointerMove,
+  onPointerUp,
+}) => (
+  <svg
+    viewBox={`0 0 ${width} ${height}`}
+    preserveAspectRatio="none"
+    className={`absolute inset-0 h-full w-full ${className}`}
+    onPointerDown={onPointerDown}
+    onPointerMove={onPointerMove}
+    onPointerUp={onPointerUp}
+  >
+    {annotations.map((annotation, index) => (
+      <AnnotationShape key={index} annotation={annotation} width={width} height={height} />
+    ))}
+  </svg>
+);
+
+export default AnnotationLayer;
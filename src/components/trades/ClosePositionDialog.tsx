@@ -0,0 +1,151 @@
+import React, { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import Modal from '../ui/Modal';
+import { Trade } from '../../types/trade';
+import { useSaveTrade } from '../../hooks/useTrades';
+import { errorMessage } from '../../contexts/DataContext';
+import { useSelectedAccount } from '../../contexts/AccountContext';
+import { calculatePnl, summarizeExecutions } from '../../lib/pnl';
+import { tradeExecutions } from '../../lib/executions';
+import { formatMoney } from '../../lib/money';
+
+interface ClosePositionDialogProps {
+  trade: Trade | null;
+  onClose: () => void;
+  onClosed: () => void;
+}
+
+const now = () => format(new Date(), "yyyy-MM-dd'T'HH:mm");
+
+const ClosePositionDialog: React.FC<ClosePositionDialogProps> = ({ trade, onClose, onClosed }) => {
+  const { closeTrade, saving } = useSaveTrade();
+  const { tradePnlOptions } = useSelectedAccount();
+  const [exitPrice, setExitPrice] = useState('');
+  const [exitTime, setExitTime] = useState(now());
+  const [lots, setLots] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const pnlOptions = trade ? tradePnlOptions(trade) : undefined;
+  const position = trade ? summarizeExecutions(trade, tradeExecutions(trade), pnlOptions) : null;
+  // Trades recorded without a size can only be closed in full
+  const openSize = position && position.entrySize > 0 ? position.remainingSize : null;
+
+  // Start from a clean form every time a different trade is opened
+  useEffect(() => {
+    setExitPrice('');
+    setExitTime(now());
+    setLots(openSize !== null ? String(openSize) : '');
+    setError(null);
+  }, [trade, openSize]);
+
+  if (!trade) return null;
+
+  const price = parseFloat(exitPrice);
+  const validPrice = Number.isFinite(price) && price > 0;
+  const size = openSize !== null ? parseFloat(lots) : null;
+  const validSize = size === null || (Number.isFinite(size) && size >= 0.01 && size <= openSize! + 0.0001);
+  const entryPrice = position?.openAverageEntry ?? trade.entry_price;
+  const projectedPnl = validPrice && validSize
+    ? calculatePnl({ ...trade, entry_price: entryPrice, lot_size: size ?? trade.lot_size }, price, pnlOptions)
+    : null;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!validPrice) {
+      setError('Exit price must be a positive number');
+      return;
+    }
+    if (!validSize) {
+      setError(`Lots to close must be between 0.01 and ${openSize}`);
+      return;
+    }
+    if (new Date(exitTime) < new Date(trade.entry_date)) {
+      setError('Exit time cannot be before the entry time');
+      return;
+    }
+
+    try {
+      await closeTrade(trade, price, exitTime, size ?? undefined, pnlOptions);
+      onClosed();
+    } catch (error) {
+      console.error('Error closing trade:', error);
+      setError(errorMessage(error, 'Failed to close position. Please try again.'));
+    }
+  };
+
+  return (
+    <Modal title={`Close ${trade.type} ${trade.pair}`} isOpen onClose={onClose}>
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <p className="text-sm text-text-muted">
+          Entered at {parseFloat(entryPrice.toFixed(5))} on {new Date(trade.entry_date).toLocaleDateString()}
+          {openSize !== null && ` · ${openSize} lots open`}
+        </p>
+
+        <div>
+          <label htmlFor="close-exit-price" className="block text-sm font-medium mb-1">Exit Price</label>
+          <input
+            type="number"
+            id="close-exit-price"
+            step="0.00001"
+            className="input"
+            value={exitPrice}
+            onChange={(e) => setExitPrice(e.target.value)}
+            autoFocus
+          />
+        </div>
+
+        {openSize !== null && (
+          <div>
+            <label htmlFor="close-lots" className="block text-sm font-medium mb-1">Lots to Close</label>
+            <input
+              type="number"
+              id="close-lots"
+              step="0.01"
+              min="0.01"
+              max={openSize}
+              className="input"
+              value={lots}
+              onChange={(e) => setLots(e.target.value)}
+            />
+            <p className="text-xs text-text-muted mt-1">Close fewer lots to take a partial profit; the rest stays open.</p>
+          </div>
+        )}
+
+        <div>
+          <label htmlFor="close-exit-time" className="block text-sm font-medium mb-1">Exit Time</label>
+          <input
+            type="datetime-local"
+            id="close-exit-time"
+            className="input"
+            value={exitTime}
+            onChange={(e) => setExitTime(e.target.value)}
+          />
+        </div>
+
+        {projectedPnl !== null && (
+          <p className="text-sm">
+            Resulting P/L:{' '}
+            <span className={`font-medium ${projectedPnl.priceMove >= 0 ? 'text-success' : 'text-error'}`}>
+              {projectedPnl.amount !== null && `${formatMoney(projectedPnl.amount, pnlOptions?.accountCurrency)} · `}
+              {projectedPnl.pips.toFixed(1)} pips
+              {projectedPnl.rMultiple !== null && ` · ${projectedPnl.rMultiple.toFixed(2)}R`}
+            </span>
+          </p>
+        )}
+
+        {error && <p className="text-error text-xs">{error}</p>}
+
+        <div className="flex justify-end gap-2">
+          <button type="button" className="btn btn-outline px-4 py-2" onClick={onClose}>
+            Cancel
+          </button>
+          <button type="submit" className="btn btn-primary px-4 py-2" disabled={saving}>
+            {saving ? 'Closing...' : size !== null && openSize !== null && size < openSize ? 'Close Partially' : 'Close Position'}
+          </button>
+        </div>
+      </form>
+    </Modal>
+  );
+};
+
+export default ClosePositionDialog;
@@ -0,0 +1,187 @@
+import React from 'react';
+import { Plus, X } from 'lucide-react';
+import { CurrencyPair, Execution, TradeType } from '../../types/trade';
+import { PnlOptions, summarizeExecutions } from '../../lib/pnl';
+import { oppositeSide } from '../../lib/executions';
+import { formatMoney } from '../../lib/money';
+
+interface ExecutionListProps {
+  value: Execution[];
+  onChange: (executions: Execution[]) => void;
+  pair: CurrencyPair;
+  tradeType: TradeType;
+  stopLoss: number;
+  // Fills describing the current entry and exit fields, used to start the list
+  initialExecutions: () => Execution[];
+  // Currency of the trade's account, for the realised amounts
+  pnlOptions?: PnlOptions;
+  error?: string;
+}
+
+// Editable fills of a trade that was scaled into or closed in parts
+const ExecutionList: React.FC<ExecutionListProps> = ({
+  value,
+  onChange,
+  pair,
+  tradeType,
+  stopLoss,
+  initialExecutions,
+  pnlOptions,
+  error,
+}) => {
+  const position = summarizeExecutions({ pair, type: tradeType, stop_loss: stopLoss }, value, pnlOptions);
+
+  const update = (index: number, changes: Partial<Execution>) => {
+    onChange(value.map((execution, i) => (i === index ? { ...execution, ...changes } : execution)));
+  };
+
+  const add = (side: TradeType) => {
+    const last = value[value.length - 1];
+    onChange([
+      ...value,
+      {
+        side,
+        price: last?.price ?? 0,
+        lot_size: side === tradeType ? last?.lot_size ?? 0.01 : position.remainingSize || 0.01,
+        executed_at: last?.executed_at ?? '',
+      },
+    ]);
+  };
+
+  const parseNumber = (raw: string) => (raw === '' ? 0 : parseFloat(raw));
+
+  if (value.length === 0) {
+    return (
+      <div className="flex flex-wrap items-center gap-3">
+        <button type="button" className="btn btn-outline px-3 py-1.5 gap-2 text-sm" onClick={() => onChange(initialExecutions())}>
+          <Plus className="h-4 w-4" />
+          Track Executions
+        </button>
+        <p className="text-xs text-text-muted">
+          Record scale-ins and partial closes (TP1, TP2, ...) as separate fills.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="overflow-x-auto">
+        <table className="w-full">
+          <thead>
+            <tr className="border-b border-border text-left">
+              <th className="px-2 py-2 text-sm font-medium">Side</th>
+              <th className="px-2 py-2 text-sm font-medium">Price</th>
+              <th className="px-2 py-2 text-sm font-medium">Lots</th>
+              <th className="px-2 py-2 text-sm font-medium">Time</th>
+              <th className="px-2 py-2 text-sm font-medium text-right">Realised</th>
+              <th className="px-2 py-2"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {value.map((execution, index) => {
+              const partial = position.partials.find(p => p.execution === execution);
+              return (
+                <tr key={index} className="border-b border-border">
+                  <td className="px-2 py-2">
+                    <select
+                      className="input h-8 py-1 text-sm"
+                      value={execution.side}
+                      onChange={e => update(index, { side: e.target.value as TradeType })}
+                      aria-label="Side"
+                    >
+                      <option value={tradeType}>{tradeType} (add)</option>
+                      <option value={oppositeSide(tradeType)}>{oppositeSide(tradeType)} (reduce)</option>
+                    </select>
+                  </td>
+                  <td className="px-2 py-2">
+                    <input
+                      type="number"
+                      step="0.00001"
+                      className="input h-8 py-1 text-sm"
+                      value={execution.price || ''}
+                      onChange={e => update(index, { price: parseNumber(e.target.value) })}
+                      aria-label="Price"
+                    />
+                  </td>
+                  <td className="px-2 py-2">
+                    <input
+                      type="number"
+                      step="0.01"
+                      min="0.01"
+                      className="input h-8 py-1 text-sm w-24"
+                      value={execution.lot_size || ''}
+                      onChange={e => update(index, { lot_size: parseNumber(e.target.value) })}
+                      aria-label="Lots"
+                    />
+                  </td>
+                  <td className="px-2 py-2">
+                    <input
+                      type="datetime-local"
+                      className="input h-8 py-1 text-sm"
+                      value={execution.executed_at}
+                      onChange={e => update(index, { executed_at: e.target.value })}
+                      aria-label="Time"
+                    />
+                  </td>
+                  <td className={`px-2 py-2 text-sm text-right ${partial ? (partial.amount >= 0 ? 'text-success' : 'text-error') : 'text-text-muted'}`}>
+                    {partial ? `${formatMoney(partial.amount, pnlOptions?.accountCurrency)} · ${partial.pips.toFixed(1)} pips` : '—'}
+                  </td>
+                  <td className="px-2 py-2 text-right">
+                    <button
+                      type="button"
+                      className="text-text-muted hover:text-error"
+                      onClick={() => onChange(value.filter((_, i) => i !== index))}
+                      aria-label="Remove execution"
+                    >
+                      <X className="h-4 w-4" />
+                    </button>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <button type="button" className="btn btn-outline px-3 py-1.5 gap-2 text-sm" onClick={() => add(tradeType)}>
+          <Plus className="h-4 w-4" />
+          Scale In
+        </button>
+        <button type="button" className="btn btn-outline px-3 py-1.5 gap-2 text-sm" onClick={() => add(oppositeSide(tradeType))}>
+          <Plus className="h-4 w-4" />
+          Partial Close
+        </button>
+      </div>
+
+      <div className="grid gap-4 grid-cols-2 md:grid-cols-4 text-sm">
+        <div>
+          <p className="text-text-muted">Average Entry</p>
+          <p className="font-medium">{position.averageEntry !== null ? position.averageEntry.toFixed(5) : '—'}</p>
+        </div>
+        <div>
+          <p className="text-text-muted">Remaining</p>
+          <p className="font-medium">{position.remainingSize.toFixed(2)} lots</p>
+        </div>
+        <div>
+          <p className="text-text-muted">Realised P/L</p>
+          <p className={`font-medium ${position.realisedPnl >= 0 ? 'text-success' : 'text-error'}`}>
+            {formatMoney(position.realisedPnl, pnlOptions?.accountCurrency)}
+          </p>
+        </div>
+        <div>
+          <p className="text-text-muted">R Multiple</p>
+          <p className="font-medium">{position.rMultiple !== null ? `${position.rMultiple.toFixed(2)}R` : '—'}</p>
+        </div>
+      </div>
+
+      <p className="text-xs text-text-muted">
+        Entry price, lot size and exit are calculated from these fills.
+      </p>
+      {error && <p className="text-error text-xs">{error}</p>}
+    </div>
+  );
+};
+
+export default ExecutionList;
@@ -0,0 +1,35 @@
+import React from 'react';
+import { Download } from 'lucide-react';
+import { ExportFormat } from '../../lib/tradeExport';
+
+interface ExportButtonsProps {
+  onExport: (format: ExportFormat) => void;
+  disabled?: boolean;
+}
+
+const ExportButtons: React.FC<ExportButtonsProps> = ({ onExport, disabled = false }) => {
+  return (
+    <div className="flex gap-2">
+      <button
+        type="button"
+        className="btn btn-outline px-3 py-1.5 gap-2 text-sm"
+        disabled={disabled}
+        onClick={() => onExport('csv')}
+      >
+        <Download className="h-4 w-4" />
+        CSV
+      </button>
+      <button
+        type="button"
+        className="btn btn-outline px-3 py-1.5 gap-2 text-sm"
+        disabled={disabled}
+        onClick={() => onExport('json')}
+      >
+        <Download className="h-4 w-4" />
+        JSON
+      </button>
+    </div>
+  );
+};
+
+export default ExportButtons;
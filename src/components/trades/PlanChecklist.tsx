@@ -0,0 +1,86 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { CheckCircle2, Circle, XCircle } from 'lucide-react';
+import { PlanCheck, PlanRule } from '../../types/plan';
+import { PlanInput, evaluateRule } from '../../lib/plan';
+import { PnlOptions } from '../../lib/pnl';
+
+interface PlanChecklistProps {
+  rules: PlanRule[];
+  // Checks recorded so far; only the hand-ticked rules are read from it
+  value: PlanCheck[];
+  onChange: (checks: PlanCheck[]) => void;
+  trade: PlanInput;
+  // Balance and currency of the trade's account, for the risk rule
+  accountBalance: number;
+  pnlOptions: PnlOptions;
+}
+
+const thresholdText = (rule: PlanRule) => {
+  if (rule.check === 'min_risk_reward') return `R:R of at least 1:${rule.threshold}`;
+  if (rule.check === 'max_risk_percent') return `Risk of at most ${rule.threshold}% of the balance`;
+  if (rule.check === 'with_sentiment') return 'Not against the market sentiment';
+  return null;
+};
+
+// The trading plan as a pre-trade checklist. Rules the form can judge are
+// ticked as the trade is filled in; the rest are ticked by hand.
+const PlanChecklist: React.FC<PlanChecklistProps> = ({ rules, value, onChange, trade, accountBalance, pnlOptions }) => {
+  if (rules.length === 0) {
+    return (
+      <p className="text-xs text-text-muted">
+        No trading plan yet. <Link to="/settings" className="text-primary hover:underline">Add checklist rules in Settings</Link>.
+      </p>
+    );
+  }
+
+  const results = rules.map(rule => ({
+    rule,
+    met: rule.check === 'manual'
+      ? value.some(check => check.rule_id === rule.id && check.met)
+      : evaluateRule(rule, trade, accountBalance, pnlOptions),
+  }));
+  const metCount = results.filter(result => result.met).length;
+
+  const toggle = (rule: PlanRule, met: boolean) => {
+    onChange([...value.filter(check => check.rule_id !== rule.id), { rule_id: rule.id, name: rule.name, met }]);
+  };
+
+  return (
+    <div className="space-y-2">
+      {results.map(({ rule, met }) => (
+        <div key={rule.id} className="flex items-start gap-2">
+          {rule.check === 'manual' ? (
+            <input
+              type="checkbox"
+              id={`plan-rule-${rule.id}`}
+              className="mt-0.5"
+              checked={met === true}
+              onChange={e => toggle(rule, e.target.checked)}
+            />
+          ) : met === null ? (
+            <Circle className="h-4 w-4 mt-0.5 text-text-muted" />
+          ) : met ? (
+            <CheckCircle2 className="h-4 w-4 mt-0.5 text-success" />
+          ) : (
+            <XCircle className="h-4 w-4 mt-0.5 text-error" />
+          )}
+          <label htmlFor={`plan-rule-${rule.id}`} className="text-sm">
+            {rule.name}
+            {rule.check !== 'manual' && (
+              <span className="block text-xs text-text-muted">
+                {met === null ? 'Checked once the trade is filled in' : `Checked automatically · ${thresholdText(rule)}`}
+              </span>
+            )}
+          </label>
+        </div>
+      ))}
+
+      <p className={`text-xs font-medium ${metCount === rules.length ? 'text-success' : 'text-warning'}`}>
+        {metCount} of {rules.length} rules met
+      </p>
+    </div>
+  );
+};
+
+export default PlanChecklist;
@@ -0,0 +1,112 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { AlertCircle } from 'lucide-react';
+import { CurrencyPair } from '../../types/trade';
+import { UserSettings } from '../../types/settings';
+import { PositionSize, moneyAtRisk, riskPercentOfBalance } from '../../lib/positionSize';
+import { PnlOptions } from '../../lib/pnl';
+import { formatMoney } from '../../lib/money';
+
+interface PositionSizePanelProps {
+  pair: CurrencyPair;
+  entryPrice: number;
+  stopLoss: number;
+  lotSize: number;
+  settings: UserSettings;
+  // Balance of the trade's account, which the risk percentage applies to
+  accountBalance: number;
+  sizing: PositionSize | null;
+  // Risk is measured and shown in the currency of the trade's account
+  pnlOptions: PnlOptions;
+  onUseSuggested: (lotSize: number) => void;
+}
+
+const PositionSizePanel: React.FC<PositionSizePanelProps> = ({
+  pair,
+  entryPrice,
+  stopLoss,
+  lotSize,
+  settings,
+  accountBalance,
+  sizing,
+  pnlOptions,
+  onUseSuggested,
+}) => {
+  const currency = pnlOptions.accountCurrency;
+  const actualRisk = sizing && lotSize > 0
+    ? moneyAtRisk(pair, entryPrice, stopLoss, lotSize, pnlOptions)
+    : null;
+  const actualRiskPercent = actualRisk !== null
+    ? riskPercentOfBalance(actualRisk, accountBalance)
+    : null;
+  const overRisk = sizing !== null && actualRisk !== null && actualRisk > sizing.riskAmount + 0.005;
+
+  return (
+    <div className="rounded-md border border-border bg-background p-4 mb-6">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+        <h4 className="font-medium text-sm">Position Sizing</h4>
+        <span className="text-xs text-text-muted">
+          Risking {settings.risk_percentage}% of {formatMoney(accountBalance, currency)}
+          {' · '}
+          <Link to="/settings" className="hover:text-primary underline">Change</Link>
+        </span>
+      </div>
+
+      {sizing ? (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+          <div>
+            <p className="text-xs text-text-muted">Risk Amount</p>
+            <p className="font-medium">{formatMoney(sizing.riskAmount, currency)}</p>
+          </div>
+          <div>
+            <p className="text-xs text-text-muted">Stop Distance</p>
+            <p className="font-medium">{sizing.stopPips.toFixed(1)} pips</p>
+          </div>
+          <div>
+            <p className="text-xs text-text-muted">Suggested Size</p>
+            <div className="flex items-center gap-2">
+              <p className="font-medium">{sizing.lotSize.toFixed(2)} lots</p>
+              {sizing.lotSize > 0 && sizing.lotSize !== lotSize && (
+                <button
+                  type="button"
+                  className="text-xs text-primary hover:underline"
+                  onClick={() => onUseSuggested(sizing.lotSize)}
+                >
+                  Use
+                </button>
+              )}
+            </div>
+          </div>
+          <div>
+            <p className="text-xs text-text-muted">Money at Risk</p>
+            <p className={`font-medium ${overRisk ? 'text-error' : ''}`}>
+              {actualRisk !== null && actualRiskPercent !== null
+                ? `${formatMoney(actualRisk, currency)} (${actualRiskPercent.toFixed(2)}%)`
+                : '—'}
+            </p>
+          </div>
+        </div>
+      ) : (
+        <p className="text-sm text-text-muted">
+          Enter an entry price and stop loss to get a suggested lot size.
+        </p>
+      )}
+
+      {sizing && sizing.lotSize === 0 && (
+        <p className="flex items-center text-xs text-warning mt-3">
+          <AlertCircle className="h-3 w-3 mr-1" />
+          The stop is too wide to trade even 0.01 lots within your risk limit.
+        </p>
+      )}
+
+      {overRisk && (
+        <p className="flex items-center text-xs text-error mt-3">
+          <AlertCircle className="h-3 w-3 mr-1" />
+          This size risks more than your {settings.risk_percentage}% limit.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default PositionSizePanel;
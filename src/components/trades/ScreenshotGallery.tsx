@@ -0,0 +1,282 @@
+import React, { useEffect, useState } from 'react';
+import { ArrowUpRight, ChevronLeft, ChevronRight, Minus, Pencil, Square, Type, Undo2, X } from 'lucide-react';
+import AnnotationLayer from './AnnotationLayer';
+import {
+  ANNOTATION_TOOLS,
+  Annotation,
+  AnnotationTool,
+  SCREENSHOT_LABEL_NAMES,
+  Screenshot,
+} from '../../types/screenshot';
+
+interface ScreenshotGalleryProps {
+  screenshots: Screenshot[];
+  startIndex: number;
+  onClose: () => void;
+  // Enables drawing; receives the screenshot's annotations when they are saved
+  onAnnotationsChange?: (index: number, annotations: Annotation[]) => void;
+}
+
+const COLORS = ['#ef4444', '#22c55e', '#3b82f6', '#eab308', '#ffffff'];
+
+const TOOL_ICONS: Record<AnnotationTool, React.ReactNode> = {
+  line: <Minus className="h-4 w-4" />,
+  arrow: <ArrowUpRight className="h-4 w-4" />,
+  box: <Square className="h-4 w-4" />,
+  text: <Type className="h-4 w-4" />,
+};
+
+// Strokes shorter than this share of the image are treated as stray clicks
+const MIN_STROKE = 0.005;
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+const buttonClass = (active = false) =>
+  `rounded-md p-2 transition-colors ${active ? 'bg-white/20 text-white' : 'text-white/80 hover:bg-white/10'}`;
+
+// Full-screen viewer for a trade's screenshots, with simple drawing tools
+const ScreenshotGallery: React.FC<ScreenshotGalleryProps> = ({
+  screenshots,
+  startIndex,
+  onClose,
+  onAnnotationsChange,
+}) => {
+  const [index, setIndex] = useState(startIndex);
+  const [size, setSize] = useState<{ width: number; height: number } | null>(null);
+  // Annotations being edited; null while just viewing
+  const [editing, setEditing] = useState<Annotation[] | null>(null);
+  const [tool, setTool] = useState<AnnotationTool>('arrow');
+  const [color, setColor] = useState(COLORS[0]);
+  const [draft, setDraft] = useState<Annotation | null>(null);
+  const [pendingText, setPendingText] = useState<{ x: number; y: number } | null>(null);
+  const [text, setText] = useState('');
+
+  const screenshot = screenshots[index];
+  const annotations = editing ?? screenshot?.annotations ?? [];
+  const count = screenshots.length;
+
+  const goTo = (next: number) => {
+    setSize(null);
+    setIndex((next + count) % count);
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement) return;
+
+      if (e.key === 'Escape') {
+        if (editing) setEditing(null);
+        else onClose();
+      } else if (!editing && count > 1 && (e.key === 'ArrowLeft' || e.key === 'ArrowRight')) {
+        setSize(null);
+        setIndex(current => (current + (e.key === 'ArrowLeft' ? -1 : 1) + count) % count);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [editing, count, onClose]);
+
+  if (!screenshot) return null;
+
+  const pointFrom = (e: React.PointerEvent<SVGSVGElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: clamp((e.clientX - rect.left) / rect.width),
+      y: clamp((e.clientY - rect.top) / rect.height),
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (!editing || pendingText) return;
+
+    const point = pointFrom(e);
+    if (tool === 'text') {
+      setPendingText(point);
+      setText('');
+      return;
+    }
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDraft({ tool, color, x1: point.x, y1: point.y, x2: point.x, y2: point.y });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (!draft) return;
+    const point = pointFrom(e);
+    setDraft({ ...draft, x2: point.x, y2: point.y });
+  };
+
+  const handlePointerUp = () => {
+    if (!draft || !editing) return;
+    if (Math.hypot(draft.x2 - draft.x1, draft.y2 - draft.y1) > MIN_STROKE) {
+      setEditing([...editing, draft]);
+    }
+    setDraft(null);
+  };
+
+  const commitText = () => {
+    if (pendingText && editing && text.trim()) {
+      const { x, y } = pendingText;
+      setEditing([...editing, { tool: 'text', color, x1: x, y1: y, x2: x, y2: y, text: text.trim() }]);
+    }
+    setPendingText(null);
+  };
+
+  const saveAnnotations = () => {
+    if (editing) onAnnotationsChange?.(index, editing);
+    setEditing(null);
+  };
+
+  return (
+    <div role="dialog" aria-modal="true" aria-label="Screenshots" className="fixed inset-0 z-50 flex flex-col bg-black/90">
+      <div className="flex flex-wrap items-center justify-between gap-3 px-4 py-3 text-white">
+        <p className="text-sm">
+          <span className="font-medium">{SCREENSHOT_LABEL_NAMES[screenshot.label]}</span>
+          {count > 1 && <span className="text-white/60"> · {index + 1} / {count}</span>}
+        </p>
+
+        {editing ? (
+          <div className="flex flex-wrap items-center gap-1">
+            {ANNOTATION_TOOLS.map(option => (
+              <button
+                key={option}
+                type="button"
+                className={buttonClass(tool === option)}
+                onClick={() => setTool(option)}
+                aria-label={option}
+                aria-pressed={tool === option}
+              >
+                {TOOL_ICONS[option]}
+              </button>
+            ))}
+            <span className="mx-2 h-6 w-px bg-white/20" />
+            {COLORS.map(option => (
+              <button
+                key={option}
+                type="button"
+                className={`h-6 w-6 rounded-full border-2 ${color === option ? 'border-white' : 'border-transparent'}`}
+                style={{ backgroundColor: option }}
+                onClick={() => setColor(option)}
+                aria-label={`Colour ${option}`}
+              />
+            ))}
+            <span className="mx-2 h-6 w-px bg-white/20" />
+            <button
+              type="button"
+              className={buttonClass()}
+              onClick={() => setEditing(editing.slice(0, -1))}
+              disabled={editing.length === 0}
+              aria-label="Undo"
+            >
+              <Undo2 className="h-4 w-4" />
+            </button>
+            <button type="button" className="px-3 py-1.5 text-sm text-white/80 hover:text-white" onClick={() => setEditing([])}>
+              Clear
+            </button>
+            <button type="button" className="px-3 py-1.5 text-sm text-white/80 hover:text-white" onClick={() => setEditing(null)}>
+              Cancel
+            </button>
+            <button type="button" className="btn btn-primary px-3 py-1.5 text-sm" onClick={saveAnnotations}>
+              Save
+            </button>
+          </div>
+        ) : (
+          onAnnotationsChange && (
+            <button
+              type="button"
+              className="flex items-center gap-2 rounded-md px-3 py-1.5 text-sm text-white/80 hover:bg-white/10"
+              onClick={() => setEditing(screenshot.annotations)}
+            >
+              <Pencil className="h-4 w-4" />
+              Annotate
+            </button>
+          )
+        )}
+
+        <button type="button" className={buttonClass()} onClick={onClose} aria-label="Close gallery">
+          <X className="h-5 w-5" />
+        </button>
+      </div>
+
+      <div className="relative flex flex-1 items-center justify-center overflow-hidden px-4 pb-4">
+        {count > 1 && !editing && (
+          <button
+            type="button"
+            className={`${buttonClass()} absolute left-4 z-10`}
+            onClick={() => goTo(index - 1)}
+            aria-label="Previous screenshot"
+          >
+            <ChevronLeft className="h-6 w-6" />
+          </button>
+        )}
+
+        <div className="relative inline-block">
+          <img
+            key={screenshot.url}
+            src={screenshot.url}
+            alt={`${SCREENSHOT_LABEL_NAMES[screenshot.label]} chart`}
+            draggable={false}
+            className="block max-h-[calc(100vh-10rem)] max-w-[calc(100vw-2rem)] select-none"
+            onLoad={e => setSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+          />
+          {size && (
+            <AnnotationLayer
+              annotations={draft ? [...annotations, draft] : annotations}
+              width={size.width}
+              height={size.height}
+              className={editing ? 'cursor-crosshair touch-none' : 'pointer-events-none'}
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+            />
+          )}
+          {pendingText && (
+            <input
+              autoFocus
+              className="absolute rounded border border-white/50 bg-black/70 px-2 py-1 text-sm text-white outline-none"
+              style={{ left: `${pendingText.x * 100}%`, top: `${pendingText.y * 100}%` }}
+              value={text}
+              placeholder="Label"
+              onChange={e => setText(e.target.value)}
+              onBlur={commitText}
+              onKeyDown={e => {
+                if (e.key === 'Enter') commitText();
+                if (e.key === 'Escape') setPendingText(null);
+              }}
+            />
+          )}
+        </div>
+
+        {count > 1 && !editing && (
+          <button
+            type="button"
+            className={`${buttonClass()} absolute right-4 z-10`}
+            onClick={() => goTo(index + 1)}
+            aria-label="Next screenshot"
+          >
+            <ChevronRight className="h-6 w-6" />
+          </button>
+        )}
+      </div>
+
+      {count > 1 && (
+        <div className="flex justify-center gap-2 px-4 pb-4">
+          {screenshots.map((item, i) => (
+            <button
+              key={item.url}
+              type="button"
+              disabled={editing !== null}
+              className={`overflow-hidden rounded border-2 ${i === index ? 'border-white' : 'border-transparent opacity-60 hover:opacity-100'}`}
+              onClick={() => goTo(i)}
+              aria-label={`Show ${SCREENSHOT_LABEL_NAMES[item.label]} screenshot`}
+            >
+              <img src={item.url} alt="" className="h-12 w-20 object-cover" />
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ScreenshotGallery;
@@ -0,0 +1,146 @@
+import React, { useState } from 'react';
+import { Pencil, Upload, X } from 'lucide-react';
+import ScreenshotGallery from './ScreenshotGallery';
+import { SCREENSHOT_LABELS, SCREENSHOT_LABEL_NAMES, ScreenshotDraft, ScreenshotLabel } from '../../types/screenshot';
+import { SCREENSHOT_TYPES, prepareScreenshot } from '../../lib/images';
+
+interface ScreenshotManagerProps {
+  value: ScreenshotDraft[];
+  onChange: (screenshots: ScreenshotDraft[]) => void;
+}
+
+// The label a new screenshot most likely gets, given the ones already added
+const nextLabel = (screenshots: ScreenshotDraft[]): ScreenshotLabel =>
+  SCREENSHOT_LABELS.find(label => !screenshots.some(screenshot => screenshot.label === label)) ?? 'entry';
+
+// Chart screenshots in the trade form. New images are checked and compressed
+// when chosen and only uploaded when the trade is saved.
+const ScreenshotManager: React.FC<ScreenshotManagerProps> = ({ value, onChange }) => {
+  const [errors, setErrors] = useState<string[]>([]);
+  const [processing, setProcessing] = useState(false);
+  const [viewing, setViewing] = useState<number | null>(null);
+
+  const handleFiles = async (files: File[]) => {
+    setProcessing(true);
+    const problems: string[] = [];
+    const added: ScreenshotDraft[] = [];
+
+    for (const file of files) {
+      try {
+        const prepared = await prepareScreenshot(file);
+        added.push({
+          url: URL.createObjectURL(prepared),
+          path: null,
+          label: nextLabel([...value, ...added]),
+          annotations: [],
+          file: prepared,
+        });
+      } catch (error) {
+        problems.push(error instanceof Error ? error.message : `${file.name} could not be read`);
+      }
+    }
+
+    setErrors(problems);
+    setProcessing(false);
+    if (added.length > 0) onChange([...value, ...added]);
+  };
+
+  const update = (index: number, changes: Partial<ScreenshotDraft>) => {
+    onChange(value.map((screenshot, i) => (i === index ? { ...screenshot, ...changes } : screenshot)));
+  };
+
+  const remove = (index: number) => {
+    const screenshot = value[index];
+    if (screenshot.file) URL.revokeObjectURL(screenshot.url);
+    onChange(value.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="space-y-3">
+      {value.length > 0 && (
+        <div className="grid gap-3 grid-cols-2 sm:grid-cols-3">
+          {value.map((screenshot, index) => (
+            <div key={screenshot.url} className="rounded-md border border-border p-2">
+              <div className="relative">
+                <button
+                  type="button"
+                  className="block w-full"
+                  onClick={() => setViewing(index)}
+                  aria-label={`View ${SCREENSHOT_LABEL_NAMES[screenshot.label]} screenshot`}
+                >
+                  <img
+                    src={screenshot.url}
+                    alt={`${SCREENSHOT_LABEL_NAMES[screenshot.label]} chart`}
+                    className="h-28 w-full rounded object-cover"
+                  />
+                </button>
+                <button
+                  type="button"
+                  className="absolute top-1 right-1 bg-error/90 text-white rounded-full p-1"
+                  onClick={() => remove(index)}
+                  aria-label="Remove screenshot"
+                >
+                  <X className="h-3 w-3" />
+                </button>
+                {screenshot.annotations.length > 0 && (
+                  <span className="absolute bottom-1 left-1 flex items-center gap-1 rounded bg-black/60 px-1.5 py-0.5 text-xs text-white">
+                    <Pencil className="h-3 w-3" />
+                    {screenshot.annotations.length}
+                  </span>
+                )}
+              </div>
+              <select
+                className="input mt-2 h-8 py-1 text-sm"
+                value={screenshot.label}
+                onChange={e => update(index, { label: e.target.value as ScreenshotLabel })}
+                aria-label="Screenshot label"
+              >
+                {SCREENSHOT_LABELS.map(label => (
+                  <option key={label} value={label}>{SCREENSHOT_LABEL_NAMES[label]}</option>
+                ))}
+              </select>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="border border-dashed border-border rounded-md p-4 flex flex-col items-center justify-center">
+        <input
+          type="file"
+          accept={SCREENSHOT_TYPES.join(',')}
+          multiple
+          className="hidden"
+          id="screenshot-upload"
+          disabled={processing}
+          onChange={e => {
+            const files = Array.from(e.target.files ?? []);
+            e.target.value = '';
+            if (files.length > 0) handleFiles(files);
+          }}
+        />
+        <label htmlFor="screenshot-upload" className="cursor-pointer flex flex-col items-center">
+          <Upload className="h-10 w-10 text-text-muted mb-2" />
+          <span className="text-sm text-text-muted">
+            {processing ? 'Compressing...' : 'Add chart screenshots'}
+          </span>
+          <span className="text-xs text-text-muted mt-1">(PNG, JPG or WebP up to 5MB)</span>
+        </label>
+      </div>
+
+      {errors.map(error => (
+        <p key={error} className="text-error text-xs">{error}</p>
+      ))}
+
+      {viewing !== null && (
+        <ScreenshotGallery
+          screenshots={value}
+          startIndex={viewing}
+          onClose={() => setViewing(null)}
+          onAnnotationsChange={(index, annotations) => update(index, { annotations })}
+        />
+      )}
+    </div>
+  );
+};
+
+export default ScreenshotManager;
@@ -0,0 +1,101 @@
+import React, { useState } from 'react';
+import { Plus } from 'lucide-react';
+import { TAG_CATEGORIES, TAG_CATEGORY_LABELS, TagCategory } from '../../types/tag';
+import { useTags } from '../../hooks/useTags';
+import { errorMessage } from '../../contexts/DataContext';
+
+interface TagPickerProps {
+  value: string[];
+  onChange: (tagIds: string[]) => void;
+}
+
+const TagPicker: React.FC<TagPickerProps> = ({ value, onChange }) => {
+  const { tags, createTag } = useTags();
+  const [drafts, setDrafts] = useState<Record<TagCategory, string>>({ strategy: '', mistake: '', emotion: '' });
+  const [creating, setCreating] = useState<TagCategory | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const toggle = (id: string) => {
+    onChange(value.includes(id) ? value.filter(tagId => tagId !== id) : [...value, id]);
+  };
+
+  const handleCreate = async (category: TagCategory) => {
+    const name = drafts[category].trim();
+    if (!name) return;
+
+    // Reuse an existing tag rather than failing on the duplicate
+    const existing = tags.find(tag => tag.category === category && tag.name.toLowerCase() === name.toLowerCase());
+    if (existing) {
+      if (!value.includes(existing.id)) onChange([...value, existing.id]);
+      setDrafts(prev => ({ ...prev, [category]: '' }));
+      return;
+    }
+
+    setCreating(category);
+    setError(null);
+    try {
+      const tag = await createTag({ name, category });
+      onChange([...value, tag.id]);
+      setDrafts(prev => ({ ...prev, [category]: '' }));
+    } catch (error) {
+      console.error('Error creating tag:', error);
+      setError(errorMessage(error, 'Failed to create tag'));
+    } finally {
+      setCreating(null);
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+      {TAG_CATEGORIES.map(category => (
+        <div key={category}>
+          <p className="block text-sm font-medium mb-2">{TAG_CATEGORY_LABELS[category]}</p>
+          <div className="flex flex-wrap gap-2 mb-2">
+            {tags.filter(tag => tag.category === category).map(tag => (
+              <button
+                key={tag.id}
+                type="button"
+                onClick={() => toggle(tag.id)}
+                className={`px-2 py-1 rounded-md text-xs font-medium border transition-colors ${
+                  value.includes(tag.id)
+                    ? 'bg-primary text-white border-primary'
+                    : 'border-border text-text-muted hover:text-text'
+                }`}
+              >
+                {tag.name}
+              </button>
+            ))}
+          </div>
+          <div className="flex gap-2">
+            <input
+              type="text"
+              className="input h-8 text-xs"
+              placeholder="New tag"
+              value={drafts[category]}
+              onChange={e => setDrafts(prev => ({ ...prev, [category]: e.target.value }))}
+              onKeyDown={e => {
+                // Enter would otherwise submit the trade form
+                if (e.key === 'Enter') {
+                  e.preventDefault();
+                  handleCreate(category);
+                }
+              }}
+            />
+            <button
+              type="button"
+              className="btn btn-outline h-8 px-2"
+              disabled={creating === category || !drafts[category].trim()}
+              onClick={() => handleCreate(category)}
+              aria-label={`Add ${TAG_CATEGORY_LABELS[category]} tag`}
+            >
+              <Plus className="h-4 w-4" />
+            </button>
+          </div>
+        </div>
+      ))}
+      {error && <p className="text-error text-xs md:col-span-3">{error}</p>}
+    </div>
+  );
+};
+
+export default TagPicker;
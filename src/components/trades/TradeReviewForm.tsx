@@ -0,0 +1,178 @@
+import React, { useEffect, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { Trade } from '../../types/trade';
+import { EXECUTION_GRADES, EXECUTION_GRADE_LABELS, ExecutionGrade, TradeReview, TradeReviewValues } from '../../types/review';
+import { priceExcursion, signedPriceMove } from '../../lib/pnl';
+import { useNotifications } from '../../contexts/NotificationContext';
+
+interface TradeReviewFormProps {
+  trade: Trade;
+  review: TradeReview | null;
+  onSave: (values: TradeReviewValues) => Promise<unknown>;
+}
+
+// Radio and number inputs hand over strings; these are converted on submit
+interface ReviewFormData {
+  followed_plan: '' | 'yes' | 'no';
+  grade: '' | ExecutionGrade;
+  went_well: string;
+  to_improve: string;
+  lessons: string;
+  mae_price: number;
+  mfe_price: number;
+}
+
+const toFormData = (review: TradeReview | null): ReviewFormData => ({
+  followed_plan: review?.followed_plan === true ? 'yes' : review?.followed_plan === false ? 'no' : '',
+  grade: review?.grade ?? '',
+  went_well: review?.went_well ?? '',
+  to_improve: review?.to_improve ?? '',
+  lessons: review?.lessons ?? '',
+  mae_price: review?.mae_price ?? NaN,
+  mfe_price: review?.mfe_price ?? NaN,
+});
+
+const optionalText = (value: string) => value.trim() || null;
+const optionalNumber = (value: number) => (Number.isNaN(value) ? null : value);
+
+const formatExcursion = (trade: Trade, price: number) => {
+  const { pips, rMultiple } = priceExcursion(trade, price);
+  return `${pips.toFixed(1)} pips${rMultiple !== null ? ` · ${rMultiple.toFixed(2)}R` : ''}`;
+};
+
+// Post-trade reflection: whether the plan was followed, a grade for the
+// execution and what to take into the next trade
+const TradeReviewForm: React.FC<TradeReviewFormProps> = ({ trade, review, onSave }) => {
+  const [saved, setSaved] = useState(false);
+  const { notifyError } = useNotifications();
+  const {
+    register,
+    handleSubmit,
+    reset,
+    watch,
+    formState: { errors, isSubmitting, isDirty },
+  } = useForm<ReviewFormData>({ defaultValues: toFormData(review) });
+
+  useEffect(() => {
+    reset(toFormData(review));
+  }, [review, reset]);
+
+  const maePrice = watch('mae_price');
+  const mfePrice = watch('mfe_price');
+
+  // The worst price went against the trade and the best price in its favour
+  const validateExcursion = (side: 'adverse' | 'favourable') => (value: number) => {
+    if (Number.isNaN(value)) return true;
+    if (value <= 0) return 'Price must be positive';
+    const move = signedPriceMove(trade.type, trade.entry_price, value);
+    if (side === 'adverse' && move > 0) return 'The worst price cannot be in the trade\'s favour';
+    if (side === 'favourable' && move < 0) return 'The best price cannot be against the trade';
+    return true;
+  };
+
+  const onSubmit = async (data: ReviewFormData) => {
+    try {
+      await onSave({
+        followed_plan: data.followed_plan === '' ? null : data.followed_plan === 'yes',
+        grade: data.grade || null,
+        went_well: optionalText(data.went_well),
+        to_improve: optionalText(data.to_improve),
+        lessons: optionalText(data.lessons),
+        mae_price: optionalNumber(data.mae_price),
+        mfe_price: optionalNumber(data.mfe_price),
+      });
+      setSaved(true);
+    } catch (error) {
+      console.error('Error saving review:', error);
+      notifyError(error, 'Failed to save review. Please try again.');
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)} onChange={() => setSaved(false)} className="space-y-4 pt-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <span className="block text-sm font-medium mb-1">Did you follow your plan?</span>
+          <div className="flex gap-4">
+            <label className="flex items-center">
+              <input type="radio" value="yes" className="mr-2" {...register('followed_plan')} />
+              <span className="text-sm">Yes</span>
+            </label>
+            <label className="flex items-center">
+              <input type="radio" value="no" className="mr-2" {...register('followed_plan')} />
+              <span className="text-sm">No</span>
+            </label>
+          </div>
+        </div>
+
+        <div>
+          <label htmlFor="grade" className="block text-sm font-medium mb-1">Execution Grade</label>
+          <select id="grade" className="input" {...register('grade')}>
+            <option value="">Not graded</option>
+            {EXECUTION_GRADES.map(grade => (
+              <option key={grade} value={grade}>{EXECUTION_GRADE_LABELS[grade]}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="went_well" className="block text-sm font-medium mb-1">What Went Well</label>
+          <textarea id="went_well" rows={3} className="input min-h-[80px]" {...register('went_well')} />
+        </div>
+        <div>
+          <label htmlFor="to_improve" className="block text-sm font-medium mb-1">What To Improve</label>
+          <textarea id="to_improve" rows={3} className="input min-h-[80px]" {...register('to_improve')} />
+        </div>
+      </div>
+
+      <div>
+        <label htmlFor="lessons" className="block text-sm font-medium mb-1">Lessons Learned</label>
+        <textarea id="lessons" rows={3} className="input min-h-[80px]" {...register('lessons')} />
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="mae_price" className="block text-sm font-medium mb-1">Worst Price While Open (MAE)</label>
+          <input
+            type="number"
+            id="mae_price"
+            step="0.00001"
+            className="input"
+            {...register('mae_price', { valueAsNumber: true, validate: validateExcursion('adverse') })}
+          />
+          {errors.mae_price ? (
+            <p className="text-error text-xs mt-1">{errors.mae_price.message}</p>
+          ) : !Number.isNaN(maePrice) && maePrice > 0 && (
+            <p className="text-xs text-text-muted mt-1">{formatExcursion(trade, maePrice)}</p>
+          )}
+        </div>
+        <div>
+          <label htmlFor="mfe_price" className="block text-sm font-medium mb-1">Best Price While Open (MFE)</label>
+          <input
+            type="number"
+            id="mfe_price"
+            step="0.00001"
+            className="input"
+            {...register('mfe_price', { valueAsNumber: true, validate: validateExcursion('favourable') })}
+          />
+          {errors.mfe_price ? (
+            <p className="text-error text-xs mt-1">{errors.mfe_price.message}</p>
+          ) : !Number.isNaN(mfePrice) && mfePrice > 0 && (
+            <p className="text-xs text-text-muted mt-1">{formatExcursion(trade, mfePrice)}</p>
+          )}
+        </div>
+      </div>
+
+      <div className="flex items-center justify-end gap-3">
+        {saved && !isDirty && <span className="text-sm text-success">Review saved</span>}
+        <button type="submit" className="btn btn-primary px-4 py-2" disabled={isSubmitting}>
+          {isSubmitting ? 'Saving...' : review ? 'Update Review' : 'Save Review'}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default TradeReviewForm;
@@ -6,6 +6,7 @@ interface CardProps {
   children: React.ReactNode;
   className?: string;
   footer?: React.ReactNode;
+  style?: React.CSSProperties;
 }
 
 const Card: React.FC<CardProps> = ({
@@ -14,9 +15,10 @@ const Card: React.FC<CardProps> = ({
   children,
   className = '',
   footer,
+  style,
 }) => {
   return (
-    <div className={`card animate-fade-in ${className}`}>
+    <div className={`card animate-fade-in ${className}`} style={style}>
       {(title || description) && (
         <div className="card-header">
           {title && <h3 className="card-title">{title}</h3>}
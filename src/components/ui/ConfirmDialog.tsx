@@ -0,0 +1,56 @@
+import React from 'react';
+import Modal from './Modal';
+
+interface ConfirmDialogProps {
+  title: string;
+  message: React.ReactNode;
+  confirmLabel?: string;
+  isOpen: boolean;
+  isBusy?: boolean;
+  destructive?: boolean;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+const ConfirmDialog: React.FC<ConfirmDialogProps> = ({
+  title,
+  message,
+  confirmLabel = 'Confirm',
+  isOpen,
+  isBusy = false,
+  destructive = false,
+  onConfirm,
+  onCancel,
+}) => {
+  return (
+    <Modal
+      title={title}
+      isOpen={isOpen}
+      onClose={onCancel}
+      footer={
+        <>
+          <button
+            type="button"
+            className="btn btn-outline px-4 py-2"
+            onClick={onCancel}
+            disabled={isBusy}
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            className={`btn px-4 py-2 ${destructive ? 'bg-error text-white hover:bg-error/90' : 'btn-primary'}`}
+            onClick={onConfirm}
+            disabled={isBusy}
+          >
+            {isBusy ? 'Working...' : confirmLabel}
+          </button>
+        </>
+      }
+    >
+      <div className="text-sm text-text-muted">{message}</div>
+    </Modal>
+  );
+};
+
+export default ConfirmDialog;
@@ -0,0 +1,25 @@
+import React from 'react';
+import { AlertCircle, RefreshCw } from 'lucide-react';
+
+interface ErrorBannerProps {
+  message: string;
+  onRetry?: () => void;
+}
+
+// Inline notice for data that failed to load, with a way to try again
+const ErrorBanner: React.FC<ErrorBannerProps> = ({ message, onRetry }) => {
+  return (
+    <div className="mb-6 flex items-center gap-3 rounded-lg border border-error/40 bg-error/10 p-4" role="alert">
+      <AlertCircle className="h-5 w-5 shrink-0 text-error" />
+      <p className="flex-1 text-sm">{message}</p>
+      {onRetry && (
+        <button type="button" className="btn btn-outline px-3 py-1.5 gap-2 text-sm" onClick={onRetry}>
+          <RefreshCw className="h-4 w-4" />
+          Retry
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default ErrorBanner;
@@ -0,0 +1,66 @@
+import React from 'react';
+import { AlertTriangle, RefreshCw } from 'lucide-react';
+
+interface ErrorBoundaryProps {
+  children: React.ReactNode;
+}
+
+interface ErrorBoundaryState {
+  error: Error | null;
+}
+
+// Catches errors thrown while rendering and shows a recovery screen in place
+// of a blank page. Saved trades are unaffected, so trying again or reloading
+// is usually enough.
+class ErrorBoundary extends React.Component<ErrorBoundaryProps, ErrorBoundaryState> {
+  state: ErrorBoundaryState = { error: null };
+
+  static getDerivedStateFromError(error: Error): ErrorBoundaryState {
+    return { error };
+  }
+
+  componentDidCatch(error: Error, info: React.ErrorInfo) {
+    console.error('Unexpected error:', error, info.componentStack);
+  }
+
+  reset = () => {
+    this.setState({ error: null });
+  };
+
+  render() {
+    const { error } = this.state;
+    if (!error) return this.props.children;
+
+    return (
+      <div className="flex min-h-[60vh] items-center justify-center p-4" role="alert">
+        <div className="card max-w-md p-6 text-center">
+          <AlertTriangle className="mx-auto h-10 w-10 text-warning" />
+          <h2 className="mt-4 text-xl font-bold">Something went wrong</h2>
+          <p className="mt-2 text-sm text-text-muted">
+            This page hit an unexpected error. Your saved trades are safe; try again, or reload the app.
+          </p>
+          {error.message && (
+            <details className="mt-4 text-left text-xs text-text-muted">
+              <summary className="cursor-pointer">Error details</summary>
+              <pre className="mt-2 whitespace-pre-wrap break-words">{error.message}</pre>
+            </details>
+          )}
+          <div className="mt-6 flex flex-wrap justify-center gap-2">
+            <button type="button" className="btn btn-primary px-4 py-2" onClick={this.reset}>
+              Try again
+            </button>
+            <button type="button" className="btn btn-outline px-4 py-2 gap-2" onClick={() => window.location.reload()}>
+              <RefreshCw className="h-4 w-4" />
+              Reload
+            </button>
+            <a href="/" className="btn btn-outline px-4 py-2">
+              Dashboard
+            </a>
+          </div>
+        </div>
+      </div>
+    );
+  }
+}
+
+export default ErrorBoundary;
@@ -0,0 +1,72 @@
+import React from 'react';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+
+interface PaginationProps {
+  page: number;
+  pageSize: number;
+  total: number;
+  pageSizes: number[];
+  onPageChange: (page: number) => void;
+  onPageSizeChange: (pageSize: number) => void;
+}
+
+const Pagination: React.FC<PaginationProps> = ({
+  page,
+  pageSize,
+  total,
+  pageSizes,
+  onPageChange,
+  onPageSizeChange,
+}) => {
+  const pageCount = Math.max(1, Math.ceil(total / pageSize));
+  const firstRow = total === 0 ? 0 : (page - 1) * pageSize + 1;
+  const lastRow = Math.min(page * pageSize, total);
+
+  return (
+    <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between pt-4">
+      <div className="flex items-center gap-2 text-sm text-text-muted">
+        <span>Rows per page</span>
+        <select
+          className="input h-8 w-20 py-0"
+          value={pageSize}
+          onChange={(e) => onPageSizeChange(parseInt(e.target.value, 10))}
+        >
+          {pageSizes.map(size => (
+            <option key={size} value={size}>{size}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="flex items-center gap-3">
+        <span className="text-sm text-text-muted">
+          {firstRow}–{lastRow} of {total}
+        </span>
+        <div className="flex items-center gap-1">
+          <button
+            type="button"
+            className="btn btn-outline h-8 w-8"
+            onClick={() => onPageChange(page - 1)}
+            disabled={page <= 1}
+            aria-label="Previous page"
+          >
+            <ChevronLeft className="h-4 w-4" />
+          </button>
+          <span className="px-2 text-sm">
+            {page} / {pageCount}
+          </span>
+          <button
+            type="button"
+            className="btn btn-outline h-8 w-8"
+            onClick={() => onPageChange(page + 1)}
+            disabled={page >= pageCount}
+            aria-label="Next page"
+          >
+            <ChevronRight className="h-4 w-4" />
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Pagination;
@@ -0,0 +1,73 @@
+import React, { useEffect } from 'react';
+import { AlertCircle, AlertTriangle, CheckCircle2, X } from 'lucide-react';
+import { Notification, NotificationKind } from '../../contexts/NotificationContext';
+
+interface ToasterProps {
+  notifications: Notification[];
+  onDismiss: (id: number) => void;
+}
+
+// Errors stay up longest so there is time to read them
+const DURATIONS: Record<NotificationKind, number> = {
+  success: 4000,
+  warning: 6000,
+  error: 8000,
+};
+
+const ICONS: Record<NotificationKind, React.ReactNode> = {
+  success: <CheckCircle2 className="h-5 w-5 shrink-0 text-success" />,
+  warning: <AlertTriangle className="h-5 w-5 shrink-0 text-warning" />,
+  error: <AlertCircle className="h-5 w-5 shrink-0 text-error" />,
+};
+
+const BORDERS: Record<NotificationKind, string> = {
+  success: 'border-success/40',
+  warning: 'border-warning/40',
+  error: 'border-error/40',
+};
+
+const Toast: React.FC<{ notification: Notification; onDismiss: (id: number) => void }> = ({
+  notification,
+  onDismiss,
+}) => {
+  const { id, kind, message } = notification;
+
+  useEffect(() => {
+    const timer = setTimeout(() => onDismiss(id), DURATIONS[kind]);
+    return () => clearTimeout(timer);
+  }, [id, kind, onDismiss]);
+
+  return (
+    <div
+      className={`pointer-events-auto flex items-start gap-3 rounded-lg border bg-foreground p-4 shadow-lg animate-slide-up ${BORDERS[kind]}`}
+      role={kind === 'error' ? 'alert' : 'status'}
+    >
+      {ICONS[kind]}
+      <p className="flex-1 text-sm">{message}</p>
+      <button
+        type="button"
+        className="rounded-md p-0.5 text-text-muted hover:text-text"
+        onClick={() => onDismiss(id)}
+        aria-label="Dismiss notification"
+      >
+        <X className="h-4 w-4" />
+      </button>
+    </div>
+  );
+};
+
+// Stack of toasts below the navbar, newest at the bottom
+const Toaster: React.FC<ToasterProps> = ({ notifications, onDismiss }) => {
+  return (
+    <div
+      className="pointer-events-none fixed right-4 top-20 z-50 flex w-full max-w-sm flex-col gap-2 print:hidden"
+      aria-live="polite"
+    >
+      {notifications.map(notification => (
+        <Toast key={notification.id} notification={notification} onDismiss={onDismiss} />
+      ))}
+    </div>
+  );
+};
+
+export default Toaster;
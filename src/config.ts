@@ -0,0 +1,26 @@
+export type DataBackend = 'supabase' | 'local' | 'memory';
+
+const supabaseUrl = import.meta.env.VITE_SUPABASE_URL ?? '';
+const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY ?? '';
+
+function resolveDataBackend(): DataBackend {
+  const value = import.meta.env.VITE_DATA_BACKEND;
+  if (value === 'supabase' || value === 'local' || value === 'memory') return value;
+  // Without a Supabase project the app falls back to the offline demo backend
+  return supabaseUrl && supabaseAnonKey ? 'supabase' : 'local';
+}
+
+// Runtime configuration read from the Vite environment (.env.local)
+export const config = {
+  supabaseUrl,
+  supabaseAnonKey,
+  dataBackend: resolveDataBackend(),
+};
+
+export function assertSupabaseConfig() {
+  if (!config.supabaseUrl || !config.supabaseAnonKey) {
+    throw new Error(
+      'Supabase is not configured. Set VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY in .env.local (see .env.example).'
+    );
+  }
+}
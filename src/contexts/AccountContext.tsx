@@ -0,0 +1,101 @@
+import React, { createContext, useContext, useEffect, useMemo, useState } from 'react';
+import { useUserId } from './AuthContext';
+import { useAccounts } from '../hooks/useAccounts';
+import { useSettings } from '../hooks/useSettings';
+import { Account } from '../types/account';
+import { DEFAULT_ACCOUNT_CURRENCY, PnlOptions } from '../lib/pnl';
+
+interface AccountContextType {
+  // null when every account is shown together
+  accountId: string | null;
+  account: Account | null;
+  setAccountId: (id: string | null) => void;
+  // Equity of the selected accounts before their first trade
+  startingBalance: number;
+  // Currency the starting balance and every result shown for the selection are in
+  currency: string;
+  // P/L options that report results of the selected trades in that currency
+  pnlOptions: PnlOptions;
+  // P/L options for a single trade, in the currency of its own account
+  tradePnlOptions: (trade: { account_id: string | null }) => PnlOptions;
+  // Balances in different currencies cannot be added up, so "all accounts"
+  // is only offered while every account uses the same one
+  canCombineAccounts: boolean;
+  // Narrows trades, ledger entries and the like to the selected account
+  filterByAccount: <T extends { account_id: string | null }>(items: T[]) => T[];
+}
+
+const AccountContext = createContext<AccountContextType | undefined>(undefined);
+
+// Remembers which account the Navbar selector points at, so Dashboard and
+// Analytics can narrow their trades to it
+export function AccountProvider({ children }: { children: React.ReactNode }) {
+  const userId = useUserId();
+  const storageKey = `fx-journal:${userId}:selected-account`;
+  const { accounts, accountsById, loading } = useAccounts();
+  const { settings } = useSettings();
+
+  const [accountId, setAccountId] = useState<string | null>(() => localStorage.getItem(storageKey));
+
+  useEffect(() => {
+    if (accountId) localStorage.setItem(storageKey, accountId);
+    else localStorage.removeItem(storageKey);
+  }, [accountId, storageKey]);
+
+  const currencies = useMemo(() => new Set(accounts.map(a => a.currency)), [accounts]);
+  const canCombineAccounts = currencies.size <= 1;
+
+  // Fall back to all accounts when the remembered one was deleted, or to the
+  // first account when the accounts cannot be combined
+  useEffect(() => {
+    if (loading) return;
+    if (accountId && !accountsById.has(accountId)) setAccountId(null);
+    else if (!accountId && !canCombineAccounts) setAccountId(accounts[0].id);
+  }, [loading, accountId, accountsById, accounts, canCombineAccounts]);
+
+  const selected = accountId ? accountsById.get(accountId) ?? null : null;
+  // Until the effect above moves off "all accounts", show the first account
+  const account = selected ?? (canCombineAccounts ? null : accounts[0]);
+
+  const value = useMemo(() => {
+    // Journals without accounts keep using the balance from settings
+    const startingBalance = account
+      ? account.starting_balance
+      : accounts.length > 0
+        ? accounts.reduce((sum, a) => sum + a.starting_balance, 0)
+        : settings.account_balance;
+    // Trades without an account are in the accounts' shared currency
+    const currency = account?.currency ?? [...currencies][0] ?? DEFAULT_ACCOUNT_CURRENCY;
+    const pnlOptions = { accountCurrency: currency };
+
+    return {
+      accountId: account?.id ?? null,
+      account,
+      setAccountId,
+      startingBalance,
+      currency,
+      pnlOptions,
+      tradePnlOptions: (trade: { account_id: string | null }) => {
+        const own = trade.account_id ? accountsById.get(trade.account_id) : undefined;
+        return own ? { accountCurrency: own.currency } : pnlOptions;
+      },
+      canCombineAccounts,
+      filterByAccount: <T extends { account_id: string | null }>(items: T[]) =>
+        account ? items.filter(item => item.account_id === account.id) : items,
+    };
+  }, [account, accounts, accountsById, currencies, canCombineAccounts, settings.account_balance]);
+
+  return (
+    <AccountContext.Provider value={value}>
+      {children}
+    </AccountContext.Provider>
+  );
+}
+
+export function useSelectedAccount() {
+  const context = useContext(AccountContext);
+  if (context === undefined) {
+    throw new Error('useSelectedAccount must be used within an AccountProvider');
+  }
+  return context;
+}
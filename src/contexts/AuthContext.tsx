@@ -0,0 +1,95 @@
+import React, { createContext, useContext, useEffect, useMemo, useState } from 'react';
+import { useSupabase } from './SupabaseContext';
+import { config } from '../config';
+import { AuthUser, createAuthBackend } from '../auth';
+
+interface AuthContextType {
+  user: AuthUser | null;
+  loading: boolean;
+  // True when running against the offline demo backend instead of Supabase
+  isDemo: boolean;
+  // True while the user arrived through a password recovery link
+  isRecovering: boolean;
+  signIn: (email: string, password: string) => Promise<void>;
+  signUp: (email: string, password: string) => Promise<{ needsConfirmation: boolean }>;
+  signOut: () => Promise<void>;
+  sendPasswordReset: (email: string) => Promise<void>;
+  updatePassword: (password: string) => Promise<void>;
+}
+
+const AuthContext = createContext<AuthContextType | undefined>(undefined);
+
+export function AuthProvider({ children }: { children: React.ReactNode }) {
+  const { supabase } = useSupabase();
+  const auth = useMemo(() => createAuthBackend(config.dataBackend, supabase), [supabase]);
+  const [user, setUser] = useState<AuthUser | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [isRecovering, setIsRecovering] = useState(false);
+
+  useEffect(() => {
+    // Restore a persisted session, then follow sign-in/sign-out events. A
+    // session that cannot be read leaves the user signed out, not loading
+    auth.getUser()
+      .then(restored => {
+        setUser(restored);
+        setLoading(false);
+      })
+      .catch(error => {
+        console.error('Error restoring session:', error);
+        setUser(null);
+        setLoading(false);
+      });
+
+    return auth.onChange((event, nextUser) => {
+      setUser(nextUser);
+      setLoading(false);
+      if (event === 'PASSWORD_RECOVERY') setIsRecovering(true);
+      if (event === 'SIGNED_OUT') setIsRecovering(false);
+    });
+  }, [auth]);
+
+  const signUp = async (email: string, password: string) => {
+    const needsConfirmation = await auth.signUp(email, password);
+    return { needsConfirmation };
+  };
+
+  const updatePassword = async (password: string) => {
+    await auth.updatePassword(password);
+    setIsRecovering(false);
+  };
+
+  const value = {
+    user,
+    loading,
+    isDemo: config.dataBackend !== 'supabase',
+    isRecovering,
+    signIn: auth.signIn,
+    signUp,
+    signOut: auth.signOut,
+    sendPasswordReset: auth.sendPasswordReset,
+    updatePassword,
+  };
+
+  return (
+    <AuthContext.Provider value={value}>
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (context === undefined) {
+    throw new Error('useAuth must be used within an AuthProvider');
+  }
+  return context;
+}
+
+// For pages that are only rendered behind ProtectedRoute
+export function useUserId(): string {
+  const { user } = useAuth();
+  if (!user) {
+    throw new Error('useUserId must be used within a ProtectedRoute');
+  }
+  return user.id;
+}
@@ -0,0 +1,277 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import { useSupabase } from './SupabaseContext';
+import { useUserId } from './AuthContext';
+import { config } from '../config';
+import { Repositories, createRepositories } from '../repositories';
+import { Trade } from '../types/trade';
+import { UserSettings } from '../types/settings';
+import { Tag } from '../types/tag';
+import { Account } from '../types/account';
+import { LedgerEntry } from '../types/ledger';
+import { TradeReview } from '../types/review';
+import { PlanRule } from '../types/plan';
+import { errorMessage } from '../lib/errors';
+
+type LoadStatus = 'idle' | 'loading' | 'ready' | 'error';
+
+export interface CacheState<T> {
+  data: T;
+  status: LoadStatus;
+  error: string | null;
+}
+
+interface DataContextType {
+  repositories: Repositories;
+  trades: CacheState<Trade[]>;
+  settings: CacheState<UserSettings | null>;
+  tags: CacheState<Tag[]>;
+  accounts: CacheState<Account[]>;
+  ledger: CacheState<LedgerEntry[]>;
+  reviews: CacheState<TradeReview[]>;
+  planRules: CacheState<PlanRule[]>;
+  // Bumped on every write so paged queries know to refetch
+  version: number;
+  loadTrades: (force?: boolean) => Promise<void>;
+  loadSettings: (force?: boolean) => Promise<void>;
+  loadTags: (force?: boolean) => Promise<void>;
+  loadAccounts: (force?: boolean) => Promise<void>;
+  loadLedger: (force?: boolean) => Promise<void>;
+  loadReviews: (force?: boolean) => Promise<void>;
+  loadPlanRules: (force?: boolean) => Promise<void>;
+  cacheTrade: (trade: Trade) => void;
+  uncacheTrade: (id: string) => void;
+  cacheSettings: (settings: UserSettings) => void;
+  cacheTag: (tag: Tag) => void;
+  uncacheTag: (id: string) => void;
+  cacheAccount: (account: Account) => void;
+  uncacheAccount: (id: string) => void;
+  cacheLedgerEntry: (entry: LedgerEntry) => void;
+  uncacheLedgerEntry: (id: string) => void;
+  cacheReview: (review: TradeReview) => void;
+  uncacheReview: (tradeId: string) => void;
+  cachePlanRule: (rule: PlanRule) => void;
+  uncachePlanRule: (id: string) => void;
+}
+
+const DataContext = createContext<DataContextType | undefined>(undefined);
+
+export { errorMessage } from '../lib/errors';
+
+// A cached list (or record) loaded on first use. Concurrent loads share one
+// request; a forced load replaces the one in flight, whose late result is
+// then ignored.
+function useCachedResource<T>(load: () => Promise<T>, initial: T, name: string) {
+  const [state, setState] = useState<CacheState<T>>({ data: initial, status: 'idle', error: null });
+  const status = useRef<LoadStatus>('idle');
+  const request = useRef<Promise<void> | null>(null);
+
+  const loadResource = useCallback(async (force = false) => {
+    if (!force && status.current !== 'idle') return request.current ?? undefined;
+
+    status.current = 'loading';
+    setState(prev => ({ ...prev, status: 'loading', error: null }));
+
+    const current: Promise<void> = load()
+      .then(data => {
+        if (request.current !== current) return;
+        status.current = 'ready';
+        setState({ data, status: 'ready', error: null });
+      })
+      .catch(error => {
+        console.error(`Error fetching ${name}:`, error);
+        if (request.current !== current) return;
+        status.current = 'error';
+        setState(prev => ({ ...prev, status: 'error', error: errorMessage(error, `Failed to load ${name}`) }));
+      })
+      .finally(() => {
+        if (request.current === current) request.current = null;
+      });
+
+    request.current = current;
+    return current;
+  }, [load, name]);
+
+  // Writes made here, kept in the cache without a reload
+  const update = useCallback((change: (data: T) => T) => {
+    setState(prev => ({ ...prev, data: change(prev.data) }));
+  }, []);
+
+  const replace = useCallback((data: T) => {
+    status.current = 'ready';
+    setState({ data, status: 'ready', error: null });
+  }, []);
+
+  return { state, load: loadResource, update, replace };
+}
+
+// Holds the signed-in user's repositories and a shared cache of their data, so
+// every page reads the same trades and a save on one page shows up on the others
+export function DataProvider({ children }: { children: React.ReactNode }) {
+  const { supabase } = useSupabase();
+  const userId = useUserId();
+
+  const repositories = useMemo(
+    () => createRepositories({ backend: config.dataBackend, userId, supabase }),
+    [userId, supabase]
+  );
+
+  const trades = useCachedResource(repositories.trades.list, [] as Trade[], 'trades');
+  const settings = useCachedResource(repositories.settings.get, null as UserSettings | null, 'settings');
+  const tags = useCachedResource(repositories.tags.list, [] as Tag[], 'tags');
+  const accounts = useCachedResource(repositories.accounts.list, [] as Account[], 'accounts');
+  const ledger = useCachedResource(repositories.ledger.list, [] as LedgerEntry[], 'ledger');
+  const reviews = useCachedResource(repositories.reviews.list, [] as TradeReview[], 'reviews');
+  const planRules = useCachedResource(repositories.planRules.list, [] as PlanRule[], 'plan rules');
+  const [version, setVersion] = useState(0);
+
+  const { load: loadTrades, update: updateTrades } = trades;
+  const { load: loadSettings } = settings;
+  const { update: updateTags } = tags;
+  const { update: updateAccounts } = accounts;
+  const { update: updateLedger } = ledger;
+  const { update: updateReviews } = reviews;
+  const { update: updatePlanRules } = planRules;
+
+  const cacheTrade = useCallback((trade: Trade) => {
+    updateTrades(data => (data.some(t => t.id === trade.id)
+      ? data.map(t => (t.id === trade.id ? trade : t))
+      : [trade, ...data]));
+    setVersion(v => v + 1);
+  }, [updateTrades]);
+
+  const uncacheTrade = useCallback((id: string) => {
+    updateTrades(data => data.filter(t => t.id !== id));
+    setVersion(v => v + 1);
+  }, [updateTrades]);
+
+  const cacheSettings = settings.replace;
+
+  const cacheTag = useCallback((tag: Tag) => {
+    updateTags(data => [...data.filter(t => t.id !== tag.id), tag].sort((a, b) => a.name.localeCompare(b.name)));
+  }, [updateTags]);
+
+  const uncacheTag = useCallback((id: string) => {
+    updateTags(data => data.filter(t => t.id !== id));
+  }, [updateTags]);
+
+  const cacheAccount = useCallback((account: Account) => {
+    updateAccounts(data => (data.some(a => a.id === account.id)
+      ? data.map(a => (a.id === account.id ? account : a))
+      : [...data, account]));
+  }, [updateAccounts]);
+
+  const uncacheAccount = useCallback((id: string) => {
+    updateAccounts(data => data.filter(a => a.id !== id));
+  }, [updateAccounts]);
+
+  const cacheLedgerEntry = useCallback((entry: LedgerEntry) => {
+    updateLedger(data => [...data.filter(e => e.id !== entry.id), entry]
+      .sort((a, b) => b.occurred_at.localeCompare(a.occurred_at)));
+  }, [updateLedger]);
+
+  const uncacheLedgerEntry = useCallback((id: string) => {
+    updateLedger(data => data.filter(e => e.id !== id));
+  }, [updateLedger]);
+
+  const cacheReview = useCallback((review: TradeReview) => {
+    updateReviews(data => [review, ...data.filter(r => r.trade_id !== review.trade_id)]);
+  }, [updateReviews]);
+
+  const uncacheReview = useCallback((tradeId: string) => {
+    updateReviews(data => data.filter(r => r.trade_id !== tradeId));
+  }, [updateReviews]);
+
+  const cachePlanRule = useCallback((rule: PlanRule) => {
+    updatePlanRules(data => (data.some(r => r.id === rule.id)
+      ? data.map(r => (r.id === rule.id ? rule : r))
+      : [...data, rule]));
+  }, [updatePlanRules]);
+
+  const uncachePlanRule = useCallback((id: string) => {
+    updatePlanRules(data => data.filter(r => r.id !== id));
+  }, [updatePlanRules]);
+
+  // Trades changed by the background sync, e.g. merged with another device's edits
+  useEffect(() => {
+    const { sync } = repositories;
+    if (!sync) return;
+
+    const unsubscribe = sync.onChange(change => {
+      if (change.type === 'saved') cacheTrade(change.trade);
+      else uncacheTrade(change.id);
+    });
+    sync.start();
+
+    return () => {
+      unsubscribe();
+      sync.stop();
+    };
+  }, [repositories, cacheTrade, uncacheTrade]);
+
+  // Changes made on other devices, pushed as they happen
+  useEffect(() => {
+    const { realtime, sync } = repositories;
+    if (!realtime) return;
+
+    return realtime.subscribe({
+      onChange: change => {
+        if (change.table === 'settings') {
+          loadSettings(true);
+        } else {
+          sync?.receive(change).catch(error => console.error('Error applying trade change:', error));
+        }
+      },
+      onReconnect: () => {
+        loadSettings(true);
+        // Paged queries refetch once the missed changes are in
+        loadTrades(true).then(() => setVersion(v => v + 1));
+      },
+    });
+  }, [repositories, loadTrades, loadSettings]);
+
+  const value = {
+    repositories,
+    trades: trades.state,
+    settings: settings.state,
+    tags: tags.state,
+    accounts: accounts.state,
+    ledger: ledger.state,
+    reviews: reviews.state,
+    planRules: planRules.state,
+    version,
+    loadTrades,
+    loadSettings,
+    loadTags: tags.load,
+    loadAccounts: accounts.load,
+    loadLedger: ledger.load,
+    loadReviews: reviews.load,
+    loadPlanRules: planRules.load,
+    cacheTrade,
+    uncacheTrade,
+    cacheSettings,
+    cacheTag,
+    uncacheTag,
+    cacheAccount,
+    uncacheAccount,
+    cacheLedgerEntry,
+    uncacheLedgerEntry,
+    cacheReview,
+    uncacheReview,
+    cachePlanRule,
+    uncachePlanRule,
+  };
+
+  return (
+    <DataContext.Provider value={value}>
+      {children}
+    </DataContext.Provider>
+  );
+}
+
+export function useData() {
+  const context = useContext(DataContext);
+  if (context === undefined) {
+    throw new Error('useData must be used within a DataProvider');
+  }
+  return context;
+}
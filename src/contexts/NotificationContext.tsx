@@ -0,0 +1,76 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import Toaster from '../components/ui/Toaster';
+import { errorMessage } from '../lib/errors';
+
+export type NotificationKind = 'success' | 'error' | 'warning';
+
+export interface Notification {
+  id: number;
+  kind: NotificationKind;
+  message: string;
+}
+
+interface NotificationContextType {
+  notifySuccess: (message: string) => void;
+  notifyWarning: (message: string) => void;
+  // Shows a readable message for a failed action; `fallback` is shown when
+  // the error says nothing the user can act on
+  notifyError: (error: unknown, fallback: string) => void;
+  dismiss: (id: number) => void;
+}
+
+// Older toasts are dropped past this many
+const MAX_NOTIFICATIONS = 4;
+
+const NotificationContext = createContext<NotificationContextType | undefined>(undefined);
+
+export function NotificationProvider({ children }: { children: React.ReactNode }) {
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const nextId = useRef(1);
+
+  const notify = useCallback((kind: NotificationKind, message: string) => {
+    const id = nextId.current++;
+    setNotifications(prev => [...prev, { id, kind, message }].slice(-MAX_NOTIFICATIONS));
+  }, []);
+
+  const dismiss = useCallback((id: number) => {
+    setNotifications(prev => prev.filter(notification => notification.id !== id));
+  }, []);
+
+  const notifySuccess = useCallback((message: string) => notify('success', message), [notify]);
+  const notifyWarning = useCallback((message: string) => notify('warning', message), [notify]);
+  const notifyError = useCallback(
+    (error: unknown, fallback: string) => notify('error', errorMessage(error, fallback)),
+    [notify]
+  );
+
+  // Promises nobody handled would otherwise fail without a word
+  useEffect(() => {
+    const handleRejection = (event: PromiseRejectionEvent) => {
+      notifyError(event.reason, 'Something went wrong. Please try again.');
+    };
+
+    window.addEventListener('unhandledrejection', handleRejection);
+    return () => window.removeEventListener('unhandledrejection', handleRejection);
+  }, [notifyError]);
+
+  const value = useMemo(
+    () => ({ notifySuccess, notifyWarning, notifyError, dismiss }),
+    [notifySuccess, notifyWarning, notifyError, dismiss]
+  );
+
+  return (
+    <NotificationContext.Provider value={value}>
+      {children}
+      <Toaster notifications={notifications} onDismiss={dismiss} />
+    </NotificationContext.Provider>
+  );
+}
+
+export function useNotifications() {
+  const context = useContext(NotificationContext);
+  if (context === undefined) {
+    throw new Error('useNotifications must be used within a NotificationProvider');
+  }
+  return context;
+}
@@ -1,16 +1,21 @@
 import React, { createContext, useContext } from 'react';
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
 import { Database } from '../types/supabase';
+import { config, assertSupabaseConfig } from '../config';
 
-// Initialize the Supabase client
-// In a production app, these would be environment variables
-const supabaseUrl = 'https://your-project-url.supabase.co';
-const supabaseKey = 'your-anon-key';
+// The client is only created when Supabase is the configured backend, so the
+// offline backends run without any network access
+function createSupabaseClient(): SupabaseClient<Database> | null {
+  if (config.dataBackend !== 'supabase') return null;
 
-const supabase = createClient<Database>(supabaseUrl, supabaseKey);
+  assertSupabaseConfig();
+  return createClient<Database>(config.supabaseUrl, config.supabaseAnonKey);
+}
+
+const supabase = createSupabaseClient();
 
 interface SupabaseContextType {
-  supabase: SupabaseClient<Database>;
+  supabase: SupabaseClient<Database> | null;
 }
 
 const SupabaseContext = createContext<SupabaseContextType | undefined>(undefined);
@@ -29,4 +34,4 @@ export function useSupabase() {
     throw new Error('useSupabase must be used within a SupabaseProvider');
   }
   return context;
-}
\ No newline at end of file
+}
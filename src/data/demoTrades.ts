@@ -0,0 +1,308 @@
+import { Trade } from '../types/trade';
+import { Account } from '../types/account';
+
+export const DEMO_ACCOUNT_ID = 'demo-account';
+
+export const demoAccounts: Account[] = [
+  {
+    id: DEMO_ACCOUNT_ID,
+    name: 'Demo account',
+    broker: null,
+    currency: 'USD',
+    starting_balance: 10000,
+    type: 'demo',
+    created_at: '2024-01-01T00:00:00Z',
+  },
+];
+
+// Sample trades used to seed the offline demo backend
+export const demoTrades: Trade[] = [
+  {
+    id: '1',
+    pair: 'XAU/USD',
+    timeframe: 'H4',
+    type: 'Buy',
+    entry_price: 1950.50,
+    exit_price: 1980.25,
+    stop_loss: 1940.00,
+    take_profit: 1990.00,
+    lot_size: 0.1,
+    suggested_lot_size: 0.1,
+    entry_date: '2023-05-10T10:30:00Z',
+    exit_date: '2023-05-12T14:15:00Z',
+    profit_loss: 297.50,
+    commission: -0.70,
+    swap: 0,
+    risk_reward_ratio: 2.85,
+    bb_upper: 1960.25,
+    bb_middle: 1948.50,
+    bb_lower: 1936.75,
+    macd_line: 5.23,
+    macd_signal: 2.56,
+    macd_histogram: 2.67,
+    stochastic_k: 75.34,
+    stochastic_d: 68.21,
+    market_sentiment: 'Moderate Bullish',
+    notes: 'Price broke above key resistance with strong momentum.',
+    screenshots: [],
+    plan_checks: [],
+    tag_ids: [],
+    executions: [],
+    timezone: 'UTC',
+    account_id: DEMO_ACCOUNT_ID,
+    created_at: '2023-05-10T10:35:00Z',
+    updated_at: '2023-05-10T10:35:00Z'
+  },
+  {
+    id: '2',
+    pair: 'EUR/USD',
+    timeframe: 'H1',
+    type: 'Sell',
+    entry_price: 1.0850,
+    exit_price: 1.0820,
+    stop_loss: 1.0870,
+    take_profit: 1.0800,
+    lot_size: 0.1,
+    suggested_lot_size: 0.1,
+    entry_date: '2023-05-15T09:45:00Z',
+    exit_date: '2023-05-15T15:30:00Z',
+    profit_loss: 30.00,
+    commission: -0.70,
+    swap: 0,
+    risk_reward_ratio: 1.5,
+    bb_upper: 1.0860,
+    bb_middle: 1.0840,
+    bb_lower: 1.0820,
+    macd_line: -2.12,
+    macd_signal: -1.56,
+    macd_histogram: -0.56,
+    stochastic_k: 28.45,
+    stochastic_d: 32.67,
+    market_sentiment: 'Moderate Bearish',
+    notes: 'Bearish engulfing pattern at resistance zone.',
+    screenshots: [],
+    plan_checks: [],
+    tag_ids: [],
+    executions: [],
+    timezone: 'UTC',
+    account_id: DEMO_ACCOUNT_ID,
+    created_at: '2023-05-15T09:50:00Z',
+    updated_at: '2023-05-15T09:50:00Z'
+  },
+  {
+    id: '3',
+    pair: 'GBP/USD',
+    timeframe: 'D1',
+    type: 'Buy',
+    entry_price: 1.2650,
+    exit_price: 1.2580,
+    stop_loss: 1.2600,
+    take_profit: 1.2750,
+    lot_size: 0.1,
+    suggested_lot_size: 0.1,
+    entry_date: '2023-05-18T08:15:00Z',
+    exit_date: '2023-05-19T10:45:00Z',
+    profit_loss: -70.00,
+    commission: -0.70,
+    swap: 0,
+    risk_reward_ratio: 2.0,
+    bb_upper: 1.2700,
+    bb_middle: 1.2650,
+    bb_lower: 1.2600,
+    macd_line: 0.45,
+    macd_signal: 0.32,
+    macd_histogram: 0.13,
+    stochastic_k: 65.78,
+    stochastic_d: 58.23,
+    market_sentiment: 'Neutral',
+    notes: 'Failed breakout above resistance turned support.',
+    screenshots: [],
+    plan_checks: [],
+    tag_ids: [],
+    executions: [],
+    timezone: 'UTC',
+    account_id: DEMO_ACCOUNT_ID,
+    created_at: '2023-05-18T08:20:00Z',
+    updated_at: '2023-05-18T08:20:00Z'
+  },
+  {
+    id: '4',
+    pair: 'XAU/USD',
+    timeframe: 'H4',
+    type: 'Sell',
+    entry_price: 1975.25,
+    exit_price: 1950.50,
+    stop_loss: 1985.00,
+    take_profit: 1945.00,
+    lot_size: 0.1,
+    suggested_lot_size: 0.1,
+    entry_date: '2023-05-22T11:20:00Z',
+    exit_date: '2023-05-23T16:45:00Z',
+    profit_loss: 247.50,
+    commission: -0.70,
+    swap: 0,
+    risk_reward_ratio: 2.54,
+    bb_upper: 1980.50,
+    bb_middle: 1970.25,
+    bb_lower: 1960.00,
+    macd_line: -3.45,
+    macd_signal: -1.23,
+    macd_histogram: -2.22,
+    stochastic_k: 25.67,
+    stochastic_d: 32.45,
+    market_sentiment: 'Strong Bearish',
+    notes: 'Double top formation with bearish divergence on RSI.',
+    screenshots: [],
+    plan_checks: [],
+    tag_ids: [],
+    executions: [],
+    timezone: 'UTC',
+    account_id: DEMO_ACCOUNT_ID,
+    created_at: '2023-05-22T11:25:00Z',
+    updated_at: '2023-05-22T11:25:00Z'
+  },
+  {
+    id: '5',
+    pair: 'USD/JPY',
+    timeframe: 'H1',
+    type: 'Buy',
+    entry_price: 134.50,
+    exit_price: 135.25,
+    stop_loss: 134.00,
+    take_profit: 135.50,
+    lot_size: 0.1,
+    suggested_lot_size: 0.1,
+    entry_date: '2023-05-25T08:30:00Z',
+    exit_date: '2023-05-25T14:15:00Z',
+    profit_loss: 75.00,
+    commission: -0.70,
+    swap: 0,
+    risk_reward_ratio: 1.5,
+    bb_upper: 134.75,
+    bb_middle: 134.25,
+    bb_lower: 133.75,
+    macd_line: 0.15,
+    macd_signal: 0.05,
+    macd_histogram: 0.10,
+    stochastic_k: 78.34,
+    stochastic_d: 72.56,
+    market_sentiment: 'Moderate Bullish',
+    notes: 'Bounce from key support level with increasing volume.',
+    screenshots: [],
+    plan_checks: [],
+    tag_ids: [],
+    executions: [],
+    timezone: 'UTC',
+    account_id: DEMO_ACCOUNT_ID,
+    created_at: '2023-05-25T08:35:00Z',
+    updated_at: '2023-05-25T08:35:00Z'
+  },
+  {
+    id: '6',
+    pair: 'EUR/USD',
+    timeframe: 'M15',
+    type: 'Sell',
+    entry_price: 1.0880,
+    exit_price: 1.0865,
+    stop_loss: 1.0890,
+    take_profit: 1.0860,
+    lot_size: 0.1,
+    suggested_lot_size: 0.1,
+    entry_date: '2023-05-26T13:45:00Z',
+    exit_date: '2023-05-26T15:15:00Z',
+    profit_loss: 15.00,
+    commission: -0.70,
+    swap: 0,
+    risk_reward_ratio: 1.5,
+    bb_upper: 1.0885,
+    bb_middle: 1.0875,
+    bb_lower: 1.0865,
+    macd_line: -0.56,
+    macd_signal: -0.32,
+    macd_histogram: -0.24,
+    stochastic_k: 22.45,
+    stochastic_d: 28.78,
+    market_sentiment: 'Moderate Bearish',
+    notes: 'Price rejected from upper Bollinger Band with bearish momentum.',
+    screenshots: [],
+    plan_checks: [],
+    tag_ids: [],
+    executions: [],
+    timezone: 'UTC',
+    account_id: DEMO_ACCOUNT_ID,
+    created_at: '2023-05-26T13:50:00Z',
+    updated_at: '2023-05-26T13:50:00Z'
+  },
+  {
+    id: '7',
+    pair: 'XAU/USD',
+    timeframe: 'D1',
+    type: 'Buy',
+    entry_price: 1945.75,
+    exit_price: 1935.25,
+    stop_loss: 1935.00,
+    take_profit: 1965.00,
+    lot_size: 0.1,
+    suggested_lot_size: 0.1,
+    entry_date: '2023-05-28T09:30:00Z',
+    exit_date: '2023-05-30T16:45:00Z',
+    profit_loss: -105.00,
+    commission: -0.70,
+    swap: 0,
+    risk_reward_ratio: 1.9,
+    bb_upper: 1965.50,
+    bb_middle: 1950.25,
+    bb_lower: 1935.00,
+    macd_line: 1.23,
+    macd_signal: 0.45,
+    macd_histogram: 0.78,
+    stochastic_k: 62.34,
+    stochastic_d: 55.67,
+    market_sentiment: 'Neutral',
+    notes: 'Stopped out just before price reversed higher.',
+    screenshots: [],
+    plan_checks: [],
+    tag_ids: [],
+    executions: [],
+    timezone: 'UTC',
+    account_id: DEMO_ACCOUNT_ID,
+    created_at: '2023-05-28T09:35:00Z',
+    updated_at: '2023-05-28T09:35:00Z'
+  },
+  {
+    id: '8',
+    pair: 'GBP/USD',
+    timeframe: 'H4',
+    type: 'Sell',
+    entry_price: 1.2540,
+    exit_price: 1.2480,
+    stop_loss: 1.2575,
+    take_profit: 1.2470,
+    lot_size: 0.1,
+    suggested_lot_size: 0.1,
+    entry_date: '2023-06-01T11:30:00Z',
+    exit_date: '2023-06-02T14:15:00Z',
+    profit_loss: 60.00,
+    commission: -0.70,
+    swap: 0,
+    risk_reward_ratio: 1.7,
+    bb_upper: 1.2560,
+    bb_middle: 1.2520,
+    bb_lower: 1.2480,
+    macd_line: -1.34,
+    macd_signal: -0.78,
+    macd_histogram: -0.56,
+    stochastic_k: 28.56,
+    stochastic_d: 35.67,
+    market_sentiment: 'Moderate Bearish',
+    notes: 'Break of key support level with increasing volume.',
+    screenshots: [],
+    plan_checks: [],
+    tag_ids: [],
+    executions: [],
+    timezone: 'UTC',
+    account_id: DEMO_ACCOUNT_ID,
+    created_at: '2023-06-01T11:35:00Z',
+    updated_at: '2023-06-01T11:35:00Z'
+  }
+];
@@ -0,0 +1,29 @@
+import { useMemo } from 'react';
+import { useAccounts } from './useAccounts';
+import { useLedger } from './useLedger';
+import { useSettings } from './useSettings';
+import { useTrades } from './useTrades';
+import { balanceTimeline } from '../lib/ledger';
+
+// Current balance of an account, in its own currency: the starting balance
+// moved by its closed trades and ledger entries. Trades without an account
+// are sized against the balance in settings.
+export function useAccountBalance(accountId: string | null) {
+  const { accountsById } = useAccounts();
+  const { trades } = useTrades();
+  const { entries } = useLedger();
+  const { settings } = useSettings();
+
+  return useMemo(() => {
+    const account = accountId ? accountsById.get(accountId) : undefined;
+    if (!account) return settings.account_balance;
+
+    const timeline = balanceTimeline(
+      trades.filter(trade => trade.account_id === account.id),
+      entries.filter(entry => entry.account_id === account.id),
+      account.starting_balance,
+      { accountCurrency: account.currency }
+    );
+    return timeline.length > 0 ? timeline[timeline.length - 1].balance : account.starting_balance;
+  }, [accountId, accountsById, trades, entries, settings.account_balance]);
+}
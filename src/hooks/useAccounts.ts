@@ -0,0 +1,43 @@
+import { useCallback, useEffect, useMemo } from 'react';
+import { useData } from '../contexts/DataContext';
+import { Account, AccountValues } from '../types/account';
+
+export function useAccounts() {
+  const { repositories, accounts, loadAccounts, cacheAccount, uncacheAccount } = useData();
+
+  useEffect(() => {
+    loadAccounts();
+  }, [loadAccounts]);
+
+  const accountsById = useMemo(
+    () => new Map<string, Account>(accounts.data.map(account => [account.id, account])),
+    [accounts.data]
+  );
+
+  const createAccount = useCallback(async (values: AccountValues) => {
+    const account = await repositories.accounts.create({ ...values, name: values.name.trim() });
+    cacheAccount(account);
+    return account;
+  }, [repositories, cacheAccount]);
+
+  const updateAccount = useCallback(async (id: string, changes: Partial<AccountValues>) => {
+    const account = await repositories.accounts.update(id, changes);
+    cacheAccount(account);
+    return account;
+  }, [repositories, cacheAccount]);
+
+  const deleteAccount = useCallback(async (id: string) => {
+    await repositories.accounts.remove(id);
+    uncacheAccount(id);
+  }, [repositories, uncacheAccount]);
+
+  return {
+    accounts: accounts.data,
+    accountsById,
+    loading: accounts.status === 'idle' || accounts.status === 'loading',
+    error: accounts.error,
+    createAccount,
+    updateAccount,
+    deleteAccount,
+  };
+}
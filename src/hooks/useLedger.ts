@@ -0,0 +1,30 @@
+import { useCallback, useEffect } from 'react';
+import { useData } from '../contexts/DataContext';
+import { LedgerEntryValues } from '../types/ledger';
+
+export function useLedger() {
+  const { repositories, ledger, loadLedger, cacheLedgerEntry, uncacheLedgerEntry } = useData();
+
+  useEffect(() => {
+    loadLedger();
+  }, [loadLedger]);
+
+  const addEntry = useCallback(async (values: LedgerEntryValues) => {
+    const entry = await repositories.ledger.create(values);
+    cacheLedgerEntry(entry);
+    return entry;
+  }, [repositories, cacheLedgerEntry]);
+
+  const deleteEntry = useCallback(async (id: string) => {
+    await repositories.ledger.remove(id);
+    uncacheLedgerEntry(id);
+  }, [repositories, uncacheLedgerEntry]);
+
+  return {
+    entries: ledger.data,
+    loading: ledger.status === 'idle' || ledger.status === 'loading',
+    error: ledger.error,
+    addEntry,
+    deleteEntry,
+  };
+}
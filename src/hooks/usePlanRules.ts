@@ -0,0 +1,37 @@
+import { useCallback, useEffect } from 'react';
+import { useData } from '../contexts/DataContext';
+import { PlanRuleValues } from '../types/plan';
+
+export function usePlanRules() {
+  const { repositories, planRules, loadPlanRules, cachePlanRule, uncachePlanRule } = useData();
+
+  useEffect(() => {
+    loadPlanRules();
+  }, [loadPlanRules]);
+
+  const createRule = useCallback(async (values: PlanRuleValues) => {
+    const rule = await repositories.planRules.create({ ...values, name: values.name.trim() });
+    cachePlanRule(rule);
+    return rule;
+  }, [repositories, cachePlanRule]);
+
+  const updateRule = useCallback(async (id: string, changes: Partial<PlanRuleValues>) => {
+    const rule = await repositories.planRules.update(id, changes);
+    cachePlanRule(rule);
+    return rule;
+  }, [repositories, cachePlanRule]);
+
+  const deleteRule = useCallback(async (id: string) => {
+    await repositories.planRules.remove(id);
+    uncachePlanRule(id);
+  }, [repositories, uncachePlanRule]);
+
+  return {
+    rules: planRules.data,
+    loading: planRules.status === 'idle' || planRules.status === 'loading',
+    error: planRules.error,
+    createRule,
+    updateRule,
+    deleteRule,
+  };
+}
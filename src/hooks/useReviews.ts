@@ -0,0 +1,36 @@
+import { useCallback, useEffect, useMemo } from 'react';
+import { useData } from '../contexts/DataContext';
+import { TradeReviewValues } from '../types/review';
+
+export function useReviews() {
+  const { repositories, reviews, loadReviews, cacheReview, uncacheReview } = useData();
+
+  useEffect(() => {
+    loadReviews();
+  }, [loadReviews]);
+
+  const reviewsByTrade = useMemo(
+    () => new Map(reviews.data.map(review => [review.trade_id, review])),
+    [reviews.data]
+  );
+
+  const saveReview = useCallback(async (tradeId: string, values: TradeReviewValues) => {
+    const review = await repositories.reviews.save(tradeId, values);
+    cacheReview(review);
+    return review;
+  }, [repositories, cacheReview]);
+
+  const deleteReview = useCallback(async (tradeId: string) => {
+    await repositories.reviews.remove(tradeId);
+    uncacheReview(tradeId);
+  }, [repositories, uncacheReview]);
+
+  return {
+    reviews: reviews.data,
+    reviewsByTrade,
+    loading: reviews.status === 'idle' || reviews.status === 'loading',
+    error: reviews.error,
+    saveReview,
+    deleteReview,
+  };
+}
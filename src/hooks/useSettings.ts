@@ -0,0 +1,32 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useData } from '../contexts/DataContext';
+import { DEFAULT_SETTINGS, UserSettings } from '../types/settings';
+
+export function useSettings() {
+  const { repositories, settings, loadSettings, cacheSettings } = useData();
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadSettings();
+  }, [loadSettings]);
+
+  const saveSettings = useCallback(async (next: UserSettings) => {
+    setSaving(true);
+    try {
+      const saved = await repositories.settings.save(next);
+      cacheSettings(saved);
+      return saved;
+    } finally {
+      setSaving(false);
+    }
+  }, [repositories, cacheSettings]);
+
+  return {
+    // Users who never saved settings get the defaults
+    settings: settings.data ?? DEFAULT_SETTINGS,
+    loading: settings.status === 'idle' || settings.status === 'loading',
+    error: settings.error,
+    saving,
+    saveSettings,
+  };
+}
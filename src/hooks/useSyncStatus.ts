@@ -0,0 +1,21 @@
+import { useCallback, useSyncExternalStore } from 'react';
+import { useData } from '../contexts/DataContext';
+
+// Progress of the background trade sync; the status is null for the offline
+// backends, which have nothing to sync
+export function useSyncStatus() {
+  const { repositories } = useData();
+  const { sync } = repositories;
+
+  const subscribe = useCallback(
+    (listener: () => void) => (sync ? sync.subscribe(listener) : () => undefined),
+    [sync]
+  );
+  const status = useSyncExternalStore(subscribe, () => sync?.getStatus() ?? null);
+
+  const retryFailed = useCallback(async () => {
+    await sync?.retryFailed();
+  }, [sync]);
+
+  return { status, retryFailed };
+}
@@ -0,0 +1,36 @@
+import { useCallback, useEffect, useMemo } from 'react';
+import { useData } from '../contexts/DataContext';
+import { Tag, TagValues } from '../types/tag';
+
+export function useTags() {
+  const { repositories, tags, loadTags, cacheTag, uncacheTag } = useData();
+
+  useEffect(() => {
+    loadTags();
+  }, [loadTags]);
+
+  const tagsById = useMemo(
+    () => new Map<string, Tag>(tags.data.map(tag => [tag.id, tag])),
+    [tags.data]
+  );
+
+  const createTag = useCallback(async (values: TagValues) => {
+    const tag = await repositories.tags.create({ ...values, name: values.name.trim() });
+    cacheTag(tag);
+    return tag;
+  }, [repositories, cacheTag]);
+
+  const deleteTag = useCallback(async (id: string) => {
+    await repositories.tags.remove(id);
+    uncacheTag(id);
+  }, [repositories, uncacheTag]);
+
+  return {
+    tags: tags.data,
+    tagsById,
+    loading: tags.status === 'idle' || tags.status === 'loading',
+    error: tags.error,
+    createTag,
+    deleteTag,
+  };
+}
@@ -0,0 +1,238 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useData, errorMessage } from '../contexts/DataContext';
+import { Trade, TradePage, TradeQuery, TradeValues } from '../types/trade';
+import { Screenshot, ScreenshotDraft } from '../types/screenshot';
+import { calculateProfitLoss } from '../lib/tradeCalculations';
+import { oppositeSide, positionFields, remainingSize, tradeExecutions } from '../lib/executions';
+import { ExportFormat, exportTrades } from '../lib/tradeExport';
+import { PnlOptions } from '../lib/pnl';
+
+// PostgREST caps a single response at 1000 rows by default
+const EXPORT_BATCH_SIZE = 1000;
+
+// All of the user's trades, loaded once and shared between pages
+export function useTrades() {
+  const { trades, loadTrades } = useData();
+
+  useEffect(() => {
+    loadTrades();
+  }, [loadTrades]);
+
+  const reload = useCallback(() => loadTrades(true), [loadTrades]);
+
+  return {
+    trades: trades.data,
+    loading: trades.status === 'idle' || trades.status === 'loading',
+    error: trades.error,
+    reload,
+  };
+}
+
+// One page of trades filtered and sorted by the backend
+export function useTradePage(query: TradeQuery) {
+  const { repositories, version } = useData();
+  const [page, setPage] = useState<TradePage>({ trades: [], total: 0 });
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const queryKey = JSON.stringify(query);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    setLoading(true);
+    setError(null);
+
+    repositories.trades.query(JSON.parse(queryKey) as TradeQuery)
+      .then(result => {
+        if (!cancelled) setPage(result);
+      })
+      .catch(error => {
+        console.error('Error fetching trades:', error);
+        if (!cancelled) setError(errorMessage(error, 'Failed to load trades'));
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [repositories, queryKey, version]);
+
+  return { ...page, loading, error };
+}
+
+// Downloads every trade matching a query's filters and sort, ignoring its paging
+export function useTradeExport() {
+  const { repositories } = useData();
+  const [exporting, setExporting] = useState(false);
+
+  const exportMatching = useCallback(async (query: TradeQuery, format: ExportFormat) => {
+    setExporting(true);
+    try {
+      const trades: Trade[] = [];
+      let total = Infinity;
+
+      for (let page = 1; trades.length < total; page++) {
+        const result = await repositories.trades.query({ ...query, page, pageSize: EXPORT_BATCH_SIZE });
+        trades.push(...result.trades);
+        total = result.total;
+        if (result.trades.length === 0) break;
+      }
+
+      exportTrades(trades, format);
+    } finally {
+      setExporting(false);
+    }
+  }, [repositories]);
+
+  return { exportMatching, exporting };
+}
+
+// A single trade, served from the shared cache when it is already loaded
+export function useTrade(id: string | undefined) {
+  const { repositories, trades, cacheTrade } = useData();
+  const cached = id ? trades.data.find(trade => trade.id === id) ?? null : null;
+  const [loading, setLoading] = useState(Boolean(id) && !cached);
+  const [error, setError] = useState<string | null>(null);
+  const [missing, setMissing] = useState(false);
+  const hasCached = cached !== null;
+
+  useEffect(() => {
+    if (!id || hasCached) {
+      setLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+
+    setLoading(true);
+    setError(null);
+    setMissing(false);
+
+    repositories.trades.get(id)
+      .then(trade => {
+        if (cancelled) return;
+        if (trade) {
+          cacheTrade(trade);
+        } else {
+          setMissing(true);
+        }
+      })
+      .catch(error => {
+        console.error('Error fetching trade:', error);
+        if (!cancelled) setError(errorMessage(error, 'Failed to load trade'));
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [id, hasCached, repositories, cacheTrade]);
+
+  return { trade: cached, loading, error, missing };
+}
+
+// Create, update, close and delete trades, keeping the shared cache in sync
+export function useSaveTrade() {
+  const { repositories, cacheTrade, uncacheTrade, uncacheReview } = useData();
+  const [saving, setSaving] = useState(false);
+
+  const run = useCallback(async <T,>(action: () => Promise<T>): Promise<T> => {
+    setSaving(true);
+    try {
+      return await action();
+    } finally {
+      setSaving(false);
+    }
+  }, []);
+
+  const saveTrade = useCallback((values: TradeValues, id?: string) => run(async () => {
+    const trade = id
+      ? await repositories.trades.update(id, values)
+      : await repositories.trades.create(values);
+    cacheTrade(trade);
+    return trade;
+  }), [repositories, cacheTrade, run]);
+
+  // Records the exit of an open position and settles its profit/loss
+  // Closes the whole position, or part of it when a smaller size is given.
+  // Partial closes are recorded as executions. The result is stored in the
+  // currency of the trade's account, given in `options`.
+  const closeTrade = useCallback((
+    trade: Trade,
+    exitPrice: number,
+    exitTime: string,
+    lotSize?: number,
+    options: PnlOptions = {}
+  ) => run(async () => {
+    const open = remainingSize(trade);
+    const size = lotSize ?? open ?? 0;
+    const partial = open !== null && size < open;
+
+    const updated = await repositories.trades.update(trade.id, trade.executions.length > 0 || partial
+      ? positionFields(trade, [
+          ...tradeExecutions(trade),
+          {
+            side: oppositeSide(trade.type),
+            price: exitPrice,
+            lot_size: size,
+            executed_at: new Date(exitTime).toISOString(),
+          },
+        ], options)
+      : {
+          exit_price: exitPrice,
+          exit_date: new Date(exitTime).toISOString(),
+          profit_loss: calculateProfitLoss(trade, exitPrice, options),
+        });
+    cacheTrade(updated);
+    return updated;
+  }), [repositories, cacheTrade, run]);
+
+  // Bulk insert used by the CSV import
+  const importTrades = useCallback((values: TradeValues[]) => run(async () => {
+    const created = await repositories.trades.createMany(values);
+    created.forEach(cacheTrade);
+    return created;
+  }), [repositories, cacheTrade, run]);
+
+  // Uploads the images added in the form; the rest are kept as they are
+  const storeScreenshots = useCallback((drafts: ScreenshotDraft[]): Promise<Screenshot[]> => Promise.all(
+    drafts.map(async ({ file, ...screenshot }) =>
+      file ? { ...screenshot, ...(await repositories.trades.uploadScreenshot(file)) } : screenshot
+    )
+  ), [repositories]);
+
+  // Deletes files a trade no longer uses. A failure only leaves an unused
+  // file behind, so it is logged instead of failing the save.
+  const removeScreenshots = useCallback(async (screenshots: Screenshot[]) => {
+    const paths = screenshots.flatMap(screenshot => (screenshot.path ? [screenshot.path] : []));
+    try {
+      await repositories.trades.removeScreenshots(paths);
+    } catch (error) {
+      console.error('Error removing screenshots:', error);
+    }
+  }, [repositories]);
+
+  const deleteTrade = useCallback((id: string) => run(async () => {
+    const trade = await repositories.trades.get(id);
+    await repositories.trades.remove(id);
+    uncacheTrade(id);
+    // The database drops the review with the trade once the delete is
+    // synced; the offline stores do not
+    if (!repositories.sync) await repositories.reviews.remove(id);
+    uncacheReview(id);
+    if (trade) await removeScreenshots(trade.screenshots);
+  }), [repositories, uncacheTrade, uncacheReview, removeScreenshots, run]);
+
+  // Saves some columns of a trade, e.g. annotations drawn on the detail page
+  const updateTrade = useCallback((id: string, changes: Partial<TradeValues>) => run(async () => {
+    const trade = await repositories.trades.update(id, changes);
+    cacheTrade(trade);
+    return trade;
+  }), [repositories, cacheTrade, run]);
+
+  return { saveTrade, updateTrade, closeTrade, importTrades, deleteTrade, storeScreenshots, removeScreenshots, saving };
+}
@@ -0,0 +1,87 @@
+import {
+  eachDayOfInterval,
+  endOfMonth,
+  endOfWeek,
+  format,
+  parseISO,
+  startOfMonth,
+  startOfWeek,
+} from 'date-fns';
+import { Trade } from '../types/trade';
+import { PnlOptions, tradeNetProfitLoss } from './pnl';
+
+export interface DayPerformance {
+  // Local calendar day, yyyy-MM-dd
+  date: string;
+  pnl: number;
+  count: number;
+  wins: number;
+  winRate: number;
+  trades: Trade[];
+}
+
+export interface PeriodTotals {
+  pnl: number;
+  count: number;
+  wins: number;
+  winRate: number;
+}
+
+// Weeks start on Monday, when the forex week opens in most time zones
+const WEEK_OPTIONS = { weekStartsOn: 1 as const };
+
+export const dayKey = (date: Date) => format(date, 'yyyy-MM-dd');
+
+// A result belongs to the day the trade closed; trades without an exit date
+// fall back to the day they were entered
+export const tradeDay = (trade: Trade) => dayKey(parseISO(trade.exit_date ?? trade.entry_date));
+
+// Net P/L, trade count and win rate per day for closed trades
+export function dailyPerformance(trades: Trade[], options: PnlOptions = {}): Map<string, DayPerformance> {
+  const days = new Map<string, DayPerformance>();
+
+  trades
+    .filter(trade => trade.exit_price !== null)
+    .forEach(trade => {
+      const date = tradeDay(trade);
+      const day = days.get(date) ?? { date, pnl: 0, count: 0, wins: 0, winRate: 0, trades: [] };
+      const pnl = tradeNetProfitLoss(trade, options);
+
+      day.pnl += pnl;
+      day.count += 1;
+      if (pnl > 0) day.wins += 1;
+      day.winRate = (day.wins / day.count) * 100;
+      day.trades.push(trade);
+      days.set(date, day);
+    });
+
+  return days;
+}
+
+export function sumDays(days: (DayPerformance | undefined)[]): PeriodTotals {
+  const present = days.filter((day): day is DayPerformance => day !== undefined);
+  const count = present.reduce((sum, day) => sum + day.count, 0);
+  const wins = present.reduce((sum, day) => sum + day.wins, 0);
+
+  return {
+    pnl: present.reduce((sum, day) => sum + day.pnl, 0),
+    count,
+    wins,
+    winRate: count > 0 ? (wins / count) * 100 : 0,
+  };
+}
+
+// Full weeks covering the month, including the days of the neighbouring
+// months needed to fill the first and last rows
+export function monthWeeks(month: Date): Date[][] {
+  const days = eachDayOfInterval({
+    start: startOfWeek(startOfMonth(month), WEEK_OPTIONS),
+    end: endOfWeek(endOfMonth(month), WEEK_OPTIONS),
+  });
+
+  const weeks: Date[][] = [];
+  for (let i = 0; i < days.length; i += 7) {
+    weeks.push(days.slice(i, i + 7));
+  }
+  return weeks;
+}
@@ -0,0 +1,18 @@
+import { describe, expect, it } from 'vitest';
+import { NETWORK_ERROR_MESSAGE, errorMessage, isNetworkError } from './errors';
+
+describe('isNetworkError', () => {
+  it('matches fetch failures, also when passed on by Supabase', () => {
+    expect(isNetworkError(new TypeError('Failed to fetch'))).toBe(true);
+    expect(isNetworkError(new TypeError('NetworkError when attempting to fetch resource.'))).toBe(true);
+    expect(isNetworkError(new TypeError('Load failed'))).toBe(true);
+    expect(isNetworkError({ message: 'TypeError: Failed to fetch', details: '' })).toBe(true);
+  });
+
+  it('does not take other type errors for a lost connection', () => {
+    const bug = new TypeError("Cannot read properties of undefined (reading 'id')");
+
+    expect(isNetworkError(bug)).toBe(false);
+    expect(errorMessage(bug, 'Failed to save trade')).not.toBe(NETWORK_ERROR_MESSAGE);
+  });
+});
@@ -0,0 +1,66 @@
+// Turns errors from Supabase, PostgREST and the browser into messages fit to
+// show the user
+
+export const NETWORK_ERROR_MESSAGE = "Can't reach the server. Check your connection and try again.";
+
+const SESSION_EXPIRED_MESSAGE = 'Your session has expired. Please sign in again.';
+
+// Postgres SQLSTATE codes and PostgREST's own codes
+const DATABASE_MESSAGES: Record<string, string> = {
+  '23505': 'This already exists.',
+  '23503': 'This is still in use, or refers to something that has been deleted.',
+  '23514': 'Some values are outside the allowed range.',
+  '23502': 'A required value is missing.',
+  '22P02': 'A value is in the wrong format.',
+  '22001': 'A value is too long.',
+  '42501': "You don't have permission to change this.",
+  '57014': 'The server took too long to respond. Please try again.',
+  PGRST116: 'It could not be found. It may have been deleted on another device.',
+  PGRST301: SESSION_EXPIRED_MESSAGE,
+  PGRST303: SESSION_EXPIRED_MESSAGE,
+};
+
+const STATUS_MESSAGES: Record<number, string> = {
+  401: SESSION_EXPIRED_MESSAGE,
+  403: "You don't have permission to do that.",
+  413: 'The file is too large to upload.',
+  429: 'Too many requests. Wait a moment and try again.',
+};
+
+const field = (error: unknown, name: string): unknown =>
+  typeof error === 'object' && error !== null ? (error as Record<string, unknown>)[name] : undefined;
+
+const messageOf = (error: unknown) => {
+  const message = field(error, 'message');
+  return typeof message === 'string' ? message : '';
+};
+
+// What fetch rejects with when the request never reaches the server, in
+// Chrome, Firefox and Safari; Supabase passes it on as the error message
+const FETCH_FAILURE = /failed to fetch|networkerror|load failed/i;
+
+// Only failures to reach the server count; any other TypeError is a bug and
+// must not be retried as if the connection had dropped
+export const isNetworkError = (error: unknown) =>
+  (typeof navigator !== 'undefined' && navigator.onLine === false) || FETCH_FAILURE.test(messageOf(error));
+
+// Database codes are SQLSTATEs or PGRST codes; Auth uses lowercase codes
+// whose messages are readable as they are
+const isDatabaseCode = (code: unknown): code is string =>
+  typeof code === 'string' && /^([0-9A-Z]{5}|PGRST\d+)$/.test(code);
+
+// A readable message for any error; `fallback` is used when the error does
+// not say anything the user can act on
+export function errorMessage(error: unknown, fallback: string): string {
+  if (isNetworkError(error)) return NETWORK_ERROR_MESSAGE;
+
+  const code = field(error, 'code');
+  if (isDatabaseCode(code)) return DATABASE_MESSAGES[code] ?? fallback;
+
+  // Storage errors report the status as a string
+  const status = Number(field(error, 'status') ?? field(error, 'statusCode'));
+  if (status >= 500) return 'The server ran into a problem. Please try again.';
+  if (STATUS_MESSAGES[status]) return STATUS_MESSAGES[status];
+
+  return messageOf(error) || fallback;
+}
@@ -0,0 +1,85 @@
+import { Execution, Trade, TradeType, TradeValues } from '../types/trade';
+import { PnlOptions, PositionSummary, roundMoney, summarizeExecutions } from './pnl';
+
+type PositionTrade = Pick<Trade, 'pair' | 'type' | 'stop_loss'>;
+
+// Stored columns that follow from a trade's executions
+export type PositionFields = Pick<
+  TradeValues,
+  'entry_price' | 'lot_size' | 'entry_date' | 'exit_price' | 'exit_date' | 'profit_loss' | 'executions'
+>;
+
+export const oppositeSide = (type: TradeType): TradeType => (type === 'Buy' ? 'Sell' : 'Buy');
+
+const byTime = (a: Execution, b: Execution) => a.executed_at.localeCompare(b.executed_at);
+
+// The trade's fills, with single entry/exit trades expressed as one or two
+// executions so both kinds can be handled the same way
+export function tradeExecutions(
+  trade: Pick<Trade, 'type' | 'entry_price' | 'entry_date' | 'exit_price' | 'exit_date' | 'lot_size' | 'executions'>
+): Execution[] {
+  if (trade.executions.length > 0) return [...trade.executions].sort(byTime);
+  if (!trade.lot_size) return [];
+
+  const executions: Execution[] = [
+    { side: trade.type, price: trade.entry_price, lot_size: trade.lot_size, executed_at: trade.entry_date },
+  ];
+  if (trade.exit_price !== null) {
+    executions.push({
+      side: oppositeSide(trade.type),
+      price: trade.exit_price,
+      lot_size: trade.lot_size,
+      executed_at: trade.exit_date ?? trade.entry_date,
+    });
+  }
+  return executions;
+}
+
+// Lots still open; null when the trade was recorded without a size
+export function remainingSize(trade: Trade): number | null {
+  const executions = tradeExecutions(trade);
+  if (executions.length === 0) return trade.exit_price === null ? null : 0;
+  return summarizeExecutions(trade, executions).remainingSize;
+}
+
+// Problems that would make the fills impossible to replay
+export function validateExecutions(type: TradeType, executions: Execution[]): string | null {
+  const sorted = [...executions].sort(byTime);
+  if (sorted.some(execution => !(execution.price > 0) || !(execution.lot_size > 0) || !execution.executed_at)) {
+    return 'Every execution needs a price, a size and a time';
+  }
+  if (sorted.length > 0 && sorted[0].side !== type) {
+    return `The first execution must be a ${type.toLowerCase()}`;
+  }
+
+  let open = 0;
+  for (const execution of sorted) {
+    open += execution.side === type ? execution.lot_size : -execution.lot_size;
+    if (open < -0.0001) return 'Executions close more lots than were opened';
+  }
+  return null;
+}
+
+// Averages and totals stored on the trade row: a position only counts as
+// closed once nothing is left open
+export function positionFields(
+  trade: PositionTrade,
+  executions: Execution[],
+  options: PnlOptions = {}
+): PositionFields {
+  const sorted = [...executions].sort(byTime);
+  const position: PositionSummary = summarizeExecutions(trade, sorted, options);
+  const entries = sorted.filter(execution => execution.side === trade.type);
+  const exits = sorted.filter(execution => execution.side !== trade.type);
+  const closed = position.remainingSize <= 0 && position.exitSize > 0;
+
+  return {
+    entry_price: parseFloat((position.averageEntry ?? 0).toFixed(5)),
+    lot_size: position.entrySize || null,
+    entry_date: entries[0]?.executed_at ?? sorted[0]?.executed_at ?? '',
+    exit_price: closed && position.averageExit !== null ? parseFloat(position.averageExit.toFixed(5)) : null,
+    exit_date: closed ? exits[exits.length - 1].executed_at : null,
+    profit_loss: position.partials.length > 0 ? roundMoney(position.realisedPnl) : null,
+    executions: sorted,
+  };
+}
@@ -0,0 +1,62 @@
+export const SCREENSHOT_TYPES = ['image/png', 'image/jpeg', 'image/webp'];
+
+export const MAX_SCREENSHOT_BYTES = 5 * 1024 * 1024;
+
+// Charts stay readable at this size while keeping uploads small
+const MAX_DIMENSION = 2000;
+const QUALITY = 0.85;
+
+const loadImage = (file: File) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(image);
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error(`Could not read ${file.name}`));
+    };
+    image.src = url;
+  });
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string) =>
+  new Promise<Blob | null>(resolve => canvas.toBlob(resolve, type, QUALITY));
+
+// Scales large screenshots down and re-encodes them as WebP, falling back to
+// JPEG where the browser cannot write WebP. The original is kept when it is
+// already smaller.
+export async function compressImage(file: File): Promise<File> {
+  const image = await loadImage(file);
+  const scale = Math.min(1, MAX_DIMENSION / Math.max(image.naturalWidth, image.naturalHeight));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(image.naturalWidth * scale);
+  canvas.height = Math.round(image.naturalHeight * scale);
+  const context = canvas.getContext('2d');
+  if (!context) return file;
+  context.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+  let blob = await canvasToBlob(canvas, 'image/webp');
+  if (!blob || blob.type !== 'image/webp') blob = await canvasToBlob(canvas, 'image/jpeg');
+  if (!blob || blob.size >= file.size) return file;
+
+  const extension = blob.type === 'image/webp' ? 'webp' : 'jpg';
+  const name = file.name.replace(/\.[^.]+$/, '') || 'screenshot';
+  return new File([blob], `${name}.${extension}`, { type: blob.type });
+}
+
+// Checks and compresses a chosen file; throws with a message for the user
+// when it cannot be used
+export async function prepareScreenshot(file: File): Promise<File> {
+  if (!SCREENSHOT_TYPES.includes(file.type)) {
+    throw new Error(`${file.name} is not a PNG, JPG or WebP image`);
+  }
+
+  const compressed = await compressImage(file);
+  if (compressed.size > MAX_SCREENSHOT_BYTES) {
+    throw new Error(`${file.name} is larger than 5MB even after compression`);
+  }
+  return compressed;
+}
@@ -0,0 +1,178 @@
+import { CurrencyPair, Trade } from '../types/trade';
+import { GroupPerformance, calculateAdvancedMetrics, summarizePerformance } from './metrics';
+import { PnlOptions } from './pnl';
+
+export const INDICATOR_GROUPS = ['bollinger', 'band_width', 'macd', 'histogram', 'stochastic', 'stochastic_cross'] as const;
+
+export type IndicatorGroup = typeof INDICATOR_GROUPS[number];
+
+export const INDICATOR_GROUP_LABELS: Record<IndicatorGroup, string> = {
+  bollinger: 'Bollinger position',
+  band_width: 'Band width',
+  macd: 'MACD vs signal',
+  histogram: 'MACD histogram',
+  stochastic: 'Stochastic level',
+  stochastic_cross: 'Stochastic %K / %D',
+};
+
+// Conditions derived from the indicator values recorded at entry
+export const INDICATOR_CONDITIONS = {
+  bb_above_upper: { group: 'bollinger', label: 'Above upper band' },
+  bb_upper_half: { group: 'bollinger', label: 'Upper half of bands' },
+  bb_lower_half: { group: 'bollinger', label: 'Lower half of bands' },
+  bb_below_lower: { group: 'bollinger', label: 'Below lower band' },
+  bb_narrow: { group: 'band_width', label: 'Narrow bands' },
+  bb_normal: { group: 'band_width', label: 'Normal band width' },
+  bb_wide: { group: 'band_width', label: 'Wide bands' },
+  macd_above_signal: { group: 'macd', label: 'MACD above signal' },
+  macd_below_signal: { group: 'macd', label: 'MACD below signal' },
+  histogram_positive: { group: 'histogram', label: 'Histogram positive' },
+  histogram_negative: { group: 'histogram', label: 'Histogram negative' },
+  stochastic_overbought: { group: 'stochastic', label: 'Overbought (%K ≥ 80)' },
+  stochastic_neutral: { group: 'stochastic', label: '%K between 20 and 80' },
+  stochastic_oversold: { group: 'stochastic', label: 'Oversold (%K ≤ 20)' },
+  stochastic_k_above_d: { group: 'stochastic_cross', label: '%K above %D' },
+  stochastic_k_below_d: { group: 'stochastic_cross', label: '%K below %D' },
+} satisfies Record<string, { group: IndicatorGroup; label: string }>;
+
+export type IndicatorCondition = keyof typeof INDICATOR_CONDITIONS;
+
+const CONDITION_IDS = Object.keys(INDICATOR_CONDITIONS) as IndicatorCondition[];
+
+export interface ConditionPerformance extends GroupPerformance {
+  // Every condition a trade needs to count towards this row
+  conditions: IndicatorCondition[];
+  expectancy: number;
+}
+
+const STOCHASTIC_OVERBOUGHT = 80;
+const STOCHASTIC_OVERSOLD = 20;
+
+// Band width against the pair's usual width, as a multiple of the median
+const NARROW_BANDS = 0.75;
+const WIDE_BANDS = 1.25;
+
+export const conditionLabel = (conditions: IndicatorCondition[]) =>
+  conditions.map(condition => INDICATOR_CONDITIONS[condition].label).join(' + ');
+
+// Width of the bands relative to the middle band, so pairs quoted at
+// different prices compare; null without both outer bands
+export function bandWidth(trade: Trade): number | null {
+  if (trade.bb_upper === null || trade.bb_lower === null) return null;
+  const middle = trade.bb_middle ?? (trade.bb_upper + trade.bb_lower) / 2;
+  return middle > 0 ? (trade.bb_upper - trade.bb_lower) / middle : null;
+}
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+};
+
+// Typical band width per pair, since volatility differs too much between
+// instruments for one threshold
+export function medianBandWidths(trades: Trade[]): Map<CurrencyPair, number> {
+  const widths = new Map<CurrencyPair, number[]>();
+  trades.forEach(trade => {
+    const width = bandWidth(trade);
+    if (width !== null) widths.set(trade.pair, [...(widths.get(trade.pair) ?? []), width]);
+  });
+  return new Map(Array.from(widths, ([pair, values]) => [pair, median(values)]));
+}
+
+// Conditions a trade was entered under; indicators that were not recorded add none
+export function tradeConditions(trade: Trade, medianWidths: Map<CurrencyPair, number>): IndicatorCondition[] {
+  const conditions: IndicatorCondition[] = [];
+  const price = trade.entry_price;
+
+  if (trade.bb_upper !== null && trade.bb_lower !== null) {
+    const middle = trade.bb_middle ?? (trade.bb_upper + trade.bb_lower) / 2;
+    if (price > trade.bb_upper) conditions.push('bb_above_upper');
+    else if (price < trade.bb_lower) conditions.push('bb_below_lower');
+    else conditions.push(price >= middle ? 'bb_upper_half' : 'bb_lower_half');
+
+    const width = bandWidth(trade);
+    const typical = medianWidths.get(trade.pair);
+    if (width !== null && typical) {
+      const ratio = width / typical;
+      conditions.push(ratio < NARROW_BANDS ? 'bb_narrow' : ratio > WIDE_BANDS ? 'bb_wide' : 'bb_normal');
+    }
+  }
+
+  if (trade.macd_line !== null && trade.macd_signal !== null && trade.macd_line !== trade.macd_signal) {
+    conditions.push(trade.macd_line > trade.macd_signal ? 'macd_above_signal' : 'macd_below_signal');
+  }
+
+  if (trade.macd_histogram !== null && trade.macd_histogram !== 0) {
+    conditions.push(trade.macd_histogram > 0 ? 'histogram_positive' : 'histogram_negative');
+  }
+
+  if (trade.stochastic_k !== null) {
+    conditions.push(
+      trade.stochastic_k >= STOCHASTIC_OVERBOUGHT
+        ? 'stochastic_overbought'
+        : trade.stochastic_k <= STOCHASTIC_OVERSOLD ? 'stochastic_oversold' : 'stochastic_neutral'
+    );
+
+    if (trade.stochastic_d !== null && trade.stochastic_k !== trade.stochastic_d) {
+      conditions.push(trade.stochastic_k > trade.stochastic_d ? 'stochastic_k_above_d' : 'stochastic_k_below_d');
+    }
+  }
+
+  return conditions;
+}
+
+export function conditionsByTrade(trades: Trade[]): Map<Trade, IndicatorCondition[]> {
+  const medianWidths = medianBandWidths(trades);
+  return new Map(trades.map(trade => [trade, tradeConditions(trade, medianWidths)]));
+}
+
+// Results of the trades entered under all of the given conditions
+export function conditionPerformance(
+  conditionsOf: Map<Trade, IndicatorCondition[]>,
+  conditions: IndicatorCondition[],
+  options: PnlOptions = {}
+): ConditionPerformance {
+  const matching = Array.from(conditionsOf)
+    .filter(([, tradeConditions]) => conditions.every(condition => tradeConditions.includes(condition)))
+    .map(([trade]) => trade);
+  const summary = summarizePerformance(matching, options);
+
+  return {
+    key: conditions.join('+'),
+    conditions,
+    count: summary.tradeCount,
+    pnl: summary.totalPnl,
+    winRate: summary.winRate,
+    expectancy: calculateAdvancedMetrics(matching, options).expectancy,
+  };
+}
+
+// One row per condition that occurs, in the order they are defined
+export function performanceByCondition(trades: Trade[], options: PnlOptions = {}): ConditionPerformance[] {
+  const conditionsOf = conditionsByTrade(trades);
+  return CONDITION_IDS
+    .map(condition => conditionPerformance(conditionsOf, [condition], options))
+    .filter(row => row.count > 0);
+}
+
+// Every pair of conditions from different indicators with enough trades to
+// mean something, best expectancy first
+export function conditionCombinations(
+  trades: Trade[],
+  minTrades = 3,
+  options: PnlOptions = {}
+): ConditionPerformance[] {
+  const conditionsOf = conditionsByTrade(trades);
+  const combinations: ConditionPerformance[] = [];
+
+  CONDITION_IDS.forEach((first, index) => {
+    CONDITION_IDS.slice(index + 1).forEach(second => {
+      if (INDICATOR_CONDITIONS[first].group === INDICATOR_CONDITIONS[second].group) return;
+      const row = conditionPerformance(conditionsOf, [first, second], options);
+      if (row.count >= minTrades) combinations.push(row);
+    });
+  });
+
+  return combinations.sort((a, b) => b.expectancy - a.expectancy);
+}
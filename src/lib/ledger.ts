@@ -0,0 +1,134 @@
+import { Trade } from '../types/trade';
+import { LedgerEntry, LedgerEntryType } from '../types/ledger';
+import { PnlOptions, tradeCosts, tradeProfitLoss } from './pnl';
+
+export interface BalancePoint {
+  date: string;
+  balance: number;
+  // Trading result since the start, before and after commissions, swaps and fees
+  grossPnl: number;
+  netPnl: number;
+}
+
+export interface LedgerTotals {
+  deposits: number;
+  withdrawals: number;
+  // Ledger fees plus commission and swap booked on closed trades
+  costs: number;
+  adjustments: number;
+}
+
+// Deposits and withdrawals move money in and out without being a result
+export const isCashFlow = (type: LedgerEntryType) => type === 'deposit' || type === 'withdrawal';
+
+// Amounts are typed as positive numbers for deposits, withdrawals and fees;
+// swaps and adjustments keep the sign they were entered with
+export function signedLedgerAmount(type: LedgerEntryType, amount: number): number {
+  switch (type) {
+    case 'deposit':
+      return Math.abs(amount);
+    case 'withdrawal':
+    case 'commission':
+      return -Math.abs(amount);
+    default:
+      return amount;
+  }
+}
+
+interface BalanceEvent {
+  date: string;
+  time: number;
+  gross: number;
+  costs: number;
+  flow: number;
+}
+
+// Closed trades land on the balance when they close; open trades do not
+// count yet, even if swap has already accrued on them
+function balanceEvents(trades: Trade[], entries: LedgerEntry[], options: PnlOptions): BalanceEvent[] {
+  const tradeEvents = trades
+    .filter(trade => trade.exit_price !== null)
+    .map(trade => {
+      const date = trade.exit_date ?? trade.entry_date;
+      return { date, time: new Date(date).getTime(), gross: tradeProfitLoss(trade, options), costs: tradeCosts(trade), flow: 0 };
+    });
+
+  const ledgerEvents = entries.map(entry => ({
+    date: entry.occurred_at,
+    time: new Date(entry.occurred_at).getTime(),
+    gross: entry.type === 'adjustment' ? entry.amount : 0,
+    costs: entry.type === 'commission' || entry.type === 'swap' ? entry.amount : 0,
+    flow: isCashFlow(entry.type) ? entry.amount : 0,
+  }));
+
+  return [...tradeEvents, ...ledgerEvents].sort((a, b) => a.time - b.time);
+}
+
+// Balance after every closed trade and ledger entry, starting from the
+// balance the account was opened with
+export function balanceTimeline(
+  trades: Trade[],
+  entries: LedgerEntry[],
+  startingBalance: number,
+  options: PnlOptions = {}
+): BalancePoint[] {
+  const events = balanceEvents(trades, entries, options);
+  if (events.length === 0) return [];
+
+  let balance = startingBalance;
+  let grossPnl = 0;
+  let netPnl = 0;
+  const points: BalancePoint[] = [{ date: events[0].date, balance, grossPnl, netPnl }];
+
+  events.forEach(event => {
+    grossPnl += event.gross;
+    netPnl += event.gross + event.costs;
+    balance += event.gross + event.costs + event.flow;
+    points.push({ date: event.date, balance, grossPnl, netPnl });
+  });
+
+  return points;
+}
+
+// Chains the return of every period between two deposits or withdrawals, so
+// adding money is not mistaken for profit. Returns a fraction, 0.1 for 10%.
+export function timeWeightedReturn(
+  trades: Trade[],
+  entries: LedgerEntry[],
+  startingBalance: number,
+  options: PnlOptions = {}
+): number | null {
+  const events = balanceEvents(trades, entries, options);
+  if (events.length === 0) return null;
+
+  let growth = 1;
+  let periodStart = startingBalance;
+  let equity = startingBalance;
+
+  events.forEach(event => {
+    equity += event.gross + event.costs;
+    if (event.flow !== 0) {
+      // Periods that start with an empty account have no meaningful return
+      if (periodStart > 0) growth *= equity / periodStart;
+      equity += event.flow;
+      periodStart = equity;
+    }
+  });
+
+  if (periodStart > 0) growth *= equity / periodStart;
+  return growth - 1;
+}
+
+export function ledgerTotals(trades: Trade[], entries: LedgerEntry[]): LedgerTotals {
+  const sum = (type: LedgerEntryType) =>
+    entries.filter(entry => entry.type === type).reduce((total, entry) => total + entry.amount, 0);
+
+  return {
+    deposits: sum('deposit'),
+    withdrawals: sum('withdrawal'),
+    costs: sum('commission') + sum('swap') + trades
+      .filter(trade => trade.exit_price !== null)
+      .reduce((total, trade) => total + tradeCosts(trade), 0),
+    adjustments: sum('adjustment'),
+  };
+}
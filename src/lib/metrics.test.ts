@@ -0,0 +1,161 @@
+import { describe, expect, it } from 'vitest';
+import { Trade } from '../types/trade';
+import {
+  calculateAdvancedMetrics,
+  dailyReturns,
+  longestStreaks,
+  maxDrawdown,
+  sharpeRatio,
+  sortinoRatio,
+} from './metrics';
+import { buildTrade } from '../test/fixtures';
+
+// Trades without a size report their stored result, which keeps the
+// numbers here independent of the pip values
+const trade = (profitLoss: number | null, exitDate: string | null): Trade =>
+  buildTrade({
+    lot_size: null,
+    entry_date: exitDate ?? '2026-10-19T08:00:00.000Z',
+    exit_date: exitDate,
+    exit_price: exitDate ? 1.1 : null,
+    profit_loss: profitLoss,
+  });
+
+// One closed trade per day from 1 October, in the order given
+const closedTrades = (results: number[]) =>
+  results.map((result, index) => trade(result, `2026-10-${String(index + 1).padStart(2, '0')}T12:00:00.000Z`));
+
+describe('calculateAdvancedMetrics', () => {
+  const trades = closedTrades([100, -50, 200, -100, 0, 50]);
+
+  it('averages the closed results into the expectancy', () => {
+    const metrics = calculateAdvancedMetrics([...trades, trade(null, null)]);
+
+    expect(metrics.closedTrades).toBe(6);
+    expect(metrics.expectancy).toBeCloseTo(200 / 6);
+    expect(metrics.avgWin).toBeCloseTo(350 / 3);
+    expect(metrics.avgLoss).toBe(-75);
+    expect(metrics.largestWin).toBe(200);
+    expect(metrics.largestLoss).toBe(-100);
+  });
+
+  it('divides gross profit by gross loss', () => {
+    expect(calculateAdvancedMetrics(trades).profitFactor).toBeCloseTo(350 / 150);
+  });
+
+  it('reports an infinite profit factor when nothing was lost', () => {
+    expect(calculateAdvancedMetrics(closedTrades([100, 0, 50])).profitFactor).toBe(Infinity);
+  });
+
+  it('has no profit factor without results', () => {
+    expect(calculateAdvancedMetrics([]).profitFactor).toBeNull();
+    expect(calculateAdvancedMetrics([trade(null, null)]).profitFactor).toBeNull();
+    expect(calculateAdvancedMetrics(closedTrades([0])).profitFactor).toBeNull();
+  });
+
+  it('measures the drawdown from the starting balance', () => {
+    const metrics = calculateAdvancedMetrics(trades, { startingBalance: 1000 });
+
+    // 1100, 1050, 1250, 1150: the deepest fall is 100 from the 1250 peak
+    expect(metrics.maxDrawdown).toBe(100);
+    expect(metrics.maxDrawdownPercent).toBeCloseTo(8);
+    expect(metrics.recoveryFactor).toBe(2);
+  });
+
+  it('has no recovery factor without a drawdown', () => {
+    expect(calculateAdvancedMetrics(closedTrades([100, 50])).recoveryFactor).toBeNull();
+  });
+
+  it('builds equity in the order trades were closed', () => {
+    const late = trade(-100, '2026-10-05T12:00:00.000Z');
+    const early = trade(100, '2026-10-01T12:00:00.000Z');
+    const metrics = calculateAdvancedMetrics([late, early], { startingBalance: 1000 });
+
+    expect(metrics.maxDrawdown).toBe(100);
+    expect(metrics.maxDrawdownPercent).toBeCloseTo(100 / 11);
+  });
+});
+
+describe('maxDrawdown', () => {
+  it('returns the deepest fall from a peak in amount and percent', () => {
+    expect(maxDrawdown([100, -300, 50, -100, 400], 1000)).toEqual({ amount: 350, percent: expect.closeTo(350 / 11) });
+  });
+
+  it('counts a fall below the starting balance', () => {
+    expect(maxDrawdown([-200, 100], 1000)).toEqual({ amount: 200, percent: 20 });
+  });
+
+  it('has no percent without a positive peak', () => {
+    expect(maxDrawdown([-50, -50])).toEqual({ amount: 100, percent: 0 });
+  });
+});
+
+describe('dailyReturns', () => {
+  it('returns each weekday between the first and last close', () => {
+    const trades = [
+      trade(100, '2026-10-15T12:00:00.000Z'), // Thursday
+      trade(-55, '2026-10-19T09:00:00.000Z'), // Monday
+    ];
+
+    expect(dailyReturns(trades, 1000)).toEqual([0.1, 0, -0.05]);
+  });
+
+  it('skips weekends without closes and keeps weekend closes', () => {
+    const trades = [
+      trade(100, '2026-10-16T12:00:00.000Z'), // Friday
+      trade(55, '2026-10-18T12:00:00.000Z'), // Sunday
+      trade(-60, '2026-10-20T12:00:00.000Z'), // Tuesday
+    ];
+
+    expect(dailyReturns(trades, 1000)).toEqual([0.1, 0.05, 0, expect.closeTo(-60 / 1155)]);
+  });
+
+  it('adds up the results closed on the same day', () => {
+    const trades = [trade(30, '2026-10-19T08:00:00.000Z'), trade(20, '2026-10-19T15:00:00.000Z')];
+
+    expect(dailyReturns(trades, 1000)).toEqual([0.05]);
+  });
+
+  it('needs closed trades and a starting balance', () => {
+    expect(dailyReturns([trade(null, null)], 1000)).toEqual([]);
+    expect(dailyReturns(closedTrades([100]), 0)).toEqual([]);
+  });
+});
+
+describe('sharpeRatio', () => {
+  it('annualises the mean over the sample deviation', () => {
+    const deviation = Math.sqrt(0.0005 / 3);
+    expect(sharpeRatio([0.01, -0.01, 0.02, 0])).toBeCloseTo((0.005 / deviation) * Math.sqrt(252));
+  });
+
+  it('is undefined with too few returns or no volatility', () => {
+    expect(sharpeRatio([0.01])).toBeNull();
+    expect(sharpeRatio([0.01, 0.01, 0.01])).toBeNull();
+  });
+});
+
+describe('sortinoRatio', () => {
+  it('only counts losing days as volatility', () => {
+    // Downside deviation is sqrt(0.01² / 4) = 0.005, the same as the mean
+    expect(sortinoRatio([0.01, -0.01, 0.02, 0])).toBeCloseTo(Math.sqrt(252));
+  });
+
+  it('is undefined without losing days', () => {
+    expect(sortinoRatio([0.01, 0.02])).toBeNull();
+    expect(sortinoRatio([-0.01])).toBeNull();
+  });
+});
+
+describe('longestStreaks', () => {
+  it('finds the longest runs of wins and losses', () => {
+    expect(longestStreaks([10, 20, 30, -5, 10, -5, -5])).toEqual({ longestWin: 3, longestLoss: 2 });
+  });
+
+  it('ends a streak at a break-even trade', () => {
+    expect(longestStreaks([10, 20, 0, 30, -1, -1, 0, -1, -1, -1])).toEqual({ longestWin: 2, longestLoss: 3 });
+  });
+
+  it('is zero without results', () => {
+    expect(longestStreaks([])).toEqual({ longestWin: 0, longestLoss: 0 });
+  });
+});
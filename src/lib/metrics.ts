@@ -0,0 +1,252 @@
+import { Trade } from '../types/trade';
+import { Tag } from '../types/tag';
+import { PnlOptions, tradeProfitLoss } from './pnl';
+
+export interface PerformanceSummary {
+  totalPnl: number;
+  tradeCount: number;
+  wins: number;
+  losses: number;
+  // Share of all trades in the period that made money, open trades included
+  winRate: number;
+  avgRiskReward: number;
+}
+
+export interface GroupPerformance {
+  key: string;
+  count: number;
+  pnl: number;
+  winRate: number;
+}
+
+export interface PnlPoint {
+  date: string;
+  value: number;
+}
+
+export function summarizePerformance(trades: Trade[], options: PnlOptions = {}): PerformanceSummary {
+  const results = trades.map(trade => tradeProfitLoss(trade, options));
+  const wins = results.filter(pnl => pnl > 0).length;
+  const losses = results.filter(pnl => pnl < 0).length;
+
+  return {
+    totalPnl: results.reduce((sum, pnl) => sum + pnl, 0),
+    tradeCount: trades.length,
+    wins,
+    losses,
+    winRate: trades.length > 0 ? (wins / trades.length) * 100 : 0,
+    avgRiskReward: trades.length > 0
+      ? trades.reduce((sum, trade) => sum + trade.risk_reward_ratio, 0) / trades.length
+      : 0,
+  };
+}
+
+// P/L and win rate per group, in the order groups are first seen
+export function performanceBy(
+  trades: Trade[],
+  keyOf: (trade: Trade) => string,
+  options: PnlOptions = {}
+): GroupPerformance[] {
+  const groups = new Map<string, Trade[]>();
+
+  trades.forEach(trade => {
+    const key = keyOf(trade);
+    groups.set(key, [...(groups.get(key) ?? []), trade]);
+  });
+
+  return Array.from(groups, ([key, group]) => {
+    const summary = summarizePerformance(group, options);
+    return { key, count: summary.tradeCount, pnl: summary.totalPnl, winRate: summary.winRate };
+  });
+}
+
+export const sortByEntryDate = (trades: Trade[]) =>
+  [...trades].sort((a, b) => new Date(a.entry_date).getTime() - new Date(b.entry_date).getTime());
+
+// Running total of P/L after each trade, oldest first
+export function cumulativePnl(trades: Trade[], options: PnlOptions = {}): PnlPoint[] {
+  let total = 0;
+  return sortByEntryDate(trades).map(trade => {
+    total += tradeProfitLoss(trade, options);
+    return { date: trade.entry_date, value: total };
+  });
+}
+
+export interface AdvancedMetrics {
+  closedTrades: number;
+  // Average result per closed trade, in account currency
+  expectancy: number;
+  // Gross profit over gross loss; Infinity when nothing was lost, null with no results
+  profitFactor: number | null;
+  avgWin: number;
+  avgLoss: number;
+  largestWin: number;
+  largestLoss: number;
+  maxDrawdown: number;
+  maxDrawdownPercent: number;
+  // Net profit over the deepest drawdown, null without a drawdown
+  recoveryFactor: number | null;
+  // Annualised from daily returns with a zero risk-free rate
+  sharpeRatio: number | null;
+  sortinoRatio: number | null;
+  longestWinStreak: number;
+  longestLossStreak: number;
+}
+
+export interface MetricsOptions extends PnlOptions {
+  // Equity before the first trade, used for drawdown % and daily returns
+  startingBalance?: number;
+}
+
+const TRADING_DAYS_PER_YEAR = 252;
+
+const isClosed = (trade: Trade) => trade.exit_price !== null;
+
+const closeTime = (trade: Trade) => new Date(trade.exit_date ?? trade.entry_date).getTime();
+
+const dayKey = (time: number) => new Date(time).toISOString().slice(0, 10);
+
+// Results are realised when a trade closes, so equity is built in exit order
+const closedInExitOrder = (trades: Trade[]) =>
+  trades
+    .filter(isClosed)
+    .sort((a, b) => closeTime(a) - closeTime(b));
+
+const mean = (values: number[]) =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+
+export function maxDrawdown(results: number[], startingBalance = 0) {
+  let equity = startingBalance;
+  let peak = startingBalance;
+  let amount = 0;
+  let percent = 0;
+
+  results.forEach(result => {
+    equity += result;
+    peak = Math.max(peak, equity);
+    const drawdown = peak - equity;
+    if (drawdown > amount) amount = drawdown;
+    if (peak > 0) percent = Math.max(percent, (drawdown / peak) * 100);
+  });
+
+  return { amount, percent };
+}
+
+export function longestStreaks(results: number[]) {
+  let win = 0, loss = 0, longestWin = 0, longestLoss = 0;
+
+  results.forEach(result => {
+    // Break-even trades end both streaks
+    win = result > 0 ? win + 1 : 0;
+    loss = result < 0 ? loss + 1 : 0;
+    longestWin = Math.max(longestWin, win);
+    longestLoss = Math.max(longestLoss, loss);
+  });
+
+  return { longestWin, longestLoss };
+}
+
+// Return of every weekday from the first to the last close, with days without
+// closed trades counting as flat and weekend closes kept
+export function dailyReturns(trades: Trade[], startingBalance: number, options: PnlOptions = {}): number[] {
+  const closed = closedInExitOrder(trades);
+  if (closed.length === 0 || startingBalance <= 0) return [];
+
+  const pnlByDay = new Map<string, number>();
+  closed.forEach(trade => {
+    const day = dayKey(closeTime(trade));
+    pnlByDay.set(day, (pnlByDay.get(day) ?? 0) + tradeProfitLoss(trade, options));
+  });
+
+  const returns: number[] = [];
+  let equity = startingBalance;
+  const lastDay = dayKey(closeTime(closed[closed.length - 1]));
+  const day = new Date(`${dayKey(closeTime(closed[0]))}T00:00:00Z`);
+
+  for (; dayKey(day.getTime()) <= lastDay; day.setUTCDate(day.getUTCDate() + 1)) {
+    const key = dayKey(day.getTime());
+    const weekday = day.getUTCDay();
+    if ((weekday === 0 || weekday === 6) && !pnlByDay.has(key)) continue;
+
+    const pnl = pnlByDay.get(key) ?? 0;
+    returns.push(equity > 0 ? pnl / equity : 0);
+    equity += pnl;
+  }
+
+  return returns;
+}
+
+export function sharpeRatio(returns: number[]): number | null {
+  if (returns.length < 2) return null;
+
+  const average = mean(returns);
+  const variance = returns.reduce((sum, r) => sum + (r - average) ** 2, 0) / (returns.length - 1);
+  const deviation = Math.sqrt(variance);
+  return deviation > 0 ? (average / deviation) * Math.sqrt(TRADING_DAYS_PER_YEAR) : null;
+}
+
+// Like Sharpe, but only losing days count as volatility
+export function sortinoRatio(returns: number[]): number | null {
+  if (returns.length < 2) return null;
+
+  const downside = Math.sqrt(mean(returns.map(r => Math.min(r, 0) ** 2)));
+  return downside > 0 ? (mean(returns) / downside) * Math.sqrt(TRADING_DAYS_PER_YEAR) : null;
+}
+
+export function calculateAdvancedMetrics(trades: Trade[], options: MetricsOptions = {}): AdvancedMetrics {
+  const startingBalance = options.startingBalance ?? 0;
+  const results = closedInExitOrder(trades).map(trade => tradeProfitLoss(trade, options));
+  const wins = results.filter(result => result > 0);
+  const losses = results.filter(result => result < 0);
+
+  const grossProfit = wins.reduce((sum, result) => sum + result, 0);
+  const grossLoss = Math.abs(losses.reduce((sum, result) => sum + result, 0));
+  const netProfit = grossProfit - grossLoss;
+
+  const drawdown = maxDrawdown(results, startingBalance);
+  const streaks = longestStreaks(results);
+  const returns = dailyReturns(trades, startingBalance, options);
+
+  return {
+    closedTrades: results.length,
+    expectancy: mean(results),
+    profitFactor: results.length === 0
+      ? null
+      : grossLoss > 0 ? grossProfit / grossLoss : grossProfit > 0 ? Infinity : null,
+    avgWin: mean(wins),
+    avgLoss: mean(losses),
+    largestWin: wins.length > 0 ? Math.max(...wins) : 0,
+    largestLoss: losses.length > 0 ? Math.min(...losses) : 0,
+    maxDrawdown: drawdown.amount,
+    maxDrawdownPercent: drawdown.percent,
+    recoveryFactor: drawdown.amount > 0 ? netProfit / drawdown.amount : null,
+    sharpeRatio: sharpeRatio(returns),
+    sortinoRatio: sortinoRatio(returns),
+    longestWinStreak: streaks.longestWin,
+    longestLossStreak: streaks.longestLoss,
+  };
+}
+
+export interface TagPerformance extends GroupPerformance {
+  tag: Tag;
+  expectancy: number;
+}
+
+// Breakdown per tag; a trade with several tags counts towards each of them
+export function performanceByTag(trades: Trade[], tags: Tag[], options: PnlOptions = {}): TagPerformance[] {
+  return tags
+    .map(tag => {
+      const tagged = trades.filter(trade => trade.tag_ids.includes(tag.id));
+      const summary = summarizePerformance(tagged, options);
+      return {
+        key: tag.id,
+        tag,
+        count: summary.tradeCount,
+        pnl: summary.totalPnl,
+        winRate: summary.winRate,
+        expectancy: mean(tagged.filter(isClosed).map(trade => tradeProfitLoss(trade, options))),
+      };
+    })
+    .filter(row => row.count > 0)
+    .sort((a, b) => b.pnl - a.pnl);
+}
@@ -0,0 +1,18 @@
+import { describe, expect, it } from 'vitest';
+import { formatMoney } from './money';
+
+describe('formatMoney', () => {
+  it('uses the symbol and decimals of the account currency', () => {
+    expect(formatMoney(-12.5, 'USD')).toMatch(/^-\$12\.50$/);
+    expect(formatMoney(1234.5, 'EUR')).toContain('€');
+    expect(formatMoney(1234.5, 'JPY')).toMatch(/¥1,?235$/);
+  });
+
+  it('falls back to dollars without a currency', () => {
+    expect(formatMoney(5)).toBe(formatMoney(5, 'USD'));
+  });
+
+  it('shows an unknown currency code after the amount', () => {
+    expect(formatMoney(12.5, 'DOLLARS')).toBe('12.50 DOLLARS');
+  });
+});
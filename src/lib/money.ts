@@ -0,0 +1,22 @@
+import { DEFAULT_ACCOUNT_CURRENCY } from './pnl';
+
+const formatters = new Map<string, Intl.NumberFormat | null>();
+
+// Null for a currency code Intl does not know, e.g. a typo in an account
+const formatterFor = (currency: string) => {
+  if (!formatters.has(currency)) {
+    try {
+      formatters.set(currency, new Intl.NumberFormat(undefined, { style: 'currency', currency }));
+    } catch {
+      formatters.set(currency, null);
+    }
+  }
+  return formatters.get(currency) ?? null;
+};
+
+// Amounts are shown in the currency of the account they were made in, with
+// that currency's symbol and decimals
+export function formatMoney(value: number, currency: string = DEFAULT_ACCOUNT_CURRENCY): string {
+  const formatter = formatterFor(currency);
+  return formatter ? formatter.format(value) : `${value.toFixed(2)} ${currency}`;
+}
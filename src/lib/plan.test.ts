@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { PlanRule } from '../types/plan';
+import { PlanInput, evaluateRule } from './plan';
+
+const maxRisk: PlanRule = {
+  id: 'rule-1',
+  name: 'Risk at most 2%',
+  check: 'max_risk_percent',
+  threshold: 2,
+  created_at: '2026-10-01T00:00:00.000Z',
+};
+
+// 1 lot of EUR/USD with a 20 pip stop risks $200
+const trade: PlanInput = {
+  pair: 'EUR/USD',
+  type: 'Buy',
+  entry_price: 1.1,
+  stop_loss: 1.098,
+  take_profit: 1.104,
+  lot_size: 1,
+  market_sentiment: null,
+};
+
+describe('evaluateRule', () => {
+  it('measures the risk against the balance of the account', () => {
+    expect(evaluateRule(maxRisk, trade, 20000)).toBe(true);
+    expect(evaluateRule(maxRisk, trade, 5000)).toBe(false);
+  });
+
+  it('measures the risk in the currency of the account', () => {
+    // $200 is about ¥29,850: over 2% of ¥1,000,000, under 2% of ¥2,000,000
+    expect(evaluateRule(maxRisk, trade, 1_000_000, { accountCurrency: 'JPY' })).toBe(false);
+    expect(evaluateRule(maxRisk, trade, 2_000_000, { accountCurrency: 'JPY' })).toBe(true);
+  });
+});
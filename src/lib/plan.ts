@@ -0,0 +1,145 @@
+import { Trade } from '../types/trade';
+import { PlanCheck, PlanRule } from '../types/plan';
+import { calculateAdvancedMetrics, summarizePerformance } from './metrics';
+import { PnlOptions } from './pnl';
+import { calculateRiskReward } from './tradeCalculations';
+import { moneyAtRisk, riskPercentOfBalance } from './positionSize';
+import { alignmentOf } from './sentiment';
+
+// The values the automatic rules look at, as entered in the trade form
+export type PlanInput = Pick<
+  Trade,
+  'pair' | 'type' | 'entry_price' | 'stop_loss' | 'take_profit' | 'lot_size' | 'market_sentiment'
+>;
+
+export type PlanCompliance = 'followed' | 'broken';
+
+export const PLAN_COMPLIANCE_LABELS: Record<PlanCompliance, string> = {
+  followed: 'Followed every rule',
+  broken: 'Broke a rule',
+};
+
+export interface CompliancePerformance {
+  compliance: PlanCompliance;
+  count: number;
+  pnl: number;
+  winRate: number;
+  expectancy: number;
+}
+
+export interface RulePerformance {
+  ruleId: string;
+  name: string;
+  // Trades checked against the rule, and how many of them broke it
+  checked: number;
+  broken: number;
+  brokenPnl: number;
+  brokenWinRate: number;
+  brokenExpectancy: number;
+  followedExpectancy: number;
+}
+
+// Result of a rule the form can check on its own; null for rules ticked by
+// hand and while the values it needs are missing. The risk is measured in the
+// currency of the trade's account, given in `options`, against its balance.
+export function evaluateRule(
+  rule: PlanRule,
+  trade: PlanInput,
+  accountBalance: number,
+  options: PnlOptions = {}
+): boolean | null {
+  switch (rule.check) {
+    case 'manual':
+      return null;
+
+    case 'min_risk_reward':
+      if (!trade.entry_price || !trade.stop_loss || !trade.take_profit || rule.threshold === null) return null;
+      return calculateRiskReward(trade.type, trade.entry_price, trade.stop_loss, trade.take_profit) >= rule.threshold;
+
+    case 'max_risk_percent': {
+      if (!trade.entry_price || !trade.stop_loss || !trade.lot_size || rule.threshold === null) return null;
+      const risk = moneyAtRisk(trade.pair, trade.entry_price, trade.stop_loss, trade.lot_size, options);
+      return riskPercentOfBalance(risk, accountBalance) <= rule.threshold;
+    }
+
+    case 'with_sentiment':
+      return trade.market_sentiment ? alignmentOf(trade.market_sentiment, trade.type) !== 'against' : null;
+  }
+}
+
+// The checks to store with a trade. Hand-ticked rules take their tick from
+// `previous`, and results for rules deleted since are kept as recorded.
+export function planChecks(
+  rules: PlanRule[],
+  trade: PlanInput,
+  accountBalance: number,
+  previous: PlanCheck[],
+  options: PnlOptions = {}
+): PlanCheck[] {
+  const current = rules.map(rule => ({
+    rule_id: rule.id,
+    name: rule.name,
+    met: rule.check === 'manual'
+      ? previous.some(check => check.rule_id === rule.id && check.met)
+      : evaluateRule(rule, trade, accountBalance, options) ?? false,
+  }));
+
+  return [...current, ...previous.filter(check => !rules.some(rule => rule.id === check.rule_id))];
+}
+
+// Null for trades journaled without a plan
+export function planCompliance(trade: Trade): PlanCompliance | null {
+  if (trade.plan_checks.length === 0) return null;
+  return trade.plan_checks.every(check => check.met) ? 'followed' : 'broken';
+}
+
+// Share of all recorded checks that were met, null when nothing was checked
+export function complianceRate(trades: Trade[]): number | null {
+  const checks = trades.flatMap(trade => trade.plan_checks);
+  if (checks.length === 0) return null;
+  return (checks.filter(check => check.met).length / checks.length) * 100;
+}
+
+export function performanceByCompliance(trades: Trade[], options: PnlOptions = {}): CompliancePerformance[] {
+  const groups: PlanCompliance[] = ['followed', 'broken'];
+
+  return groups.map(compliance => {
+    const matching = trades.filter(trade => planCompliance(trade) === compliance);
+    const summary = summarizePerformance(matching, options);
+    return {
+      compliance,
+      count: summary.tradeCount,
+      pnl: summary.totalPnl,
+      winRate: summary.winRate,
+      expectancy: calculateAdvancedMetrics(matching, options).expectancy,
+    };
+  });
+}
+
+// What breaking each rule has cost, most often broken first. Rules are named
+// as they were last recorded.
+export function performanceByRule(trades: Trade[], options: PnlOptions = {}): RulePerformance[] {
+  const rules = new Map<string, { name: string; followed: Trade[]; broken: Trade[] }>();
+
+  trades.forEach(trade => {
+    trade.plan_checks.forEach(check => {
+      const rule = rules.get(check.rule_id) ?? { name: check.name, followed: [], broken: [] };
+      (check.met ? rule.followed : rule.broken).push(trade);
+      rules.set(check.rule_id, rule);
+    });
+  });
+
+  return Array.from(rules, ([ruleId, { name, followed, broken }]) => {
+    const summary = summarizePerformance(broken, options);
+    return {
+      ruleId,
+      name,
+      checked: followed.length + broken.length,
+      broken: broken.length,
+      brokenPnl: summary.totalPnl,
+      brokenWinRate: summary.winRate,
+      brokenExpectancy: calculateAdvancedMetrics(broken, options).expectancy,
+      followedExpectancy: calculateAdvancedMetrics(followed, options).expectancy,
+    };
+  }).sort((a, b) => b.broken - a.broken);
+}
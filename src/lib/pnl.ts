@@ -0,0 +1,261 @@
+import { CurrencyPair, Execution, Trade, TradeType } from '../types/trade';
+
+export interface InstrumentSpec {
+  base: string;
+  quote: string;
+  pipSize: number;
+  // Units of the base instrument in one standard lot
+  contractSize: number;
+}
+
+export const INSTRUMENTS: Record<CurrencyPair, InstrumentSpec> = {
+  'EUR/USD': { base: 'EUR', quote: 'USD', pipSize: 0.0001, contractSize: 100000 },
+  'GBP/USD': { base: 'GBP', quote: 'USD', pipSize: 0.0001, contractSize: 100000 },
+  'USD/JPY': { base: 'USD', quote: 'JPY', pipSize: 0.01, contractSize: 100000 },
+  'USD/CHF': { base: 'USD', quote: 'CHF', pipSize: 0.0001, contractSize: 100000 },
+  'USD/CAD': { base: 'USD', quote: 'CAD', pipSize: 0.0001, contractSize: 100000 },
+  'AUD/USD': { base: 'AUD', quote: 'USD', pipSize: 0.0001, contractSize: 100000 },
+  'NZD/USD': { base: 'NZD', quote: 'USD', pipSize: 0.0001, contractSize: 100000 },
+  'EUR/GBP': { base: 'EUR', quote: 'GBP', pipSize: 0.0001, contractSize: 100000 },
+  'EUR/JPY': { base: 'EUR', quote: 'JPY', pipSize: 0.01, contractSize: 100000 },
+  'GBP/JPY': { base: 'GBP', quote: 'JPY', pipSize: 0.01, contractSize: 100000 },
+  'XAU/USD': { base: 'XAU', quote: 'USD', pipSize: 0.1, contractSize: 100 },
+  // Unknown instruments are treated as a standard USD-quoted forex pair
+  'Other': { base: 'XXX', quote: 'USD', pipSize: 0.0001, contractSize: 100000 },
+};
+
+export const DEFAULT_ACCOUNT_CURRENCY = 'USD';
+
+// Reference value of one unit of each currency in USD. Used to convert cross
+// pairs when no live rate is supplied, so results are close but not exact.
+export const DEFAULT_USD_RATES: Record<string, number> = {
+  USD: 1,
+  EUR: 1.08,
+  GBP: 1.27,
+  JPY: 0.0067,
+  CHF: 1.11,
+  CAD: 0.73,
+  AUD: 0.66,
+  NZD: 0.61,
+};
+
+export interface PnlOptions {
+  accountCurrency?: string;
+  usdRates?: Record<string, number>;
+}
+
+export interface TradePnl {
+  // Signed price distance in the trade's favour
+  priceMove: number;
+  pips: number;
+  // Profit/loss in account currency, null when the position size is unknown
+  amount: number | null;
+  // Result expressed in multiples of the initial risk, null without a valid stop
+  rMultiple: number | null;
+}
+
+export function getInstrument(pair: CurrencyPair): InstrumentSpec {
+  return INSTRUMENTS[pair] ?? INSTRUMENTS.Other;
+}
+
+// Value of one unit of the quote currency in the account currency
+export function quoteToAccountRate(
+  pair: CurrencyPair,
+  price: number,
+  options: PnlOptions = {}
+): number {
+  const accountCurrency = options.accountCurrency ?? DEFAULT_ACCOUNT_CURRENCY;
+  const rates = { ...DEFAULT_USD_RATES, ...options.usdRates };
+  const { base, quote } = getInstrument(pair);
+
+  if (quote === accountCurrency) return 1;
+  // The trade price itself converts the quote back into the base currency
+  if (base === accountCurrency && price > 0) return 1 / price;
+
+  const quoteRate = rates[quote];
+  const accountRate = rates[accountCurrency];
+  if (!quoteRate || !accountRate) return 1;
+
+  return quoteRate / accountRate;
+}
+
+export function signedPriceMove(type: TradeType, entryPrice: number, exitPrice: number): number {
+  return type === 'Buy' ? exitPrice - entryPrice : entryPrice - exitPrice;
+}
+
+export function priceToPips(pair: CurrencyPair, priceDistance: number): number {
+  return priceDistance / getInstrument(pair).pipSize;
+}
+
+export function pipsToPrice(pair: CurrencyPair, pips: number): number {
+  return pips * getInstrument(pair).pipSize;
+}
+
+// How far price travelled from the entry in the trade's favour (positive) or
+// against it (negative), used for the adverse and favourable excursions
+export function priceExcursion(
+  trade: Pick<Trade, 'pair' | 'type' | 'entry_price' | 'stop_loss'>,
+  price: number
+): { pips: number; rMultiple: number | null } {
+  const move = signedPriceMove(trade.type, trade.entry_price, price);
+  const risk = Math.abs(trade.entry_price - trade.stop_loss);
+  return { pips: priceToPips(trade.pair, move), rMultiple: risk > 0 ? move / risk : null };
+}
+
+// Account-currency value of a one pip move for the given position size
+export function pipValue(
+  pair: CurrencyPair,
+  lotSize: number,
+  price: number,
+  options: PnlOptions = {}
+): number {
+  const { pipSize, contractSize } = getInstrument(pair);
+  return pipSize * contractSize * lotSize * quoteToAccountRate(pair, price, options);
+}
+
+export function calculatePnl(
+  trade: Pick<Trade, 'pair' | 'type' | 'entry_price' | 'stop_loss' | 'lot_size'>,
+  exitPrice: number,
+  options: PnlOptions = {}
+): TradePnl {
+  const { contractSize } = getInstrument(trade.pair);
+  const priceMove = signedPriceMove(trade.type, trade.entry_price, exitPrice);
+  const risk = Math.abs(trade.entry_price - trade.stop_loss);
+
+  const amount = trade.lot_size
+    ? priceMove * contractSize * trade.lot_size * quoteToAccountRate(trade.pair, exitPrice, options)
+    : null;
+
+  return {
+    priceMove,
+    pips: priceToPips(trade.pair, priceMove),
+    amount,
+    rMultiple: risk > 0 ? priceMove / risk : null,
+  };
+}
+
+export interface PartialClose {
+  execution: Execution;
+  // Lots closed by this fill, capped at what was still open
+  closedSize: number;
+  pips: number;
+  amount: number;
+}
+
+export interface PositionSummary {
+  averageEntry: number | null;
+  averageExit: number | null;
+  entrySize: number;
+  exitSize: number;
+  remainingSize: number;
+  // Average price of the lots still open, which later exits are measured from
+  openAverageEntry: number | null;
+  partials: PartialClose[];
+  realisedPnl: number;
+  // Realised result over the risk of the whole position, null without a valid stop
+  rMultiple: number | null;
+}
+
+const roundLots = (lots: number) => Math.round(lots * 100) / 100;
+
+// Replays the fills in time order. Exits are measured from the average entry
+// of what is open at that moment, the way brokers net a position.
+export function summarizeExecutions(
+  trade: Pick<Trade, 'pair' | 'type' | 'stop_loss'>,
+  executions: Execution[],
+  options: PnlOptions = {}
+): PositionSummary {
+  const { contractSize } = getInstrument(trade.pair);
+  const sorted = [...executions].sort((a, b) => a.executed_at.localeCompare(b.executed_at));
+
+  let openSize = 0;
+  let openAverage = 0;
+  let entrySize = 0;
+  let entryValue = 0;
+  let exitSize = 0;
+  let exitValue = 0;
+  const partials: PartialClose[] = [];
+
+  sorted.forEach(execution => {
+    if (execution.side === trade.type) {
+      openAverage = (openAverage * openSize + execution.price * execution.lot_size) / (openSize + execution.lot_size);
+      openSize += execution.lot_size;
+      entrySize += execution.lot_size;
+      entryValue += execution.price * execution.lot_size;
+      return;
+    }
+
+    const closedSize = Math.min(execution.lot_size, openSize);
+    if (closedSize <= 0) return;
+
+    const priceMove = signedPriceMove(trade.type, openAverage, execution.price);
+    partials.push({
+      execution,
+      closedSize,
+      pips: priceToPips(trade.pair, priceMove),
+      amount: priceMove * contractSize * closedSize * quoteToAccountRate(trade.pair, execution.price, options),
+    });
+    openSize = roundLots(openSize - closedSize);
+    exitSize += closedSize;
+    exitValue += execution.price * closedSize;
+  });
+
+  const averageEntry = entrySize > 0 ? entryValue / entrySize : null;
+  const realisedPnl = partials.reduce((sum, partial) => sum + partial.amount, 0);
+  const risk = averageEntry !== null
+    ? Math.abs(averageEntry - trade.stop_loss) * contractSize * entrySize * quoteToAccountRate(trade.pair, averageEntry, options)
+    : 0;
+
+  return {
+    averageEntry,
+    averageExit: exitSize > 0 ? exitValue / exitSize : null,
+    entrySize: roundLots(entrySize),
+    exitSize: roundLots(exitSize),
+    remainingSize: openSize,
+    openAverageEntry: openSize > 0 ? openAverage : null,
+    partials,
+    realisedPnl,
+    rMultiple: risk > 0 && partials.length > 0 ? realisedPnl / risk : null,
+  };
+}
+
+// P/L of a closed trade, or null while the position is still open. Trades
+// with executions report what their partial closes have realised so far.
+export function getTradePnl(trade: Trade, options: PnlOptions = {}): TradePnl | null {
+  if (trade.executions?.length) {
+    const position = summarizeExecutions(trade, trade.executions, options);
+    if (position.averageEntry === null || position.averageExit === null) return null;
+
+    const priceMove = signedPriceMove(trade.type, position.averageEntry, position.averageExit);
+    return {
+      priceMove,
+      pips: priceToPips(trade.pair, priceMove),
+      amount: position.realisedPnl,
+      rMultiple: position.rMultiple,
+    };
+  }
+
+  if (trade.exit_price === null) return null;
+  return calculatePnl(trade, trade.exit_price, options);
+}
+
+// Account-currency result used by the dashboards. Trades recorded before lot
+// sizes were captured fall back to the stored value.
+export function tradeProfitLoss(trade: Trade, options: PnlOptions = {}): number {
+  const pnl = getTradePnl(trade, options);
+  if (pnl && pnl.amount !== null) return pnl.amount;
+  return trade.profit_loss ?? 0;
+}
+
+// Commission and swap charged on a trade, negative when they cost money
+export const tradeCosts = (trade: Pick<Trade, 'commission' | 'swap'>) =>
+  (trade.commission ?? 0) + (trade.swap ?? 0);
+
+// What the trade actually added to the balance after broker costs
+export function tradeNetProfitLoss(trade: Trade, options: PnlOptions = {}): number {
+  return tradeProfitLoss(trade, options) + tradeCosts(trade);
+}
+
+export function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,73 @@
+import { CurrencyPair, Trade } from '../types/trade';
+import { PnlOptions, pipValue, priceToPips, roundMoney } from './pnl';
+
+// Brokers size positions in micro lots
+export const LOT_STEP = 0.01;
+
+export interface PositionSizeInput {
+  pair: CurrencyPair;
+  entryPrice: number;
+  stopLoss: number;
+  accountBalance: number;
+  riskPercentage: number;
+}
+
+export interface PositionSize {
+  // Money the configured risk percentage allows to lose
+  riskAmount: number;
+  stopPips: number;
+  pipValuePerLot: number;
+  // Largest lot size that keeps the loss at the stop within riskAmount
+  lotSize: number;
+  // Loss at the stop with the suggested size, after rounding down to LOT_STEP
+  moneyAtRisk: number;
+}
+
+const roundDownToStep = (lots: number) =>
+  parseFloat((Math.floor(lots / LOT_STEP + 1e-9) * LOT_STEP).toFixed(2));
+
+// Loss in account currency if the position is stopped out
+export function moneyAtRisk(
+  pair: CurrencyPair,
+  entryPrice: number,
+  stopLoss: number,
+  lotSize: number,
+  options: PnlOptions = {}
+): number {
+  const stopPips = priceToPips(pair, Math.abs(entryPrice - stopLoss));
+  return stopPips * pipValue(pair, lotSize, entryPrice, options);
+}
+
+export function riskPercentOfBalance(amount: number, accountBalance: number): number {
+  return accountBalance > 0 ? (amount / accountBalance) * 100 : 0;
+}
+
+// Suggested lot size for risking a fixed share of the balance, null until the
+// inputs describe a trade with a stop
+export function calculatePositionSize(
+  input: PositionSizeInput,
+  options: PnlOptions = {}
+): PositionSize | null {
+  const { pair, entryPrice, stopLoss, accountBalance, riskPercentage } = input;
+  if (!entryPrice || !stopLoss || entryPrice === stopLoss) return null;
+  if (!(accountBalance > 0) || !(riskPercentage > 0)) return null;
+
+  const riskAmount = accountBalance * (riskPercentage / 100);
+  const stopPips = priceToPips(pair, Math.abs(entryPrice - stopLoss));
+  const pipValuePerLot = pipValue(pair, 1, entryPrice, options);
+  const lotSize = roundDownToStep(riskAmount / (stopPips * pipValuePerLot));
+
+  return {
+    riskAmount: roundMoney(riskAmount),
+    stopPips,
+    pipValuePerLot,
+    lotSize,
+    moneyAtRisk: roundMoney(stopPips * pipValuePerLot * lotSize),
+  };
+}
+
+// Whether the trade was taken larger than the size suggested when it was entered
+export function exceedsSuggestedSize(trade: Pick<Trade, 'lot_size' | 'suggested_lot_size'>): boolean {
+  if (!trade.lot_size || !trade.suggested_lot_size) return false;
+  return trade.lot_size > trade.suggested_lot_size + LOT_STEP / 2;
+}
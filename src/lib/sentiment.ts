@@ -0,0 +1,123 @@
+import { MARKET_SENTIMENTS, MarketSentiment, Trade, TradeType } from '../types/trade';
+import { calculateAdvancedMetrics, summarizePerformance } from './metrics';
+import { PnlOptions, tradeProfitLoss } from './pnl';
+
+// Whether a trade went the way its recorded sentiment pointed
+export type SentimentAlignment = 'with' | 'against' | 'neutral';
+
+export const SENTIMENT_ALIGNMENT_LABELS: Record<SentimentAlignment, string> = {
+  with: 'With sentiment',
+  against: 'Against sentiment',
+  neutral: 'Neutral sentiment',
+};
+
+export interface SentimentCell {
+  sentiment: MarketSentiment;
+  type: TradeType;
+  count: number;
+  wins: number;
+  losses: number;
+  winRate: number;
+  pnl: number;
+  alignment: SentimentAlignment;
+}
+
+export interface AlignmentPerformance {
+  alignment: SentimentAlignment;
+  count: number;
+  pnl: number;
+  winRate: number;
+  expectancy: number;
+}
+
+export interface SentimentAccuracy {
+  // Closed trades with a bullish or bearish read
+  judged: number;
+  // Of those, how many saw the market move the way the read said
+  correct: number;
+  accuracy: number;
+}
+
+const TRADE_TYPES: TradeType[] = ['Buy', 'Sell'];
+
+const isClosed = (trade: Trade) => trade.exit_price !== null;
+
+// The direction a sentiment favours; null for a neutral read
+export function sentimentBias(sentiment: MarketSentiment): TradeType | null {
+  if (sentiment.endsWith('Bullish')) return 'Buy';
+  if (sentiment.endsWith('Bearish')) return 'Sell';
+  return null;
+}
+
+export function alignmentOf(sentiment: MarketSentiment, type: TradeType): SentimentAlignment {
+  const bias = sentimentBias(sentiment);
+  if (bias === null) return 'neutral';
+  return bias === type ? 'with' : 'against';
+}
+
+// Null for trades recorded without a sentiment
+export function sentimentAlignment(trade: Trade): SentimentAlignment | null {
+  return trade.market_sentiment ? alignmentOf(trade.market_sentiment, trade.type) : null;
+}
+
+export const isAgainstSentiment = (trade: Trade) => sentimentAlignment(trade) === 'against';
+
+// Outcome of closed trades for every sentiment and direction
+export function sentimentMatrix(trades: Trade[], options: PnlOptions = {}): SentimentCell[] {
+  const closed = trades.filter(isClosed);
+
+  return MARKET_SENTIMENTS.flatMap(sentiment =>
+    TRADE_TYPES.map(type => {
+      const results = closed
+        .filter(trade => trade.market_sentiment === sentiment && trade.type === type)
+        .map(trade => tradeProfitLoss(trade, options));
+      const wins = results.filter(pnl => pnl > 0).length;
+
+      return {
+        sentiment,
+        type,
+        count: results.length,
+        wins,
+        losses: results.filter(pnl => pnl < 0).length,
+        winRate: results.length > 0 ? (wins / results.length) * 100 : 0,
+        pnl: results.reduce((sum, pnl) => sum + pnl, 0),
+        alignment: alignmentOf(sentiment, type),
+      };
+    })
+  );
+}
+
+export function performanceByAlignment(trades: Trade[], options: PnlOptions = {}): AlignmentPerformance[] {
+  const alignments: SentimentAlignment[] = ['with', 'against', 'neutral'];
+
+  return alignments.map(alignment => {
+    const matching = trades.filter(trade => sentimentAlignment(trade) === alignment);
+    const summary = summarizePerformance(matching, options);
+    return {
+      alignment,
+      count: summary.tradeCount,
+      pnl: summary.totalPnl,
+      winRate: summary.winRate,
+      expectancy: calculateAdvancedMetrics(matching, options).expectancy,
+    };
+  });
+}
+
+// A winning buy or a losing sell means price rose, and the other way round,
+// so every closed trade shows whether the read on the market was right
+export function sentimentAccuracy(trades: Trade[], options: PnlOptions = {}): SentimentAccuracy {
+  let judged = 0;
+  let correct = 0;
+
+  trades.filter(isClosed).forEach(trade => {
+    const bias = trade.market_sentiment ? sentimentBias(trade.market_sentiment) : null;
+    const pnl = tradeProfitLoss(trade, options);
+    if (bias === null || pnl === 0) return;
+
+    const marketRose = (trade.type === 'Buy') === (pnl > 0);
+    judged += 1;
+    if ((bias === 'Buy') === marketRose) correct += 1;
+  });
+
+  return { judged, correct, accuracy: judged > 0 ? (correct / judged) * 100 : 0 };
+}
@@ -0,0 +1,67 @@
+// Registers the service worker that lets the app be installed and open
+// offline, and tracks when a newly deployed version is waiting to take over
+
+// How often an app left open checks for a new deploy
+const UPDATE_CHECK_INTERVAL = 60 * 60 * 1000;
+
+let waiting: ServiceWorker | null = null;
+const listeners = new Set<() => void>();
+
+const setWaiting = (worker: ServiceWorker | null) => {
+  waiting = worker;
+  listeners.forEach(listener => listener());
+};
+
+// A worker that installs while another one controls the page is an update;
+// the very first install is not
+const watchInstalling = (worker: ServiceWorker) => {
+  worker.addEventListener('statechange', () => {
+    if (worker.state === 'installed' && navigator.serviceWorker.controller) setWaiting(worker);
+  });
+};
+
+export function registerServiceWorker() {
+  if (!('serviceWorker' in navigator)) return;
+
+  window.addEventListener('load', async () => {
+    try {
+      const registration = await navigator.serviceWorker.register('/sw.js');
+
+      if (registration.waiting && navigator.serviceWorker.controller) setWaiting(registration.waiting);
+      registration.addEventListener('updatefound', () => {
+        if (registration.installing) watchInstalling(registration.installing);
+      });
+
+      // Installed apps are resumed rather than reloaded, so look for updates
+      // whenever the app comes back to the foreground and every so often
+      document.addEventListener('visibilitychange', () => {
+        if (document.visibilityState === 'visible') registration.update();
+      });
+      setInterval(() => registration.update(), UPDATE_CHECK_INTERVAL);
+    } catch (error) {
+      console.error('Error registering service worker:', error);
+    }
+  });
+
+  // Reload once the new version has taken over
+  let reloading = false;
+  navigator.serviceWorker.addEventListener('controllerchange', () => {
+    if (reloading) return;
+    reloading = true;
+    window.location.reload();
+  });
+}
+
+export function subscribeToUpdate(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export const isUpdateWaiting = () => waiting !== null;
+
+// Hands over to the waiting version; the page reloads when it takes control
+export function applyUpdate() {
+  waiting?.postMessage({ type: 'SKIP_WAITING' });
+}
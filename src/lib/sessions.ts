@@ -0,0 +1,123 @@
+import { parseISO } from 'date-fns';
+import { Trade } from '../types/trade';
+import { GroupPerformance, performanceBy } from './metrics';
+import { PnlOptions } from './pnl';
+
+// Trading hours in each centre's own time zone, so daylight saving shifts
+// the sessions the same way it shifts the markets
+export const SESSIONS = [
+  { name: 'Sydney', timeZone: 'Australia/Sydney', open: 7, close: 16 },
+  { name: 'Tokyo', timeZone: 'Asia/Tokyo', open: 9, close: 18 },
+  { name: 'London', timeZone: 'Europe/London', open: 8, close: 17 },
+  { name: 'New York', timeZone: 'America/New_York', open: 8, close: 17 },
+] as const;
+
+// Sessions and overlaps in the order they happen through the trading day
+export const SESSION_LABELS = [
+  'Sydney',
+  'Sydney / Tokyo overlap',
+  'Tokyo',
+  'Tokyo / London overlap',
+  'London',
+  'London / New York overlap',
+  'New York',
+  'New York / Sydney overlap',
+  'Off hours',
+] as const;
+
+export type TradingSession = typeof SESSION_LABELS[number];
+
+export const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+export interface TradeTiming {
+  // 0-23 and 0 (Monday) to 6 (Sunday) in the zone the trade was recorded in
+  hour: number;
+  weekday: number;
+  session: TradingSession;
+}
+
+export interface TimingPerformance {
+  byHour: GroupPerformance[];
+  byWeekday: GroupPerformance[];
+  bySession: GroupPerformance[];
+  // Trades recorded before times were captured
+  untimed: number;
+}
+
+// Zone of the browser, stored with each trade so its times keep their meaning
+export const localTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const zonedFormatter = (timeZone: string) => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    const options: Intl.DateTimeFormatOptions = { weekday: 'short', hour: 'numeric', hourCycle: 'h23' };
+    try {
+      formatter = new Intl.DateTimeFormat('en-US', { ...options, timeZone });
+    } catch {
+      // Unknown zone names fall back to the browser's zone
+      formatter = new Intl.DateTimeFormat('en-US', options);
+    }
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+export function zonedTime(date: Date, timeZone: string): { hour: number; weekday: number } {
+  const parts = zonedFormatter(timeZone).formatToParts(date);
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find(p => p.type === type)?.value ?? '';
+
+  return {
+    hour: Number(part('hour')) % 24,
+    weekday: WEEKDAYS.indexOf(part('weekday')),
+  };
+}
+
+// The session, or overlap of two sessions, open at the given moment
+export function tradingSession(date: Date): TradingSession {
+  const open = SESSIONS
+    .filter(session => {
+      const { hour, weekday } = zonedTime(date, session.timeZone);
+      return weekday < 5 && hour >= session.open && hour < session.close;
+    })
+    .map(session => session.name);
+
+  if (open.length === 0) return 'Off hours';
+  if (open.length === 1) return open[0];
+  return SESSION_LABELS.find(label => label.endsWith('overlap') && open.every(name => label.includes(name))) ?? 'Off hours';
+}
+
+// When a trade was entered; null for trades recorded with a date only
+export function tradeTiming(trade: Trade): TradeTiming | null {
+  if (!trade.timezone) return null;
+
+  const date = parseISO(trade.entry_date);
+  return { ...zonedTime(date, trade.timezone), session: tradingSession(date) };
+}
+
+const emptyGroup = (key: string): GroupPerformance => ({ key, count: 0, pnl: 0, winRate: 0 });
+
+// P/L and win rate by entry hour, weekday and session
+export function timingPerformance(trades: Trade[], options: PnlOptions = {}): TimingPerformance {
+  const timed = trades
+    .map(trade => ({ trade, timing: tradeTiming(trade) }))
+    .filter((item): item is { trade: Trade; timing: TradeTiming } => item.timing !== null);
+
+  const timingOf = new Map(timed.map(item => [item.trade, item.timing]));
+  const timedTrades = timed.map(item => item.trade);
+
+  const hourKey = (hour: number) => `${String(hour).padStart(2, '0')}:00`;
+  const byHour = performanceBy(timedTrades, trade => hourKey(timingOf.get(trade)!.hour), options);
+  const byWeekday = performanceBy(timedTrades, trade => WEEKDAYS[timingOf.get(trade)!.weekday], options);
+  const bySession = performanceBy(timedTrades, trade => timingOf.get(trade)!.session, options);
+
+  const pick = (groups: GroupPerformance[], key: string) => groups.find(group => group.key === key) ?? emptyGroup(key);
+
+  return {
+    byHour: Array.from({ length: 24 }, (_, hour) => pick(byHour, hourKey(hour))),
+    byWeekday: WEEKDAYS.map(weekday => pick(byWeekday, weekday)),
+    bySession: SESSION_LABELS.map(session => pick(bySession, session)).filter(group => group.count > 0),
+    untimed: trades.length - timed.length,
+  };
+}
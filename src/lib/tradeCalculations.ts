@@ -0,0 +1,38 @@
+import { Trade, TradeType } from '../types/trade';
+import { PnlOptions, calculatePnl, roundMoney } from './pnl';
+
+// Reward-to-risk of the planned trade, 0 when the stop is on the wrong side
+export function calculateRiskReward(
+  type: TradeType,
+  entryPrice: number,
+  stopLoss: number,
+  takeProfit: number
+): number {
+  if (!stopLoss || !takeProfit || !entryPrice) return 0;
+
+  let risk = 0, reward = 0;
+
+  if (type === 'Buy') {
+    risk = entryPrice - stopLoss;
+    reward = takeProfit - entryPrice;
+  } else {
+    risk = stopLoss - entryPrice;
+    reward = entryPrice - takeProfit;
+  }
+
+  if (risk <= 0) return 0;
+  return parseFloat((reward / risk).toFixed(2));
+}
+
+// Account-currency profit/loss of a closed position, null while the trade is
+// still open or when its size is unknown
+export function calculateProfitLoss(
+  trade: Pick<Trade, 'pair' | 'type' | 'entry_price' | 'stop_loss' | 'lot_size'>,
+  exitPrice: number | null | undefined,
+  options: PnlOptions = {}
+): number | null {
+  if (!trade.entry_price || !exitPrice) return null;
+
+  const { amount } = calculatePnl(trade, exitPrice, options);
+  return amount === null ? null : roundMoney(amount);
+}
@@ -0,0 +1,87 @@
+import { format } from 'date-fns';
+import { Trade } from '../types/trade';
+import { toCsv } from './csv';
+
+// Every Trade column in a stable order, so exports can be re-imported or diffed
+export const TRADE_EXPORT_COLUMNS: (keyof Trade)[] = [
+  'id',
+  'pair',
+  'timeframe',
+  'type',
+  'entry_date',
+  'exit_date',
+  'timezone',
+  'entry_price',
+  'exit_price',
+  'stop_loss',
+  'take_profit',
+  'lot_size',
+  'suggested_lot_size',
+  'profit_loss',
+  'commission',
+  'swap',
+  'risk_reward_ratio',
+  'bb_upper',
+  'bb_middle',
+  'bb_lower',
+  'macd_line',
+  'macd_signal',
+  'macd_histogram',
+  'stochastic_k',
+  'stochastic_d',
+  'market_sentiment',
+  'notes',
+  'screenshots',
+  'tag_ids',
+  'executions',
+  'plan_checks',
+  'account_id',
+  'created_at',
+  'updated_at',
+];
+
+export type ExportFormat = 'csv' | 'json';
+
+export function tradesToCsv(trades: Trade[]): string {
+  return toCsv([
+    TRADE_EXPORT_COLUMNS,
+    ...trades.map(trade => TRADE_EXPORT_COLUMNS.map(column => {
+      if (column === 'executions') {
+        return trade.executions
+          .map(execution => `${execution.side} ${execution.lot_size}@${execution.price} ${execution.executed_at}`)
+          .join(';');
+      }
+      if (column === 'plan_checks') {
+        return trade.plan_checks.map(check => `${check.name}: ${check.met ? 'met' : 'broken'}`).join(';');
+      }
+      if (column === 'screenshots') {
+        return trade.screenshots.map(screenshot => screenshot.url).join(';');
+      }
+      const value = trade[column];
+      return Array.isArray(value) ? value.join(';') : value;
+    })),
+  ]);
+}
+
+export function tradesToJson(trades: Trade[]): string {
+  return JSON.stringify(trades, null, 2);
+}
+
+export function downloadFile(content: string, filename: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export function exportTrades(trades: Trade[], exportFormat: ExportFormat, name = 'trades') {
+  const filename = `${name}-${format(new Date(), 'yyyy-MM-dd')}.${exportFormat}`;
+
+  if (exportFormat === 'csv') {
+    downloadFile(tradesToCsv(trades), filename, 'text/csv;charset=utf-8');
+  } else {
+    downloadFile(tradesToJson(trades), filename, 'application/json');
+  }
+}
@@ -0,0 +1,28 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { formDataToRecord, toInputDateTime } from './tradeForm';
+import * as sessions from './sessions';
+import { tradeForm } from '../test/fixtures';
+
+describe('formDataToRecord', () => {
+  // Saved from a browser in another zone than the trade was recorded in
+  beforeEach(() => {
+    vi.spyOn(sessions, 'localTimeZone').mockReturnValue('America/New_York');
+  });
+  afterEach(() => vi.restoreAllMocks());
+
+  const existing = { entry_date: new Date(tradeForm().entry_date).toISOString(), timezone: 'Europe/London' };
+
+  it('records a new trade in the browser\'s zone', () => {
+    expect(formDataToRecord(tradeForm()).timezone).toBe('America/New_York');
+  });
+
+  it('keeps the zone of an edited trade', () => {
+    expect(formDataToRecord(tradeForm({ notes: 'Exited early' }), {}, existing).timezone).toBe('Europe/London');
+    expect(formDataToRecord(tradeForm(), {}, { ...existing, timezone: null }).timezone).toBeNull();
+  });
+
+  it('takes the browser\'s zone when the entry time is changed', () => {
+    const moved = tradeForm({ entry_date: toInputDateTime('2026-10-19T09:30:00.000Z') });
+    expect(formDataToRecord(moved, {}, existing).timezone).toBe('America/New_York');
+  });
+});
@@ -0,0 +1,112 @@
+import { Trade, TradeFormData, TradeValues } from '../types/trade';
+import { format, parseISO } from 'date-fns';
+import { calculateProfitLoss, calculateRiskReward } from './tradeCalculations';
+import { positionFields } from './executions';
+import { localTimeZone } from './sessions';
+import { PnlOptions } from './pnl';
+
+// Columns that come straight from the form fields
+export type TradeRecord = Omit<TradeValues, 'screenshots' | 'suggested_lot_size' | 'plan_checks'>;
+
+const optional = (value: number | null) => (value === null ? undefined : value);
+
+// Blank number inputs read as NaN; unlike `|| null` this keeps a real 0
+const numberOrNull = (value: number | undefined) =>
+  value === undefined || Number.isNaN(value) ? null : value;
+
+// Entry, exit and execution times are edited in datetime-local inputs, in
+// the browser's zone, and stored as ISO strings
+export const toInputDateTime = (value: string | Date) =>
+  format(typeof value === 'string' ? parseISO(value) : value, "yyyy-MM-dd'T'HH:mm");
+
+const fromInputDateTime = (value: string) => new Date(value).toISOString();
+
+export function tradeToFormData(trade: Trade): TradeFormData {
+  return {
+    pair: trade.pair,
+    timeframe: trade.timeframe,
+    type: trade.type,
+    entry_price: trade.entry_price,
+    exit_price: optional(trade.exit_price),
+    stop_loss: trade.stop_loss,
+    take_profit: trade.take_profit,
+    lot_size: optional(trade.lot_size),
+    entry_date: toInputDateTime(trade.entry_date),
+    exit_date: trade.exit_date ? toInputDateTime(trade.exit_date) : undefined,
+    commission: trade.commission || undefined,
+    swap: trade.swap || undefined,
+    bb_upper: optional(trade.bb_upper),
+    bb_middle: optional(trade.bb_middle),
+    bb_lower: optional(trade.bb_lower),
+    macd_line: optional(trade.macd_line),
+    macd_signal: optional(trade.macd_signal),
+    macd_histogram: optional(trade.macd_histogram),
+    stochastic_k: optional(trade.stochastic_k),
+    stochastic_d: optional(trade.stochastic_d),
+    market_sentiment: trade.market_sentiment ?? undefined,
+    notes: trade.notes ?? undefined,
+    tag_ids: trade.tag_ids,
+    account_id: trade.account_id ?? undefined,
+    executions: trade.executions.map(execution => ({
+      ...execution,
+      executed_at: toInputDateTime(execution.executed_at),
+    })),
+    screenshots: trade.screenshots,
+    plan_checks: trade.plan_checks,
+  };
+}
+
+// Builds the stored columns from the form, recomputing the derived values.
+// With executions the prices, size and result come from the fills instead.
+// The result is in the currency of the trade's account, given in `options`.
+// An edited trade keeps the zone its times were recorded in unless the entry
+// time itself was changed here.
+export function formDataToRecord(
+  data: TradeFormData,
+  options: PnlOptions = {},
+  existing?: Pick<Trade, 'entry_date' | 'timezone'>
+): TradeRecord {
+  const entryChanged = !existing || toInputDateTime(existing.entry_date) !== data.entry_date;
+
+  const executions = (data.executions ?? []).map(execution => ({
+    ...execution,
+    executed_at: fromInputDateTime(execution.executed_at),
+  }));
+
+  const record: TradeRecord = {
+    pair: data.pair,
+    timeframe: data.timeframe,
+    type: data.type,
+    entry_price: data.entry_price,
+    exit_price: numberOrNull(data.exit_price),
+    stop_loss: data.stop_loss,
+    take_profit: data.take_profit,
+    lot_size: numberOrNull(data.lot_size),
+    entry_date: fromInputDateTime(data.entry_date),
+    exit_date: data.exit_date ? fromInputDateTime(data.exit_date) : null,
+    timezone: entryChanged ? localTimeZone() : existing.timezone,
+    profit_loss: calculateProfitLoss(
+      { ...data, lot_size: numberOrNull(data.lot_size) },
+      numberOrNull(data.exit_price),
+      options
+    ),
+    commission: numberOrNull(data.commission) ?? 0,
+    swap: numberOrNull(data.swap) ?? 0,
+    risk_reward_ratio: calculateRiskReward(data.type, data.entry_price, data.stop_loss, data.take_profit),
+    bb_upper: numberOrNull(data.bb_upper),
+    bb_middle: numberOrNull(data.bb_middle),
+    bb_lower: numberOrNull(data.bb_lower),
+    macd_line: numberOrNull(data.macd_line),
+    macd_signal: numberOrNull(data.macd_signal),
+    macd_histogram: numberOrNull(data.macd_histogram),
+    stochastic_k: numberOrNull(data.stochastic_k),
+    stochastic_d: numberOrNull(data.stochastic_d),
+    market_sentiment: data.market_sentiment || null,
+    notes: data.notes || null,
+    tag_ids: data.tag_ids ?? [],
+    account_id: data.account_id || null,
+    executions,
+  };
+
+  return executions.length > 0 ? { ...record, ...positionFields(data, executions, options) } : record;
+}
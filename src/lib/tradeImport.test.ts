@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { ColumnMapping, buildImportRows, parseImportNumber } from './tradeImport';
+import { buildTrade } from '../test/fixtures';
+
+const mapping: ColumnMapping = { pair: 0, type: 1, entry_date: 2, entry_price: 3, stop_loss: 4, take_profit: 5, lot_size: 6 };
+
+// MetaTrader writes 0 for a stop or target that was never set
+const rows = [
+  ['EURUSD', 'buy', '2026.10.19 08:00', '1.10000', '0', '1.12000', '0.10'],
+  ['USDJPY', 'sell', '2026.10.19 09:00', '150.000', '150.500', '0', '0.10'],
+];
+
+describe('buildImportRows', () => {
+  it('says why rows without a stop or target are held back', () => {
+    const [buy, sell] = buildImportRows(rows, mapping, { timeframe: 'H1' }, []);
+
+    expect(buy).toMatchObject({ status: 'invalid', data: null });
+    expect(buy.errors).toEqual([
+      'No stop loss in the file (brokers write 0 when none was set). Enter a default stop to import this row',
+    ]);
+    expect(sell.errors).toEqual([
+      'No take profit in the file (brokers write 0 when none was set). Enter a default target to import this row',
+    ]);
+  });
+
+  it('places the default stop and target on the right side of the entry', () => {
+    const options = { timeframe: 'H1' as const, defaultStopPips: 20, defaultTargetPips: 40 };
+    const [buy, sell] = buildImportRows(rows, mapping, options, []);
+
+    expect(buy).toMatchObject({ status: 'ready', data: { stop_loss: 1.098, take_profit: 1.12 } });
+    expect(buy.warnings).toEqual(['No stop loss in the file, set 20 pips from the entry']);
+    expect(sell).toMatchObject({ status: 'ready', data: { stop_loss: 150.5, take_profit: 149.6 } });
+    expect(sell.warnings).toEqual(['No take profit in the file, set 40 pips from the entry']);
+  });
+});
+
+describe('parseImportNumber', () => {
+  it('reads the last separator as the decimal point when both appear', () => {
+    expect(parseImportNumber('1,234.5')).toBe(1234.5);
+    expect(parseImportNumber('1.234,5')).toBe(1234.5);
+    expect(parseImportNumber('1,234,567')).toBe(1234567);
+  });
+
+  it('reads a lone separator as the decimal point', () => {
+    expect(parseImportNumber('1.234')).toBe(1.234);
+    expect(parseImportNumber('1234,5')).toBe(1234.5);
+    expect(parseImportNumber('0,123')).toBe(0.123);
+    expect(parseImportNumber('0.10 Lots')).toBe(0.1);
+    expect(parseImportNumber('-12,50')).toBe(-12.5);
+  });
+
+  it('refuses to guess a lone comma before three digits', () => {
+    expect(parseImportNumber('1,234')).toBeNaN();
+
+    const row = ['EURUSD', 'buy', '2026.10.19 08:00', '1,234', '1.2', '1.3', '0.10'];
+    const [imported] = buildImportRows([row], mapping, { timeframe: 'H1' }, []);
+    expect(imported).toMatchObject({ status: 'invalid', data: null });
+    expect(imported.errors).toEqual([
+      'Open Price "1,234" could be 1234 or 1.234. Remove the thousands separator or write the decimal with a point',
+    ]);
+  });
+});
+
+describe('duplicate detection', () => {
+  const options = { timeframe: 'H1' as const, defaultStopPips: 20, defaultTargetPips: 40 };
+  const existing = buildTrade({ account_id: 'live', entry_date: '2026-10-19T08:00:00.000Z', entry_price: 1.1 });
+  const row = ['EURUSD', 'buy', '2026-10-19T08:00:00.000Z', '1.10000', '0', '0', '0.10'];
+
+  it('flags a trade already in the account being imported into', () => {
+    const [imported] = buildImportRows([row], mapping, { ...options, accountId: 'live' }, [existing]);
+    expect(imported.status).toBe('duplicate');
+  });
+
+  it('imports the same trade into another account', () => {
+    const [imported] = buildImportRows([row], mapping, { ...options, accountId: 'demo' }, [existing]);
+    expect(imported.status).toBe('ready');
+  });
+});
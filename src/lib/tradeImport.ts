@@ -0,0 +1,476 @@
+import { isValid, parse, parseISO } from 'date-fns';
+import { CURRENCY_PAIRS, CurrencyPair, TIMEFRAMES, Timeframe, Trade, TradeFormData, TradeType } from '../types/trade';
+import { validateTradeForm } from './tradeSchema';
+import { pipsToPrice } from './pnl';
+
+// Trade fields a CSV column can be mapped onto
+export type ImportField =
+  | 'pair'
+  | 'type'
+  | 'entry_date'
+  | 'exit_date'
+  | 'entry_price'
+  | 'exit_price'
+  | 'stop_loss'
+  | 'take_profit'
+  | 'lot_size'
+  | 'timeframe'
+  | 'commission'
+  | 'swap'
+  | 'notes';
+
+export const IMPORT_FIELDS: { field: ImportField; label: string; required: boolean }[] = [
+  { field: 'pair', label: 'Symbol', required: true },
+  { field: 'type', label: 'Direction', required: true },
+  { field: 'entry_date', label: 'Open Time', required: true },
+  { field: 'entry_price', label: 'Open Price', required: true },
+  { field: 'stop_loss', label: 'Stop Loss', required: false },
+  { field: 'take_profit', label: 'Take Profit', required: false },
+  { field: 'lot_size', label: 'Lot Size', required: true },
+  { field: 'exit_date', label: 'Close Time', required: false },
+  { field: 'exit_price', label: 'Close Price', required: false },
+  { field: 'timeframe', label: 'Timeframe', required: false },
+  { field: 'commission', label: 'Commission', required: false },
+  { field: 'swap', label: 'Swap', required: false },
+  { field: 'notes', label: 'Notes', required: false },
+];
+
+// Column index per field; unmapped fields are left out
+export type ColumnMapping = Partial<Record<ImportField, number>>;
+
+interface ColumnMatch {
+  names: string[];
+  // Which of several identically named columns to use, e.g. MetaTrader's two "Price" columns
+  occurrence?: number;
+}
+
+export type BrokerPresetId = 'mt4' | 'mt5' | 'ctrader' | 'generic';
+
+export interface BrokerPreset {
+  id: BrokerPresetId;
+  name: string;
+  detect: (headers: string[]) => boolean;
+  columns: Partial<Record<ImportField, ColumnMatch>>;
+}
+
+// Header names are compared without case, spaces or punctuation, so "S / L" is "sl"
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const hasHeaders = (headers: string[], names: string[]) => {
+  const normalized = headers.map(normalizeHeader);
+  return names.every(name => normalized.includes(name));
+};
+
+const GENERIC_COLUMNS: Record<ImportField, ColumnMatch> = {
+  pair: { names: ['pair', 'symbol', 'instrument', 'item', 'market'] },
+  type: { names: ['type', 'side', 'direction', 'openingdirection', 'action'] },
+  entry_date: { names: ['entrydate', 'opentime', 'opendate', 'openingtime', 'entrytime', 'time', 'date'] },
+  exit_date: { names: ['exitdate', 'closetime', 'closedate', 'closingtime', 'exittime'] },
+  entry_price: { names: ['entryprice', 'openprice', 'openingprice', 'entry', 'price'] },
+  exit_price: { names: ['exitprice', 'closeprice', 'closingprice', 'exit'] },
+  stop_loss: { names: ['stoploss', 'sl', 'stop'] },
+  take_profit: { names: ['takeprofit', 'tp', 'target'] },
+  lot_size: { names: ['lotsize', 'lots', 'lot', 'volume', 'size', 'quantity', 'closingquantity'] },
+  timeframe: { names: ['timeframe', 'tf'] },
+  commission: { names: ['commission', 'commissions', 'fee', 'fees'] },
+  swap: { names: ['swap', 'swaps', 'rollover', 'financing'] },
+  notes: { names: ['notes', 'note', 'comment', 'comments'] },
+};
+
+export const BROKER_PRESETS: BrokerPreset[] = [
+  {
+    // Ticket, Open Time, Type, Size, Item, Price, S / L, T / P, Close Time, Price, ...
+    id: 'mt4',
+    name: 'MetaTrader 4',
+    detect: headers => hasHeaders(headers, ['ticket', 'item', 'opentime']),
+    columns: {
+      pair: { names: ['item'] },
+      type: { names: ['type'] },
+      entry_date: { names: ['opentime'] },
+      exit_date: { names: ['closetime'] },
+      entry_price: { names: ['price'], occurrence: 0 },
+      exit_price: { names: ['price'], occurrence: 1 },
+      stop_loss: { names: ['sl'] },
+      take_profit: { names: ['tp'] },
+      lot_size: { names: ['size'] },
+      commission: { names: ['commission'] },
+      swap: { names: ['swap'] },
+      notes: { names: ['comment'] },
+    },
+  },
+  {
+    // Time, Position, Symbol, Type, Volume, Price, S / L, T / P, Time, Price, ...
+    id: 'mt5',
+    name: 'MetaTrader 5',
+    detect: headers => hasHeaders(headers, ['position', 'symbol', 'volume']),
+    columns: {
+      pair: { names: ['symbol'] },
+      type: { names: ['type'] },
+      entry_date: { names: ['time'], occurrence: 0 },
+      exit_date: { names: ['time'], occurrence: 1 },
+      entry_price: { names: ['price'], occurrence: 0 },
+      exit_price: { names: ['price'], occurrence: 1 },
+      stop_loss: { names: ['sl'] },
+      take_profit: { names: ['tp'] },
+      lot_size: { names: ['volume'] },
+      commission: { names: ['commission'] },
+      swap: { names: ['swap'] },
+      notes: { names: ['comment'] },
+    },
+  },
+  {
+    id: 'ctrader',
+    name: 'cTrader',
+    detect: headers => hasHeaders(headers, ['openingdirection']),
+    columns: {
+      pair: { names: ['symbol'] },
+      type: { names: ['openingdirection'] },
+      entry_date: { names: ['openingtime'] },
+      exit_date: { names: ['closingtime'] },
+      entry_price: { names: ['entryprice'] },
+      exit_price: { names: ['closingprice'] },
+      stop_loss: { names: ['stoploss', 'sl'] },
+      take_profit: { names: ['takeprofit', 'tp'] },
+      lot_size: { names: ['closingquantity', 'quantity', 'volume'] },
+      commission: { names: ['commissions', 'commission'] },
+      swap: { names: ['swap'] },
+      notes: { names: ['comment', 'label'] },
+    },
+  },
+  {
+    id: 'generic',
+    name: 'Generic CSV',
+    detect: () => true,
+    columns: GENERIC_COLUMNS,
+  },
+];
+
+export function getBrokerPreset(id: BrokerPresetId): BrokerPreset {
+  return BROKER_PRESETS.find(preset => preset.id === id) ?? BROKER_PRESETS[BROKER_PRESETS.length - 1];
+}
+
+export function detectBrokerPreset(headers: string[]): BrokerPreset {
+  return BROKER_PRESETS.find(preset => preset.detect(headers)) ?? getBrokerPreset('generic');
+}
+
+const findColumn = (headers: string[], match: ColumnMatch, taken: Set<number>) => {
+  const normalized = headers.map(normalizeHeader);
+
+  for (const name of match.names) {
+    const indexes = normalized
+      .map((header, index) => (header === name ? index : -1))
+      .filter(index => index !== -1);
+    const index = match.occurrence !== undefined
+      ? indexes[match.occurrence]
+      : indexes.find(i => !taken.has(i));
+    if (index !== undefined && !taken.has(index)) return index;
+  }
+
+  return undefined;
+};
+
+// Maps columns using the preset first and the generic names for anything it leaves out
+export function guessColumnMapping(headers: string[], preset: BrokerPreset): ColumnMapping {
+  const mapping: ColumnMapping = {};
+  const taken = new Set<number>();
+
+  for (const columns of [preset.columns, GENERIC_COLUMNS]) {
+    for (const { field } of IMPORT_FIELDS) {
+      const match = columns[field];
+      if (mapping[field] !== undefined || !match) continue;
+
+      const index = findColumn(headers, match, taken);
+      if (index !== undefined) {
+        mapping[field] = index;
+        taken.add(index);
+      }
+    }
+  }
+
+  return mapping;
+}
+
+const SYMBOL_ALIASES: Record<string, CurrencyPair> = {
+  GOLD: 'XAU/USD',
+};
+
+// Turns broker symbols such as EURUSD, eurusd.m, XAUUSD-ECN or EUR/USD into a
+// CurrencyPair, or null when the symbol is not one we track
+export function normalizeSymbol(raw: string): CurrencyPair | null {
+  const symbol = raw.trim().toUpperCase().split(/[.#_\-\s]/)[0].replace(/[^A-Z]/g, '');
+  if (SYMBOL_ALIASES[symbol]) return SYMBOL_ALIASES[symbol];
+
+  // Account-type suffixes glued onto the symbol, like EURUSDm or EURUSDpro
+  const candidate = `${symbol.slice(0, 3)}/${symbol.slice(3, 6)}`;
+  return (CURRENCY_PAIRS as readonly string[]).includes(candidate) ? candidate as CurrencyPair : null;
+}
+
+type ParsedType = TradeType | 'skip' | null;
+
+// Balance, credit and pending-order rows appear in account history but are not trades
+export function normalizeTradeType(raw: string): ParsedType {
+  const value = raw.trim().toLowerCase();
+  if (['buy', 'long', 'b'].includes(value)) return 'Buy';
+  if (['sell', 'short', 's'].includes(value)) return 'Sell';
+  if (/^(balance|credit|deposit|withdrawal)$/.test(value)) return 'skip';
+  if (/^(buy|sell)[\s_]?(limit|stop)/.test(value)) return 'skip';
+  return null;
+}
+
+// Reads "1,234.5", "1.234,5", "1234,5", "0.10 Lots" and similar. When both
+// separators appear the last one is the decimal point; a lone dot is always a
+// decimal point; a lone comma is a decimal comma unless it is followed by
+// exactly three digits, as in "1,234", which could be 1234 or 1.234 and is
+// returned as NaN for the caller to reject
+export function parseImportNumber(raw: string): number | undefined {
+  let value = raw.replace(/\s/g, '');
+  if (value === '') return undefined;
+
+  const number = value.match(/-?[\d.,]*\d/)?.[0];
+  if (!number) return undefined;
+
+  const decimal = Math.max(number.lastIndexOf('.'), number.lastIndexOf(','));
+  const separators = number.match(/[.,]/g) ?? [];
+
+  if (separators.length === 0) {
+    value = number;
+  } else if (new Set(separators).size === 2 || separators.length === 1) {
+    const whole = number.slice(0, decimal);
+    const fraction = number.slice(decimal + 1);
+    if (separators.length === 1 && separators[0] === ',' && fraction.length === 3 && !/^-?0$/.test(whole)) {
+      return NaN;
+    }
+    value = `${whole.replace(/[.,]/g, '')}.${fraction}`;
+  } else {
+    // The same separator repeated, as in "1,234,567", groups thousands
+    value = number.replace(/[.,]/g, '');
+  }
+
+  return parseFloat(value);
+}
+
+const DATE_FORMATS = [
+  'yyyy.MM.dd HH:mm:ss',
+  'yyyy.MM.dd HH:mm',
+  'yyyy.MM.dd',
+  'dd/MM/yyyy HH:mm:ss.SSS',
+  'dd/MM/yyyy HH:mm:ss',
+  'dd/MM/yyyy HH:mm',
+  'dd/MM/yyyy',
+  'yyyy-MM-dd HH:mm:ss',
+  'yyyy-MM-dd HH:mm',
+  'dd.MM.yyyy HH:mm:ss',
+  'dd.MM.yyyy HH:mm',
+];
+
+// Broker timestamps carry no zone, so they are read as local time
+export function parseImportDate(raw: string): string | undefined {
+  const value = raw.trim();
+  if (!value) return undefined;
+
+  const iso = parseISO(value);
+  if (isValid(iso)) return iso.toISOString();
+
+  for (const format of DATE_FORMATS) {
+    const date = parse(value, format, new Date());
+    if (isValid(date)) return date.toISOString();
+  }
+
+  return undefined;
+}
+
+export type ImportRowStatus = 'ready' | 'duplicate' | 'invalid' | 'skipped';
+
+export interface ImportRow {
+  // 1-based line in the file, counting the header
+  line: number;
+  status: ImportRowStatus;
+  data: TradeFormData | null;
+  errors: string[];
+  warnings: string[];
+}
+
+export interface ImportOptions {
+  // Broker exports have no timeframe, so every row gets this one unless mapped
+  timeframe: Timeframe;
+  // Distances from the entry for rows without a stop loss or take profit
+  defaultStopPips?: number;
+  defaultTargetPips?: number;
+  // Account the rows go into; only trades already in it count as duplicates
+  accountId?: string | null;
+}
+
+// Trades count as the same when account, pair, open time (to the minute) and
+// open price match
+export function tradeKey(
+  accountId: string | null,
+  pair: string,
+  entryDate: string,
+  entryPrice: number
+): string {
+  const time = new Date(entryDate).getTime();
+  const minute = Number.isNaN(time) ? entryDate : Math.floor(time / 60000);
+  return `${accountId ?? ''}|${pair}|${minute}|${entryPrice.toFixed(5)}`;
+}
+
+const NUMBER_FIELDS: ImportField[] = [
+  'entry_price',
+  'exit_price',
+  'stop_loss',
+  'take_profit',
+  'lot_size',
+  'commission',
+  'swap',
+];
+
+const cell = (row: string[], mapping: ColumnMapping, field: ImportField) => {
+  const index = mapping[field];
+  return index === undefined ? '' : (row[index] ?? '').trim();
+};
+
+function readRow(row: string[], mapping: ColumnMapping, options: ImportOptions) {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  const rawType = cell(row, mapping, 'type');
+  const type = normalizeTradeType(rawType);
+  if (type === 'skip') return { skipped: true as const, errors, warnings };
+
+  // A number such as "1,234" holds the row back rather than being guessed
+  for (const field of NUMBER_FIELDS) {
+    const raw = cell(row, mapping, field);
+    if (!Number.isNaN(parseImportNumber(raw))) continue;
+    const label = IMPORT_FIELDS.find(entry => entry.field === field)?.label;
+    errors.push(
+      `${label} "${raw}" could be ${raw.replace(',', '')} or ${raw.replace(',', '.')}. Remove the thousands separator or write the decimal with a point`
+    );
+  }
+  if (errors.length > 0) return { skipped: false as const, data: null, errors, warnings };
+  if (type === null) errors.push(rawType ? `Unknown direction "${rawType}"` : 'Direction is required');
+
+  const rawSymbol = cell(row, mapping, 'pair');
+  let pair = normalizeSymbol(rawSymbol);
+  if (!rawSymbol) {
+    errors.push('Symbol is required');
+  } else if (!pair) {
+    pair = 'Other';
+    warnings.push(`Unrecognised symbol "${rawSymbol}" imported as Other`);
+  }
+
+  const entryDate = parseImportDate(cell(row, mapping, 'entry_date'));
+  if (!entryDate) errors.push('Open time is missing or not a date');
+
+  const rawExitDate = cell(row, mapping, 'exit_date');
+  const exitDate = parseImportDate(rawExitDate);
+  if (rawExitDate && !exitDate) errors.push('Close time is not a date');
+
+  const entryPrice = parseImportNumber(cell(row, mapping, 'entry_price'));
+  if (!entryPrice || entryPrice <= 0) errors.push('Open price is required');
+
+  const exitPrice = parseImportNumber(cell(row, mapping, 'exit_price'));
+  if (exitPrice !== undefined && exitPrice < 0) errors.push('Close price must be positive');
+
+  // Brokers write 0 when no stop or target was set. Such rows take the
+  // default distance chosen for the import, or are held back without one.
+  const fromEntry = (pips: number | undefined, side: 'loss' | 'profit') => {
+    if (!pips || pips <= 0 || !pair || !type || !entryPrice || entryPrice <= 0) return undefined;
+    const away = (type === 'Buy') === (side === 'profit') ? 1 : -1;
+    return Number((entryPrice + away * pipsToPrice(pair, pips)).toFixed(5));
+  };
+
+  let stopLoss = parseImportNumber(cell(row, mapping, 'stop_loss'));
+  if (!stopLoss) {
+    stopLoss = fromEntry(options.defaultStopPips, 'loss');
+    if (stopLoss) {
+      warnings.push(`No stop loss in the file, set ${options.defaultStopPips} pips from the entry`);
+    } else {
+      errors.push('No stop loss in the file (brokers write 0 when none was set). Enter a default stop to import this row');
+    }
+  }
+
+  let takeProfit = parseImportNumber(cell(row, mapping, 'take_profit'));
+  if (!takeProfit) {
+    takeProfit = fromEntry(options.defaultTargetPips, 'profit');
+    if (takeProfit) {
+      warnings.push(`No take profit in the file, set ${options.defaultTargetPips} pips from the entry`);
+    } else {
+      errors.push('No take profit in the file (brokers write 0 when none was set). Enter a default target to import this row');
+    }
+  }
+
+  const lotSize = parseImportNumber(cell(row, mapping, 'lot_size'));
+  if (!lotSize || lotSize < 0.01) errors.push('Lot size must be at least 0.01');
+
+  const rawTimeframe = cell(row, mapping, 'timeframe').toUpperCase();
+  const timeframe = (TIMEFRAMES as readonly string[]).includes(rawTimeframe)
+    ? rawTimeframe as Timeframe
+    : options.timeframe;
+
+  if (errors.length > 0 || !pair || !type || !entryDate || !entryPrice || !stopLoss || !takeProfit || !lotSize) {
+    return { skipped: false as const, data: null, errors, warnings };
+  }
+
+  const data: TradeFormData = {
+    pair,
+    timeframe,
+    type,
+    entry_price: entryPrice,
+    // A close price without a close time is an open position's current quote
+    exit_price: exitDate ? exitPrice : undefined,
+    stop_loss: stopLoss,
+    take_profit: takeProfit,
+    lot_size: lotSize,
+    entry_date: entryDate,
+    exit_date: exitPrice ? exitDate : undefined,
+    // Broker statements already report costs as negative amounts
+    commission: parseImportNumber(cell(row, mapping, 'commission')),
+    swap: parseImportNumber(cell(row, mapping, 'swap')),
+    notes: cell(row, mapping, 'notes') || undefined,
+  };
+
+  // Rows are held to the same rules as trades entered by hand, e.g. a stop
+  // loss on the wrong side of the entry
+  const issues = validateTradeForm(data);
+  if (issues.length > 0) {
+    return { skipped: false as const, data: null, errors: issues.map(issue => issue.message), warnings };
+  }
+
+  return { skipped: false as const, data, errors, warnings };
+}
+
+// Validates every data row and flags the ones already in the journal or
+// repeated earlier in the same file
+export function buildImportRows(
+  rows: string[][],
+  mapping: ColumnMapping,
+  options: ImportOptions,
+  existingTrades: Trade[]
+): ImportRow[] {
+  const seen = new Set(
+    existingTrades.map(trade => tradeKey(trade.account_id, trade.pair, trade.entry_date, trade.entry_price))
+  );
+
+  return rows.map((row, index) => {
+    const line = index + 2;
+    const result = readRow(row, mapping, options);
+
+    if (result.skipped) {
+      return { line, status: 'skipped', data: null, errors: [], warnings: [] };
+    }
+    if (!result.data) {
+      return { line, status: 'invalid', data: null, errors: result.errors, warnings: result.warnings };
+    }
+
+    const key = tradeKey(options.accountId ?? null, result.data.pair, result.data.entry_date, result.data.entry_price);
+    const duplicate = seen.has(key);
+    seen.add(key);
+
+    return {
+      line,
+      status: duplicate ? 'duplicate' : 'ready',
+      data: result.data,
+      errors: [],
+      warnings: result.warnings,
+    };
+  });
+}
@@ -0,0 +1,72 @@
+import { Trade, TradeValues } from '../types/trade';
+import { calculateRiskReward } from './tradeCalculations';
+
+type TradeField = keyof TradeValues;
+
+// Fields that describe the position together. They are merged as one, so
+// fills and totals from two devices never get mixed.
+const POSITION_FIELDS: TradeField[] = [
+  'executions',
+  'entry_price',
+  'lot_size',
+  'entry_date',
+  'exit_price',
+  'exit_date',
+  'profit_loss',
+];
+
+const PRICE_FIELDS: TradeField[] = ['entry_price', 'stop_loss', 'take_profit'];
+
+export interface TradeMerge {
+  // What still has to be written over the server's copy
+  changes: Partial<TradeValues>;
+  // Fields where the other device's newer edit was kept
+  conflicts: TradeField[];
+}
+
+const same = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+// Three-way merge of an edit queued offline with the server's copy of the
+// trade. Fields only one side changed keep that change; for fields both
+// sides changed the later edit wins.
+export function mergeTradeChanges(
+  base: Trade,
+  changes: Partial<TradeValues>,
+  remote: Trade,
+  editedAt: string
+): TradeMerge {
+  const localIsNewer = new Date(editedAt).getTime() > new Date(remote.updated_at).getTime();
+  const local = { ...base, ...changes };
+  const merged: Partial<TradeValues> = {};
+  const conflicts: TradeField[] = [];
+
+  // The journal form sends every field, so only those that differ from the
+  // base were edited here; the rest must not overwrite the other device's
+  // edits. The ratio is derived from the prices, so it is recomputed below.
+  const fields = (Object.keys(changes) as TradeField[])
+    .filter(field =>
+      field !== 'risk_reward_ratio' && !same(changes[field], base[field]) && !same(changes[field], remote[field])
+    );
+
+  fields.forEach(field => {
+    const group = POSITION_FIELDS.includes(field) ? POSITION_FIELDS : [field];
+    const remoteChanged = group.some(other => !same(base[other], remote[other]));
+
+    if (!remoteChanged) {
+      Object.assign(merged, { [field]: changes[field] });
+    } else if (localIsNewer) {
+      // Take the whole group so it is written as this device left it
+      group.forEach(other => Object.assign(merged, { [other]: local[other] }));
+    } else {
+      conflicts.push(field);
+    }
+  });
+
+  // The stored ratio follows whichever prices were kept
+  if (PRICE_FIELDS.some(field => field in merged)) {
+    const trade = { ...remote, ...merged };
+    merged.risk_reward_ratio = calculateRiskReward(trade.type, trade.entry_price, trade.stop_loss, trade.take_profit);
+  }
+
+  return { changes: merged, conflicts };
+}
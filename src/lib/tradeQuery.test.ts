@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { matchesFilters, parseTradeQuery } from './tradeQuery';
+import { buildTrade } from '../test/fixtures';
+
+describe('parseTradeQuery', () => {
+  it('keeps valid dates', () => {
+    const { filters } = parseTradeQuery(new URLSearchParams('from=2026-10-01&to=2026-10-31'));
+    expect(filters).toMatchObject({ from: '2026-10-01', to: '2026-10-31' });
+  });
+
+  it('drops dates that are not real days', () => {
+    const { filters } = parseTradeQuery(new URLSearchParams('from=abc&to=2026-02-30'));
+    expect(filters.from).toBeUndefined();
+    expect(filters.to).toBeUndefined();
+  });
+});
+
+describe('matchesFilters', () => {
+  // Stored before a correction to the exit price: the saved result says win
+  const stopped = buildTrade({ exit_price: 1.09, exit_date: '2026-10-19T10:00:00.000Z', profit_loss: 50 });
+
+  it('sorts trades into wins and losses by the computed result', () => {
+    expect(matchesFilters(stopped, { outcome: 'loss' })).toBe(true);
+    expect(matchesFilters(stopped, { outcome: 'win' })).toBe(false);
+  });
+
+  it('falls back to the stored result for trades without a size', () => {
+    const unsized = { ...stopped, lot_size: null };
+    expect(matchesFilters(unsized, { outcome: 'win' })).toBe(true);
+  });
+});
@@ -0,0 +1,142 @@
+import { addDays, format, isValid, parseISO } from 'date-fns';
+import {
+  CURRENCY_PAIRS,
+  TIMEFRAMES,
+  MARKET_SENTIMENTS,
+  Trade,
+  TradeFilters,
+  TradePage,
+  TradeQuery,
+  TradeSortField,
+  SortDirection,
+} from '../types/trade';
+import { tradeProfitLoss } from './pnl';
+
+export const PAGE_SIZES = [10, 25, 50, 100];
+
+export const DEFAULT_TRADE_QUERY: TradeQuery = {
+  filters: {},
+  sort: 'entry_date',
+  direction: 'desc',
+  page: 1,
+  pageSize: 25,
+};
+
+const SORT_FIELDS: TradeSortField[] = [
+  'entry_date', 'exit_date', 'pair', 'timeframe', 'type', 'entry_price', 'exit_price',
+  'stop_loss', 'take_profit', 'profit_loss', 'risk_reward_ratio', 'market_sentiment'
+];
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Only accept values we know about so a hand-edited URL can't produce a bad query
+function pick<T extends string>(value: string | null, allowed: readonly T[]): T | undefined {
+  return value !== null && (allowed as readonly string[]).includes(value) ? (value as T) : undefined;
+}
+
+// A real calendar day, so e.g. 2026-02-30 is dropped rather than breaking date formatting
+function pickDate(value: string | null): string | undefined {
+  return value && DATE_PATTERN.test(value) && isValid(parseISO(value)) ? value : undefined;
+}
+
+function pickPositiveInt(value: string | null, fallback: number): number {
+  const parsed = value ? parseInt(value, 10) : NaN;
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+export function parseTradeQuery(params: URLSearchParams): TradeQuery {
+  const filters: TradeFilters = {
+    pair: pick(params.get('pair'), CURRENCY_PAIRS),
+    timeframe: pick(params.get('timeframe'), TIMEFRAMES),
+    type: pick(params.get('type'), ['Buy', 'Sell'] as const),
+    market_sentiment: pick(params.get('sentiment'), MARKET_SENTIMENTS),
+    from: pickDate(params.get('from')),
+    to: pickDate(params.get('to')),
+    outcome: pick(params.get('outcome'), ['win', 'loss', 'open'] as const),
+    tag: params.get('tag') || undefined,
+    account: params.get('account') || undefined,
+  };
+
+  const pageSize = pickPositiveInt(params.get('size'), DEFAULT_TRADE_QUERY.pageSize);
+
+  return {
+    filters,
+    sort: pick(params.get('sort'), SORT_FIELDS) ?? DEFAULT_TRADE_QUERY.sort,
+    direction: pick<SortDirection>(params.get('dir'), ['asc', 'desc']) ?? DEFAULT_TRADE_QUERY.direction,
+    page: pickPositiveInt(params.get('page'), 1),
+    pageSize: PAGE_SIZES.includes(pageSize) ? pageSize : DEFAULT_TRADE_QUERY.pageSize,
+  };
+}
+
+// Defaults are left out so shared links stay short
+export function serializeTradeQuery(query: TradeQuery): URLSearchParams {
+  const params = new URLSearchParams();
+  const { filters } = query;
+
+  if (filters.pair) params.set('pair', filters.pair);
+  if (filters.timeframe) params.set('timeframe', filters.timeframe);
+  if (filters.type) params.set('type', filters.type);
+  if (filters.market_sentiment) params.set('sentiment', filters.market_sentiment);
+  if (filters.from) params.set('from', filters.from);
+  if (filters.to) params.set('to', filters.to);
+  if (filters.outcome) params.set('outcome', filters.outcome);
+  if (filters.tag) params.set('tag', filters.tag);
+  if (filters.account) params.set('account', filters.account);
+
+  if (query.sort !== DEFAULT_TRADE_QUERY.sort) params.set('sort', query.sort);
+  if (query.direction !== DEFAULT_TRADE_QUERY.direction) params.set('dir', query.direction);
+  if (query.page > 1) params.set('page', String(query.page));
+  if (query.pageSize !== DEFAULT_TRADE_QUERY.pageSize) params.set('size', String(query.pageSize));
+
+  return params;
+}
+
+export function hasActiveFilters(filters: TradeFilters): boolean {
+  return Object.values(filters).some(value => value !== undefined);
+}
+
+// The upper bound of a date range includes the whole day
+export function endOfRange(date: string): string {
+  return format(addDays(parseISO(date), 1), 'yyyy-MM-dd');
+}
+
+export function matchesFilters(trade: Trade, filters: TradeFilters): boolean {
+  if (filters.pair && trade.pair !== filters.pair) return false;
+  if (filters.timeframe && trade.timeframe !== filters.timeframe) return false;
+  if (filters.type && trade.type !== filters.type) return false;
+  if (filters.market_sentiment && trade.market_sentiment !== filters.market_sentiment) return false;
+  if (filters.from && trade.entry_date < filters.from) return false;
+  if (filters.to && trade.entry_date >= endOfRange(filters.to)) return false;
+  // The result shown in the table; its sign does not depend on the currency
+  if (filters.outcome === 'win' && !(tradeProfitLoss(trade) > 0)) return false;
+  if (filters.outcome === 'loss' && !(tradeProfitLoss(trade) < 0)) return false;
+  if (filters.outcome === 'open' && trade.exit_price !== null) return false;
+  if (filters.tag && !trade.tag_ids.includes(filters.tag)) return false;
+  if (filters.account && trade.account_id !== filters.account) return false;
+  return true;
+}
+
+// Mirrors the server-side query for backends that keep trades in memory:
+// nulls sort last, ties are broken by id
+export function applyTradeQuery(trades: Trade[], query: TradeQuery): TradePage {
+  const { filters, sort, direction, page, pageSize } = query;
+  const factor = direction === 'asc' ? 1 : -1;
+
+  const matching = trades
+    .filter(trade => matchesFilters(trade, filters))
+    .sort((a, b) => {
+      const left = a[sort];
+      const right = b[sort];
+      if (left === right) return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+      if (left === null) return 1;
+      if (right === null) return -1;
+      return (left < right ? -1 : 1) * factor;
+    });
+
+  const from = (page - 1) * pageSize;
+
+  return {
+    trades: matching.slice(from, from + pageSize),
+    total: matching.length,
+  };
+}
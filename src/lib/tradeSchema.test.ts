@@ -0,0 +1,189 @@
+import { describe, expect, it } from 'vitest';
+import { ResolverOptions } from 'react-hook-form';
+import { TradeFormData } from '../types/trade';
+import {
+  TradeFormContext,
+  TradeValidationError,
+  assertValidTrade,
+  tradeFormResolver,
+  validateTrade,
+  validateTradeForm,
+} from './tradeSchema';
+import { tradeForm, tradeValues } from '../test/fixtures';
+
+const fields = (issues: { field: string }[]) => issues.map(issue => issue.field);
+
+const resolve = (data: TradeFormData, context?: TradeFormContext) =>
+  tradeFormResolver(data, context, {} as ResolverOptions<TradeFormData>);
+
+describe('validateTrade', () => {
+  it('accepts a consistent trade', () => {
+    expect(validateTrade(tradeValues())).toEqual([]);
+    expect(validateTrade(tradeValues({ type: 'Sell', stop_loss: 1.11, take_profit: 1.08 }))).toEqual([]);
+  });
+
+  it('rejects a buy with the stop above or the target below the entry', () => {
+    expect(validateTrade(tradeValues({ stop_loss: 1.11 }))).toEqual([
+      { field: 'stop_loss', message: 'The stop loss of a buy must be below the entry price' },
+    ]);
+    expect(validateTrade(tradeValues({ take_profit: 1.05 }))).toEqual([
+      { field: 'take_profit', message: 'The take profit of a buy must be above the entry price' },
+    ]);
+  });
+
+  it('rejects a sell with the stop below or the target above the entry', () => {
+    expect(validateTrade(tradeValues({ type: 'Sell', stop_loss: 1.09, take_profit: 1.08 }))).toEqual([
+      { field: 'stop_loss', message: 'The stop loss of a sell must be above the entry price' },
+    ]);
+    expect(validateTrade(tradeValues({ type: 'Sell', stop_loss: 1.11, take_profit: 1.12 }))).toEqual([
+      { field: 'take_profit', message: 'The take profit of a sell must be below the entry price' },
+    ]);
+  });
+
+  it('rejects a stop or target equal to the entry', () => {
+    expect(fields(validateTrade(tradeValues({ stop_loss: 1.1, take_profit: 1.1 })))).toEqual(['stop_loss', 'take_profit']);
+  });
+
+  it('rejects an exit before the entry', () => {
+    expect(validateTrade(tradeValues({ exit_price: 1.11, exit_date: '2026-10-19T07:59:00.000Z' }))).toEqual([
+      { field: 'exit_date', message: 'Exit time cannot be before the entry time' },
+    ]);
+    expect(validateTrade(tradeValues({ exit_price: 1.11, exit_date: '2026-10-19T08:00:00.000Z' }))).toEqual([]);
+  });
+
+  it('requires the Bollinger bands to run upper, middle, lower', () => {
+    expect(validateTrade(tradeValues({ bb_upper: 1.12, bb_middle: 1.1, bb_lower: 1.08 }))).toEqual([]);
+    expect(validateTrade(tradeValues({ bb_upper: 1.1, bb_middle: 1.1, bb_lower: 1.1 }))).toEqual([]);
+    expect(fields(validateTrade(tradeValues({ bb_upper: 1.1, bb_middle: 1.12, bb_lower: 1.08 })))).toEqual(['bb_middle']);
+    expect(fields(validateTrade(tradeValues({ bb_upper: 1.12, bb_middle: 1.08, bb_lower: 1.1 })))).toEqual(['bb_lower']);
+  });
+
+  it('compares the outer bands when the middle one is left empty', () => {
+    expect(validateTrade(tradeValues({ bb_upper: 1.08, bb_lower: 1.12 }))).toEqual([
+      { field: 'bb_lower', message: 'The lower band cannot be above the upper band' },
+    ]);
+  });
+
+  it('keeps the stochastic between 0 and 100', () => {
+    expect(validateTrade(tradeValues({ stochastic_k: 0, stochastic_d: 100 }))).toEqual([]);
+    expect(fields(validateTrade(tradeValues({ stochastic_k: -1, stochastic_d: 101 })))).toEqual(['stochastic_k', 'stochastic_d']);
+  });
+
+  it('allows stored trades without a size', () => {
+    expect(validateTrade(tradeValues({ lot_size: null }))).toEqual([]);
+  });
+
+  it('checks the executions against the trade direction', () => {
+    const executions = [{ side: 'Sell' as const, price: 1.1, lot_size: 1, executed_at: '2026-10-19T08:00:00.000Z' }];
+    expect(fields(validateTrade(tradeValues({ executions })))).toEqual(['executions']);
+  });
+
+  describe('with the changed fields', () => {
+    const legacy = tradeValues({ stop_loss: 1.11, bb_upper: 1.08, bb_middle: 1.1 });
+
+    it('skips rules that read none of them', () => {
+      expect(validateTrade(legacy, ['notes', 'tag_ids'])).toEqual([]);
+    });
+
+    it('checks every rule that reads one of them', () => {
+      expect(fields(validateTrade(legacy, ['stop_loss']))).toEqual(['stop_loss']);
+      // Changing the entry or the direction can put the stop on the wrong side
+      expect(fields(validateTrade(legacy, ['entry_price']))).toEqual(['stop_loss']);
+      expect(fields(validateTrade(legacy, ['bb_upper']))).toEqual(['bb_middle']);
+    });
+  });
+});
+
+describe('assertValidTrade', () => {
+  it('passes a valid trade', () => {
+    expect(() => assertValidTrade(tradeValues())).not.toThrow();
+  });
+
+  it('throws the issues with a readable message', () => {
+    const error = (() => {
+      try {
+        assertValidTrade(tradeValues({ stop_loss: 1.11, stochastic_k: 150 }));
+      } catch (caught) {
+        return caught;
+      }
+    })();
+
+    expect(error).toBeInstanceOf(TradeValidationError);
+    expect((error as TradeValidationError).issues.map(issue => issue.field)).toEqual(['stop_loss', 'stochastic_k']);
+    expect((error as Error).message).toBe(
+      'The stop loss of a buy must be below the entry price. Value must be between 0 and 100'
+    );
+  });
+
+  it('only checks the rules of the changed fields', () => {
+    const legacy = tradeValues({ stop_loss: 1.11 });
+    expect(() => assertValidTrade({ ...legacy, notes: 'Fixed a typo' }, ['notes'])).not.toThrow();
+    expect(() => assertValidTrade({ ...legacy, stop_loss: 1.12 }, ['stop_loss'])).toThrow(TradeValidationError);
+  });
+});
+
+describe('validateTradeForm', () => {
+  it('accepts a consistent entry', () => {
+    expect(validateTradeForm(tradeForm())).toEqual([]);
+  });
+
+  it('reports blank number inputs as missing rather than NaN', () => {
+    expect(validateTradeForm(tradeForm({ entry_price: NaN, stop_loss: NaN, lot_size: NaN }))).toEqual([
+      { field: 'lot_size', message: 'Lot size is required' },
+      { field: 'entry_price', message: 'Entry price is required' },
+      { field: 'stop_loss', message: 'Stop loss is required' },
+    ]);
+  });
+
+  it('lets a trade saved without a size be edited without one', () => {
+    const unsized = tradeForm({ lot_size: undefined });
+
+    expect(fields(validateTradeForm(unsized))).toEqual(['lot_size']);
+    expect(validateTradeForm(unsized, { sizeOptional: true })).toEqual([]);
+    expect(fields(validateTradeForm(tradeForm({ lot_size: 0 }), { sizeOptional: true }))).toEqual(['lot_size']);
+  });
+
+  it('ignores blank optional inputs', () => {
+    expect(validateTradeForm(tradeForm({ exit_price: NaN, bb_upper: NaN, bb_middle: 1.1, bb_lower: NaN, stochastic_k: NaN }))).toEqual([]);
+  });
+
+  it('compares datetime-local entry and exit times', () => {
+    expect(fields(validateTradeForm(tradeForm({ exit_date: '2026-10-19T09:59' })))).toEqual(['exit_date']);
+    expect(validateTradeForm(tradeForm({ exit_date: '2026-10-19T10:30' }))).toEqual([]);
+  });
+
+  it('applies the cross-field rules', () => {
+    expect(fields(validateTradeForm(tradeForm({ type: 'Sell', bb_upper: 1, bb_middle: 2 })))).toEqual([
+      'stop_loss',
+      'take_profit',
+      'bb_middle',
+    ]);
+  });
+});
+
+describe('tradeFormResolver', () => {
+  it('submits blank number inputs as undefined', async () => {
+    const result = await resolve(tradeForm({ exit_price: NaN, commission: NaN, stochastic_k: 0 }));
+
+    expect(result.errors).toEqual({});
+    expect(result.values).not.toHaveProperty('exit_price');
+    expect(result.values).not.toHaveProperty('commission');
+    expect(result.values).toMatchObject({ entry_price: 1.1, stochastic_k: 0 });
+  });
+
+  it('reads whether the size is optional from the form context', async () => {
+    expect((await resolve(tradeForm({ lot_size: NaN }))).errors).toHaveProperty('lot_size');
+    expect((await resolve(tradeForm({ lot_size: NaN }), { sizeOptional: true })).errors).toEqual({});
+  });
+
+  it('returns an error under each field that fails', async () => {
+    const result = await resolve(tradeForm({ stop_loss: 1.2, exit_date: '2026-10-19T09:00', bb_upper: 1, bb_middle: 2 }));
+
+    expect(result.values).toEqual({});
+    expect(result.errors).toEqual({
+      stop_loss: { type: 'validate', message: 'The stop loss of a buy must be below the entry price' },
+      exit_date: { type: 'validate', message: 'Exit time cannot be before the entry time' },
+      bb_middle: { type: 'validate', message: 'The middle band cannot be above the upper band' },
+    });
+  });
+});
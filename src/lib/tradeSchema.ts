@@ -0,0 +1,222 @@
+import { FieldErrors, Resolver } from 'react-hook-form';
+import { CURRENCY_PAIRS, TIMEFRAMES, TradeFormData, TradeType, TradeValues } from '../types/trade';
+import { validateExecutions } from './executions';
+
+// The rules a trade must meet, shared by the journal form and the
+// repositories that write trades
+
+type TradeField = keyof TradeValues & keyof TradeFormData;
+
+// Stored columns, or the form's fields read as columns
+type TradeCandidate = Partial<Pick<TradeValues, TradeField>>;
+
+export interface TradeIssue {
+  field: TradeField;
+  message: string;
+}
+
+interface TradeRule {
+  // Fields the rule reads; the message is shown under the first one
+  fields: TradeField[];
+  check: (trade: TradeCandidate) => string | null;
+}
+
+export class TradeValidationError extends Error {
+  issues: TradeIssue[];
+
+  constructor(issues: TradeIssue[]) {
+    super(issues.map(issue => issue.message).join('. '));
+    this.name = 'TradeValidationError';
+    this.issues = issues;
+  }
+}
+
+const TRADE_TYPES: TradeType[] = ['Buy', 'Sell'];
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && !Number.isNaN(value);
+
+const isBlank = (value: unknown) => value === null || value === undefined || value === '' || Number.isNaN(value);
+
+const time = (value: string) => new Date(value).getTime();
+
+const required = (field: TradeField, message: string): TradeRule => ({
+  fields: [field],
+  check: trade => (isBlank(trade[field]) ? message : null),
+});
+
+const oneOf = (field: TradeField, allowed: readonly string[], message: string): TradeRule => ({
+  fields: [field],
+  check: trade => {
+    const value = trade[field];
+    return isBlank(value) || allowed.includes(value as string) ? null : message;
+  },
+});
+
+const atLeast = (field: TradeField, min: number, message: string): TradeRule => ({
+  fields: [field],
+  check: trade => {
+    const value = trade[field];
+    return !isNumber(value) || value >= min ? null : message;
+  },
+});
+
+const between = (field: TradeField, min: number, max: number, message: string): TradeRule => ({
+  fields: [field],
+  check: trade => {
+    const value = trade[field];
+    return !isNumber(value) || (value >= min && value <= max) ? null : message;
+  },
+});
+
+// A buy loses below its entry and wins above it, a sell the other way round
+const onSide = (field: 'stop_loss' | 'take_profit', label: string, below: TradeType): TradeRule => ({
+  fields: [field, 'type', 'entry_price'],
+  check: ({ type, entry_price: entryPrice, [field]: price }) => {
+    if (!isNumber(price) || !isNumber(entryPrice) || price <= 0 || entryPrice <= 0) return null;
+    if (type === below && price >= entryPrice) return `${label} of a ${type.toLowerCase()} must be below the entry price`;
+    if (type !== below && type && price <= entryPrice) return `${label} of a ${type.toLowerCase()} must be above the entry price`;
+    return null;
+  },
+});
+
+// Bollinger bands are listed top to bottom; each may be left empty
+const notAbove = (field: TradeField, upper: TradeField, message: string): TradeRule => ({
+  fields: [field, upper],
+  check: trade => {
+    const value = trade[field];
+    const limit = trade[upper];
+    return !isNumber(value) || !isNumber(limit) || value <= limit ? null : message;
+  },
+});
+
+const TRADE_RULES: TradeRule[] = [
+  required('pair', 'Currency pair is required'),
+  oneOf('pair', CURRENCY_PAIRS, 'Unknown currency pair'),
+  required('timeframe', 'Timeframe is required'),
+  oneOf('timeframe', TIMEFRAMES, 'Unknown timeframe'),
+  required('type', 'Trade type is required'),
+  oneOf('type', TRADE_TYPES, 'Trade type must be Buy or Sell'),
+  required('entry_date', 'Entry time is required'),
+  {
+    fields: ['entry_date'],
+    check: ({ entry_date: entryDate }) => (!entryDate || !Number.isNaN(time(entryDate)) ? null : 'Entry time is not a valid date'),
+  },
+  {
+    fields: ['exit_date', 'entry_date'],
+    check: ({ entry_date: entryDate, exit_date: exitDate }) => {
+      if (!exitDate) return null;
+      if (Number.isNaN(time(exitDate))) return 'Exit time is not a valid date';
+      return !entryDate || time(exitDate) >= time(entryDate) ? null : 'Exit time cannot be before the entry time';
+    },
+  },
+  required('entry_price', 'Entry price is required'),
+  atLeast('entry_price', Number.MIN_VALUE, 'Price must be positive'),
+  atLeast('exit_price', 0, 'Price must be positive'),
+  required('stop_loss', 'Stop loss is required'),
+  atLeast('stop_loss', Number.MIN_VALUE, 'Price must be positive'),
+  onSide('stop_loss', 'The stop loss', 'Buy'),
+  required('take_profit', 'Take profit is required'),
+  atLeast('take_profit', Number.MIN_VALUE, 'Price must be positive'),
+  onSide('take_profit', 'The take profit', 'Sell'),
+  atLeast('lot_size', 0.01, 'Lot size must be at least 0.01'),
+  notAbove('bb_middle', 'bb_upper', 'The middle band cannot be above the upper band'),
+  notAbove('bb_lower', 'bb_middle', 'The lower band cannot be above the middle band'),
+  notAbove('bb_lower', 'bb_upper', 'The lower band cannot be above the upper band'),
+  between('stochastic_k', 0, 100, 'Value must be between 0 and 100'),
+  between('stochastic_d', 0, 100, 'Value must be between 0 and 100'),
+  {
+    fields: ['executions', 'type'],
+    check: ({ type, executions }) =>
+      !type || !executions || executions.length === 0 ? null : validateExecutions(type, executions),
+  },
+];
+
+// Stored trades may have no size; the form asks for one
+const FORM_RULES: TradeRule[] = [required('lot_size', 'Lot size is required'), ...TRADE_RULES];
+
+export interface TradeFormContext {
+  // Set when editing a trade saved before sizes were required, which may
+  // then be saved without one
+  sizeOptional?: boolean;
+}
+
+// The first problem found with each field. Given the changed fields, only
+// the rules that read one of them are checked, so editing e.g. the notes of
+// an older trade is not held up by rules it predates.
+function checkRules(rules: TradeRule[], trade: TradeCandidate, changed?: string[]): TradeIssue[] {
+  const issues = new Map<TradeField, string>();
+
+  for (const rule of rules) {
+    const [field] = rule.fields;
+    if (issues.has(field)) continue;
+    if (changed && !rule.fields.some(name => changed.includes(name))) continue;
+
+    const message = rule.check(trade);
+    if (message) issues.set(field, message);
+  }
+  return [...issues].map(([field, message]) => ({ field, message }));
+}
+
+export function validateTrade(trade: Partial<TradeValues>, changed?: string[]): TradeIssue[] {
+  return checkRules(TRADE_RULES, trade, changed);
+}
+
+// Called by the repositories before a trade is inserted or updated
+export function assertValidTrade(trade: Partial<TradeValues>, changed?: string[]) {
+  const issues = validateTrade(trade, changed);
+  if (issues.length > 0) throw new TradeValidationError(issues);
+}
+
+// Empty number inputs read as NaN; they count as left blank
+export function withoutNaN(data: TradeFormData): Partial<TradeFormData> {
+  const values: Partial<TradeFormData> = { ...data };
+  for (const [field, value] of Object.entries(data)) {
+    if (Number.isNaN(value)) delete values[field as keyof TradeFormData];
+  }
+  return values;
+}
+
+// Passing the form rules means the required numbers were filled in
+const isComplete = (values: Partial<TradeFormData>): values is TradeFormData =>
+  isNumber(values.entry_price) && isNumber(values.stop_loss) && isNumber(values.take_profit);
+
+// The form's fields in the shape of the stored columns
+const formCandidate = (data: Partial<TradeFormData>): TradeCandidate => ({
+  pair: data.pair,
+  timeframe: data.timeframe,
+  type: data.type,
+  entry_price: data.entry_price,
+  stop_loss: data.stop_loss,
+  take_profit: data.take_profit,
+  entry_date: data.entry_date,
+  exit_price: data.exit_price ?? null,
+  lot_size: data.lot_size ?? null,
+  exit_date: data.exit_date || null,
+  bb_upper: data.bb_upper ?? null,
+  bb_middle: data.bb_middle ?? null,
+  bb_lower: data.bb_lower ?? null,
+  stochastic_k: data.stochastic_k ?? null,
+  stochastic_d: data.stochastic_d ?? null,
+  executions: data.executions ?? [],
+});
+
+const checkForm = (values: Partial<TradeFormData>, context: TradeFormContext = {}) =>
+  checkRules(context.sizeOptional ? TRADE_RULES : FORM_RULES, formCandidate(values));
+
+export function validateTradeForm(data: TradeFormData, context: TradeFormContext = {}): TradeIssue[] {
+  return checkForm(withoutNaN(data), context);
+}
+
+// Validates the journal form against the schema; blank number inputs are
+// submitted as undefined instead of NaN
+export const tradeFormResolver: Resolver<TradeFormData, TradeFormContext> = (data, context) => {
+  const values = withoutNaN(data);
+  const issues = checkForm(values, context);
+  if (issues.length === 0 && isComplete(values)) return { values, errors: {} };
+
+  const errors: FieldErrors<TradeFormData> = {};
+  for (const { field, message } of issues) {
+    errors[field] = { type: 'validate', message };
+  }
+  return { values: {}, errors };
+};
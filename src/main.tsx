@@ -1,6 +1,7 @@
 import { StrictMode } from 'react';
 import { createRoot } from 'react-dom/client';
 import App from './App.tsx';
+import { registerServiceWorker } from './lib/serviceWorker';
 import './index.css';
 
 createRoot(document.getElementById('root')!).render(
@@ -8,3 +9,7 @@ createRoot(document.getElementById('root')!).render(
     <App />
   </StrictMode>
 );
+
+// The worker only exists in production builds; in development it would
+// serve stale modules
+if (import.meta.env.PROD) registerServiceWorker();
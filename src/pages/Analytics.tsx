@@ -1,11 +1,56 @@
-import React, { useState, useEffect } from 'react';
-import { Line, Bar, Pie, Doughnut } from 'react-chartjs-2';
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { FileText } from 'lucide-react';
+import { Bar, Doughnut } from 'react-chartjs-2';
 import { Chart as ChartJS, ArcElement, CategoryScale, LinearScale, PointElement, LineElement, BarElement, Title, Tooltip, Legend } from 'chart.js';
 import PageTitle from '../components/ui/PageTitle';
 import Card from '../components/ui/Card';
-import { Trade, CurrencyPair, Timeframe } from '../types/trade';
-import { useSupabase } from '../contexts/SupabaseContext';
-import { format, parseISO } from 'date-fns';
+import ErrorBanner from '../components/ui/ErrorBanner';
+import BalanceTimelineChart from '../components/analytics/BalanceTimelineChart';
+import TagPerformanceTable from '../components/analytics/TagPerformanceTable';
+import TimingPerformanceChart from '../components/analytics/TimingPerformanceChart';
+import ConditionPerformanceTable from '../components/analytics/ConditionPerformanceTable';
+import SentimentMatrix from '../components/analytics/SentimentMatrix';
+import RulePerformanceTable from '../components/analytics/RulePerformanceTable';
+import ExportButtons from '../components/trades/ExportButtons';
+import { useTrades } from '../hooks/useTrades';
+import { useSelectedAccount } from '../contexts/AccountContext';
+import { useTags } from '../hooks/useTags';
+import { useLedger } from '../hooks/useLedger';
+import { tradeNetProfitLoss, tradeProfitLoss } from '../lib/pnl';
+import { exceedsSuggestedSize } from '../lib/positionSize';
+import {
+  calculateAdvancedMetrics,
+  performanceBy,
+  performanceByTag,
+  summarizePerformance,
+} from '../lib/metrics';
+import { exportTrades } from '../lib/tradeExport';
+import { balanceTimeline, ledgerTotals, timeWeightedReturn } from '../lib/ledger';
+import { timingPerformance } from '../lib/sessions';
+import {
+  IndicatorCondition,
+  conditionCombinations,
+  conditionPerformance,
+  conditionsByTrade,
+  performanceByCondition,
+} from '../lib/indicators';
+import {
+  SENTIMENT_ALIGNMENT_LABELS,
+  isAgainstSentiment,
+  performanceByAlignment,
+  sentimentAccuracy,
+  sentimentMatrix,
+} from '../lib/sentiment';
+import {
+  PLAN_COMPLIANCE_LABELS,
+  complianceRate,
+  performanceByCompliance,
+  performanceByRule,
+  planCompliance,
+} from '../lib/plan';
+import { CurrencyPair, TradeType } from '../types/trade';
+import { formatMoney } from '../lib/money';
 
 // Register ChartJS components
 ChartJS.register(
@@ -20,133 +65,142 @@ ChartJS.register(
   Legend
 );
 
+const formatRatio = (value: number | null) =>
+  value === null ? '—' : value === Infinity ? '∞' : value.toFixed(2);
+
+type TimeRange = 'all' | '1m' | '3m' | '6m' | '1y';
+
+const TIME_RANGES: { value: TimeRange; label: string }[] = [
+  { value: 'all', label: 'All Time' },
+  { value: '1m', label: '1 Month' },
+  { value: '3m', label: '3 Months' },
+  { value: '6m', label: '6 Months' },
+  { value: '1y', label: '1 Year' },
+];
+
 const Analytics: React.FC = () => {
-  const [trades, setTrades] = useState<Trade[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [timeRange, setTimeRange] = useState<'all' | '1m' | '3m' | '6m' | '1y'>('all');
-  const { supabase } = useSupabase();
-
-  useEffect(() => {
-    const fetchTrades = async () => {
-      try {
-        // In a real app, filter by user_id
-        const { data, error } = await supabase.from('trades').select('*');
-        
-        if (error) throw error;
-        
-        setTrades(data || []);
-      } catch (error) {
-        console.error('Error fetching trades:', error);
-        // In a real app, show error toast
-      } finally {
-        setLoading(false);
-      }
-    };
-
-    // Uncomment to fetch real data
-    // fetchTrades();
-    
-    // For development, use mock data
-    setTimeout(() => {
-      setTrades(mockTrades);
-      setLoading(false);
-    }, 500);
-  }, []);
-
-  // Filter trades by time range
-  const filteredTrades = React.useMemo(() => {
-    if (timeRange === 'all') return trades;
+  const { trades: allTrades, loading, error, reload } = useTrades();
+  const { account, filterByAccount, startingBalance, currency, pnlOptions, tradePnlOptions } = useSelectedAccount();
+  const { tags } = useTags();
+  const { entries: allEntries } = useLedger();
+  const [timeRange, setTimeRange] = useState<TimeRange>('all');
+  const [timingPair, setTimingPair] = useState<CurrencyPair | ''>('');
+  const [indicatorSide, setIndicatorSide] = useState<TradeType | ''>('');
+  const [confluence, setConfluence] = useState<IndicatorCondition[]>([]);
+
+  const trades = React.useMemo(() => filterByAccount(allTrades), [allTrades, filterByAccount]);
+  const entries = React.useMemo(() => filterByAccount(allEntries), [allEntries, filterByAccount]);
+
+  // Start of the selected time range, null for all time
+  const cutoffDate = React.useMemo(() => {
+    if (timeRange === 'all') return null;
     
     const now = new Date();
-    let cutoffDate = new Date();
+    const cutoff = new Date();
     
     switch (timeRange) {
       case '1m':
-        cutoffDate.setMonth(now.getMonth() - 1);
+        cutoff.setMonth(now.getMonth() - 1);
         break;
       case '3m':
-        cutoffDate.setMonth(now.getMonth() - 3);
+        cutoff.setMonth(now.getMonth() - 3);
         break;
       case '6m':
-        cutoffDate.setMonth(now.getMonth() - 6);
+        cutoff.setMonth(now.getMonth() - 6);
         break;
       case '1y':
-        cutoffDate.setFullYear(now.getFullYear() - 1);
+        cutoff.setFullYear(now.getFullYear() - 1);
         break;
     }
     
-    return trades.filter(trade => new Date(trade.entry_date) >= cutoffDate);
-  }, [trades, timeRange]);
+    return cutoff;
+  }, [timeRange]);
+
+  // Filter trades and ledger entries by time range
+  const filteredTrades = React.useMemo(
+    () => (cutoffDate ? trades.filter(trade => new Date(trade.entry_date) >= cutoffDate) : trades),
+    [trades, cutoffDate]
+  );
+  const filteredEntries = React.useMemo(
+    () => (cutoffDate ? entries.filter(entry => new Date(entry.occurred_at) >= cutoffDate) : entries),
+    [entries, cutoffDate]
+  );
 
   // Calculate summary metrics
-  const totalProfitLoss = filteredTrades.reduce((sum, trade) => sum + (trade.profit_loss || 0), 0);
-  const winningTrades = filteredTrades.filter(trade => (trade.profit_loss || 0) > 0);
-  const losingTrades = filteredTrades.filter(trade => (trade.profit_loss || 0) < 0);
-  const winRate = filteredTrades.length > 0 ? (winningTrades.length / filteredTrades.length) * 100 : 0;
-  const avgRiskReward = filteredTrades.length > 0 
-    ? filteredTrades.reduce((sum, trade) => sum + trade.risk_reward_ratio, 0) / filteredTrades.length 
-    : 0;
-  
-  // Group trades by currency pair
-  const tradesByPair = filteredTrades.reduce<Record<string, Trade[]>>((acc, trade) => {
-    if (!acc[trade.pair]) {
-      acc[trade.pair] = [];
-    }
-    acc[trade.pair].push(trade);
-    return acc;
-  }, {});
-  
-  // Calculate profit/loss by pair
-  const pnlByPair = Object.entries(tradesByPair).map(([pair, trades]) => ({
-    pair,
-    pnl: trades.reduce((sum, trade) => sum + (trade.profit_loss || 0), 0),
-    count: trades.length
-  }));
-  
-  // Group trades by timeframe
-  const tradesByTimeframe = filteredTrades.reduce<Record<string, Trade[]>>((acc, trade) => {
-    if (!acc[trade.timeframe]) {
-      acc[trade.timeframe] = [];
-    }
-    acc[trade.timeframe].push(trade);
-    return acc;
-  }, {});
-  
-  // Calculate profit/loss by timeframe
-  const pnlByTimeframe = Object.entries(tradesByTimeframe).map(([timeframe, trades]) => ({
-    timeframe,
-    pnl: trades.reduce((sum, trade) => sum + (trade.profit_loss || 0), 0),
-    count: trades.length,
-    winRate: trades.filter(t => (t.profit_loss || 0) > 0).length / trades.length * 100
-  }));
+  const summary = summarizePerformance(filteredTrades, pnlOptions);
+  const { totalPnl: totalProfitLoss, winRate, avgRiskReward } = summary;
+
+  // Equity at the start of the range includes everything booked before it
+  const openingBalance = trades
+    .filter(trade => !filteredTrades.includes(trade))
+    .reduce((sum, trade) => sum + tradeNetProfitLoss(trade, pnlOptions), startingBalance)
+    + entries
+      .filter(entry => !filteredEntries.includes(entry))
+      .reduce((sum, entry) => sum + entry.amount, 0);
+  const advanced = calculateAdvancedMetrics(filteredTrades, { ...pnlOptions, startingBalance: openingBalance });
+
+  // Balance with deposits, withdrawals and costs; returns are time-weighted so
+  // new deposits are not counted as profit
+  const timeline = balanceTimeline(filteredTrades, filteredEntries, openingBalance, pnlOptions);
+  const twr = timeWeightedReturn(filteredTrades, filteredEntries, openingBalance, pnlOptions);
+  const totals = ledgerTotals(filteredTrades, filteredEntries);
+  const lastPoint = timeline[timeline.length - 1];
   
-  // Sort trades chronologically
-  const sortedTrades = [...filteredTrades].sort((a, b) => 
-    new Date(a.entry_date).getTime() - new Date(b.entry_date).getTime()
+  // Risk discipline: how closely actual sizes followed the position sizer
+  const sizedTrades = filteredTrades.filter(trade => trade.lot_size && trade.suggested_lot_size);
+  const oversizedTrades = sizedTrades.filter(exceedsSuggestedSize);
+  const disciplineRate = sizedTrades.length > 0
+    ? ((sizedTrades.length - oversizedTrades.length) / sizedTrades.length) * 100
+    : 0;
+  const avgSizeRatio = sizedTrades.length > 0
+    ? sizedTrades.reduce((sum, trade) => sum + trade.lot_size! / trade.suggested_lot_size!, 0) / sizedTrades.length
+    : 0;
+  const oversizedPnl = oversizedTrades.reduce((sum, trade) => sum + tradeProfitLoss(trade, pnlOptions), 0);
+
+  // Profit/loss by pair and by timeframe
+  const pnlByPair = performanceBy(filteredTrades, trade => trade.pair, pnlOptions);
+  const pnlByTimeframe = performanceBy(filteredTrades, trade => trade.timeframe, pnlOptions);
+  const pnlByTag = performanceByTag(filteredTrades, tags, pnlOptions);
+
+  // Entry hour, weekday and session, optionally for a single pair
+  const timing = timingPerformance(
+    timingPair ? filteredTrades.filter(trade => trade.pair === timingPair) : filteredTrades,
+    pnlOptions
   );
+
+  // Indicator conditions at entry; buys and sells can be looked at apart
+  // because the same reading confirms one and contradicts the other
+  const indicatorTrades = indicatorSide
+    ? filteredTrades.filter(trade => trade.type === indicatorSide)
+    : filteredTrades;
+  const pnlByCondition = performanceByCondition(indicatorTrades, pnlOptions);
+  const combinations = conditionCombinations(indicatorTrades, undefined, pnlOptions);
+  const confluenceResult = confluence.length > 0
+    ? conditionPerformance(conditionsByTrade(indicatorTrades), confluence, pnlOptions)
+    : null;
+
+  // Whether the recorded market sentiment was right, and what trading
+  // against it cost
+  const sentimentCells = sentimentMatrix(filteredTrades, pnlOptions);
+  const pnlByAlignment = performanceByAlignment(filteredTrades, pnlOptions);
+  const accuracy = sentimentAccuracy(filteredTrades, pnlOptions);
+  const counterSentimentTrades = filteredTrades.filter(isAgainstSentiment);
+
+  // Trades that followed the whole trading plan against those that broke it
+  const checkedTrades = filteredTrades.filter(trade => planCompliance(trade) !== null);
+  const ruleCompliance = complianceRate(filteredTrades);
+  const pnlByCompliance = performanceByCompliance(filteredTrades, pnlOptions);
+  const pnlByRule = performanceByRule(filteredTrades, pnlOptions);
+
+  const toggleConfluence = (condition: IndicatorCondition) =>
+    setConfluence(prev =>
+      prev.includes(condition) ? prev.filter(item => item !== condition) : [...prev, condition]
+    );
   
-  // Prepare P/L over time chart data
-  const cumulativePnlData = {
-    labels: sortedTrades.map(trade => format(parseISO(trade.entry_date), 'MMM dd')),
-    datasets: [
-      {
-        label: 'Cumulative P/L',
-        data: sortedTrades.reduce<number[]>((acc, trade, index) => {
-          const previousValue = index > 0 ? acc[index - 1] : 0;
-          acc.push(previousValue + (trade.profit_loss || 0));
-          return acc;
-        }, []),
-        borderColor: 'rgb(var(--color-primary))',
-        backgroundColor: 'rgba(var(--color-primary) / 0.1)',
-        tension: 0.3,
-        fill: true,
-      },
-    ],
-  };
   
   // Prepare pair performance chart data
   const pairPnlData = {
-    labels: pnlByPair.map(item => item.pair),
+    labels: pnlByPair.map(item => item.key),
     datasets: [
       {
         label: 'Profit/Loss',
@@ -168,7 +222,7 @@ const Analytics: React.FC = () => {
   
   // Prepare timeframe performance chart data
   const timeframePnlData = {
-    labels: pnlByTimeframe.map(item => item.timeframe),
+    labels: pnlByTimeframe.map(item => item.key),
     datasets: [
       {
         label: 'Win Rate (%)',
@@ -185,7 +239,7 @@ const Analytics: React.FC = () => {
     labels: ['Winning Trades', 'Losing Trades'],
     datasets: [
       {
-        data: [winningTrades.length, losingTrades.length],
+        data: [summary.wins, summary.losses],
         backgroundColor: [
           'rgba(var(--color-success) / 0.7)',
           'rgba(var(--color-error) / 0.7)',
@@ -253,19 +307,25 @@ const Analytics: React.FC = () => {
     <>
       <PageTitle 
         title="Analytics" 
-        description="Visualize and analyze your trading performance"
+        description={account ? `Performance of ${account.name}` : 'Visualize and analyze your trading performance'}
       />
+
+      {error && <ErrorBanner message={error} onRetry={reload} />}
       
       {/* Time Range Selector */}
-      <div className="flex flex-wrap justify-end mb-6">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-6">
+        <div className="flex flex-wrap gap-2">
+          <ExportButtons
+            onExport={format => exportTrades(filteredTrades, format)}
+            disabled={filteredTrades.length === 0}
+          />
+          <Link to="/report" className="btn btn-outline px-3 py-1.5 gap-2 text-sm">
+            <FileText className="h-4 w-4" />
+            Report
+          </Link>
+        </div>
         <div className="bg-foreground rounded-md flex p-1 shadow-sm">
-          {[
-            { value: 'all', label: 'All Time' },
-            { value: '1m', label: '1 Month' },
-            { value: '3m', label: '3 Months' },
-            { value: '6m', label: '6 Months' },
-            { value: '1y', label: '1 Year' },
-          ].map(range => (
+          {TIME_RANGES.map(range => (
             <button
               key={range.value}
               className={`px-3 py-1 text-sm rounded-md transition-colors ${
@@ -273,7 +333,7 @@ const Analytics: React.FC = () => {
                   ? 'bg-primary text-white'
                   : 'text-text hover:bg-background'
               }`}
-              onClick={() => setTimeRange(range.value as any)}
+              onClick={() => setTimeRange(range.value)}
             >
               {range.label}
             </button>
@@ -287,7 +347,7 @@ const Analytics: React.FC = () => {
           <div>
             <h4 className="text-sm text-text-muted mb-1">Total Profit/Loss</h4>
             <p className={`text-2xl font-bold ${totalProfitLoss >= 0 ? 'text-success' : 'text-error'}`}>
-              ${totalProfitLoss.toFixed(2)}
+              {formatMoney(totalProfitLoss, currency)}
             </p>
           </div>
         </Card>
@@ -314,10 +374,174 @@ const Analytics: React.FC = () => {
         </Card>
       </div>
       
-      {/* Profit/Loss Chart */}
-      <Card title="Profit/Loss Over Time" className="mb-6">
+      {/* Advanced Metrics */}
+      <div className="grid gap-4 grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 mb-6">
+        <Card>
+          <div>
+            <h4 className="text-sm text-text-muted mb-1">Expectancy</h4>
+            <p className={`text-2xl font-bold ${advanced.expectancy >= 0 ? 'text-success' : 'text-error'}`}>
+              {formatMoney(advanced.expectancy, currency)}
+            </p>
+            <p className="text-xs text-text-muted mt-1">per closed trade</p>
+          </div>
+        </Card>
+
+        <Card>
+          <div>
+            <h4 className="text-sm text-text-muted mb-1">Profit Factor</h4>
+            <p className="text-2xl font-bold">{formatRatio(advanced.profitFactor)}</p>
+            <p className="text-xs text-text-muted mt-1">
+              Recovery factor {formatRatio(advanced.recoveryFactor)}
+            </p>
+          </div>
+        </Card>
+
+        <Card>
+          <div>
+            <h4 className="text-sm text-text-muted mb-1">Avg Win / Avg Loss</h4>
+            <p className="text-2xl font-bold">
+              <span className="text-success">{formatMoney(advanced.avgWin, currency)}</span>
+              <span className="text-text-muted"> / </span>
+              <span className="text-error">{formatMoney(advanced.avgLoss, currency)}</span>
+            </p>
+            <p className="text-xs text-text-muted mt-1">
+              Largest {formatMoney(advanced.largestWin, currency)} / {formatMoney(advanced.largestLoss, currency)}
+            </p>
+          </div>
+        </Card>
+
+        <Card>
+          <div>
+            <h4 className="text-sm text-text-muted mb-1">Max Drawdown</h4>
+            <p className="text-2xl font-bold text-error">{formatMoney(-advanced.maxDrawdown, currency)}</p>
+            <p className="text-xs text-text-muted mt-1">
+              {advanced.maxDrawdownPercent.toFixed(2)}% from peak equity
+            </p>
+          </div>
+        </Card>
+
+        <Card>
+          <div>
+            <h4 className="text-sm text-text-muted mb-1">Sharpe Ratio</h4>
+            <p className="text-2xl font-bold">{formatRatio(advanced.sharpeRatio)}</p>
+            <p className="text-xs text-text-muted mt-1">annualised, daily returns</p>
+          </div>
+        </Card>
+
+        <Card>
+          <div>
+            <h4 className="text-sm text-text-muted mb-1">Sortino Ratio</h4>
+            <p className="text-2xl font-bold">{formatRatio(advanced.sortinoRatio)}</p>
+            <p className="text-xs text-text-muted mt-1">downside volatility only</p>
+          </div>
+        </Card>
+
+        <Card>
+          <div>
+            <h4 className="text-sm text-text-muted mb-1">Longest Win Streak</h4>
+            <p className="text-2xl font-bold text-success">{advanced.longestWinStreak}</p>
+          </div>
+        </Card>
+
+        <Card>
+          <div>
+            <h4 className="text-sm text-text-muted mb-1">Longest Loss Streak</h4>
+            <p className="text-2xl font-bold text-error">{advanced.longestLossStreak}</p>
+          </div>
+        </Card>
+      </div>
+
+      {/* Risk Discipline */}
+      <Card title="Risk Discipline" description="Actual position sizes compared with the suggested size" className="mb-6">
+        {sizedTrades.length > 0 ? (
+          <div className="grid gap-4 grid-cols-2 lg:grid-cols-4">
+            <div>
+              <h4 className="text-sm text-text-muted mb-1">Within Risk Limit</h4>
+              <p className={`text-2xl font-bold ${disciplineRate >= 90 ? 'text-success' : 'text-warning'}`}>
+                {disciplineRate.toFixed(1)}%
+              </p>
+            </div>
+            <div>
+              <h4 className="text-sm text-text-muted mb-1">Oversized Trades</h4>
+              <p className="text-2xl font-bold">
+                {oversizedTrades.length}
+                <span className="text-sm font-normal text-text-muted"> of {sizedTrades.length}</span>
+              </p>
+            </div>
+            <div>
+              <h4 className="text-sm text-text-muted mb-1">Avg Size vs Suggested</h4>
+              <p className="text-2xl font-bold">{avgSizeRatio.toFixed(2)}x</p>
+            </div>
+            <div>
+              <h4 className="text-sm text-text-muted mb-1">P/L on Oversized Trades</h4>
+              <p className={`text-2xl font-bold ${oversizedPnl >= 0 ? 'text-success' : 'text-error'}`}>
+                {formatMoney(oversizedPnl, currency)}
+              </p>
+            </div>
+          </div>
+        ) : (
+          <p className="text-sm text-text-muted">
+            No trades with a suggested position size in this period yet.
+          </p>
+        )}
+      </Card>
+
+      {/* Plan Compliance */}
+      <Card title="Plan Compliance" description="Trades that followed every checklist rule compared with trades that broke one" className="mb-6">
+        {checkedTrades.length > 0 && (
+          <div className="grid gap-4 grid-cols-2 lg:grid-cols-4 mb-4">
+            <div>
+              <h4 className="text-sm text-text-muted mb-1">Rules Met</h4>
+              <p className={`text-2xl font-bold ${ruleCompliance !== null && ruleCompliance >= 90 ? 'text-success' : 'text-warning'}`}>
+                {ruleCompliance !== null ? `${ruleCompliance.toFixed(1)}%` : '—'}
+              </p>
+              <p className="text-xs text-text-muted mt-1">
+                {checkedTrades.length} of {filteredTrades.length} trades checked against the plan
+              </p>
+            </div>
+            {pnlByCompliance.map(row => (
+              <div key={row.compliance}>
+                <h4 className="text-sm text-text-muted mb-1">{PLAN_COMPLIANCE_LABELS[row.compliance]}</h4>
+                <p className={`text-2xl font-bold ${row.pnl >= 0 ? 'text-success' : 'text-error'}`}>{formatMoney(row.pnl, currency)}</p>
+                <p className="text-xs text-text-muted mt-1">
+                  {row.count} trades · {row.winRate.toFixed(1)}% win rate · {formatMoney(row.expectancy, currency)} per trade
+                </p>
+              </div>
+            ))}
+          </div>
+        )}
+        <RulePerformanceTable rows={pnlByRule} />
+      </Card>
+
+      {/* Account Balance */}
+      <Card title="Account Balance" description="Balance with deposits, withdrawals and costs; gross vs net trading P/L" className="mb-6">
+        <div className="grid gap-4 grid-cols-2 lg:grid-cols-4 mb-4">
+          <div>
+            <h4 className="text-sm text-text-muted mb-1">Time-Weighted Return</h4>
+            <p className={`text-2xl font-bold ${twr !== null && twr < 0 ? 'text-error' : 'text-success'}`}>
+              {twr !== null ? `${(twr * 100).toFixed(2)}%` : '—'}
+            </p>
+          </div>
+          <div>
+            <h4 className="text-sm text-text-muted mb-1">Net P/L</h4>
+            <p className={`text-2xl font-bold ${(lastPoint?.netPnl ?? 0) >= 0 ? 'text-success' : 'text-error'}`}>
+              {formatMoney(lastPoint?.netPnl ?? 0, currency)}
+            </p>
+            <p className="text-xs text-text-muted mt-1">Gross {formatMoney(lastPoint?.grossPnl ?? 0, currency)}</p>
+          </div>
+          <div>
+            <h4 className="text-sm text-text-muted mb-1">Costs</h4>
+            <p className="text-2xl font-bold text-error">{formatMoney(totals.costs, currency)}</p>
+            <p className="text-xs text-text-muted mt-1">commission, swap and fees</p>
+          </div>
+          <div>
+            <h4 className="text-sm text-text-muted mb-1">Net Deposits</h4>
+            <p className="text-2xl font-bold">{formatMoney(totals.deposits + totals.withdrawals, currency)}</p>
+            <p className="text-xs text-text-muted mt-1">Balance {formatMoney(lastPoint?.balance ?? openingBalance, currency)}</p>
+          </div>
+        </div>
         <div className="h-72">
-          <Line data={cumulativePnlData} options={chartOptions} />
+          <BalanceTimelineChart points={timeline} />
         </div>
       </Card>
       
@@ -350,220 +574,189 @@ const Analytics: React.FC = () => {
           </div>
         </Card>
       </div>
+
+      {/* Performance by Entry Time */}
+      <Card title="Entry Timing" description="P/L and win rate by the hour, weekday and session trades were entered" className="mb-6">
+        <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+          <select
+            className="input w-auto"
+            value={timingPair}
+            onChange={e => setTimingPair(e.target.value as CurrencyPair | '')}
+            aria-label="Pair"
+          >
+            <option value="">All pairs</option>
+            {pnlByPair.map(item => (
+              <option key={item.key} value={item.key}>{item.key}</option>
+            ))}
+          </select>
+          {timing.untimed > 0 && (
+            <p className="text-xs text-text-muted">
+              {timing.untimed} {timing.untimed === 1 ? 'trade was' : 'trades were'} recorded without an entry time and {timing.untimed === 1 ? 'is' : 'are'} left out
+            </p>
+          )}
+        </div>
+        <div className="space-y-6">
+          <div>
+            <h4 className="text-sm font-medium mb-2">By Session</h4>
+            <div className="h-64">
+              <TimingPerformanceChart rows={timing.bySession} />
+            </div>
+          </div>
+          <div className="grid gap-6 grid-cols-1 lg:grid-cols-2">
+            <div>
+              <h4 className="text-sm font-medium mb-2">
+                By Hour of Day <span className="font-normal text-text-muted">· in the zone each trade was recorded in</span>
+              </h4>
+              <div className="h-64">
+                <TimingPerformanceChart rows={timing.byHour} />
+              </div>
+            </div>
+            <div>
+              <h4 className="text-sm font-medium mb-2">By Weekday</h4>
+              <div className="h-64">
+                <TimingPerformanceChart rows={timing.byWeekday} />
+              </div>
+            </div>
+          </div>
+        </div>
+      </Card>
+
+      {/* Performance by Indicator Condition */}
+      <Card
+        title="Indicator Conditions"
+        description="Win rate and expectancy by the Bollinger, MACD and Stochastic readings at entry"
+        className="mb-6"
+      >
+        <div className="flex flex-wrap items-center gap-3 mb-4">
+          <select
+            className="input w-auto"
+            value={indicatorSide}
+            onChange={e => setIndicatorSide(e.target.value as TradeType | '')}
+            aria-label="Direction"
+          >
+            <option value="">Buys and sells</option>
+            <option value="Buy">Buys only</option>
+            <option value="Sell">Sells only</option>
+          </select>
+          <p className="text-xs text-text-muted">
+            Tick conditions to test them together as a confluence rule.
+          </p>
+        </div>
+
+        {confluenceResult && (
+          <div className="rounded-md border border-border bg-background/50 p-4 mb-4">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <h4 className="text-sm font-medium">All {confluence.length} selected conditions</h4>
+              <button type="button" className="text-sm text-primary" onClick={() => setConfluence([])}>
+                Clear
+              </button>
+            </div>
+            <div className="grid gap-4 grid-cols-2 lg:grid-cols-4 mt-3">
+              <div>
+                <p className="text-xs text-text-muted">Trades</p>
+                <p className="text-lg font-bold">{confluenceResult.count}</p>
+              </div>
+              <div>
+                <p className="text-xs text-text-muted">Win Rate</p>
+                <p className="text-lg font-bold">{confluenceResult.winRate.toFixed(1)}%</p>
+              </div>
+              <div>
+                <p className="text-xs text-text-muted">Expectancy</p>
+                <p className={`text-lg font-bold ${confluenceResult.expectancy >= 0 ? 'text-success' : 'text-error'}`}>
+                  {formatMoney(confluenceResult.expectancy, currency)}
+                </p>
+              </div>
+              <div>
+                <p className="text-xs text-text-muted">P/L</p>
+                <p className={`text-lg font-bold ${confluenceResult.pnl >= 0 ? 'text-success' : 'text-error'}`}>
+                  {formatMoney(confluenceResult.pnl, currency)}
+                </p>
+              </div>
+            </div>
+          </div>
+        )}
+
+        <div className="grid gap-6 grid-cols-1 xl:grid-cols-2">
+          <div>
+            <h4 className="text-sm font-medium mb-2">Single Conditions</h4>
+            <ConditionPerformanceTable
+              rows={pnlByCondition}
+              selected={confluence}
+              onToggle={toggleConfluence}
+              emptyMessage="Record indicator values in the journal to see how each condition performs."
+            />
+          </div>
+          <div>
+            <h4 className="text-sm font-medium mb-2">
+              Two-Condition Combinations <span className="font-normal text-text-muted">· at least 3 trades</span>
+            </h4>
+            <div className="max-h-[32rem] overflow-y-auto">
+              <ConditionPerformanceTable
+                rows={combinations}
+                emptyMessage="Not enough trades share two conditions yet."
+              />
+            </div>
+          </div>
+        </div>
+      </Card>
+
+      {/* Market Sentiment */}
+      <Card
+        title="Market Sentiment"
+        description="Whether the sentiment recorded at entry agreed with the direction and outcome of the trade"
+        className="mb-6"
+      >
+        <div className="grid gap-4 grid-cols-2 lg:grid-cols-4 mb-4">
+          <div>
+            <h4 className="text-sm text-text-muted mb-1">Sentiment Accuracy</h4>
+            <p className="text-2xl font-bold">{accuracy.judged > 0 ? `${accuracy.accuracy.toFixed(1)}%` : '—'}</p>
+            <p className="text-xs text-text-muted mt-1">
+              {accuracy.correct} of {accuracy.judged} bullish or bearish reads were right
+            </p>
+          </div>
+          {pnlByAlignment.map(row => (
+            <div key={row.alignment}>
+              <h4 className="text-sm text-text-muted mb-1">{SENTIMENT_ALIGNMENT_LABELS[row.alignment]}</h4>
+              <p className={`text-2xl font-bold ${row.pnl >= 0 ? 'text-success' : 'text-error'}`}>{formatMoney(row.pnl, currency)}</p>
+              <p className="text-xs text-text-muted mt-1">
+                {row.count} trades · {row.winRate.toFixed(1)}% win rate · {formatMoney(row.expectancy, currency)} per trade
+              </p>
+            </div>
+          ))}
+        </div>
+
+        <SentimentMatrix cells={sentimentCells} />
+
+        {counterSentimentTrades.length > 0 && (
+          <div className="mt-4">
+            <h4 className="text-sm font-medium mb-2">Trades Against Your Sentiment</h4>
+            <div className="flex flex-wrap gap-2">
+              {counterSentimentTrades.map(trade => {
+                const pnl = tradeProfitLoss(trade, tradePnlOptions(trade));
+                return (
+                  <Link
+                    key={trade.id}
+                    to={`/trades/${trade.id}`}
+                    className="rounded-md border border-warning/50 bg-warning/10 px-2 py-1 text-xs hover:border-warning"
+                  >
+                    {trade.type} {trade.pair} · {trade.market_sentiment}
+                    {trade.exit_price !== null && (
+                      <span className={pnl >= 0 ? 'text-success' : 'text-error'}> · {formatMoney(pnl, currency)}</span>
+                    )}
+                  </Link>
+                );
+              })}
+            </div>
+          </div>
+        )}
+      </Card>
+
+      {/* Performance by Tag */}
+      <Card title="Performance by Tag" description="Which setups, mistakes and emotions move your P/L" className="mb-6">
+        <TagPerformanceTable rows={pnlByTag} />
+      </Card>
     </>
   );
 };
 
-// Mock data (same as in other components)
-const mockTrades = [
-  {
-    id: '1',
-    pair: 'XAU/USD',
-    timeframe: 'H4',
-    type: 'Buy',
-    entry_price: 1950.50,
-    exit_price: 1980.25,
-    stop_loss: 1940.00,
-    take_profit: 1990.00,
-    entry_date: '2023-05-10T10:30:00Z',
-    exit_date: '2023-05-12T14:15:00Z',
-    profit_loss: 297.50,
-    risk_reward_ratio: 2.85,
-    bb_upper: 1960.25,
-    bb_middle: 1948.50,
-    bb_lower: 1936.75,
-    macd_line: 5.23,
-    macd_signal: 2.56,
-    macd_histogram: 2.67,
-    stochastic_k: 75.34,
-    stochastic_d: 68.21,
-    market_sentiment: 'Moderate Bullish',
-    notes: 'Price broke above key resistance with strong momentum.',
-    screenshot_url: null,
-    created_at: '2023-05-10T10:35:00Z'
-  },
-  {
-    id: '2',
-    pair: 'EUR/USD',
-    timeframe: 'H1',
-    type: 'Sell',
-    entry_price: 1.0850,
-    exit_price: 1.0820,
-    stop_loss: 1.0870,
-    take_profit: 1.0800,
-    entry_date: '2023-05-15T09:45:00Z',
-    exit_date: '2023-05-15T15:30:00Z',
-    profit_loss: 30.00,
-    risk_reward_ratio: 1.5,
-    bb_upper: 1.0860,
-    bb_middle: 1.0840,
-    bb_lower: 1.0820,
-    macd_line: -2.12,
-    macd_signal: -1.56,
-    macd_histogram: -0.56,
-    stochastic_k: 28.45,
-    stochastic_d: 32.67,
-    market_sentiment: 'Moderate Bearish',
-    notes: 'Bearish engulfing pattern at resistance zone.',
-    screenshot_url: null,
-    created_at: '2023-05-15T09:50:00Z'
-  },
-  {
-    id: '3',
-    pair: 'GBP/USD',
-    timeframe: 'D1',
-    type: 'Buy',
-    entry_price: 1.2650,
-    exit_price: 1.2580,
-    stop_loss: 1.2600,
-    take_profit: 1.2750,
-    entry_date: '2023-05-18T08:15:00Z',
-    exit_date: '2023-05-19T10:45:00Z',
-    profit_loss: -70.00,
-    risk_reward_ratio: 2.0,
-    bb_upper: 1.2700,
-    bb_middle: 1.2650,
-    bb_lower: 1.2600,
-    macd_line: 0.45,
-    macd_signal: 0.32,
-    macd_histogram: 0.13,
-    stochastic_k: 65.78,
-    stochastic_d: 58.23,
-    market_sentiment: 'Neutral',
-    notes: 'Failed breakout above resistance turned support.',
-    screenshot_url: null,
-    created_at: '2023-05-18T08:20:00Z'
-  },
-  {
-    id: '4',
-    pair: 'XAU/USD',
-    timeframe: 'H4',
-    type: 'Sell',
-    entry_price: 1975.25,
-    exit_price: 1950.50,
-    stop_loss: 1985.00,
-    take_profit: 1945.00,
-    entry_date: '2023-05-22T11:20:00Z',
-    exit_date: '2023-05-23T16:45:00Z',
-    profit_loss: 247.50,
-    risk_reward_ratio: 2.54,
-    bb_upper: 1980.50,
-    bb_middle: 1970.25,
-    bb_lower: 1960.00,
-    macd_line: -3.45,
-    macd_signal: -1.23,
-    macd_histogram: -2.22,
-    stochastic_k: 25.67,
-    stochastic_d: 32.45,
-    market_sentiment: 'Strong Bearish',
-    notes: 'Double top formation with bearish divergence on RSI.',
-    screenshot_url: null,
-    created_at: '2023-05-22T11:25:00Z'
-  },
-  {
-    id: '5',
-    pair: 'USD/JPY',
-    timeframe: 'H1',
-    type: 'Buy',
-    entry_price: 134.50,
-    exit_price: 135.25,
-    stop_loss: 134.00,
-    take_profit: 135.50,
-    entry_date: '2023-05-25T08:30:00Z',
-    exit_date: '2023-05-25T14:15:00Z',
-    profit_loss: 75.00,
-    risk_reward_ratio: 1.5,
-    bb_upper: 134.75,
-    bb_middle: 134.25,
-    bb_lower: 133.75,
-    macd_line: 0.15,
-    macd_signal: 0.05,
-    macd_histogram: 0.10,
-    stochastic_k: 78.34,
-    stochastic_d: 72.56,
-    market_sentiment: 'Moderate Bullish',
-    notes: 'Bounce from key support level with increasing volume.',
-    screenshot_url: null,
-    created_at: '2023-05-25T08:35:00Z'
-  },
-  {
-    id: '6',
-    pair: 'EUR/USD',
-    timeframe: 'M15',
-    type: 'Sell',
-    entry_price: 1.0880,
-    exit_price: 1.0865,
-    stop_loss: 1.0890,
-    take_profit: 1.0860,
-    entry_date: '2023-05-26T13:45:00Z',
-    exit_date: '2023-05-26T15:15:00Z',
-    profit_loss: 15.00,
-    risk_reward_ratio: 1.5,
-    bb_upper: 1.0885,
-    bb_middle: 1.0875,
-    bb_lower: 1.0865,
-    macd_line: -0.56,
-    macd_signal: -0.32,
-    macd_histogram: -0.24,
-    stochastic_k: 22.45,
-    stochastic_d: 28.78,
-    market_sentiment: 'Moderate Bearish',
-    notes: 'Price rejected from upper Bollinger Band with bearish momentum.',
-    screenshot_url: null,
-    created_at: '2023-05-26T13:50:00Z'
-  },
-  {
-    id: '7',
-    pair: 'XAU/USD',
-    timeframe: 'D1',
-    type: 'Buy',
-    entry_price: 1945.75,
-    exit_price: 1935.25,
-    stop_loss: 1935.00,
-    take_profit: 1965.00,
-    entry_date: '2023-05-28T09:30:00Z',
-    exit_date: '2023-05-30T16:45:00Z',
-    profit_loss: -105.00,
-    risk_reward_ratio: 1.9,
-    bb_upper: 1965.50,
-    bb_middle: 1950.25,
-    bb_lower: 1935.00,
-    macd_line: 1.23,
-    macd_signal: 0.45,
-    macd_histogram: 0.78,
-    stochastic_k: 62.34,
-    stochastic_d: 55.67,
-    market_sentiment: 'Neutral',
-    notes: 'Stopped out just before price reversed higher.',
-    screenshot_url: null,
-    created_at: '2023-05-28T09:35:00Z'
-  },
-  {
-    id: '8',
-    pair: 'GBP/USD',
-    timeframe: 'H4',
-    type: 'Sell',
-    entry_price: 1.2540,
-    exit_price: 1.2480,
-    stop_loss: 1.2575,
-    take_profit: 1.2470,
-    entry_date: '2023-06-01T11:30:00Z',
-    exit_date: '2023-06-02T14:15:00Z',
-    profit_loss: 60.00,
-    risk_reward_ratio: 1.7,
-    bb_upper: 1.2560,
-    bb_middle: 1.2520,
-    bb_lower: 1.2480,
-    macd_line: -1.34,
-    macd_signal: -0.78,
-    macd_histogram: -0.56,
-    stochastic_k: 28.56,
-    stochastic_d: 35.67,
-    market_sentiment: 'Moderate Bearish',
-    notes: 'Break of key support level with increasing volume.',
-    screenshot_url: null,
-    created_at: '2023-06-01T11:35:00Z'
-  }
-] as Trade[];
-
 export default Analytics;
\ No newline at end of file
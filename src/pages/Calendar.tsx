@@ -0,0 +1,234 @@
+import React, { useMemo, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { addMonths, format, isSameMonth, isToday, isValid, parse, setMonth, setYear } from 'date-fns';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import PageTitle from '../components/ui/PageTitle';
+import Card from '../components/ui/Card';
+import Modal from '../components/ui/Modal';
+import { useTrades } from '../hooks/useTrades';
+import { useSelectedAccount } from '../contexts/AccountContext';
+import { DayPerformance, dailyPerformance, dayKey, monthWeeks, sumDays } from '../lib/calendar';
+import { getTradePnl, tradeNetProfitLoss } from '../lib/pnl';
+import { formatMoney } from '../lib/money';
+
+const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+const MONTHS = Array.from({ length: 12 }, (_, month) => format(new Date(2000, month, 1), 'MMMM'));
+
+// Stronger colours for bigger days, relative to the best or worst day shown
+const PROFIT_SHADES = ['bg-success/10', 'bg-success/20', 'bg-success/30', 'bg-success/50'];
+const LOSS_SHADES = ['bg-error/10', 'bg-error/20', 'bg-error/30', 'bg-error/50'];
+
+const dayShade = (pnl: number, largest: number) => {
+  if (pnl === 0 || largest === 0) return 'bg-background';
+  const shades = pnl > 0 ? PROFIT_SHADES : LOSS_SHADES;
+  const level = Math.min(shades.length - 1, Math.floor((Math.abs(pnl) / largest) * shades.length));
+  return shades[level];
+};
+
+const parseMonthParam = (value: string | null) => {
+  const month = value ? parse(value, 'yyyy-MM', new Date()) : new Date();
+  return isValid(month) ? month : new Date();
+};
+
+const Calendar: React.FC = () => {
+  const { trades: allTrades, loading } = useTrades();
+  const { filterByAccount, currency, pnlOptions, tradePnlOptions } = useSelectedAccount();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [selectedDay, setSelectedDay] = useState<DayPerformance | null>(null);
+
+  const month = parseMonthParam(searchParams.get('month'));
+  const weeks = monthWeeks(month);
+
+  const days = useMemo(
+    () => dailyPerformance(filterByAccount(allTrades), pnlOptions),
+    [allTrades, filterByAccount, pnlOptions]
+  );
+
+  const monthDays = weeks.flat().filter(day => isSameMonth(day, month)).map(day => days.get(dayKey(day)));
+  const monthTotals = sumDays(monthDays);
+  const largest = Math.max(0, ...monthDays.map(day => Math.abs(day?.pnl ?? 0)));
+  const greenDays = monthDays.filter(day => day && day.pnl > 0).length;
+  const redDays = monthDays.filter(day => day && day.pnl < 0).length;
+
+  const years = useMemo(() => {
+    const current = new Date().getFullYear();
+    const first = allTrades.reduce((min, trade) => Math.min(min, new Date(trade.entry_date).getFullYear()), current);
+    return Array.from({ length: current - first + 1 }, (_, i) => current - i);
+  }, [allTrades]);
+
+  const goTo = (next: Date) => setSearchParams({ month: format(next, 'yyyy-MM') });
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-96">
+        <div className="text-text-muted">Loading calendar...</div>
+      </div>
+    );
+  }
+
+  const summary = [
+    { label: 'Net P/L', value: formatMoney(monthTotals.pnl, currency), tone: monthTotals.pnl >= 0 ? 'text-success' : 'text-error' },
+    { label: 'Trades', value: String(monthTotals.count) },
+    { label: 'Win Rate', value: `${monthTotals.winRate.toFixed(1)}%` },
+    { label: 'Green / Red Days', value: `${greenDays} / ${redDays}` },
+  ];
+
+  return (
+    <>
+      <PageTitle title="Calendar" description="Daily net P/L by the day trades were closed" />
+
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-6">
+        <div className="flex items-center gap-2">
+          <button
+            type="button"
+            className="btn btn-outline p-2"
+            onClick={() => goTo(addMonths(month, -1))}
+            aria-label="Previous month"
+          >
+            <ChevronLeft className="h-4 w-4" />
+          </button>
+          <select
+            className="input w-auto"
+            value={month.getMonth()}
+            onChange={e => goTo(setMonth(month, Number(e.target.value)))}
+            aria-label="Month"
+          >
+            {MONTHS.map((name, index) => (
+              <option key={name} value={index}>{name}</option>
+            ))}
+          </select>
+          <select
+            className="input w-auto"
+            value={month.getFullYear()}
+            onChange={e => goTo(setYear(month, Number(e.target.value)))}
+            aria-label="Year"
+          >
+            {(years.includes(month.getFullYear()) ? years : [month.getFullYear(), ...years]).map(year => (
+              <option key={year} value={year}>{year}</option>
+            ))}
+          </select>
+          <button
+            type="button"
+            className="btn btn-outline p-2"
+            onClick={() => goTo(addMonths(month, 1))}
+            aria-label="Next month"
+          >
+            <ChevronRight className="h-4 w-4" />
+          </button>
+        </div>
+        <button type="button" className="btn btn-outline px-3 py-1.5 text-sm" onClick={() => goTo(new Date())}>
+          Today
+        </button>
+      </div>
+
+      <div className="grid gap-4 grid-cols-2 lg:grid-cols-4 mb-6">
+        {summary.map(item => (
+          <Card key={item.label}>
+            <div>
+              <h4 className="text-sm text-text-muted mb-1">{item.label}</h4>
+              <p className={`text-2xl font-bold ${item.tone ?? ''}`}>{item.value}</p>
+            </div>
+          </Card>
+        ))}
+      </div>
+
+      <Card>
+        <div className="overflow-x-auto">
+          <div className="grid grid-cols-8 gap-1 min-w-[720px]">
+            {WEEKDAYS.map(weekday => (
+              <div key={weekday} className="px-2 py-1 text-xs font-medium text-text-muted">{weekday}</div>
+            ))}
+            <div className="px-2 py-1 text-xs font-medium text-text-muted">Week</div>
+
+            {weeks.map(week => {
+              const weekTotals = sumDays(week.map(day => days.get(dayKey(day))));
+
+              return (
+                <React.Fragment key={dayKey(week[0])}>
+                  {week.map(date => {
+                    const day = days.get(dayKey(date));
+                    const inMonth = isSameMonth(date, month);
+
+                    return (
+                      <button
+                        key={dayKey(date)}
+                        type="button"
+                        disabled={!day}
+                        onClick={() => day && setSelectedDay(day)}
+                        className={`h-24 rounded-md border p-2 text-left transition-colors ${
+                          isToday(date) ? 'border-primary' : 'border-border'
+                        } ${day ? `${dayShade(day.pnl, largest)} hover:border-primary` : 'cursor-default'} ${
+                          inMonth ? '' : 'opacity-40'
+                        }`}
+                      >
+                        <span className="block text-xs text-text-muted">{format(date, 'd')}</span>
+                        {day && (
+                          <>
+                            <span className={`block text-sm font-medium ${day.pnl >= 0 ? 'text-success' : 'text-error'}`}>
+                              {formatMoney(day.pnl, currency)}
+                            </span>
+                            <span className="block text-xs text-text-muted">
+                              {day.count} {day.count === 1 ? 'trade' : 'trades'} · {day.winRate.toFixed(0)}%
+                            </span>
+                          </>
+                        )}
+                      </button>
+                    );
+                  })}
+                  <div className="h-24 rounded-md border border-border bg-background/50 p-2">
+                    {weekTotals.count > 0 ? (
+                      <>
+                        <span className={`block text-sm font-medium ${weekTotals.pnl >= 0 ? 'text-success' : 'text-error'}`}>
+                          {formatMoney(weekTotals.pnl, currency)}
+                        </span>
+                        <span className="block text-xs text-text-muted">
+                          {weekTotals.count} trades · {weekTotals.winRate.toFixed(0)}%
+                        </span>
+                      </>
+                    ) : (
+                      <span className="text-xs text-text-muted">—</span>
+                    )}
+                  </div>
+                </React.Fragment>
+              );
+            })}
+          </div>
+        </div>
+      </Card>
+
+      <Modal
+        title={selectedDay ? format(new Date(`${selectedDay.date}T00:00`), 'EEEE dd MMM yyyy') : ''}
+        isOpen={selectedDay !== null}
+        onClose={() => setSelectedDay(null)}
+      >
+        {selectedDay && (
+          <div className="space-y-2">
+            {selectedDay.trades.map(trade => {
+              const pnl = getTradePnl(trade, tradePnlOptions(trade));
+              const net = tradeNetProfitLoss(trade, tradePnlOptions(trade));
+              return (
+                <Link
+                  key={trade.id}
+                  to={`/trades/${trade.id}`}
+                  className="flex items-center justify-between rounded-md border border-border px-3 py-2 hover:bg-background"
+                >
+                  <span className="text-sm">
+                    <span className="font-medium">{trade.type} {trade.pair}</span>
+                    <span className="text-text-muted"> · {trade.timeframe}</span>
+                  </span>
+                  <span className={`text-sm font-medium ${net >= 0 ? 'text-success' : 'text-error'}`}>
+                    {formatMoney(net, currency)}
+                    {pnl && pnl.rMultiple !== null && <span className="text-xs opacity-80"> · {pnl.rMultiple.toFixed(2)}R</span>}
+                  </span>
+                </Link>
+              );
+            })}
+          </div>
+        )}
+      </Modal>
+    </>
+  );
+};
+
+export default Calendar;
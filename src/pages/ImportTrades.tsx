@@ -0,0 +1,354 @@
+import React, { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { format, parseISO } from 'date-fns';
+import { AlertCircle, CheckCircle2, FileUp, Upload } from 'lucide-react';
+import PageTitle from '../components/ui/PageTitle';
+import Card from '../components/ui/Card';
+import { TIMEFRAMES, Timeframe, TradeValues } from '../types/trade';
+import { useSaveTrade, useTrades } from '../hooks/useTrades';
+import { useSelectedAccount } from '../contexts/AccountContext';
+import { errorMessage } from '../contexts/DataContext';
+import { parseCsv } from '../lib/csv';
+import { formDataToRecord } from '../lib/tradeForm';
+import {
+  BROKER_PRESETS,
+  BrokerPresetId,
+  ColumnMapping,
+  IMPORT_FIELDS,
+  ImportField,
+  ImportRowStatus,
+  buildImportRows,
+  detectBrokerPreset,
+  getBrokerPreset,
+  guessColumnMapping,
+} from '../lib/tradeImport';
+
+interface ParsedFile {
+  name: string;
+  headers: string[];
+  rows: string[][];
+}
+
+const statusStyles: Record<ImportRowStatus, { label: string; className: string }> = {
+  ready: { label: 'Ready', className: 'bg-success/10 text-success' },
+  duplicate: { label: 'Duplicate', className: 'bg-warning/10 text-warning' },
+  invalid: { label: 'Error', className: 'bg-error/10 text-error' },
+  skipped: { label: 'Skipped', className: 'bg-background text-text-muted' },
+};
+
+const formatDate = (value?: string) =>
+  value ? format(parseISO(value), 'dd MMM yyyy HH:mm') : '—';
+
+const ImportTrades: React.FC = () => {
+  const { trades, loading } = useTrades();
+  const { importTrades, saving } = useSaveTrade();
+  const { account, pnlOptions } = useSelectedAccount();
+  const [file, setFile] = useState<ParsedFile | null>(null);
+  const [presetId, setPresetId] = useState<BrokerPresetId>('generic');
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [timeframe, setTimeframe] = useState<Timeframe>('H1');
+  const [defaultStopPips, setDefaultStopPips] = useState('');
+  const [defaultTargetPips, setDefaultTargetPips] = useState('');
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [importedCount, setImportedCount] = useState<number | null>(null);
+
+  const rows = useMemo(() => {
+    if (!file) return [];
+    const options = {
+      timeframe,
+      defaultStopPips: parseFloat(defaultStopPips) || undefined,
+      defaultTargetPips: parseFloat(defaultTargetPips) || undefined,
+      accountId: account?.id ?? null,
+    };
+    return buildImportRows(file.rows, mapping, options, trades);
+  }, [file, mapping, timeframe, defaultStopPips, defaultTargetPips, account, trades]);
+
+  const counts = rows.reduce<Record<ImportRowStatus, number>>(
+    (acc, row) => ({ ...acc, [row.status]: acc[row.status] + 1 }),
+    { ready: 0, duplicate: 0, invalid: 0, skipped: 0 }
+  );
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    e.target.value = '';
+    if (!selected) return;
+
+    setFileError(null);
+    setImportError(null);
+    setImportedCount(null);
+
+    const reader = new FileReader();
+    reader.onload = () => {
+      const [headers, ...data] = parseCsv(reader.result as string);
+      if (!headers || data.length === 0) {
+        setFile(null);
+        setFileError('The file has no rows to import.');
+        return;
+      }
+
+      const preset = detectBrokerPreset(headers);
+      setFile({ name: selected.name, headers, rows: data });
+      setPresetId(preset.id);
+      setMapping(guessColumnMapping(headers, preset));
+    };
+    reader.onerror = () => setFileError('The file could not be read.');
+    reader.readAsText(selected);
+  };
+
+  const handlePresetChange = (id: BrokerPresetId) => {
+    setPresetId(id);
+    if (file) setMapping(guessColumnMapping(file.headers, getBrokerPreset(id)));
+  };
+
+  const handleMappingChange = (field: ImportField, value: string) => {
+    setMapping(prev => {
+      const next = { ...prev };
+      if (value === '') {
+        delete next[field];
+      } else {
+        next[field] = Number(value);
+      }
+      return next;
+    });
+  };
+
+  const handleImport = async () => {
+    const values: TradeValues[] = rows
+      .filter(row => row.status === 'ready' && row.data)
+      .map(row => ({
+        ...formDataToRecord(row.data!, pnlOptions),
+        screenshots: [],
+        plan_checks: [],
+        suggested_lot_size: null,
+        account_id: account?.id ?? null,
+      }));
+
+    setImportError(null);
+    try {
+      const created = await importTrades(values);
+      setImportedCount(created.length);
+      setFile(null);
+    } catch (error) {
+      console.error('Error importing trades:', error);
+      setImportError(errorMessage(error, 'Failed to import trades. Please try again.'));
+    }
+  };
+
+  return (
+    <>
+      <PageTitle
+        title="Import Trades"
+        description="Bring in your trade history from a broker CSV export"
+      />
+
+      {importedCount !== null && (
+        <Card className="mb-6">
+          <div className="flex items-center gap-2 text-success">
+            <CheckCircle2 className="h-5 w-5" />
+            <span>
+              Imported {importedCount} {importedCount === 1 ? 'trade' : 'trades'}.{' '}
+              <Link to="/history" className="underline">View trade history</Link>
+            </span>
+          </div>
+        </Card>
+      )}
+
+      <Card title="1. Choose a file" className="mb-6">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label className="block text-sm font-medium mb-1">CSV Export</label>
+            <label
+              htmlFor="csv-upload"
+              className="input flex items-center gap-2 cursor-pointer text-text-muted"
+            >
+              <Upload className="h-4 w-4" />
+              <span className="truncate">{file ? file.name : 'Select a .csv file'}</span>
+            </label>
+            <input
+              type="file"
+              id="csv-upload"
+              accept=".csv,text/csv"
+              className="hidden"
+              onChange={handleFileChange}
+            />
+            {fileError && <p className="text-error text-xs mt-1">{fileError}</p>}
+          </div>
+
+          <div>
+            <label htmlFor="broker" className="block text-sm font-medium mb-1">Format</label>
+            <select
+              id="broker"
+              className="input"
+              value={presetId}
+              onChange={e => handlePresetChange(e.target.value as BrokerPresetId)}
+            >
+              {BROKER_PRESETS.map(preset => (
+                <option key={preset.id} value={preset.id}>{preset.name}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label htmlFor="import-timeframe" className="block text-sm font-medium mb-1">Timeframe</label>
+            <select
+              id="import-timeframe"
+              className="input"
+              value={timeframe}
+              onChange={e => setTimeframe(e.target.value as Timeframe)}
+            >
+              {TIMEFRAMES.map(tf => (
+                <option key={tf} value={tf}>{tf}</option>
+              ))}
+            </select>
+            <p className="text-xs text-text-muted mt-1">Used for rows without a timeframe column.</p>
+            {account && (
+              <p className="text-xs text-text-muted mt-1">Trades are added to {account.name}.</p>
+            )}
+          </div>
+        </div>
+      </Card>
+
+      {file && (
+        <Card
+          title="2. Map columns"
+          description="Match the columns in your file to trade fields"
+          className="mb-6"
+        >
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+            {IMPORT_FIELDS.map(({ field, label, required }) => (
+              <div key={field}>
+                <label htmlFor={`map-${field}`} className="block text-sm font-medium mb-1">
+                  {label}{required && <span className="text-error"> *</span>}
+                </label>
+                <select
+                  id={`map-${field}`}
+                  className="input"
+                  value={mapping[field] ?? ''}
+                  onChange={e => handleMappingChange(field, e.target.value)}
+                >
+                  <option value="">Not mapped</option>
+                  {file.headers.map((header, index) => (
+                    <option key={index} value={index}>{header || `Column ${index + 1}`}</option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 mt-4">
+            <div>
+              <label htmlFor="default-stop" className="block text-sm font-medium mb-1">Default Stop (pips)</label>
+              <input
+                type="number"
+                id="default-stop"
+                min="0"
+                step="0.1"
+                className="input"
+                value={defaultStopPips}
+                onChange={e => setDefaultStopPips(e.target.value)}
+              />
+            </div>
+            <div>
+              <label htmlFor="default-target" className="block text-sm font-medium mb-1">Default Target (pips)</label>
+              <input
+                type="number"
+                id="default-target"
+                min="0"
+                step="0.1"
+                className="input"
+                value={defaultTargetPips}
+                onChange={e => setDefaultTargetPips(e.target.value)}
+              />
+            </div>
+          </div>
+          <p className="text-xs text-text-muted mt-1">
+            Brokers write 0 when a trade had no stop loss or take profit. Those rows use these distances from the
+            entry, and are not imported without them.
+          </p>
+        </Card>
+      )}
+
+      {file && (
+        <Card title="3. Review" className="mb-6">
+          <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+            <div className="flex flex-wrap gap-4 text-sm">
+              <span className="text-success">{counts.ready} ready</span>
+              <span className="text-warning">{counts.duplicate} duplicates</span>
+              <span className="text-error">{counts.invalid} with errors</span>
+              <span className="text-text-muted">{counts.skipped} skipped</span>
+            </div>
+            <button
+              type="button"
+              className="btn btn-primary px-4 py-2 gap-2"
+              disabled={saving || loading || counts.ready === 0}
+              onClick={handleImport}
+            >
+              <FileUp className="h-4 w-4" />
+              {saving ? 'Importing...' : `Import ${counts.ready} ${counts.ready === 1 ? 'trade' : 'trades'}`}
+            </button>
+          </div>
+
+          {importError && <p className="text-error text-sm mb-4">{importError}</p>}
+
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-border text-left">
+                  <th className="px-4 py-3 text-sm font-medium">Line</th>
+                  <th className="px-4 py-3 text-sm font-medium">Status</th>
+                  <th className="px-4 py-3 text-sm font-medium">Pair</th>
+                  <th className="px-4 py-3 text-sm font-medium">Type</th>
+                  <th className="px-4 py-3 text-sm font-medium">Open Time</th>
+                  <th className="px-4 py-3 text-sm font-medium">Entry</th>
+                  <th className="px-4 py-3 text-sm font-medium">Exit</th>
+                  <th className="px-4 py-3 text-sm font-medium">Lots</th>
+                  <th className="px-4 py-3 text-sm font-medium">Notes</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map(row => (
+                  <tr key={row.line} className="border-b border-border hover:bg-background/50">
+                    <td className="px-4 py-3 text-sm text-text-muted">{row.line}</td>
+                    <td className="px-4 py-3 text-sm">
+                      <span className={`px-2 py-1 rounded-md text-xs font-medium ${statusStyles[row.status].className}`}>
+                        {statusStyles[row.status].label}
+                      </span>
+                    </td>
+                    {row.data ? (
+                      <>
+                        <td className="px-4 py-3 text-sm whitespace-nowrap">{row.data.pair}</td>
+                        <td className="px-4 py-3 text-sm">{row.data.type}</td>
+                        <td className="px-4 py-3 text-sm whitespace-nowrap">{formatDate(row.data.entry_date)}</td>
+                        <td className="px-4 py-3 text-sm">{row.data.entry_price}</td>
+                        <td className="px-4 py-3 text-sm">{row.data.exit_price ?? '—'}</td>
+                        <td className="px-4 py-3 text-sm">{row.data.lot_size}</td>
+                        <td className="px-4 py-3 text-xs text-warning">
+                          {row.warnings.join(' · ')}
+                          {row.status === 'duplicate' && 'Already in your journal'}
+                        </td>
+                      </>
+                    ) : (
+                      <td colSpan={7} className="px-4 py-3 text-xs">
+                        {row.status === 'skipped' ? (
+                          <span className="text-text-muted">Not a trade (balance or pending order)</span>
+                        ) : (
+                          <span className="flex items-center gap-1 text-error">
+                            <AlertCircle className="h-3 w-3 shrink-0" />
+                            {row.errors.join(' · ')}
+                          </span>
+                        )}
+                      </td>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </Card>
+      )}
+    </>
+  );
+};
+
+export default ImportTrades;
@@ -0,0 +1,273 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { format, parseISO } from 'date-fns';
+import { Trash2 } from 'lucide-react';
+import PageTitle from '../components/ui/PageTitle';
+import Card from '../components/ui/Card';
+import ConfirmDialog from '../components/ui/ConfirmDialog';
+import { LEDGER_ENTRY_TYPES, LEDGER_ENTRY_TYPE_LABELS, LedgerEntry, LedgerEntryType } from '../types/ledger';
+import { useLedger } from '../hooks/useLedger';
+import { useAccounts } from '../hooks/useAccounts';
+import { useTrades } from '../hooks/useTrades';
+import { useSelectedAccount } from '../contexts/AccountContext';
+import { errorMessage } from '../contexts/DataContext';
+import { balanceTimeline, ledgerTotals, signedLedgerAmount } from '../lib/ledger';
+import { useNotifications } from '../contexts/NotificationContext';
+import { formatMoney } from '../lib/money';
+
+interface EntryDraft {
+  account_id: string;
+  type: LedgerEntryType;
+  amount: string;
+  occurred_at: string;
+  note: string;
+}
+
+const today = () => format(new Date(), 'yyyy-MM-dd');
+
+// Deposits, withdrawals and costs that move the balance outside of trades
+const Ledger: React.FC = () => {
+  const { entries: allEntries, loading, addEntry, deleteEntry } = useLedger();
+  const { accounts, accountsById, loading: loadingAccounts } = useAccounts();
+  const { trades: allTrades } = useTrades();
+  const { accountId, filterByAccount, startingBalance, currency, pnlOptions } = useSelectedAccount();
+  const [draft, setDraft] = useState<EntryDraft>({
+    account_id: accountId ?? '',
+    type: 'deposit',
+    amount: '',
+    occurred_at: today(),
+    note: '',
+  });
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [deleting, setDeleting] = useState<LedgerEntry | null>(null);
+  const [isDeleting, setIsDeleting] = useState(false);
+  const { notifyError } = useNotifications();
+
+  const entries = filterByAccount(allEntries);
+  const trades = filterByAccount(allTrades);
+  const totals = ledgerTotals(trades, entries);
+  const timeline = balanceTimeline(trades, entries, startingBalance, pnlOptions);
+  const balance = timeline.length > 0 ? timeline[timeline.length - 1].balance : startingBalance;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const amount = parseFloat(draft.amount);
+    const account = draft.account_id || accountId || accounts[0]?.id;
+
+    if (!account) {
+      setError('Choose an account');
+      return;
+    }
+    if (isNaN(amount) || amount === 0) {
+      setError('Enter an amount');
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      await addEntry({
+        account_id: account,
+        type: draft.type,
+        amount: signedLedgerAmount(draft.type, amount),
+        occurred_at: new Date(`${draft.occurred_at}T12:00:00`).toISOString(),
+        note: draft.note.trim() || null,
+      });
+      setDraft(prev => ({ ...prev, amount: '', note: '' }));
+    } catch (error) {
+      console.error('Error saving ledger entry:', error);
+      setError(errorMessage(error, 'Failed to save entry'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+
+    setIsDeleting(true);
+    try {
+      await deleteEntry(deleting.id);
+    } catch (error) {
+      console.error('Error deleting ledger entry:', error);
+      notifyError(error, 'Failed to delete entry. Please try again.');
+    } finally {
+      setIsDeleting(false);
+      setDeleting(null);
+    }
+  };
+
+  if (loading || loadingAccounts) {
+    return (
+      <div className="flex items-center justify-center h-96">
+        <div className="text-text-muted">Loading ledger...</div>
+      </div>
+    );
+  }
+
+  if (accounts.length === 0) {
+    return (
+      <>
+        <PageTitle title="Ledger" description="Deposits, withdrawals and fees per account" />
+        <Card>
+          <p className="text-sm text-text-muted">
+            Ledger entries belong to a trading account. <Link to="/settings" className="text-primary">Add an account</Link> first.
+          </p>
+        </Card>
+      </>
+    );
+  }
+
+  const summary = [
+    { label: 'Balance', value: formatMoney(balance, currency) },
+    { label: 'Deposits', value: formatMoney(totals.deposits, currency) },
+    { label: 'Withdrawals', value: formatMoney(totals.withdrawals, currency) },
+    { label: 'Costs', value: formatMoney(totals.costs, currency), tone: 'text-error' },
+  ];
+
+  return (
+    <>
+      <PageTitle title="Ledger" description="Deposits, withdrawals and fees per account" />
+
+      <div className="grid gap-4 grid-cols-2 lg:grid-cols-4 mb-6">
+        {summary.map(item => (
+          <Card key={item.label}>
+            <div>
+              <h4 className="text-sm text-text-muted mb-1">{item.label}</h4>
+              <p className={`text-2xl font-bold ${item.tone ?? ''}`}>{item.value}</p>
+            </div>
+          </Card>
+        ))}
+      </div>
+
+      <Card title="Add Entry" className="mb-6">
+        <form onSubmit={handleSubmit} className="grid gap-4 grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 items-end">
+          <div>
+            <label htmlFor="ledger-account" className="block text-sm font-medium mb-1">Account</label>
+            <select
+              id="ledger-account"
+              className="input"
+              value={draft.account_id || accountId || accounts[0].id}
+              onChange={e => setDraft(prev => ({ ...prev, account_id: e.target.value }))}
+            >
+              {accounts.map(account => (
+                <option key={account.id} value={account.id}>{account.name}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="ledger-type" className="block text-sm font-medium mb-1">Type</label>
+            <select
+              id="ledger-type"
+              className="input"
+              value={draft.type}
+              onChange={e => setDraft(prev => ({ ...prev, type: e.target.value as LedgerEntryType }))}
+            >
+              {LEDGER_ENTRY_TYPES.map(type => (
+                <option key={type} value={type}>{LEDGER_ENTRY_TYPE_LABELS[type]}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="ledger-amount" className="block text-sm font-medium mb-1">Amount</label>
+            <input
+              type="number"
+              id="ledger-amount"
+              step="0.01"
+              className="input"
+              value={draft.amount}
+              onChange={e => setDraft(prev => ({ ...prev, amount: e.target.value }))}
+            />
+          </div>
+          <div>
+            <label htmlFor="ledger-date" className="block text-sm font-medium mb-1">Date</label>
+            <input
+              type="date"
+              id="ledger-date"
+              className="input"
+              value={draft.occurred_at}
+              onChange={e => e.target.value && setDraft(prev => ({ ...prev, occurred_at: e.target.value }))}
+            />
+          </div>
+          <button type="submit" className="btn btn-primary px-4 py-2" disabled={saving}>
+            {saving ? 'Saving...' : 'Add Entry'}
+          </button>
+          <div className="sm:col-span-2 lg:col-span-5">
+            <label htmlFor="ledger-note" className="block text-sm font-medium mb-1">Note (Optional)</label>
+            <input
+              id="ledger-note"
+              className="input"
+              value={draft.note}
+              onChange={e => setDraft(prev => ({ ...prev, note: e.target.value }))}
+            />
+          </div>
+        </form>
+        <p className="text-xs text-text-muted mt-2">
+          Deposits, withdrawals and fees are entered as positive amounts; use a negative swap or adjustment for a charge.
+        </p>
+        {error && <p className="text-error text-xs mt-1">{error}</p>}
+      </Card>
+
+      <Card title="Entries">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-border text-left">
+                <th className="px-4 py-3 text-sm font-medium">Date</th>
+                <th className="px-4 py-3 text-sm font-medium">Account</th>
+                <th className="px-4 py-3 text-sm font-medium">Type</th>
+                <th className="px-4 py-3 text-sm font-medium text-right">Amount</th>
+                <th className="px-4 py-3 text-sm font-medium">Note</th>
+                <th className="px-4 py-3"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {entries.map(entry => (
+                <tr key={entry.id} className="border-b border-border hover:bg-background/50">
+                  <td className="px-4 py-3 text-sm">{format(parseISO(entry.occurred_at), 'dd MMM yyyy')}</td>
+                  <td className="px-4 py-3 text-sm">{accountsById.get(entry.account_id)?.name ?? '—'}</td>
+                  <td className="px-4 py-3 text-sm">{LEDGER_ENTRY_TYPE_LABELS[entry.type]}</td>
+                  <td className={`px-4 py-3 text-sm text-right font-medium ${entry.amount >= 0 ? 'text-success' : 'text-error'}`}>
+                    {formatMoney(entry.amount, currency)}
+                  </td>
+                  <td className="px-4 py-3 text-sm text-text-muted">{entry.note ?? ''}</td>
+                  <td className="px-4 py-3 text-right">
+                    <button
+                      type="button"
+                      className="text-text-muted hover:text-error"
+                      onClick={() => setDeleting(entry)}
+                      aria-label="Delete entry"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+              {entries.length === 0 && (
+                <tr>
+                  <td colSpan={6} className="px-4 py-8 text-center text-text-muted">
+                    No ledger entries yet
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </Card>
+
+      <ConfirmDialog
+        title="Delete entry?"
+        message="The entry will be removed and the balance recalculated."
+        confirmLabel="Delete"
+        destructive
+        isOpen={deleting !== null}
+        isBusy={isDeleting}
+        onConfirm={handleDelete}
+        onCancel={() => setDeleting(null)}
+      />
+    </>
+  );
+};
+
+export default Ledger;
@@ -0,0 +1,160 @@
+import React, { useState } from 'react';
+import { Location, Navigate, useLocation } from 'react-router-dom';
+import { useForm } from 'react-hook-form';
+import { BarChart4, LogIn, Mail, UserPlus } from 'lucide-react';
+import Card from '../components/ui/Card';
+import { useAuth } from '../contexts/AuthContext';
+import { errorMessage } from '../lib/errors';
+
+type Mode = 'sign-in' | 'sign-up' | 'forgot';
+
+interface LoginFormData {
+  email: string;
+  password: string;
+}
+
+const titles: Record<Mode, { title: string; description: string }> = {
+  'sign-in': { title: 'Welcome back', description: 'Sign in to your trading journal' },
+  'sign-up': { title: 'Create an account', description: 'Start journaling your trades' },
+  'forgot': { title: 'Reset your password', description: "We'll email you a link to choose a new one" },
+};
+
+const Login: React.FC = () => {
+  const { user, loading, isDemo, signIn, signUp, sendPasswordReset } = useAuth();
+  const location = useLocation();
+  const [mode, setMode] = useState<Mode>('sign-in');
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors, isSubmitting }
+  } = useForm<LoginFormData>();
+
+  if (!loading && user) {
+    const from = (location.state as { from?: Location } | null)?.from?.pathname ?? '/';
+    return <Navigate to={from} replace />;
+  }
+
+  const switchMode = (next: Mode) => {
+    setMode(next);
+    setError(null);
+    setMessage(null);
+  };
+
+  const onSubmit = async ({ email, password }: LoginFormData) => {
+    setError(null);
+    setMessage(null);
+
+    try {
+      if (mode === 'sign-in') {
+        await signIn(email, password);
+      } else if (mode === 'sign-up') {
+        const { needsConfirmation } = await signUp(email, password);
+        if (needsConfirmation) {
+          setMessage('Check your inbox to confirm your email address, then sign in.');
+          setMode('sign-in');
+        }
+      } else {
+        await sendPasswordReset(email);
+        setMessage('If an account exists for that address, a reset link is on its way.');
+      }
+    } catch (error) {
+      console.error('Authentication error:', error);
+      setError(errorMessage(error, 'Something went wrong. Please try again.'));
+    }
+  };
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-background p-4">
+      <div className="w-full max-w-sm">
+        <div className="flex items-center justify-center gap-2 mb-6">
+          <div className="flex h-10 w-10 items-center justify-center rounded-md bg-primary">
+            <BarChart4 className="h-6 w-6 text-white" />
+          </div>
+          <span className="text-2xl font-bold text-primary">FX Journal</span>
+        </div>
+
+        {isDemo && (
+          <div className="mb-4 rounded-md border border-secondary/40 bg-secondary/10 p-3 text-sm">
+            Demo mode: data stays in this browser. Sign in with any email and password.
+          </div>
+        )}
+
+        <Card title={titles[mode].title} description={titles[mode].description}>
+          <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+            <div>
+              <label htmlFor="email" className="block text-sm font-medium mb-1">Email</label>
+              <input
+                type="email"
+                id="email"
+                autoComplete="email"
+                className="input"
+                {...register('email', { required: 'Email is required' })}
+              />
+              {errors.email && (
+                <p className="text-error text-xs mt-1">{errors.email.message}</p>
+              )}
+            </div>
+
+            {mode !== 'forgot' && (
+              <div>
+                <label htmlFor="password" className="block text-sm font-medium mb-1">Password</label>
+                <input
+                  type="password"
+                  id="password"
+                  autoComplete={mode === 'sign-up' ? 'new-password' : 'current-password'}
+                  className="input"
+                  {...register('password', {
+                    required: 'Password is required',
+                    minLength: { value: 6, message: 'Password must be at least 6 characters' }
+                  })}
+                />
+                {errors.password && (
+                  <p className="text-error text-xs mt-1">{errors.password.message}</p>
+                )}
+              </div>
+            )}
+
+            {error && <p className="text-error text-sm">{error}</p>}
+            {message && <p className="text-success text-sm">{message}</p>}
+
+            <button
+              type="submit"
+              className="btn btn-primary w-full py-2 gap-2"
+              disabled={isSubmitting}
+            >
+              {mode === 'sign-in' && <LogIn className="h-4 w-4" />}
+              {mode === 'sign-up' && <UserPlus className="h-4 w-4" />}
+              {mode === 'forgot' && <Mail className="h-4 w-4" />}
+              {isSubmitting
+                ? 'Please wait...'
+                : mode === 'sign-in' ? 'Sign in' : mode === 'sign-up' ? 'Create account' : 'Send reset link'}
+            </button>
+          </form>
+
+          <div className="mt-6 flex flex-col gap-2 text-center text-sm text-text-muted">
+            {mode === 'sign-in' && (
+              <>
+                <button type="button" className="hover:text-primary" onClick={() => switchMode('forgot')}>
+                  Forgot your password?
+                </button>
+                <button type="button" className="hover:text-primary" onClick={() => switchMode('sign-up')}>
+                  Don't have an account? Sign up
+                </button>
+              </>
+            )}
+            {mode !== 'sign-in' && (
+              <button type="button" className="hover:text-primary" onClick={() => switchMode('sign-in')}>
+                Back to sign in
+              </button>
+            )}
+          </div>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default Login;
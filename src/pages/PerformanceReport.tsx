@@ -0,0 +1,180 @@
+import React, { useMemo } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { endOfMonth, format, parseISO, startOfMonth } from 'date-fns';
+import { ArrowLeft, Printer } from 'lucide-react';
+import Card from '../components/ui/Card';
+import CumulativePnlChart from '../components/analytics/CumulativePnlChart';
+import { useTrades } from '../hooks/useTrades';
+import { useSelectedAccount } from '../contexts/AccountContext';
+import { matchesFilters, parseTradeQuery } from '../lib/tradeQuery';
+import { GroupPerformance, cumulativePnl, performanceBy, summarizePerformance } from '../lib/metrics';
+import { formatMoney } from '../lib/money';
+
+const toDateParam = (date: Date) => format(date, 'yyyy-MM-dd');
+
+const PerformanceTable: React.FC<{ title: string; label: string; rows: GroupPerformance[]; currency: string }> = ({
+  title,
+  label,
+  rows,
+  currency,
+}) => (
+  <Card title={title} className="break-inside-avoid">
+    <table className="w-full">
+      <thead>
+        <tr className="border-b border-border text-left">
+          <th className="px-4 py-2 text-sm font-medium">{label}</th>
+          <th className="px-4 py-2 text-sm font-medium text-right">Trades</th>
+          <th className="px-4 py-2 text-sm font-medium text-right">Win Rate</th>
+          <th className="px-4 py-2 text-sm font-medium text-right">P/L</th>
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map(row => (
+          <tr key={row.key} className="border-b border-border">
+            <td className="px-4 py-2 text-sm">{row.key}</td>
+            <td className="px-4 py-2 text-sm text-right">{row.count}</td>
+            <td className="px-4 py-2 text-sm text-right">{row.winRate.toFixed(1)}%</td>
+            <td className={`px-4 py-2 text-sm text-right font-medium ${row.pnl >= 0 ? 'text-success' : 'text-error'}`}>
+              {formatMoney(row.pnl, currency)}
+            </td>
+          </tr>
+        ))}
+        {rows.length === 0 && (
+          <tr>
+            <td colSpan={4} className="px-4 py-4 text-center text-sm text-text-muted">No trades</td>
+          </tr>
+        )}
+      </tbody>
+    </table>
+  </Card>
+);
+
+// Printable performance summary for a period; "Save as PDF" in the print
+// dialog produces the report we send out
+const PerformanceReport: React.FC = () => {
+  const { trades, loading } = useTrades();
+  const { account, filterByAccount, currency, pnlOptions } = useSelectedAccount();
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  // Dates from a hand-edited URL that are not real days fall back to this month
+  const { filters } = parseTradeQuery(searchParams);
+  const from = filters.from ?? toDateParam(startOfMonth(new Date()));
+  const to = filters.to ?? toDateParam(endOfMonth(new Date()));
+
+  const periodTrades = useMemo(
+    () => filterByAccount(trades).filter(trade => matchesFilters(trade, { from, to })),
+    [trades, filterByAccount, from, to]
+  );
+
+  const summary = summarizePerformance(periodTrades, pnlOptions);
+  const byPair = performanceBy(periodTrades, trade => trade.pair, pnlOptions);
+  const byTimeframe = performanceBy(periodTrades, trade => trade.timeframe, pnlOptions);
+
+  const setPeriod = (nextFrom: string, nextTo: string) => {
+    setSearchParams({ from: nextFrom, to: nextTo });
+  };
+
+  const handleMonthChange = (value: string) => {
+    if (!value) return;
+    const month = parseISO(`${value}-01`);
+    setPeriod(toDateParam(startOfMonth(month)), toDateParam(endOfMonth(month)));
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-96">
+        <div className="text-text-muted">Loading report...</div>
+      </div>
+    );
+  }
+
+  const metrics = [
+    { label: 'Total Profit/Loss', value: formatMoney(summary.totalPnl, currency), tone: summary.totalPnl >= 0 ? 'text-success' : 'text-error' },
+    { label: 'Win Rate', value: `${summary.winRate.toFixed(1)}%` },
+    { label: 'Number of Trades', value: String(summary.tradeCount) },
+    { label: 'Wins / Losses', value: `${summary.wins} / ${summary.losses}` },
+    { label: 'Avg Risk/Reward', value: summary.avgRiskReward.toFixed(2) },
+  ];
+
+  return (
+    <>
+      {/* Controls are left out of the printed page */}
+      <div className="flex flex-wrap items-end justify-between gap-4 mb-6 print:hidden">
+        <Link to="/analytics" className="btn btn-outline px-3 py-1.5 gap-2 text-sm">
+          <ArrowLeft className="h-4 w-4" />
+          Analytics
+        </Link>
+
+        <div className="flex flex-wrap items-end gap-3">
+          <div>
+            <label htmlFor="report-month" className="block text-sm font-medium mb-1">Month</label>
+            <input
+              type="month"
+              id="report-month"
+              className="input"
+              value={from.slice(0, 7)}
+              onChange={e => handleMonthChange(e.target.value)}
+            />
+          </div>
+          <div>
+            <label htmlFor="report-from" className="block text-sm font-medium mb-1">From</label>
+            <input
+              type="date"
+              id="report-from"
+              className="input"
+              value={from}
+              onChange={e => e.target.value && setPeriod(e.target.value, to)}
+            />
+          </div>
+          <div>
+            <label htmlFor="report-to" className="block text-sm font-medium mb-1">To</label>
+            <input
+              type="date"
+              id="report-to"
+              className="input"
+              value={to}
+              onChange={e => e.target.value && setPeriod(from, e.target.value)}
+            />
+          </div>
+          <button type="button" className="btn btn-primary px-4 py-2 gap-2" onClick={() => window.print()}>
+            <Printer className="h-4 w-4" />
+            Save as PDF
+          </button>
+        </div>
+      </div>
+
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold tracking-tight md:text-3xl">Performance Report</h1>
+        <p className="mt-1 text-text-muted">
+          {account && `${account.name} · `}
+          {format(parseISO(from), 'dd MMM yyyy')} – {format(parseISO(to), 'dd MMM yyyy')}
+          {' · '}Generated {format(new Date(), 'dd MMM yyyy HH:mm')}
+        </p>
+      </div>
+
+      <div className="grid gap-4 grid-cols-2 lg:grid-cols-5 mb-6 print:grid-cols-5">
+        {metrics.map(metric => (
+          <Card key={metric.label} className="break-inside-avoid">
+            <div>
+              <h4 className="text-sm text-text-muted mb-1">{metric.label}</h4>
+              <p className={`text-2xl font-bold ${metric.tone ?? ''}`}>{metric.value}</p>
+            </div>
+          </Card>
+        ))}
+      </div>
+
+      <Card title="Profit/Loss Over Time" className="mb-6 break-inside-avoid">
+        <div className="h-72">
+          <CumulativePnlChart points={cumulativePnl(periodTrades, pnlOptions)} />
+        </div>
+      </Card>
+
+      <div className="grid gap-6 grid-cols-1 md:grid-cols-2 print:grid-cols-2">
+        <PerformanceTable title="Performance by Currency Pair" label="Pair" rows={byPair} currency={currency} />
+        <PerformanceTable title="Performance by Timeframe" label="Timeframe" rows={byTimeframe} currency={currency} />
+      </div>
+    </>
+  );
+};
+
+export default PerformanceReport;
@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useForm } from 'react-hook-form';
+import { KeyRound } from 'lucide-react';
+import PageTitle from '../components/ui/PageTitle';
+import Card from '../components/ui/Card';
+import { useAuth } from '../contexts/AuthContext';
+import { errorMessage } from '../lib/errors';
+
+interface ResetPasswordFormData {
+  password: string;
+  confirm: string;
+}
+
+const ResetPassword: React.FC = () => {
+  const { updatePassword, isRecovering } = useAuth();
+  const navigate = useNavigate();
+  const [error, setError] = useState<string | null>(null);
+
+  const {
+    register,
+    handleSubmit,
+    watch,
+    formState: { errors, isSubmitting }
+  } = useForm<ResetPasswordFormData>();
+
+  const onSubmit = async ({ password }: ResetPasswordFormData) => {
+    setError(null);
+    try {
+      await updatePassword(password);
+      navigate('/', { replace: true });
+    } catch (error) {
+      console.error('Error updating password:', error);
+      setError(errorMessage(error, 'Failed to update password. Please try again.'));
+    }
+  };
+
+  return (
+    <>
+      <PageTitle
+        title="Choose a new password"
+        description={isRecovering
+          ? 'Your reset link was accepted. Pick a new password to finish.'
+          : 'Change the password you use to sign in.'}
+      />
+
+      <Card className="max-w-md">
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4 pt-6">
+          <div>
+            <label htmlFor="new-password" className="block text-sm font-medium mb-1">New Password</label>
+            <input
+              type="password"
+              id="new-password"
+              autoComplete="new-password"
+              className="input"
+              {...register('password', {
+                required: 'Password is required',
+                minLength: { value: 6, message: 'Password must be at least 6 characters' }
+              })}
+            />
+            {errors.password && (
+              <p className="text-error text-xs mt-1">{errors.password.message}</p>
+            )}
+          </div>
+
+          <div>
+            <label htmlFor="confirm-password" className="block text-sm font-medium mb-1">Confirm Password</label>
+            <input
+              type="password"
+              id="confirm-password"
+              autoComplete="new-password"
+              className="input"
+              {...register('confirm', {
+                validate: value => value === watch('password') || 'Passwords do not match'
+              })}
+            />
+            {errors.confirm && (
+              <p className="text-error text-xs mt-1">{errors.confirm.message}</p>
+            )}
+          </div>
+
+          {error && <p className="text-error text-sm">{error}</p>}
+
+          <button type="submit" className="btn btn-primary px-4 py-2 gap-2" disabled={isSubmitting}>
+            <KeyRound className="h-4 w-4" />
+            {isSubmitting ? 'Saving...' : 'Update Password'}
+          </button>
+        </form>
+      </Card>
+    </>
+  );
+};
+
+export default ResetPassword;
@@ -0,0 +1,220 @@
+import React, { useMemo } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { format, parseISO } from 'date-fns';
+import { FilterX } from 'lucide-react';
+import PageTitle from '../components/ui/PageTitle';
+import Card from '../components/ui/Card';
+import { Trade } from '../types/trade';
+import { EXECUTION_GRADES, EXECUTION_GRADE_LABELS, ExecutionGrade, TradeReview } from '../types/review';
+import { useReviews } from '../hooks/useReviews';
+import { useTrades } from '../hooks/useTrades';
+import { useSelectedAccount } from '../contexts/AccountContext';
+import { tradeNetProfitLoss } from '../lib/pnl';
+import { formatMoney } from '../lib/money';
+
+const GRADE_CLASSES: Record<ExecutionGrade, string> = {
+  A: 'bg-success/20 text-success',
+  B: 'bg-success/10 text-success',
+  C: 'bg-warning/20 text-warning',
+  D: 'bg-error/10 text-error',
+  F: 'bg-error/20 text-error',
+};
+
+// Everything a search should look through for one reviewed trade
+const searchText = (review: TradeReview, trade: Trade) =>
+  [trade.pair, trade.notes, review.went_well, review.to_improve, review.lessons]
+    .filter(Boolean)
+    .join('\n')
+    .toLowerCase();
+
+const Reviews: React.FC = () => {
+  const { reviews, loading: loadingReviews, error } = useReviews();
+  const { trades, loading: loadingTrades } = useTrades();
+  const { filterByAccount, tradePnlOptions } = useSelectedAccount();
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const search = searchParams.get('q') ?? '';
+  const grade = searchParams.get('grade') ?? '';
+  const followed = searchParams.get('followed') ?? '';
+
+  const updateParam = (name: string, value: string) => {
+    const next = new URLSearchParams(searchParams);
+    if (value) next.set(name, value);
+    else next.delete(name);
+    setSearchParams(next, { replace: true });
+  };
+
+  // Reviews of the selected account's trades, newest trade first
+  const reviewed = useMemo(() => {
+    const tradesById = new Map(filterByAccount(trades).map(trade => [trade.id, trade]));
+    return reviews
+      .flatMap(review => {
+        const trade = tradesById.get(review.trade_id);
+        return trade ? [{ review, trade }] : [];
+      })
+      .sort((a, b) => b.trade.entry_date.localeCompare(a.trade.entry_date));
+  }, [reviews, trades, filterByAccount]);
+
+  const terms = search.toLowerCase().split(/\s+/).filter(Boolean);
+  const matching = reviewed.filter(({ review, trade }) => {
+    if (grade && review.grade !== grade) return false;
+    if (followed && review.followed_plan !== (followed === 'yes')) return false;
+    const text = searchText(review, trade);
+    return terms.every(term => text.includes(term));
+  });
+
+  const followedCount = reviewed.filter(({ review }) => review.followed_plan === true).length;
+  const answeredCount = reviewed.filter(({ review }) => review.followed_plan !== null).length;
+  const hasFilters = Boolean(search || grade || followed);
+
+  if (loadingReviews || loadingTrades) {
+    return (
+      <div className="flex items-center justify-center h-96">
+        <div className="text-text-muted">Loading reviews...</div>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <PageTitle title="Trade Reviews" description="Search your post-trade reflections and lessons" />
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-6">
+        <Card>
+          <div>
+            <h4 className="text-sm text-text-muted mb-1">Reviewed Trades</h4>
+            <p className="text-2xl font-bold">{reviewed.length}</p>
+          </div>
+        </Card>
+        <Card>
+          <div>
+            <h4 className="text-sm text-text-muted mb-1">Plan Followed</h4>
+            <p className="text-2xl font-bold">
+              {answeredCount > 0 ? `${((followedCount / answeredCount) * 100).toFixed(0)}%` : '—'}
+            </p>
+          </div>
+        </Card>
+        <Card>
+          <div>
+            <h4 className="text-sm text-text-muted mb-1">Grades</h4>
+            <p className="text-2xl font-bold">
+              {EXECUTION_GRADES.map(option => (
+                <span key={option} className="mr-3">
+                  {option}
+                  <span className="text-sm font-normal text-text-muted">
+                    {' '}{reviewed.filter(({ review }) => review.grade === option).length}
+                  </span>
+                </span>
+              ))}
+            </p>
+          </div>
+        </Card>
+      </div>
+
+      <Card className="mb-6">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4 pt-6">
+          <div className="md:col-span-2">
+            <label htmlFor="review-search" className="block text-sm font-medium mb-1">Search</label>
+            <input
+              id="review-search"
+              type="search"
+              className="input"
+              placeholder="Lessons, notes or pair"
+              value={search}
+              onChange={e => updateParam('q', e.target.value)}
+            />
+          </div>
+          <div>
+            <label htmlFor="review-grade" className="block text-sm font-medium mb-1">Grade</label>
+            <select id="review-grade" className="input" value={grade} onChange={e => updateParam('grade', e.target.value)}>
+              <option value="">Any grade</option>
+              {EXECUTION_GRADES.map(option => (
+                <option key={option} value={option}>{EXECUTION_GRADE_LABELS[option]}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="review-followed" className="block text-sm font-medium mb-1">Followed Plan</label>
+            <select id="review-followed" className="input" value={followed} onChange={e => updateParam('followed', e.target.value)}>
+              <option value="">Either</option>
+              <option value="yes">Yes</option>
+              <option value="no">No</option>
+            </select>
+          </div>
+        </div>
+
+        {hasFilters && (
+          <div className="flex justify-end mt-4">
+            <button
+              type="button"
+              className="btn btn-outline px-3 py-2 gap-2"
+              onClick={() => setSearchParams({}, { replace: true })}
+            >
+              <FilterX className="h-4 w-4" />
+              Clear filters
+            </button>
+          </div>
+        )}
+      </Card>
+
+      <Card>
+        <div className="overflow-x-auto pt-6">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-border text-left">
+                <th className="px-4 py-3 text-sm font-medium">Trade</th>
+                <th className="px-4 py-3 text-sm font-medium">Grade</th>
+                <th className="px-4 py-3 text-sm font-medium">Plan</th>
+                <th className="px-4 py-3 text-sm font-medium">Lessons</th>
+                <th className="px-4 py-3 text-sm font-medium text-right">Net P/L</th>
+              </tr>
+            </thead>
+            <tbody>
+              {matching.map(({ review, trade }) => {
+                const pnlOptions = tradePnlOptions(trade);
+                const net = tradeNetProfitLoss(trade, pnlOptions);
+                return (
+                  <tr key={review.id} className="border-b border-border hover:bg-background/50">
+                    <td className="px-4 py-3 text-sm whitespace-nowrap">
+                      <Link to={`/trades/${trade.id}`} className="font-medium hover:text-primary">
+                        {trade.type} {trade.pair}
+                      </Link>
+                      <span className="block text-xs text-text-muted">{format(parseISO(trade.entry_date), 'dd MMM yyyy')}</span>
+                    </td>
+                    <td className="px-4 py-3 text-sm">
+                      {review.grade ? (
+                        <span className={`px-2 py-1 rounded-full text-xs ${GRADE_CLASSES[review.grade]}`}>{review.grade}</span>
+                      ) : '—'}
+                    </td>
+                    <td className="px-4 py-3 text-sm">
+                      {review.followed_plan === null ? '—' : review.followed_plan ? 'Followed' : 'Broken'}
+                    </td>
+                    <td className="px-4 py-3 text-sm max-w-md">
+                      <p className="line-clamp-2">{review.lessons ?? review.to_improve ?? review.went_well ?? '—'}</p>
+                    </td>
+                    <td className={`px-4 py-3 text-sm text-right whitespace-nowrap ${
+                      trade.exit_price === null ? 'text-text-muted' : net >= 0 ? 'text-success' : 'text-error'
+                    }`}>
+                      {trade.exit_price === null ? 'Open' : formatMoney(net, pnlOptions.accountCurrency)}
+                    </td>
+                  </tr>
+                );
+              })}
+              {matching.length === 0 && (
+                <tr>
+                  <td colSpan={5} className="px-4 py-8 text-center text-text-muted">
+                    {error ?? (hasFilters
+                      ? 'No reviews match these filters'
+                      : 'No reviews yet. Open a trade from the history to review it.')}
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </Card>
+    </>
+  );
+};
+
+export default Reviews;
@@ -2,56 +2,35 @@ import React, { useState, useEffect } from 'react';
 import { Moon, Sun } from 'lucide-react';
 import PageTitle from '../components/ui/PageTitle';
 import Card from '../components/ui/Card';
+import TagManager from '../components/settings/TagManager';
+import AccountManager from '../components/settings/AccountManager';
+import PlanRuleManager from '../components/settings/PlanRuleManager';
 import { useTheme } from '../contexts/ThemeContext';
-import { useSupabase } from '../contexts/SupabaseContext';
+import { useSettings } from '../hooks/useSettings';
+import { useNotifications } from '../contexts/NotificationContext';
 
 interface SettingsState {
   riskPercentage: number;
+  accountBalance: number;
 }
 
 const Settings: React.FC = () => {
   const { theme, toggleTheme } = useTheme();
-  const { supabase } = useSupabase();
-  const [loading, setLoading] = useState(false);
+  const { settings: savedSettings, loading: loadingSettings, saving, saveSettings: persistSettings } = useSettings();
+  const { notifySuccess, notifyError } = useNotifications();
+  const loading = loadingSettings || saving;
   const [settings, setSettings] = useState<SettingsState>({
-    riskPercentage: 2, // Default value
+    riskPercentage: savedSettings.risk_percentage,
+    accountBalance: savedSettings.account_balance,
   });
 
+  // Show the stored values once they arrive
   useEffect(() => {
-    const fetchSettings = async () => {
-      try {
-        setLoading(true);
-        
-        // In a real app, filter by user_id
-        const { data, error } = await supabase
-          .from('settings')
-          .select('*')
-          .limit(1);
-        
-        if (error) throw error;
-        
-        if (data && data.length > 0) {
-          setSettings({
-            riskPercentage: data[0].risk_percentage,
-          });
-        }
-      } catch (error) {
-        console.error('Error fetching settings:', error);
-        // In a real app, show error toast
-      } finally {
-        setLoading(false);
-      }
-    };
-
-    // Uncomment to fetch real data
-    // fetchSettings();
-    
-    // For development, simulate delay
-    setLoading(true);
-    setTimeout(() => {
-      setLoading(false);
-    }, 300);
-  }, []);
+    setSettings({
+      riskPercentage: savedSettings.risk_percentage,
+      accountBalance: savedSettings.account_balance,
+    });
+  }, [savedSettings]);
 
   const handleRiskPercentageChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const value = parseFloat(e.target.value);
@@ -60,52 +39,24 @@ const Settings: React.FC = () => {
     }
   };
 
+  const handleAccountBalanceChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const value = parseFloat(e.target.value);
+    if (!isNaN(value) && value >= 0) {
+      setSettings(prev => ({ ...prev, accountBalance: value }));
+    }
+  };
+
   const saveSettings = async () => {
     try {
-      setLoading(true);
-      
-      // In a real app, this would be from auth context
-      const userId = 'user-id-placeholder';
-      
-      // Check if settings exist for this user
-      const { data, error: fetchError } = await supabase
-        .from('settings')
-        .select('id')
-        .eq('user_id', userId)
-        .limit(1);
-      
-      if (fetchError) throw fetchError;
-      
-      if (data && data.length > 0) {
-        // Update existing settings
-        const { error } = await supabase
-          .from('settings')
-          .update({
-            risk_percentage: settings.riskPercentage,
-          })
-          .eq('id', data[0].id);
-        
-        if (error) throw error;
-      } else {
-        // Insert new settings
-        const { error } = await supabase
-          .from('settings')
-          .insert({
-            user_id: userId,
-            risk_percentage: settings.riskPercentage,
-          });
-        
-        if (error) throw error;
-      }
-      
-      // In a real app, show success toast
-      alert('Settings saved successfully!');
+      await persistSettings({
+        risk_percentage: settings.riskPercentage,
+        account_balance: settings.accountBalance,
+      });
+
+      notifySuccess('Settings saved.');
     } catch (error) {
       console.error('Error saving settings:', error);
-      // In a real app, show error toast
-      alert('Failed to save settings. Please try again.');
-    } finally {
-      setLoading(false);
+      notifyError(error, 'Failed to save settings. Please try again.');
     }
   };
 
@@ -154,6 +105,28 @@ const Settings: React.FC = () => {
         
         <Card title="Risk Management" className="mb-6">
           <div className="space-y-6">
+            <div>
+              <label htmlFor="account-balance" className="block text-sm font-medium mb-1">
+                Account Balance
+              </label>
+              <div className="flex items-center">
+                <span className="mr-2 text-text-muted">$</span>
+                <input
+                  type="number"
+                  id="account-balance"
+                  min="0"
+                  step="100"
+                  value={settings.accountBalance}
+                  onChange={handleAccountBalanceChange}
+                  className="input w-40"
+                  disabled={loading}
+                />
+              </div>
+              <p className="text-sm text-text-muted mt-2">
+                Position sizes in the trade journal are calculated from this balance.
+              </p>
+            </div>
+
             <div>
               <label htmlFor="risk-percentage" className="block text-sm font-medium mb-1">
                 Risk Percentage Per Trade
@@ -207,11 +180,23 @@ const Settings: React.FC = () => {
                 className="btn btn-primary px-4 py-2"
                 disabled={loading}
               >
-                {loading ? 'Saving...' : 'Save Settings'}
+                {saving ? 'Saving...' : 'Save Settings'}
               </button>
             </div>
           </div>
         </Card>
+
+        <Card title="Trading Accounts" description="Equity curves start from each account's starting balance" className="mb-6">
+          <AccountManager />
+        </Card>
+
+        <Card title="Trading Plan" description="Checklist rules every trade is checked against" className="mb-6">
+          <PlanRuleManager />
+        </Card>
+
+        <Card title="Tags" description="Strategies, mistakes and emotions you tag trades with" className="mb-6">
+          <TagManager />
+        </Card>
       </div>
     </>
   );
@@ -0,0 +1,338 @@
+import React, { useMemo, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { Duration, format, formatDuration, intervalToDuration, parseISO } from 'date-fns';
+import { AlertTriangle, CheckCircle2, Pencil, XCircle } from 'lucide-react';
+import PageTitle from '../components/ui/PageTitle';
+import Card from '../components/ui/Card';
+import ScreenshotGallery from '../components/trades/ScreenshotGallery';
+import TradeReviewForm from '../components/trades/TradeReviewForm';
+import { Trade } from '../types/trade';
+import { SCREENSHOT_LABEL_NAMES, Annotation } from '../types/screenshot';
+import { TradeReviewValues } from '../types/review';
+import { useSaveTrade, useTrade, useTrades } from '../hooks/useTrades';
+import { useReviews } from '../hooks/useReviews';
+import { useTags } from '../hooks/useTags';
+import { useAccounts } from '../hooks/useAccounts';
+import { getTradePnl, priceExcursion, summarizeExecutions, tradeCosts, tradeNetProfitLoss } from '../lib/pnl';
+import { INDICATOR_CONDITIONS, medianBandWidths, tradeConditions } from '../lib/indicators';
+import { SENTIMENT_ALIGNMENT_LABELS, sentimentAlignment } from '../lib/sentiment';
+import { tradeTiming } from '../lib/sessions';
+import { useNotifications } from '../contexts/NotificationContext';
+import { useSelectedAccount } from '../contexts/AccountContext';
+import { formatMoney } from '../lib/money';
+
+const formatNumber = (value: number | null) => (value === null ? '—' : value.toString());
+
+// Trades recorded by date only have no meaningful time to show
+const formatDate = (value: string, timed: boolean) =>
+  format(parseISO(value), timed ? 'dd MMM yyyy HH:mm' : 'dd MMM yyyy');
+
+// How long the position was open, to the minute for timed trades
+const holdingTime = (trade: Trade): string | null => {
+  if (!trade.exit_date) return null;
+
+  const duration = intervalToDuration({ start: parseISO(trade.entry_date), end: parseISO(trade.exit_date) });
+  const units: (keyof Duration)[] = trade.timezone
+    ? ['years', 'months', 'days', 'hours', 'minutes']
+    : ['years', 'months', 'days'];
+  return formatDuration(duration, { format: units }) || (trade.timezone ? 'Under a minute' : 'Same day');
+};
+
+const Detail: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <div>
+    <dt className="text-xs text-text-muted">{label}</dt>
+    <dd className="text-sm font-medium">{children}</dd>
+  </div>
+);
+
+const TradeDetail: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const { trade, loading, error, missing } = useTrade(id);
+  const { trades } = useTrades();
+  const { reviewsByTrade, saveReview } = useReviews();
+  const { tagsById } = useTags();
+  const { accountsById } = useAccounts();
+  const { tradePnlOptions } = useSelectedAccount();
+  const { updateTrade } = useSaveTrade();
+  const { notifyError } = useNotifications();
+  const [viewing, setViewing] = useState<number | null>(null);
+
+  // Band width is judged against the pair's other trades
+  const widths = useMemo(() => medianBandWidths(trades), [trades]);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-96">
+        <div className="text-text-muted">Loading trade...</div>
+      </div>
+    );
+  }
+
+  if (!trade) {
+    return (
+      <>
+        <PageTitle title="Trade Details" />
+        <Card>
+          <p className="pt-6 text-text-muted">
+            {missing || !error
+              ? 'This trade could not be found. It may have been deleted.'
+              : 'Failed to load trade. Please try again.'}
+          </p>
+        </Card>
+      </>
+    );
+  }
+
+  const review = reviewsByTrade.get(trade.id) ?? null;
+  const pnlOptions = tradePnlOptions(trade);
+  const pnl = getTradePnl(trade, pnlOptions);
+  const net = tradeNetProfitLoss(trade, pnlOptions);
+  const costs = tradeCosts(trade);
+  const timed = trade.timezone !== null;
+  const timing = tradeTiming(trade);
+  const alignment = sentimentAlignment(trade);
+  const conditions = tradeConditions(trade, widths);
+  const account = trade.account_id ? accountsById.get(trade.account_id) : undefined;
+  const tags = trade.tag_ids.flatMap(tagId => tagsById.get(tagId) ?? []);
+  const position = trade.executions.length > 0 ? summarizeExecutions(trade, trade.executions, pnlOptions) : null;
+  const holding = holdingTime(trade);
+  const mae = review?.mae_price != null ? priceExcursion(trade, review.mae_price) : null;
+  const mfe = review?.mfe_price != null ? priceExcursion(trade, review.mfe_price) : null;
+
+  const handleSaveReview = (values: TradeReviewValues) => saveReview(trade.id, values);
+
+  const handleAnnotationsChange = async (index: number, annotations: Annotation[]) => {
+    try {
+      await updateTrade(trade.id, {
+        screenshots: trade.screenshots.map((screenshot, i) => (i === index ? { ...screenshot, annotations } : screenshot)),
+      });
+    } catch (error) {
+      console.error('Error saving annotations:', error);
+      notifyError(error, 'Failed to save annotations. Please try again.');
+    }
+  };
+
+  return (
+    <>
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <PageTitle
+          title={`${trade.type} ${trade.pair}`}
+          description={`${trade.timeframe} · ${formatDate(trade.entry_date, timed)}${
+            trade.exit_price === null ? ' · Open' : ''
+          }`}
+        />
+        <Link to={`/journal/${trade.id}`} className="btn btn-outline px-3 py-1.5 gap-2 text-sm">
+          <Pencil className="h-4 w-4" />
+          Edit Trade
+        </Link>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-6 mb-6">
+        <Card>
+          <div>
+            <h4 className="text-sm text-text-muted mb-1">Net P/L</h4>
+            <p className={`text-2xl font-bold ${pnl ? (net >= 0 ? 'text-success' : 'text-error') : ''}`}>
+              {pnl ? formatMoney(net, pnlOptions.accountCurrency) : '—'}
+            </p>
+            {pnl && costs !== 0 && (
+              <p className="text-xs text-text-muted mt-1">Includes {formatMoney(costs, pnlOptions.accountCurrency)} commission and swap</p>
+            )}
+          </div>
+        </Card>
+        <Card>
+          <div>
+            <h4 className="text-sm text-text-muted mb-1">R-Multiple</h4>
+            <p className="text-2xl font-bold">{pnl && pnl.rMultiple !== null ? `${pnl.rMultiple.toFixed(2)}R` : '—'}</p>
+            <p className="text-xs text-text-muted mt-1">Planned 1:{trade.risk_reward_ratio.toFixed(2)}</p>
+          </div>
+        </Card>
+        <Card>
+          <div>
+            <h4 className="text-sm text-text-muted mb-1">Pips</h4>
+            <p className="text-2xl font-bold">{pnl ? pnl.pips.toFixed(1) : '—'}</p>
+          </div>
+        </Card>
+        <Card>
+          <div>
+            <h4 className="text-sm text-text-muted mb-1">Holding Time</h4>
+            <p className="text-2xl font-bold">{holding ?? 'Open'}</p>
+          </div>
+        </Card>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-6">
+        <Card title="Trade Details">
+          <dl className="grid grid-cols-2 sm:grid-cols-3 gap-4 pt-6">
+            <Detail label="Entry Time">{formatDate(trade.entry_date, timed)}</Detail>
+            <Detail label="Exit Time">{trade.exit_date ? formatDate(trade.exit_date, timed) : '—'}</Detail>
+            <Detail label="Session">{timing ? timing.session : '—'}</Detail>
+            <Detail label="Entry Price">{trade.entry_price}</Detail>
+            <Detail label="Exit Price">{formatNumber(trade.exit_price)}</Detail>
+            <Detail label="Lot Size">{formatNumber(trade.lot_size)}</Detail>
+            <Detail label="Stop Loss">{trade.stop_loss}</Detail>
+            <Detail label="Take Profit">{trade.take_profit}</Detail>
+            <Detail label="Suggested Size">{formatNumber(trade.suggested_lot_size)}</Detail>
+            <Detail label="Commission">{formatMoney(trade.commission, pnlOptions.accountCurrency)}</Detail>
+            <Detail label="Swap">{formatMoney(trade.swap, pnlOptions.accountCurrency)}</Detail>
+            <Detail label="Account">{account?.name ?? '—'}</Detail>
+            <Detail label="Market Sentiment">
+              {trade.market_sentiment ?? '—'}
+              {alignment && (
+                <span className={`block text-xs font-normal ${alignment === 'against' ? 'text-warning' : 'text-text-muted'}`}>
+                  {alignment === 'against' && <AlertTriangle className="inline h-3 w-3 mr-1" />}
+                  {SENTIMENT_ALIGNMENT_LABELS[alignment]}
+                </span>
+              )}
+            </Detail>
+            <Detail label="MAE">
+              {mae ? `${mae.pips.toFixed(1)} pips${mae.rMultiple !== null ? ` · ${mae.rMultiple.toFixed(2)}R` : ''}` : '—'}
+            </Detail>
+            <Detail label="MFE">
+              {mfe ? `${mfe.pips.toFixed(1)} pips${mfe.rMultiple !== null ? ` · ${mfe.rMultiple.toFixed(2)}R` : ''}` : '—'}
+            </Detail>
+          </dl>
+
+          {tags.length > 0 && (
+            <div className="flex flex-wrap gap-2 mt-4">
+              {tags.map(tag => (
+                <span key={tag.id} className="rounded-full bg-primary/10 px-2 py-0.5 text-xs text-primary">
+                  {tag.name}
+                </span>
+              ))}
+            </div>
+          )}
+
+          {trade.plan_checks.length > 0 && (
+            <div className="mt-4">
+              <h4 className="text-xs text-text-muted mb-2">Trading Plan</h4>
+              <ul className="space-y-1">
+                {trade.plan_checks.map(check => (
+                  <li key={check.rule_id} className="flex items-center gap-2 text-sm">
+                    {check.met
+                      ? <CheckCircle2 className="h-4 w-4 text-success" />
+                      : <XCircle className="h-4 w-4 text-error" />}
+                    {check.name}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {timed && <p className="text-xs text-text-muted mt-4">Times recorded in {trade.timezone}</p>}
+        </Card>
+
+        <Card title="Technical Indicators">
+          <dl className="grid grid-cols-3 gap-4 pt-6">
+            <Detail label="BB Upper">{formatNumber(trade.bb_upper)}</Detail>
+            <Detail label="BB Middle">{formatNumber(trade.bb_middle)}</Detail>
+            <Detail label="BB Lower">{formatNumber(trade.bb_lower)}</Detail>
+            <Detail label="MACD Line">{formatNumber(trade.macd_line)}</Detail>
+            <Detail label="MACD Signal">{formatNumber(trade.macd_signal)}</Detail>
+            <Detail label="Histogram">{formatNumber(trade.macd_histogram)}</Detail>
+            <Detail label="Stochastic %K">{formatNumber(trade.stochastic_k)}</Detail>
+            <Detail label="Stochastic %D">{formatNumber(trade.stochastic_d)}</Detail>
+          </dl>
+
+          {conditions.length > 0 && (
+            <div className="flex flex-wrap gap-2 mt-4">
+              {conditions.map(condition => (
+                <span key={condition} className="rounded-md border border-border px-2 py-0.5 text-xs">
+                  {INDICATOR_CONDITIONS[condition].label}
+                </span>
+              ))}
+            </div>
+          )}
+        </Card>
+      </div>
+
+      {position && (
+        <Card title="Executions" className="mb-6">
+          <div className="overflow-x-auto pt-6">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-border text-left">
+                  <th className="px-4 py-3 text-sm font-medium">Time</th>
+                  <th className="px-4 py-3 text-sm font-medium">Side</th>
+                  <th className="px-4 py-3 text-sm font-medium">Price</th>
+                  <th className="px-4 py-3 text-sm font-medium">Lots</th>
+                  <th className="px-4 py-3 text-sm font-medium text-right">Realised</th>
+                </tr>
+              </thead>
+              <tbody>
+                {[...trade.executions]
+                  .sort((a, b) => a.executed_at.localeCompare(b.executed_at))
+                  .map((execution, index) => {
+                    const partial = position.partials.find(item => item.execution === execution);
+                    return (
+                      <tr key={index} className="border-b border-border hover:bg-background/50">
+                        <td className="px-4 py-3 text-sm">{formatDate(execution.executed_at, timed)}</td>
+                        <td className="px-4 py-3 text-sm">{execution.side === trade.type ? 'Add' : 'Close'}</td>
+                        <td className="px-4 py-3 text-sm">{execution.price}</td>
+                        <td className="px-4 py-3 text-sm">{execution.lot_size}</td>
+                        <td className={`px-4 py-3 text-sm text-right ${
+                          partial ? (partial.amount >= 0 ? 'text-success' : 'text-error') : 'text-text-muted'
+                        }`}>
+                          {partial ? `${formatMoney(partial.amount, pnlOptions.accountCurrency)} · ${partial.pips.toFixed(1)} pips` : '—'}
+                        </td>
+                      </tr>
+                    );
+                  })}
+              </tbody>
+            </table>
+          </div>
+        </Card>
+      )}
+
+      {trade.screenshots.length > 0 && (
+        <Card title="Screenshots" className="mb-6">
+          <div className="grid gap-3 grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 pt-6">
+            {trade.screenshots.map((screenshot, index) => (
+              <button
+                key={screenshot.url}
+                type="button"
+                className="rounded-md border border-border p-2 text-left hover:border-primary"
+                onClick={() => setViewing(index)}
+              >
+                <img
+                  src={screenshot.url}
+                  alt={`${SCREENSHOT_LABEL_NAMES[screenshot.label]} chart`}
+                  className="h-32 w-full rounded object-cover"
+                />
+                <span className="mt-2 block text-xs text-text-muted">
+                  {SCREENSHOT_LABEL_NAMES[screenshot.label]}
+                  {screenshot.annotations.length > 0 && ` · ${screenshot.annotations.length} annotations`}
+                </span>
+              </button>
+            ))}
+          </div>
+        </Card>
+      )}
+
+      {trade.notes && (
+        <Card title="Notes" className="mb-6">
+          <p className="pt-6 text-sm whitespace-pre-wrap">{trade.notes}</p>
+        </Card>
+      )}
+
+      <Card
+        title="Trade Review"
+        description={review
+          ? `Last updated ${format(parseISO(review.updated_at), 'dd MMM yyyy HH:mm')}`
+          : 'Reflect on how the trade was executed'}
+      >
+        <TradeReviewForm trade={trade} review={review} onSave={handleSaveReview} />
+      </Card>
+
+      {viewing !== null && (
+        <ScreenshotGallery
+          screenshots={trade.screenshots}
+          startIndex={viewing}
+          onClose={() => setViewing(null)}
+          onAnnotationsChange={handleAnnotationsChange}
+        />
+      )}
+    </>
+  );
+};
+
+export default TradeDetail;
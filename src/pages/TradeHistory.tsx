@@ -1,25 +1,450 @@
-import React from 'react';
-import { History } from 'lucide-react';
+import React, { useMemo, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { format, parseISO, startOfQuarter, endOfQuarter, subQuarters, subDays, startOfYear } from 'date-fns';
+import { AlertTriangle, ArrowDown, ArrowUp, ArrowUpDown, CheckCircle2, Eye, FilterX, Pencil } from 'lucide-react';
 import PageTitle from '../components/ui/PageTitle';
+import Card from '../components/ui/Card';
+import Pagination from '../components/ui/Pagination';
+import ClosePositionDialog from '../components/trades/ClosePositionDialog';
+import ExportButtons from '../components/trades/ExportButtons';
+import {
+  CURRENCY_PAIRS,
+  TIMEFRAMES,
+  MARKET_SENTIMENTS,
+  Trade,
+  TradeFilters,
+  TradeQuery,
+  TradeSortField,
+} from '../types/trade';
+import { TAG_CATEGORIES, TAG_CATEGORY_LABELS } from '../types/tag';
+import { useTradeExport, useTradePage } from '../hooks/useTrades';
+import { useTags } from '../hooks/useTags';
+import { useAccounts } from '../hooks/useAccounts';
+import { ExportFormat } from '../lib/tradeExport';
+import { PnlOptions, getTradePnl, tradeProfitLoss } from '../lib/pnl';
+import { isAgainstSentiment } from '../lib/sentiment';
+import { PAGE_SIZES, parseTradeQuery, serializeTradeQuery, hasActiveFilters } from '../lib/tradeQuery';
+import { useNotifications } from '../contexts/NotificationContext';
+import { useSelectedAccount } from '../contexts/AccountContext';
+import { formatMoney } from '../lib/money';
+
+interface Column {
+  field: TradeSortField;
+  label: string;
+  render: (trade: Trade, pnlOptions: PnlOptions) => React.ReactNode;
+}
+
+// Trades recorded by date only have no meaningful time to show
+const formatDate = (value: string | null, timed = false) =>
+  value ? format(parseISO(value), timed ? 'dd MMM yyyy HH:mm' : 'dd MMM yyyy') : '—';
+
+const formatNumber = (value: number | null) =>
+  value === null || value === undefined ? '—' : value.toString();
+
+const columns: Column[] = [
+  { field: 'entry_date', label: 'Entry Date', render: trade => formatDate(trade.entry_date, trade.timezone !== null) },
+  { field: 'pair', label: 'Pair', render: trade => <span className="font-medium">{trade.pair}</span> },
+  { field: 'timeframe', label: 'TF', render: trade => trade.timeframe },
+  {
+    field: 'type',
+    label: 'Type',
+    render: trade => (
+      <span className={`px-2 py-1 rounded-full text-xs ${
+        trade.type === 'Buy' ? 'bg-success/20 text-success' : 'bg-error/20 text-error'
+      }`}>
+        {trade.type}
+      </span>
+    ),
+  },
+  { field: 'entry_price', label: 'Entry', render: trade => formatNumber(trade.entry_price) },
+  { field: 'exit_price', label: 'Exit', render: trade => formatNumber(trade.exit_price) },
+  { field: 'stop_loss', label: 'SL', render: trade => formatNumber(trade.stop_loss) },
+  { field: 'take_profit', label: 'TP', render: trade => formatNumber(trade.take_profit) },
+  {
+    field: 'profit_loss',
+    label: 'P/L',
+    render: (trade, pnlOptions) => {
+      const pnl = getTradePnl(trade, pnlOptions);
+      if (!pnl) return <span className="text-text-muted">Open</span>;
+
+      const amount = tradeProfitLoss(trade, pnlOptions);
+      return (
+        <div className={amount >= 0 ? 'text-success' : 'text-error'}>
+          <span className="font-medium">{formatMoney(amount, pnlOptions.accountCurrency)}</span>
+          <span className="block text-xs opacity-80">
+            {pnl.pips.toFixed(1)} pips{pnl.rMultiple !== null && ` · ${pnl.rMultiple.toFixed(2)}R`}
+            {/* Partially closed positions show what has been realised so far */}
+            {trade.exit_price === null && ' · partial'}
+          </span>
+        </div>
+      );
+    },
+  },
+  { field: 'risk_reward_ratio', label: 'R:R', render: trade => trade.risk_reward_ratio.toFixed(2) },
+  {
+    field: 'market_sentiment',
+    label: 'Sentiment',
+    render: trade => (
+      <span className="inline-flex items-center gap-1">
+        {trade.market_sentiment ?? '—'}
+        {isAgainstSentiment(trade) && (
+          <span title="Taken against your recorded sentiment">
+            <AlertTriangle className="h-3.5 w-3.5 text-warning" aria-label="Against sentiment" />
+          </span>
+        )}
+      </span>
+    ),
+  },
+  { field: 'exit_date', label: 'Exit Date', render: trade => formatDate(trade.exit_date, trade.timezone !== null) },
+];
+
+const toDateParam = (date: Date) => format(date, 'yyyy-MM-dd');
+
+const datePresets = [
+  {
+    label: 'Last 30 days',
+    range: () => ({ from: toDateParam(subDays(new Date(), 30)), to: toDateParam(new Date()) }),
+  },
+  {
+    label: 'This quarter',
+    range: () => ({ from: toDateParam(startOfQuarter(new Date())), to: toDateParam(new Date()) }),
+  },
+  {
+    label: 'Last quarter',
+    range: () => {
+      const lastQuarter = subQuarters(new Date(), 1);
+      return { from: toDateParam(startOfQuarter(lastQuarter)), to: toDateParam(endOfQuarter(lastQuarter)) };
+    },
+  },
+  {
+    label: 'Year to date',
+    range: () => ({ from: toDateParam(startOfYear(new Date())), to: toDateParam(new Date()) }),
+  },
+];
 
 const TradeHistory: React.FC = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [closingTrade, setClosingTrade] = useState<Trade | null>(null);
+
+  // The URL is the single source of truth for filters, sorting and paging
+  const query = useMemo(() => parseTradeQuery(searchParams), [searchParams]);
+  const { trades, total, loading, error } = useTradePage(query);
+  const { notifyError } = useNotifications();
+  const { exportMatching, exporting } = useTradeExport();
+  const { tags } = useTags();
+  const { accounts } = useAccounts();
+  const { tradePnlOptions } = useSelectedAccount();
+
+  const updateQuery = (changes: Partial<TradeQuery>) => {
+    setSearchParams(serializeTradeQuery({ ...query, ...changes }));
+  };
+
+  const updateFilters = (changes: Partial<TradeFilters>) => {
+    // Any filter change invalidates the current page
+    updateQuery({ filters: { ...query.filters, ...changes }, page: 1 });
+  };
+
+  const handleSort = (field: TradeSortField) => {
+    if (query.sort === field) {
+      updateQuery({ direction: query.direction === 'asc' ? 'desc' : 'asc', page: 1 });
+    } else {
+      updateQuery({ sort: field, direction: 'desc', page: 1 });
+    }
+  };
+
+  const handleExport = async (format: ExportFormat) => {
+    try {
+      await exportMatching(query, format);
+    } catch (error) {
+      console.error('Error exporting trades:', error);
+      notifyError(error, 'Failed to export trades. Please try again.');
+    }
+  };
+
+  const selectValue = <T extends string>(value: string): T | undefined =>
+    value === '' ? undefined : (value as T);
+
   return (
-    <div className="p-6">
-      <PageTitle 
-        title="Trade History" 
-        icon={<History className="w-6 h-6" />}
-        description="View and analyze your complete trading history"
-      />
-      
-      <div className="mt-6 bg-white dark:bg-gray-800 rounded-lg shadow">
-        <div className="p-6">
-          <div className="text-gray-600 dark:text-gray-300">
-            Your trading history will be displayed here. The component needs to be implemented with your specific trading data and requirements.
+    <>
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <PageTitle
+          title="Trade History"
+          description="View and analyze your complete trading history"
+        />
+        <ExportButtons onExport={handleExport} disabled={exporting || total === 0} />
+      </div>
+
+      <Card title="Filters" className="mb-6">
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+          <div>
+            <label htmlFor="filter-pair" className="block text-sm font-medium mb-1">Currency Pair</label>
+            <select
+              id="filter-pair"
+              className="input"
+              value={query.filters.pair ?? ''}
+              onChange={(e) => updateFilters({ pair: selectValue(e.target.value) })}
+            >
+              <option value="">All pairs</option>
+              {CURRENCY_PAIRS.map(pair => (
+                <option key={pair} value={pair}>{pair}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label htmlFor="filter-timeframe" className="block text-sm font-medium mb-1">Timeframe</label>
+            <select
+              id="filter-timeframe"
+              className="input"
+              value={query.filters.timeframe ?? ''}
+              onChange={(e) => updateFilters({ timeframe: selectValue(e.target.value) })}
+            >
+              <option value="">All timeframes</option>
+              {TIMEFRAMES.map(tf => (
+                <option key={tf} value={tf}>{tf}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label htmlFor="filter-type" className="block text-sm font-medium mb-1">Trade Type</label>
+            <select
+              id="filter-type"
+              className="input"
+              value={query.filters.type ?? ''}
+              onChange={(e) => updateFilters({ type: selectValue(e.target.value) })}
+            >
+              <option value="">Buy &amp; Sell</option>
+              <option value="Buy">Buy</option>
+              <option value="Sell">Sell</option>
+            </select>
+          </div>
+
+          <div>
+            <label htmlFor="filter-sentiment" className="block text-sm font-medium mb-1">Market Sentiment</label>
+            <select
+              id="filter-sentiment"
+              className="input"
+              value={query.filters.market_sentiment ?? ''}
+              onChange={(e) => updateFilters({ market_sentiment: selectValue(e.target.value) })}
+            >
+              <option value="">Any sentiment</option>
+              {MARKET_SENTIMENTS.map(sentiment => (
+                <option key={sentiment} value={sentiment}>{sentiment}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label htmlFor="filter-tag" className="block text-sm font-medium mb-1">Tag</label>
+            <select
+              id="filter-tag"
+              className="input"
+              value={query.filters.tag ?? ''}
+              onChange={(e) => updateFilters({ tag: e.target.value || undefined })}
+            >
+              <option value="">Any tag</option>
+              {TAG_CATEGORIES.map(category => (
+                <optgroup key={category} label={TAG_CATEGORY_LABELS[category]}>
+                  {tags.filter(tag => tag.category === category).map(tag => (
+                    <option key={tag.id} value={tag.id}>{tag.name}</option>
+                  ))}
+                </optgroup>
+              ))}
+            </select>
+          </div>
+
+          {accounts.length > 0 && (
+            <div>
+              <label htmlFor="filter-account" className="block text-sm font-medium mb-1">Account</label>
+              <select
+                id="filter-account"
+                className="input"
+                value={query.filters.account ?? ''}
+                onChange={(e) => updateFilters({ account: e.target.value || undefined })}
+              >
+                <option value="">All accounts</option>
+                {accounts.map(account => (
+                  <option key={account.id} value={account.id}>{account.name}</option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          <div>
+            <label htmlFor="filter-from" className="block text-sm font-medium mb-1">From</label>
+            <input
+              type="date"
+              id="filter-from"
+              className="input"
+              value={query.filters.from ?? ''}
+              onChange={(e) => updateFilters({ from: e.target.value || undefined })}
+            />
+          </div>
+
+          <div>
+            <label htmlFor="filter-to" className="block text-sm font-medium mb-1">To</label>
+            <input
+              type="date"
+              id="filter-to"
+              className="input"
+              value={query.filters.to ?? ''}
+              onChange={(e) => updateFilters({ to: e.target.value || undefined })}
+            />
+          </div>
+
+          <div>
+            <label htmlFor="filter-outcome" className="block text-sm font-medium mb-1">Outcome</label>
+            <select
+              id="filter-outcome"
+              className="input"
+              value={query.filters.outcome ?? ''}
+              onChange={(e) => updateFilters({ outcome: selectValue(e.target.value) })}
+            >
+              <option value="">Wins &amp; losses</option>
+              <option value="win">Winning trades</option>
+              <option value="loss">Losing trades</option>
+              <option value="open">Open positions</option>
+            </select>
+          </div>
+
+          <div>
+            <label htmlFor="filter-preset" className="block text-sm font-medium mb-1">Quick Range</label>
+            <select
+              id="filter-preset"
+              className="input"
+              value=""
+              onChange={(e) => {
+                const preset = datePresets.find(p => p.label === e.target.value);
+                if (preset) updateFilters(preset.range());
+              }}
+            >
+              <option value="">Choose a period…</option>
+              {datePresets.map(preset => (
+                <option key={preset.label} value={preset.label}>{preset.label}</option>
+              ))}
+            </select>
           </div>
         </div>
-      </div>
-    </div>
+
+        {hasActiveFilters(query.filters) && (
+          <div className="flex justify-end mt-4">
+            <button
+              type="button"
+              className="btn btn-outline px-3 py-2 gap-2"
+              onClick={() => updateQuery({ filters: {}, page: 1 })}
+            >
+              <FilterX className="h-4 w-4" />
+              Clear filters
+            </button>
+          </div>
+        )}
+      </Card>
+
+      <Card>
+        <div className="overflow-x-auto pt-6">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-border text-left">
+                {columns.map(column => (
+                  <th key={column.field} className="px-4 py-3 text-sm font-medium whitespace-nowrap">
+                    <button
+                      type="button"
+                      className="inline-flex items-center gap-1 hover:text-primary"
+                      onClick={() => handleSort(column.field)}
+                    >
+                      {column.label}
+                      {query.sort !== column.field ? (
+                        <ArrowUpDown className="h-3 w-3 text-text-muted" />
+                      ) : query.direction === 'asc' ? (
+                        <ArrowUp className="h-3 w-3" />
+                      ) : (
+                        <ArrowDown className="h-3 w-3" />
+                      )}
+                    </button>
+                  </th>
+                ))}
+                <th className="px-4 py-3 text-sm font-medium text-right">Actions</th>
+              </tr>
+            </thead>
+            <tbody className={loading ? 'opacity-50' : ''}>
+              {trades.map(trade => (
+                <tr key={trade.id} className="border-b border-border hover:bg-background/50">
+                  {columns.map(column => (
+                    <td key={column.field} className="px-4 py-3 text-sm whitespace-nowrap">
+                      {column.render(trade, tradePnlOptions(trade))}
+                    </td>
+                  ))}
+                  <td className="px-4 py-3 text-sm whitespace-nowrap text-right">
+                    <div className="inline-flex items-center gap-1">
+                      {trade.exit_price === null && (
+                        <button
+                          type="button"
+                          className="rounded-md p-1.5 text-text-muted hover:bg-background hover:text-success"
+                          onClick={() => setClosingTrade(trade)}
+                          aria-label="Close position"
+                          title="Close position"
+                        >
+                          <CheckCircle2 className="h-4 w-4" />
+                        </button>
+                      )}
+                      <Link
+                        to={`/trades/${trade.id}`}
+                        className="rounded-md p-1.5 text-text-muted hover:bg-background hover:text-primary"
+                        aria-label="View trade"
+                        title="View trade"
+                      >
+                        <Eye className="h-4 w-4" />
+                      </Link>
+                      <Link
+                        to={`/journal/${trade.id}`}
+                        className="rounded-md p-1.5 text-text-muted hover:bg-background hover:text-primary"
+                        aria-label="Edit trade"
+                        title="Edit trade"
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Link>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+              {!loading && trades.length === 0 && (
+                <tr>
+                  <td colSpan={columns.length + 1} className="px-4 py-8 text-center text-text-muted">
+                    {error ?? (hasActiveFilters(query.filters)
+                      ? 'No trades match these filters'
+                      : 'No trades recorded yet')}
+                  </td>
+                </tr>
+              )}
+              {loading && trades.length === 0 && (
+                <tr>
+                  <td colSpan={columns.length + 1} className="px-4 py-8 text-center text-text-muted">
+                    Loading trades...
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        <Pagination
+          page={query.page}
+          pageSize={query.pageSize}
+          total={total}
+          pageSizes={PAGE_SIZES}
+          onPageChange={(page) => updateQuery({ page })}
+          onPageSizeChange={(pageSize) => updateQuery({ pageSize, page: 1 })}
+        />
+      </Card>
+
+      <ClosePositionDialog
+        trade={closingTrade}
+        onClose={() => setClosingTrade(null)}
+        onClosed={() => setClosingTrade(null)}
+      />
+    </>
   );
 };
 
-export default TradeHistory;
\ No newline at end of file
+export default TradeHistory;
@@ -1,15 +1,65 @@
-import React, { useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
 import { useForm, Controller } from 'react-hook-form';
-import { Upload, AlertCircle } from 'lucide-react';
+import { AlertCircle, Trash2, CheckCircle2 } from 'lucide-react';
 import PageTitle from '../components/ui/PageTitle';
 import Card from '../components/ui/Card';
-import { CurrencyPair, Timeframe, TradeType, MarketSentiment, TradeFormData } from '../types/trade';
-import { useSupabase } from '../contexts/SupabaseContext';
+import ConfirmDialog from '../components/ui/ConfirmDialog';
+import ClosePositionDialog from '../components/trades/ClosePositionDialog';
+import PositionSizePanel from '../components/trades/PositionSizePanel';
+import TagPicker from '../components/trades/TagPicker';
+import ExecutionList from '../components/trades/ExecutionList';
+import ScreenshotManager from '../components/trades/ScreenshotManager';
+import PlanChecklist from '../components/trades/PlanChecklist';
+import { CURRENCY_PAIRS, TIMEFRAMES, MARKET_SENTIMENTS, Execution, Trade, TradeFormData } from '../types/trade';
+import { useSaveTrade, useTrade } from '../hooks/useTrades';
+import { useSettings } from '../hooks/useSettings';
+import { useAccounts } from '../hooks/useAccounts';
+import { useAccountBalance } from '../hooks/useAccountBalance';
+import { usePlanRules } from '../hooks/usePlanRules';
+import { useSyncStatus } from '../hooks/useSyncStatus';
+import { useSelectedAccount } from '../contexts/AccountContext';
+import { useNotifications } from '../contexts/NotificationContext';
+import { calculateRiskReward } from '../lib/tradeCalculations';
+import { calculatePnl } from '../lib/pnl';
+import { calculatePositionSize } from '../lib/positionSize';
+import { formDataToRecord, toInputDateTime, tradeToFormData } from '../lib/tradeForm';
+import { positionFields, tradeExecutions, validateExecutions } from '../lib/executions';
+import { localTimeZone } from '../lib/sessions';
+import { planChecks } from '../lib/plan';
+import { TradeFormContext, tradeFormResolver } from '../lib/tradeSchema';
+import { formatMoney } from '../lib/money';
+
+// New trades go to the account picked in the navbar
+const createDefaultValues = (accountId: string | null): Partial<TradeFormData> => ({
+  account_id: accountId ?? undefined,
+  pair: 'XAU/USD',
+  timeframe: 'H4',
+  type: 'Buy',
+  entry_date: toInputDateTime(new Date()),
+  market_sentiment: 'Neutral',
+  tag_ids: [],
+  executions: [],
+  screenshots: [],
+  plan_checks: []
+});
 
 const TradeJournal: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const isEditing = id !== undefined;
   const [isSubmitting, setIsSubmitting] = useState(false);
-  const [previewImage, setPreviewImage] = useState<string | null>(null);
-  const { supabase } = useSupabase();
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  const [isDeleting, setIsDeleting] = useState(false);
+  const [closingTrade, setClosingTrade] = useState<Trade | null>(null);
+  const { trade: existingTrade, loading: loadingTrade, error: loadError, missing } = useTrade(id);
+  const { saveTrade, deleteTrade, storeScreenshots, removeScreenshots } = useSaveTrade();
+  const { status: syncStatus } = useSyncStatus();
+  const { notifySuccess, notifyWarning, notifyError } = useNotifications();
+  const { settings } = useSettings();
+  const { accounts } = useAccounts();
+  const { rules } = usePlanRules();
+  const { accountId, tradePnlOptions } = useSelectedAccount();
   
   const { 
     register, 
@@ -17,175 +67,207 @@ const TradeJournal: React.FC = () => {
     control,
     watch,
     reset,
-    formState: { errors } 
-  } = useForm<TradeFormData>({
-    defaultValues: {
-      pair: 'XAU/USD',
-      timeframe: 'H4',
-      type: 'Buy',
-      entry_date: new Date().toISOString().split('T')[0],
-      market_sentiment: 'Neutral'
-    }
+    getValues,
+    setValue,
+    formState: { errors, isDirty } 
+  } = useForm<TradeFormData, TradeFormContext>({
+    defaultValues: createDefaultValues(accountId),
+    resolver: tradeFormResolver,
+    context: { sizeOptional: existingTrade?.lot_size === null },
   });
 
+  // Fill the form with the trade being edited, or start a blank entry. The
+  // same trade arrives again after every sync or realtime update; those are
+  // only taken in while the form holds no unsaved edits.
+  const loadedTradeId = useRef<string | null>();
+  useEffect(() => {
+    const tradeId = existingTrade?.id ?? null;
+    if (tradeId === loadedTradeId.current && isDirty) return;
+    loadedTradeId.current = tradeId;
+
+    if (existingTrade) {
+      reset(tradeToFormData(existingTrade));
+    } else {
+      reset(createDefaultValues(accountId));
+    }
+  }, [existingTrade, accountId, isDirty, reset]);
+
   // For real-time calculation of risk:reward ratio
   const stopLoss = watch('stop_loss');
   const takeProfit = watch('take_profit');
   const entryPrice = watch('entry_price');
   const tradeType = watch('type');
+  const pair = watch('pair');
+  const lotSize = watch('lot_size');
+  const exitPrice = watch('exit_price');
+  const marketSentiment = watch('market_sentiment');
+  const costs = (watch('commission') || 0) + (watch('swap') || 0);
+  const hasExecutions = (watch('executions') ?? []).length > 0;
+  // Results, risk and sizing are in the currency of the account the trade is
+  // entered for, against that account's balance
+  const tradeAccountId = watch('account_id') || null;
+  const pnlOptions = tradePnlOptions({ account_id: tradeAccountId });
+  const accountBalance = useAccountBalance(tradeAccountId);
   
-  // Calculate risk:reward ratio
-  const calculateRiskReward = () => {
-    if (!stopLoss || !takeProfit || !entryPrice) return 0;
-    
-    let risk = 0, reward = 0;
-    
-    if (tradeType === 'Buy') {
-      risk = entryPrice - stopLoss;
-      reward = takeProfit - entryPrice;
-    } else {
-      risk = stopLoss - entryPrice;
-      reward = entryPrice - takeProfit;
-    }
-    
-    if (risk <= 0) return 0;
-    return (reward / risk).toFixed(2);
+  const riskReward = calculateRiskReward(tradeType, entryPrice, stopLoss, takeProfit);
+
+  const sizing = calculatePositionSize({
+    pair,
+    entryPrice,
+    stopLoss,
+    accountBalance,
+    riskPercentage: settings.risk_percentage,
+  }, pnlOptions);
+
+  // Preview the result the engine will store once an exit price is entered
+  const projectedPnl = entryPrice && exitPrice
+    ? calculatePnl(
+        { pair, type: tradeType, entry_price: entryPrice, stop_loss: stopLoss, lot_size: lotSize || null },
+        exitPrice,
+        pnlOptions
+      )
+    : null;
+
+  // Fills matching the entry and exit typed so far, in datetime-local format
+  const initialExecutions = (): Execution[] => tradeExecutions({
+    type: tradeType,
+    entry_price: entryPrice || 0,
+    entry_date: getValues('entry_date'),
+    exit_price: exitPrice || null,
+    exit_date: getValues('exit_date') || null,
+    lot_size: lotSize || 0.01,
+    executions: [],
+  });
+
+  // Mirror the fills into the entry, size and exit fields they replace
+  const handleExecutionsChange = (executions: Execution[]) => {
+    if (executions.length === 0 || validateExecutions(tradeType, executions)) return;
+
+    const fields = positionFields({ pair, type: tradeType, stop_loss: stopLoss }, executions);
+    setValue('entry_price', fields.entry_price);
+    setValue('lot_size', fields.lot_size ?? 0);
+    setValue('entry_date', fields.entry_date);
+    setValue('exit_price', fields.exit_price ?? undefined);
+    setValue('exit_date', fields.exit_date ?? undefined);
   };
 
   const onSubmit = async (data: TradeFormData) => {
     setIsSubmitting(true);
     
     try {
-      let screenshot_url = null;
-      
-      // Handle screenshot upload if exists
-      if (data.screenshot) {
-        const file = data.screenshot;
-        const fileExt = file.name.split('.').pop();
-        const fileName = `${new Date().getTime()}.${fileExt}`;
-        const filePath = `screenshots/${fileName}`;
-        
-        // Upload file to Supabase Storage
-        const { data: uploadData, error: uploadError } = await supabase
-          .storage
-          .from('trading-journal')
-          .upload(filePath, file);
-          
-        if (uploadError) throw uploadError;
-        
-        // Get public URL
-        const { data: urlData } = supabase
-          .storage
-          .from('trading-journal')
-          .getPublicUrl(filePath);
-          
-        screenshot_url = urlData.publicUrl;
-      }
-      
-      // Calculate P/L if both entry and exit price are provided
-      let profit_loss = null;
-      if (data.entry_price && data.exit_price) {
-        if (data.type === 'Buy') {
-          profit_loss = (data.exit_price - data.entry_price) * 100; // Simplified calculation
-        } else {
-          profit_loss = (data.entry_price - data.exit_price) * 100; // Simplified calculation
-        }
+      const screenshots = await storeScreenshots(data.screenshots ?? []);
+
+      const fields = formDataToRecord(data, pnlOptions, existingTrade ?? undefined);
+      const record = {
+        ...fields,
+        screenshots,
+        plan_checks: planChecks(rules, fields, accountBalance, data.plan_checks ?? [], pnlOptions),
+        // Keep the suggestion made when the trade was first entered
+        suggested_lot_size: existingTrade?.suggested_lot_size ?? sizing?.lotSize ?? null,
+      };
+
+      // Saved offline, the trade is queued and sent once the server can be reached
+      const notifySaved = (message: string) => (syncStatus?.state === 'offline'
+        ? notifyWarning(`${message} on this device. It will sync when you are back online.`)
+        : notifySuccess(`${message}.`));
+
+      if (existingTrade) {
+        await saveTrade(record, existingTrade.id);
+        await removeScreenshots(
+          existingTrade.screenshots.filter(previous => !screenshots.some(kept => kept.url === previous.url))
+        );
+
+        notifySaved('Trade updated');
+      } else {
+        await saveTrade(record);
+
+        // Reset form
+        reset(createDefaultValues(accountId));
+
+        notifySaved('Trade saved');
       }
-      
-      // Calculate risk/reward ratio
-      const risk_reward_ratio = data.take_profit && data.stop_loss ? 
-        parseFloat(calculateRiskReward()) : 0;
-      
-      // Insert trade data to Supabase
-      const { error } = await supabase
-        .from('trades')
-        .insert({
-          pair: data.pair,
-          timeframe: data.timeframe,
-          type: data.type,
-          entry_price: data.entry_price,
-          exit_price: data.exit_price || null,
-          stop_loss: data.stop_loss,
-          take_profit: data.take_profit,
-          entry_date: data.entry_date,
-          exit_date: data.exit_date || null,
-          profit_loss,
-          risk_reward_ratio,
-          bb_upper: data.bb_upper || null,
-          bb_middle: data.bb_middle || null,
-          bb_lower: data.bb_lower || null,
-          macd_line: data.macd_line || null,
-          macd_signal: data.macd_signal || null,
-          macd_histogram: data.macd_histogram || null,
-          stochastic_k: data.stochastic_k || null,
-          stochastic_d: data.stochastic_d || null,
-          market_sentiment: data.market_sentiment || null,
-          notes: data.notes || null,
-          screenshot_url,
-          user_id: 'user-id-placeholder' // In a real app, get from auth context
-        });
-        
-      if (error) throw error;
-      
-      // Reset form
-      reset();
-      setPreviewImage(null);
-      
-      // Show success message - in a real app, use a toast
-      alert('Trade saved successfully!');
-      
     } catch (error) {
       console.error('Error saving trade:', error);
-      // In a real app, show error toast
-      alert('Failed to save trade. Please try again.');
+      notifyError(error, 'Failed to save trade. Please try again.');
     } finally {
       setIsSubmitting(false);
     }
   };
 
-  const handleImageChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
-    
-    // Preview image
-    const reader = new FileReader();
-    reader.onloadend = () => {
-      setPreviewImage(reader.result as string);
-    };
-    reader.readAsDataURL(file);
+  const handleDelete = async () => {
+    if (!existingTrade) return;
+
+    setIsDeleting(true);
+    try {
+      await deleteTrade(existingTrade.id);
+      navigate('/history');
+    } catch (error) {
+      console.error('Error deleting trade:', error);
+      notifyError(error, 'Failed to delete trade. Please try again.');
+      setIsDeleting(false);
+      setConfirmDelete(false);
+    }
   };
 
-  const currencyPairs: CurrencyPair[] = [
-    'XAU/USD', 'EUR/USD', 'GBP/USD', 'USD/JPY', 'USD/CHF', 
-    'USD/CAD', 'AUD/USD', 'NZD/USD', 'EUR/GBP', 'EUR/JPY', 'GBP/JPY', 'Other'
-  ];
-  
-  const timeframes: Timeframe[] = ['M5', 'M15', 'M30', 'H1', 'H4', 'D1', 'W1', 'MN'];
-  
-  const sentiments: MarketSentiment[] = [
-    'Strong Bullish', 'Moderate Bullish', 'Neutral', 'Moderate Bearish', 'Strong Bearish'
-  ];
+  if (loadingTrade) {
+    return (
+      <div className="flex items-center justify-center h-96">
+        <div className="text-text-muted">Loading trade...</div>
+      </div>
+    );
+  }
+
+  if (isEditing && !existingTrade) {
+    return (
+      <>
+        <PageTitle title="Edit Trade" />
+        <Card>
+          <p className="pt-6 text-text-muted">
+            {missing || !loadError
+              ? 'This trade could not be found. It may have been deleted.'
+              : 'Failed to load trade. Please try again.'}
+          </p>
+        </Card>
+      </>
+    );
+  }
+
+  const isOpen = existingTrade !== null && existingTrade.exit_price === null;
 
   return (
     <>
       <PageTitle 
-        title="Trade Journal" 
-        description="Record your trades with detailed analysis"
+        title={isEditing ? 'Edit Trade' : 'Trade Journal'} 
+        description={isEditing
+          ? 'Update, close or remove an existing trade'
+          : 'Record your trades with detailed analysis'}
       />
       
-      <Card title="New Trade Entry" className="mb-6">
+      <Card title={isEditing ? `${existingTrade?.type} ${existingTrade?.pair}` : 'New Trade Entry'} className="mb-6">
         <form onSubmit={handleSubmit(onSubmit)}>
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4 mb-6">
             {/* Trade Basic Information */}
             <div className="space-y-4">
+              {accounts.length > 0 && (
+                <div>
+                  <label htmlFor="account_id" className="block text-sm font-medium mb-1">Account</label>
+                  <select id="account_id" className="input" {...register('account_id')}>
+                    <option value="">No account</option>
+                    {accounts.map(account => (
+                      <option key={account.id} value={account.id}>{account.name}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
               <div>
                 <label htmlFor="pair" className="block text-sm font-medium mb-1">Currency Pair</label>
                 <select 
                   id="pair"
                   className="input"
-                  {...register('pair', { required: 'Currency pair is required' })}
+                  {...register('pair')}
                 >
-                  {currencyPairs.map(pair => (
+                  {CURRENCY_PAIRS.map(pair => (
                     <option key={pair} value={pair}>{pair}</option>
                   ))}
                 </select>
@@ -199,9 +281,9 @@ const TradeJournal: React.FC = () => {
                 <select 
                   id="timeframe"
                   className="input"
-                  {...register('timeframe', { required: 'Timeframe is required' })}
+                  {...register('timeframe')}
                 >
-                  {timeframes.map(tf => (
+                  {TIMEFRAMES.map(tf => (
                     <option key={tf} value={tf}>{tf}</option>
                   ))}
                 </select>
@@ -218,7 +300,7 @@ const TradeJournal: React.FC = () => {
                       type="radio" 
                       value="Buy" 
                       className="mr-2"
-                      {...register('type', { required: 'Trade type is required' })} 
+                      {...register('type')} 
                     />
                     <span className="text-sm">Buy</span>
                   </label>
@@ -238,12 +320,13 @@ const TradeJournal: React.FC = () => {
               </div>
               
               <div>
-                <label htmlFor="entry_date" className="block text-sm font-medium mb-1">Entry Date</label>
+                <label htmlFor="entry_date" className="block text-sm font-medium mb-1">Entry Time</label>
                 <input 
-                  type="date" 
+                  type="datetime-local" 
                   id="entry_date"
                   className="input"
-                  {...register('entry_date', { required: 'Entry date is required' })}
+                  readOnly={hasExecutions}
+                  {...register('entry_date')}
                 />
                 {errors.entry_date && (
                   <p className="text-error text-xs mt-1">{errors.entry_date.message}</p>
@@ -251,13 +334,18 @@ const TradeJournal: React.FC = () => {
               </div>
               
               <div>
-                <label htmlFor="exit_date" className="block text-sm font-medium mb-1">Exit Date (Optional)</label>
+                <label htmlFor="exit_date" className="block text-sm font-medium mb-1">Exit Time (Optional)</label>
                 <input 
-                  type="date" 
+                  type="datetime-local" 
                   id="exit_date"
                   className="input"
+                  readOnly={hasExecutions}
                   {...register('exit_date')}
                 />
+                {errors.exit_date && (
+                  <p className="text-error text-xs mt-1">{errors.exit_date.message}</p>
+                )}
+                <p className="text-xs text-text-muted mt-1">Times are in your local time zone ({localTimeZone()})</p>
               </div>
             </div>
             
@@ -270,11 +358,8 @@ const TradeJournal: React.FC = () => {
                   id="entry_price"
                   step="0.00001"
                   className="input"
-                  {...register('entry_price', { 
-                    required: 'Entry price is required',
-                    valueAsNumber: true,
-                    min: { value: 0, message: 'Price must be positive' } 
-                  })}
+                  readOnly={hasExecutions}
+                  {...register('entry_price', { valueAsNumber: true })}
                 />
                 {errors.entry_price && (
                   <p className="text-error text-xs mt-1">{errors.entry_price.message}</p>
@@ -288,10 +373,8 @@ const TradeJournal: React.FC = () => {
                   id="exit_price"
                   step="0.00001"
                   className="input"
-                  {...register('exit_price', { 
-                    valueAsNumber: true,
-                    min: { value: 0, message: 'Price must be positive' } 
-                  })}
+                  readOnly={hasExecutions}
+                  {...register('exit_price', { valueAsNumber: true })}
                 />
                 {errors.exit_price && (
                   <p className="text-error text-xs mt-1">{errors.exit_price.message}</p>
@@ -305,11 +388,7 @@ const TradeJournal: React.FC = () => {
                   id="stop_loss"
                   step="0.00001"
                   className="input"
-                  {...register('stop_loss', { 
-                    required: 'Stop loss is required',
-                    valueAsNumber: true,
-                    min: { value: 0, message: 'Price must be positive' } 
-                  })}
+                  {...register('stop_loss', { valueAsNumber: true })}
                 />
                 {errors.stop_loss && (
                   <p className="text-error text-xs mt-1">{errors.stop_loss.message}</p>
@@ -323,22 +402,61 @@ const TradeJournal: React.FC = () => {
                   id="take_profit"
                   step="0.00001"
                   className="input"
-                  {...register('take_profit', { 
-                    required: 'Take profit is required',
-                    valueAsNumber: true,
-                    min: { value: 0, message: 'Price must be positive' } 
-                  })}
+                  {...register('take_profit', { valueAsNumber: true })}
                 />
                 {errors.take_profit && (
                   <p className="text-error text-xs mt-1">{errors.take_profit.message}</p>
                 )}
               </div>
               
+              <div>
+                <label htmlFor="lot_size" className="block text-sm font-medium mb-1">Lot Size</label>
+                <input 
+                  type="number" 
+                  id="lot_size"
+                  step="0.01"
+                  className="input"
+                  readOnly={hasExecutions}
+                  {...register('lot_size', { valueAsNumber: true })}
+                />
+                {errors.lot_size && (
+                  <p className="text-error text-xs mt-1">{errors.lot_size.message}</p>
+                )}
+              </div>
+
+              <div>
+                <div className="grid grid-cols-2 gap-2">
+                  <div>
+                    <label htmlFor="commission" className="block text-sm font-medium mb-1">Commission</label>
+                    <input
+                      type="number"
+                      id="commission"
+                      step="0.01"
+                      className="input"
+                      placeholder="-7.00"
+                      {...register('commission', { valueAsNumber: true })}
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="swap" className="block text-sm font-medium mb-1">Swap</label>
+                    <input
+                      type="number"
+                      id="swap"
+                      step="0.01"
+                      className="input"
+                      placeholder="0.00"
+                      {...register('swap', { valueAsNumber: true })}
+                    />
+                  </div>
+                </div>
+                <p className="text-xs text-text-muted mt-1">Costs are negative, as on your broker statement.</p>
+              </div>
+              
               <div>
                 <label className="block text-sm font-medium mb-1">Risk/Reward Ratio</label>
                 <div className="input flex items-center justify-between">
-                  <span className="font-medium">1:{calculateRiskReward()}</span>
-                  {parseFloat(calculateRiskReward()) < 1 && (
+                  <span className="font-medium">1:{riskReward.toFixed(2)}</span>
+                  {riskReward < 1 && (
                     <span className="flex items-center text-xs text-warning">
                       <AlertCircle className="h-3 w-3 mr-1" />
                       Low R:R ratio
@@ -346,6 +464,26 @@ const TradeJournal: React.FC = () => {
                   )}
                 </div>
               </div>
+
+              {projectedPnl && (
+                <div>
+                  <label className="block text-sm font-medium mb-1">Result</label>
+                  <div className={`input flex items-center justify-between font-medium ${
+                    projectedPnl.priceMove >= 0 ? 'text-success' : 'text-error'
+                  }`}>
+                    <span>
+                      {projectedPnl.amount !== null ? formatMoney(projectedPnl.amount, pnlOptions.accountCurrency) : '—'}
+                      {projectedPnl.amount !== null && costs !== 0 && (
+                        <span className="text-xs text-text-muted"> · net {formatMoney(projectedPnl.amount + costs, pnlOptions.accountCurrency)}</span>
+                      )}
+                    </span>
+                    <span className="text-xs">
+                      {projectedPnl.pips.toFixed(1)} pips
+                      {projectedPnl.rMultiple !== null && ` · ${projectedPnl.rMultiple.toFixed(2)}R`}
+                    </span>
+                  </div>
+                </div>
+              )}
             </div>
             
             {/* Technical Indicators */}
@@ -362,6 +500,9 @@ const TradeJournal: React.FC = () => {
                     className="input h-8 text-xs"
                     {...register('bb_upper', { valueAsNumber: true })}
                   />
+                  {errors.bb_upper && (
+                    <p className="text-error text-xs mt-1">{errors.bb_upper.message}</p>
+                  )}
                 </div>
                 
                 <div>
@@ -373,6 +514,9 @@ const TradeJournal: React.FC = () => {
                     className="input h-8 text-xs"
                     {...register('bb_middle', { valueAsNumber: true })}
                   />
+                  {errors.bb_middle && (
+                    <p className="text-error text-xs mt-1">{errors.bb_middle.message}</p>
+                  )}
                 </div>
                 
                 <div>
@@ -384,6 +528,9 @@ const TradeJournal: React.FC = () => {
                     className="input h-8 text-xs"
                     {...register('bb_lower', { valueAsNumber: true })}
                   />
+                  {errors.bb_lower && (
+                    <p className="text-error text-xs mt-1">{errors.bb_lower.message}</p>
+                  )}
                 </div>
               </div>
               
@@ -432,11 +579,7 @@ const TradeJournal: React.FC = () => {
                     min="0"
                     max="100"
                     className="input h-8 text-xs"
-                    {...register('stochastic_k', { 
-                      valueAsNumber: true,
-                      min: { value: 0, message: 'Value must be between 0 and 100' },
-                      max: { value: 100, message: 'Value must be between 0 and 100' }
-                    })}
+                    {...register('stochastic_k', { valueAsNumber: true })}
                   />
                   {errors.stochastic_k && (
                     <p className="text-error text-xs mt-1">{errors.stochastic_k.message}</p>
@@ -452,11 +595,7 @@ const TradeJournal: React.FC = () => {
                     min="0"
                     max="100"
                     className="input h-8 text-xs"
-                    {...register('stochastic_d', { 
-                      valueAsNumber: true,
-                      min: { value: 0, message: 'Value must be between 0 and 100' },
-                      max: { value: 100, message: 'Value must be between 0 and 100' }
-                    })}
+                    {...register('stochastic_d', { valueAsNumber: true })}
                   />
                   {errors.stochastic_d && (
                     <p className="text-error text-xs mt-1">{errors.stochastic_d.message}</p>
@@ -471,7 +610,7 @@ const TradeJournal: React.FC = () => {
                   className="input"
                   {...register('market_sentiment')}
                 >
-                  {sentiments.map(sentiment => (
+                  {MARKET_SENTIMENTS.map(sentiment => (
                     <option key={sentiment} value={sentiment}>{sentiment}</option>
                   ))}
                 </select>
@@ -479,6 +618,81 @@ const TradeJournal: React.FC = () => {
             </div>
           </div>
           
+          <PositionSizePanel
+            pair={pair}
+            entryPrice={entryPrice}
+            stopLoss={stopLoss}
+            lotSize={lotSize || 0}
+            settings={settings}
+            accountBalance={accountBalance}
+            sizing={sizing}
+            pnlOptions={pnlOptions}
+            onUseSuggested={size => setValue('lot_size', size, { shouldValidate: true })}
+          />
+
+          {/* Executions */}
+          <div className="mb-6">
+            <h4 className="font-medium text-sm mb-3">Executions</h4>
+            <Controller
+              control={control}
+              name="executions"
+              render={({ field: { value, onChange }, fieldState }) => (
+                <ExecutionList
+                  value={value ?? []}
+                  onChange={next => {
+                    onChange(next);
+                    handleExecutionsChange(next);
+                  }}
+                  pair={pair}
+                  tradeType={tradeType}
+                  stopLoss={stopLoss}
+                  initialExecutions={initialExecutions}
+                  pnlOptions={pnlOptions}
+                  error={fieldState.error?.message}
+                />
+              )}
+            />
+          </div>
+
+          {/* Tags */}
+          <div className="mb-6">
+            <h4 className="font-medium text-sm mb-3">Tags</h4>
+            <Controller
+              control={control}
+              name="tag_ids"
+              render={({ field: { value, onChange } }) => (
+                <TagPicker value={value ?? []} onChange={onChange} />
+              )}
+            />
+          </div>
+
+          {/* Trading Plan */}
+          <div className="mb-6">
+            <h4 className="font-medium text-sm mb-3">Trading Plan</h4>
+            <Controller
+              control={control}
+              name="plan_checks"
+              render={({ field: { value, onChange } }) => (
+                <PlanChecklist
+                  rules={rules}
+                  value={value ?? []}
+                  onChange={onChange}
+                  trade={{
+                    pair,
+                    type: tradeType,
+                    entry_price: entryPrice,
+                    stop_loss: stopLoss,
+                    take_profit: takeProfit,
+                    lot_size: lotSize || null,
+                    market_sentiment: marketSentiment ?? null,
+                  }}
+                  accountBalance={accountBalance}
+                  pnlOptions={pnlOptions}
+                />
+              )}
+            />
+          </div>
+
           {/* Notes and Screenshot */}
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
             <div>
@@ -493,72 +707,68 @@ const TradeJournal: React.FC = () => {
             </div>
             
             <div>
-              <label className="block text-sm font-medium mb-1">Chart Screenshot</label>
-              <div className="border border-dashed border-border rounded-md p-4 flex flex-col items-center justify-center">
-                <Controller
-                  control={control}
-                  name="screenshot"
-                  render={({ field: { onChange, onBlur, value, ref } }) => (
-                    <input
-                      type="file"
-                      accept="image/*"
-                      onChange={(e) => {
-                        onChange(e.target.files?.[0]);
-                        handleImageChange(e);
-                      }}
-                      onBlur={onBlur}
-                      ref={ref}
-                      className="hidden"
-                      id="screenshot-upload"
-                    />
-                  )}
-                />
-                
-                {previewImage ? (
-                  <div className="relative w-full">
-                    <img 
-                      src={previewImage} 
-                      alt="Chart preview" 
-                      className="w-full h-auto max-h-[200px] object-contain rounded-md"
-                    />
-                    <button
-                      type="button"
-                      className="absolute top-2 right-2 bg-error/90 text-white rounded-full p-1"
-                      onClick={() => {
-                        setPreviewImage(null);
-                        // Reset the file input
-                        (document.getElementById('screenshot-upload') as HTMLInputElement).value = '';
-                      }}
-                    >
-                      <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
-                        <line x1="18" y1="6" x2="6" y2="18"></line>
-                        <line x1="6" y1="6" x2="18" y2="18"></line>
-                      </svg>
-                    </button>
-                  </div>
-                ) : (
-                  <label htmlFor="screenshot-upload" className="cursor-pointer flex flex-col items-center">
-                    <Upload className="h-10 w-10 text-text-muted mb-2" />
-                    <span className="text-sm text-text-muted">Upload chart screenshot</span>
-                    <span className="text-xs text-text-muted mt-1">(PNG, JPG up to 5MB)</span>
-                  </label>
+              <label className="block text-sm font-medium mb-1">Chart Screenshots</label>
+              <Controller
+                control={control}
+                name="screenshots"
+                render={({ field }) => (
+                  <ScreenshotManager value={field.value ?? []} onChange={field.onChange} />
                 )}
-              </div>
+              />
             </div>
           </div>
           
-          {/* Submit Button */}
-          <div className="flex justify-end">
+          {/* Actions */}
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <div className="flex gap-2">
+              {existingTrade && (
+                <button
+                  type="button"
+                  className="btn btn-outline px-4 py-2 gap-2 text-error"
+                  onClick={() => setConfirmDelete(true)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                  Delete
+                </button>
+              )}
+              {isOpen && (
+                <button
+                  type="button"
+                  className="btn btn-secondary px-4 py-2 gap-2"
+                  onClick={() => setClosingTrade(existingTrade)}
+                >
+                  <CheckCircle2 className="h-4 w-4" />
+                  Close position
+                </button>
+              )}
+            </div>
             <button
               type="submit"
-              className="btn btn-primary px-6 py-2"
+              className="btn btn-primary px-6 py-2 ml-auto"
               disabled={isSubmitting}
             >
-              {isSubmitting ? 'Saving...' : 'Save Trade'}
+              {isSubmitting ? 'Saving...' : isEditing ? 'Update Trade' : 'Save Trade'}
             </button>
           </div>
         </form>
       </Card>
+
+      <ConfirmDialog
+        title="Delete trade?"
+        message="This permanently removes the trade and its journal notes. This cannot be undone."
+        confirmLabel="Delete"
+        destructive
+        isOpen={confirmDelete}
+        isBusy={isDeleting}
+        onConfirm={handleDelete}
+        onCancel={() => setConfirmDelete(false)}
+      />
+
+      <ClosePositionDialog
+        trade={closingTrade}
+        onClose={() => setClosingTrade(null)}
+        onClosed={() => setClosingTrade(null)}
+      />
     </>
   );
 };
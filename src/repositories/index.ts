@@ -0,0 +1,85 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Database } from '../types/supabase';
+import { DataBackend } from '../config';
+import { demoAccounts, demoTrades } from '../data/demoTrades';
+import { Repositories } from './types';
+import { KeyValueStore, createMemoryStore } from './localStore';
+import { createSupabaseTradesRepository } from './supabaseTrades';
+import { createSupabaseSettingsRepository } from './supabaseSettings';
+import { createLocalTradesRepository } from './localTrades';
+import { createLocalSettingsRepository } from './localSettings';
+import { createSupabaseTagsRepository } from './supabaseTags';
+import { createLocalTagsRepository } from './localTags';
+import { createSupabaseAccountsRepository } from './supabaseAccounts';
+import { createLocalAccountsRepository } from './localAccounts';
+import { createSupabaseLedgerRepository } from './supabaseLedger';
+import { createLocalLedgerRepository } from './localLedger';
+import { createSupabaseReviewsRepository } from './supabaseReviews';
+import { createLocalReviewsRepository } from './localReviews';
+import { createSupabasePlanRulesRepository } from './supabasePlanRules';
+import { createLocalPlanRulesRepository } from './localPlanRules';
+import { createTradeSync } from './tradeSync';
+import { openOfflineDb } from './offlineDb';
+import { createSupabaseRealtimeFeed } from './supabaseRealtime';
+
+export type { Repositories, TradesRepository, SettingsRepository, TagsRepository, AccountsRepository, LedgerRepository, ReviewsRepository, PlanRulesRepository, TradeSync, RealtimeFeed } from './types';
+
+let memoryStore: KeyValueStore | null = null;
+
+// Storage shared by the offline repositories and the offline auth backend
+export function getOfflineStore(backend: DataBackend): KeyValueStore {
+  if (backend === 'local') return window.localStorage;
+
+  memoryStore ??= createMemoryStore();
+  return memoryStore;
+}
+
+interface RepositoryOptions {
+  backend: DataBackend;
+  userId: string;
+  supabase: SupabaseClient<Database> | null;
+  // Storage for the offline backends, defaults to localStorage or memory
+  store?: KeyValueStore;
+}
+
+export function createRepositories({ backend, userId, supabase, store }: RepositoryOptions): Repositories {
+  if (backend === 'supabase') {
+    if (!supabase) throw new Error('The Supabase backend requires a Supabase client');
+
+    // Trades are journaled offline-first and synced in the background
+    const sync = createTradeSync({
+      remote: createSupabaseTradesRepository(supabase, userId),
+      db: openOfflineDb(userId),
+    });
+
+    return {
+      trades: sync.trades,
+      settings: createSupabaseSettingsRepository(supabase, userId),
+      tags: createSupabaseTagsRepository(supabase, userId),
+      accounts: createSupabaseAccountsRepository(supabase, userId),
+      ledger: createSupabaseLedgerRepository(supabase, userId),
+      reviews: createSupabaseReviewsRepository(supabase, userId),
+      planRules: createSupabasePlanRulesRepository(supabase, userId),
+      sync,
+      realtime: createSupabaseRealtimeFeed(supabase, userId),
+    };
+  }
+
+  const localStore = store ?? getOfflineStore(backend);
+
+  return {
+    trades: createLocalTradesRepository(localStore, userId, {
+      seed: backend === 'local' ? demoTrades : undefined,
+    }),
+    settings: createLocalSettingsRepository(localStore, userId),
+    tags: createLocalTagsRepository(localStore, userId),
+    accounts: createLocalAccountsRepository(localStore, userId, {
+      seed: backend === 'local' ? demoAccounts : undefined,
+    }),
+    ledger: createLocalLedgerRepository(localStore, userId),
+    reviews: createLocalReviewsRepository(localStore, userId),
+    planRules: createLocalPlanRulesRepository(localStore, userId),
+    sync: null,
+    realtime: null,
+  };
+}
@@ -0,0 +1,49 @@
+import { Account, AccountValues } from '../types/account';
+import { AccountsRepository } from './types';
+import { KeyValueStore, generateId, readJson, writeJson } from './localStore';
+
+interface LocalAccountsOptions {
+  // Accounts to start with the first time this user's store is opened
+  seed?: Account[];
+}
+
+export function createLocalAccountsRepository(
+  store: KeyValueStore,
+  userId: string,
+  options: LocalAccountsOptions = {}
+): AccountsRepository {
+  const key = `fx-journal:${userId}:accounts`;
+
+  if (store.getItem(key) === null && options.seed) {
+    writeJson(store, key, options.seed);
+  }
+
+  const load = () => readJson<Account[]>(store, key, []);
+
+  return {
+    async list() {
+      return load().sort((a, b) => a.created_at.localeCompare(b.created_at));
+    },
+
+    async create(values: AccountValues) {
+      const account: Account = { ...values, id: generateId(), created_at: new Date().toISOString() };
+      writeJson(store, key, [...load(), account]);
+      return account;
+    },
+
+    async update(id: string, changes: Partial<AccountValues>) {
+      const accounts = load();
+      const index = accounts.findIndex(account => account.id === id);
+      if (index === -1) throw new Error(`Account ${id} not found`);
+
+      accounts[index] = { ...accounts[index], ...changes };
+      writeJson(store, key, accounts);
+      return accounts[index];
+    },
+
+    async remove(id: string) {
+      // Trades keep the id and show up as unassigned
+      writeJson(store, key, load().filter(account => account.id !== id));
+    },
+  };
+}
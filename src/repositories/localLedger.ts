@@ -0,0 +1,28 @@
+import { LedgerEntry, LedgerEntryValues } from '../types/ledger';
+import { LedgerRepository } from './types';
+import { KeyValueStore, generateId, readJson, writeJson } from './localStore';
+
+export function createLocalLedgerRepository(
+  store: KeyValueStore,
+  userId: string
+): LedgerRepository {
+  const key = `fx-journal:${userId}:ledger`;
+
+  const load = () => readJson<LedgerEntry[]>(store, key, []);
+
+  return {
+    async list() {
+      return load().sort((a, b) => b.occurred_at.localeCompare(a.occurred_at));
+    },
+
+    async create(values: LedgerEntryValues) {
+      const entry: LedgerEntry = { ...values, id: generateId(), created_at: new Date().toISOString() };
+      writeJson(store, key, [...load(), entry]);
+      return entry;
+    },
+
+    async remove(id: string) {
+      writeJson(store, key, load().filter(entry => entry.id !== id));
+    },
+  };
+}
@@ -0,0 +1,39 @@
+import { PlanRule, PlanRuleValues } from '../types/plan';
+import { PlanRulesRepository } from './types';
+import { KeyValueStore, generateId, readJson, writeJson } from './localStore';
+
+export function createLocalPlanRulesRepository(
+  store: KeyValueStore,
+  userId: string
+): PlanRulesRepository {
+  const key = `fx-journal:${userId}:plan-rules`;
+
+  const load = () => readJson<PlanRule[]>(store, key, []);
+
+  return {
+    async list() {
+      return load().sort((a, b) => a.created_at.localeCompare(b.created_at));
+    },
+
+    async create(values: PlanRuleValues) {
+      const rule: PlanRule = { ...values, id: generateId(), created_at: new Date().toISOString() };
+      writeJson(store, key, [...load(), rule]);
+      return rule;
+    },
+
+    async update(id: string, changes: Partial<PlanRuleValues>) {
+      const rules = load();
+      const index = rules.findIndex(rule => rule.id === id);
+      if (index === -1) throw new Error(`Plan rule ${id} not found`);
+
+      rules[index] = { ...rules[index], ...changes };
+      writeJson(store, key, rules);
+      return rules[index];
+    },
+
+    async remove(id: string) {
+      // Trades keep the checks recorded against the rule
+      writeJson(store, key, load().filter(rule => rule.id !== id));
+    },
+  };
+}
@@ -0,0 +1,34 @@
+import { TradeReview, TradeReviewValues } from '../types/review';
+import { ReviewsRepository } from './types';
+import { KeyValueStore, generateId, readJson, writeJson } from './localStore';
+
+export function createLocalReviewsRepository(
+  store: KeyValueStore,
+  userId: string
+): ReviewsRepository {
+  const key = `fx-journal:${userId}:reviews`;
+
+  const load = () => readJson<TradeReview[]>(store, key, []);
+
+  return {
+    async list() {
+      return load().sort((a, b) => b.updated_at.localeCompare(a.updated_at));
+    },
+
+    async save(tradeId: string, values: TradeReviewValues) {
+      const reviews = load();
+      const existing = reviews.find(review => review.trade_id === tradeId);
+      const now = new Date().toISOString();
+      const review: TradeReview = existing
+        ? { ...existing, ...values, updated_at: now }
+        : { ...values, id: generateId(), trade_id: tradeId, created_at: now, updated_at: now };
+
+      writeJson(store, key, [...reviews.filter(r => r.trade_id !== tradeId), review]);
+      return review;
+    },
+
+    async remove(tradeId: string) {
+      writeJson(store, key, load().filter(review => review.trade_id !== tradeId));
+    },
+  };
+}
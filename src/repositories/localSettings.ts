@@ -0,0 +1,23 @@
+import { DEFAULT_SETTINGS, UserSettings } from '../types/settings';
+import { SettingsRepository } from './types';
+import { KeyValueStore, readJson, writeJson } from './localStore';
+
+export function createLocalSettingsRepository(
+  store: KeyValueStore,
+  userId: string
+): SettingsRepository {
+  const key = `fx-journal:${userId}:settings`;
+
+  return {
+    async get() {
+      const saved = readJson<Partial<UserSettings> | null>(store, key, null);
+      // Settings saved by older versions miss the newer fields
+      return saved && { ...DEFAULT_SETTINGS, ...saved };
+    },
+
+    async save(settings: UserSettings) {
+      writeJson(store, key, settings);
+      return settings;
+    },
+  };
+}
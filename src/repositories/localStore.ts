@@ -0,0 +1,40 @@
+// Minimal key/value storage shared by the offline backends. The browser's
+// localStorage satisfies it directly; the memory store keeps tests isolated.
+export interface KeyValueStore {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+}
+
+export function createMemoryStore(): KeyValueStore {
+  const values = new Map<string, string>();
+
+  return {
+    getItem: key => values.get(key) ?? null,
+    setItem: (key, value) => {
+      values.set(key, value);
+    },
+    removeItem: key => {
+      values.delete(key);
+    },
+  };
+}
+
+export function readJson<T>(store: KeyValueStore, key: string, fallback: T): T {
+  const raw = store.getItem(key);
+  if (raw === null) return fallback;
+
+  try {
+    return JSON.parse(raw) as T;
+  } catch {
+    return fallback;
+  }
+}
+
+export function writeJson(store: KeyValueStore, key: string, value: unknown) {
+  store.setItem(key, JSON.stringify(value));
+}
+
+export function generateId(): string {
+  return crypto.randomUUID();
+}
@@ -0,0 +1,35 @@
+import { Tag, TagValues } from '../types/tag';
+import { TagsRepository } from './types';
+import { KeyValueStore, generateId, readJson, writeJson } from './localStore';
+
+export function createLocalTagsRepository(
+  store: KeyValueStore,
+  userId: string
+): TagsRepository {
+  const key = `fx-journal:${userId}:tags`;
+
+  const load = () => readJson<Tag[]>(store, key, []);
+
+  return {
+    async list() {
+      return load().sort((a, b) => a.name.localeCompare(b.name));
+    },
+
+    async create(values: TagValues) {
+      const tags = load();
+      const name = values.name.trim();
+      if (tags.some(tag => tag.category === values.category && tag.name === name)) {
+        throw new Error(`A tag named "${name}" already exists`);
+      }
+
+      const tag: Tag = { ...values, name, id: generateId(), created_at: new Date().toISOString() };
+      writeJson(store, key, [...tags, tag]);
+      return tag;
+    },
+
+    async remove(id: string) {
+      // Trades may keep the id; lookups skip tags that no longer exist
+      writeJson(store, key, load().filter(tag => tag.id !== id));
+    },
+  };
+}
@@ -0,0 +1,113 @@
+import { Trade, TradeQuery, TradeValues } from '../types/trade';
+import { applyTradeQuery } from '../lib/tradeQuery';
+import { assertValidTrade } from '../lib/tradeSchema';
+import { TradesRepository } from './types';
+import { KeyValueStore, generateId, readJson, writeJson } from './localStore';
+
+interface LocalTradesOptions {
+  // Trades to start with the first time this user's store is opened
+  seed?: Trade[];
+}
+
+type StoredTrade = Partial<Trade> & { screenshot_url?: string | null };
+
+const readFileAsDataUrl = (file: File) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+export function createLocalTradesRepository(
+  store: KeyValueStore,
+  userId: string,
+  options: LocalTradesOptions = {}
+): TradesRepository {
+  const key = `fx-journal:${userId}:trades`;
+
+  if (store.getItem(key) === null && options.seed) {
+    writeJson(store, key, options.seed);
+  }
+
+  // Trades saved by older versions miss the newer columns, and kept a single
+  // screenshot_url instead of a list of screenshots
+  const load = () => readJson<StoredTrade[]>(store, key, []).map(({ screenshot_url, ...trade }) => ({
+    suggested_lot_size: null,
+    tag_ids: [],
+    account_id: null,
+    commission: 0,
+    swap: 0,
+    executions: [],
+    timezone: null,
+    plan_checks: [],
+    screenshots: screenshot_url ? [{ url: screenshot_url, path: null, label: 'entry', annotations: [] }] : [],
+    ...trade,
+    updated_at: trade.updated_at ?? trade.created_at,
+  }) as Trade);
+  const persist = (trades: Trade[]) => writeJson(store, key, trades);
+
+  const findOrThrow = (trades: Trade[], id: string) => {
+    const index = trades.findIndex(trade => trade.id === id);
+    if (index === -1) throw new Error(`Trade ${id} not found`);
+    return index;
+  };
+
+  return {
+    async list() {
+      return load().sort((a, b) => b.entry_date.localeCompare(a.entry_date));
+    },
+
+    async query(query: TradeQuery) {
+      return applyTradeQuery(load(), query);
+    },
+
+    async get(id: string) {
+      return load().find(trade => trade.id === id) ?? null;
+    },
+
+    async create(values: TradeValues, id = generateId()) {
+      assertValidTrade(values);
+      const now = new Date().toISOString();
+      const trade: Trade = {
+        ...values,
+        id,
+        created_at: now,
+        updated_at: now,
+      };
+      persist([...load(), trade]);
+      return trade;
+    },
+
+    async createMany(values: TradeValues[]) {
+      values.forEach(value => assertValidTrade(value));
+      const createdAt = new Date().toISOString();
+      const created = values.map(value => ({ ...value, id: generateId(), created_at: createdAt, updated_at: createdAt }));
+      persist([...load(), ...created]);
+      return created;
+    },
+
+    async update(id: string, changes: Partial<TradeValues>) {
+      const trades = load();
+      const index = findOrThrow(trades, id);
+      assertValidTrade({ ...trades[index], ...changes }, Object.keys(changes));
+      const updated = { ...trades[index], ...changes, updated_at: new Date().toISOString() };
+      trades[index] = updated;
+      persist(trades);
+      return updated;
+    },
+
+    async remove(id: string) {
+      persist(load().filter(trade => trade.id !== id));
+    },
+
+    async uploadScreenshot(file: File) {
+      // Without a storage server the image is kept inline
+      return { url: await readFileAsDataUrl(file), path: null };
+    },
+
+    async removeScreenshots() {
+      // Inline images go away with the trade
+    },
+  };
+}
@@ -0,0 +1,187 @@
+import { Trade, TradeValues } from '../types/trade';
+
+// A change made while offline, waiting to be sent to the server in order
+export type OutboxOperation =
+  | { type: 'create'; tradeId: string; values: TradeValues }
+  // `base` is the trade as last seen from the server, for merging edits
+  | { type: 'update'; tradeId: string; changes: Partial<TradeValues>; base: Trade }
+  | { type: 'delete'; tradeId: string }
+  | { type: 'remove_files'; paths: string[] };
+
+export interface OutboxEntry {
+  seq: number;
+  operation: OutboxOperation;
+  // Time of the latest edit folded into the entry
+  queued_at: string;
+  // Why the server rejected the change, null until it has
+  error: string | null;
+}
+
+// Local copy of the user's trades, the queue of changes not yet sent and
+// screenshots taken offline
+export interface OfflineDb {
+  listTrades(): Promise<Trade[]>;
+  getTrade(id: string): Promise<Trade | null>;
+  // Replaces every stored trade when `replace` is set
+  putTrades(trades: Trade[], replace?: boolean): Promise<void>;
+  deleteTrade(id: string): Promise<void>;
+  listOutbox(): Promise<OutboxEntry[]>;
+  addToOutbox(operation: OutboxOperation, queuedAt: string): Promise<OutboxEntry>;
+  updateOutbox(entry: OutboxEntry): Promise<void>;
+  removeFromOutbox(seq: number): Promise<void>;
+  putFile(key: string, file: File): Promise<void>;
+  getFile(key: string): Promise<File | null>;
+  deleteFile(key: string): Promise<void>;
+}
+
+const DB_VERSION = 1;
+
+type StoreName = 'trades' | 'outbox' | 'files';
+
+const promisify = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+function openDatabase(name: string) {
+  const request = indexedDB.open(name, DB_VERSION);
+  request.onupgradeneeded = () => {
+    const db = request.result;
+    db.createObjectStore('trades', { keyPath: 'id' });
+    db.createObjectStore('outbox', { keyPath: 'seq', autoIncrement: true });
+    db.createObjectStore('files');
+  };
+  return promisify(request);
+}
+
+export function createIndexedOfflineDb(name: string): OfflineDb {
+  let opened: Promise<IDBDatabase> | null = null;
+
+  // Runs one request, or several writes, in a transaction and resolves once
+  // it has committed
+  const transact = async <T>(
+    storeName: StoreName,
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => IDBRequest<T> | void
+  ) => {
+    opened ??= openDatabase(name);
+    const db = await opened;
+
+    return new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(storeName, mode);
+      const request = run(transaction.objectStore(storeName));
+      transaction.oncomplete = () => resolve(request?.result as T);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  };
+
+  return {
+    listTrades: () => transact<Trade[]>('trades', 'readonly', store => store.getAll()),
+
+    async getTrade(id: string) {
+      return (await transact<Trade | undefined>('trades', 'readonly', store => store.get(id))) ?? null;
+    },
+
+    putTrades: (trades: Trade[], replace = false) => transact<void>('trades', 'readwrite', store => {
+      if (replace) store.clear();
+      trades.forEach(trade => store.put(trade));
+    }),
+
+    deleteTrade: (id: string) => transact<void>('trades', 'readwrite', store => {
+      store.delete(id);
+    }),
+
+    listOutbox: () => transact<OutboxEntry[]>('outbox', 'readonly', store => store.getAll()),
+
+    async addToOutbox(operation: OutboxOperation, queuedAt: string) {
+      const entry = { operation, queued_at: queuedAt, error: null };
+      const seq = await transact<IDBValidKey>('outbox', 'readwrite', store => store.add(entry));
+      return { ...entry, seq: seq as number };
+    },
+
+    updateOutbox: (entry: OutboxEntry) => transact<void>('outbox', 'readwrite', store => {
+      store.put(entry);
+    }),
+
+    removeFromOutbox: (seq: number) => transact<void>('outbox', 'readwrite', store => {
+      store.delete(seq);
+    }),
+
+    putFile: (key: string, file: File) => transact<void>('files', 'readwrite', store => {
+      store.put(file, key);
+    }),
+
+    async getFile(key: string) {
+      return (await transact<File | undefined>('files', 'readonly', store => store.get(key))) ?? null;
+    },
+
+    deleteFile: (key: string) => transact<void>('files', 'readwrite', store => {
+      store.delete(key);
+    }),
+  };
+}
+
+// Keeps everything in memory, for browsers without IndexedDB and for tests
+export function createMemoryOfflineDb(): OfflineDb {
+  const trades = new Map<string, Trade>();
+  const outbox = new Map<number, OutboxEntry>();
+  const files = new Map<string, File>();
+  let nextSeq = 1;
+
+  return {
+    async listTrades() {
+      return Array.from(trades.values(), trade => structuredClone(trade));
+    },
+
+    async getTrade(id: string) {
+      const trade = trades.get(id);
+      return trade ? structuredClone(trade) : null;
+    },
+
+    async putTrades(values: Trade[], replace = false) {
+      if (replace) trades.clear();
+      values.forEach(trade => trades.set(trade.id, structuredClone(trade)));
+    },
+
+    async deleteTrade(id: string) {
+      trades.delete(id);
+    },
+
+    async listOutbox() {
+      return Array.from(outbox.values(), entry => structuredClone(entry));
+    },
+
+    async addToOutbox(operation: OutboxOperation, queuedAt: string) {
+      const entry = { seq: nextSeq++, operation, queued_at: queuedAt, error: null };
+      outbox.set(entry.seq, structuredClone(entry));
+      return entry;
+    },
+
+    async updateOutbox(entry: OutboxEntry) {
+      outbox.set(entry.seq, structuredClone(entry));
+    },
+
+    async removeFromOutbox(seq: number) {
+      outbox.delete(seq);
+    },
+
+    async putFile(key: string, file: File) {
+      files.set(key, file);
+    },
+
+    async getFile(key: string) {
+      return files.get(key) ?? null;
+    },
+
+    async deleteFile(key: string) {
+      files.delete(key);
+    },
+  };
+}
+
+export function openOfflineDb(userId: string): OfflineDb {
+  if (typeof indexedDB === 'undefined') return createMemoryOfflineDb();
+  return createIndexedOfflineDb(`fx-journal:${userId}`);
+}
@@ -0,0 +1,59 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Database } from '../types/supabase';
+import { Account, AccountValues } from '../types/account';
+import { AccountsRepository } from './types';
+
+const ACCOUNT_COLUMNS = 'id, name, broker, currency, starting_balance, type, created_at';
+
+export function createSupabaseAccountsRepository(
+  supabase: SupabaseClient<Database>,
+  userId: string
+): AccountsRepository {
+  return {
+    async list() {
+      const { data, error } = await supabase
+        .from('accounts')
+        .select(ACCOUNT_COLUMNS)
+        .eq('user_id', userId)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      return (data || []) as Account[];
+    },
+
+    async create(values: AccountValues) {
+      const { data, error } = await supabase
+        .from('accounts')
+        .insert({ ...values, user_id: userId })
+        .select(ACCOUNT_COLUMNS)
+        .single();
+
+      if (error) throw error;
+      return data as Account;
+    },
+
+    async update(id: string, changes: Partial<AccountValues>) {
+      const { data, error } = await supabase
+        .from('accounts')
+        .update(changes)
+        .eq('user_id', userId)
+        .eq('id', id)
+        .select(ACCOUNT_COLUMNS)
+        .single();
+
+      if (error) throw error;
+      return data as Account;
+    },
+
+    async remove(id: string) {
+      // The foreign key leaves the account's trades unassigned
+      const { error } = await supabase
+        .from('accounts')
+        .delete()
+        .eq('user_id', userId)
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+  };
+}
@@ -0,0 +1,45 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Database } from '../types/supabase';
+import { LedgerEntry, LedgerEntryValues } from '../types/ledger';
+import { LedgerRepository } from './types';
+
+const LEDGER_COLUMNS = 'id, account_id, type, amount, occurred_at, note, created_at';
+
+export function createSupabaseLedgerRepository(
+  supabase: SupabaseClient<Database>,
+  userId: string
+): LedgerRepository {
+  return {
+    async list() {
+      const { data, error } = await supabase
+        .from('ledger_entries')
+        .select(LEDGER_COLUMNS)
+        .eq('user_id', userId)
+        .order('occurred_at', { ascending: false });
+
+      if (error) throw error;
+      return (data || []) as LedgerEntry[];
+    },
+
+    async create(values: LedgerEntryValues) {
+      const { data, error } = await supabase
+        .from('ledger_entries')
+        .insert({ ...values, user_id: userId })
+        .select(LEDGER_COLUMNS)
+        .single();
+
+      if (error) throw error;
+      return data as LedgerEntry;
+    },
+
+    async remove(id: string) {
+      const { error } = await supabase
+        .from('ledger_entries')
+        .delete()
+        .eq('user_id', userId)
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+  };
+}
@@ -0,0 +1,59 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Database } from '../types/supabase';
+import { PlanRule, PlanRuleValues } from '../types/plan';
+import { PlanRulesRepository } from './types';
+
+const PLAN_RULE_COLUMNS = 'id, name, check, threshold, created_at';
+
+export function createSupabasePlanRulesRepository(
+  supabase: SupabaseClient<Database>,
+  userId: string
+): PlanRulesRepository {
+  return {
+    async list() {
+      const { data, error } = await supabase
+        .from('plan_rules')
+        .select(PLAN_RULE_COLUMNS)
+        .eq('user_id', userId)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      return (data || []) as PlanRule[];
+    },
+
+    async create(values: PlanRuleValues) {
+      const { data, error } = await supabase
+        .from('plan_rules')
+        .insert({ ...values, user_id: userId })
+        .select(PLAN_RULE_COLUMNS)
+        .single();
+
+      if (error) throw error;
+      return data as PlanRule;
+    },
+
+    async update(id: string, changes: Partial<PlanRuleValues>) {
+      const { data, error } = await supabase
+        .from('plan_rules')
+        .update(changes)
+        .eq('user_id', userId)
+        .eq('id', id)
+        .select(PLAN_RULE_COLUMNS)
+        .single();
+
+      if (error) throw error;
+      return data as PlanRule;
+    },
+
+    async remove(id: string) {
+      // Trades keep the checks recorded against the rule
+      const { error } = await supabase
+        .from('plan_rules')
+        .delete()
+        .eq('user_id', userId)
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+  };
+}
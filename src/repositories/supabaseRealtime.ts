@@ -0,0 +1,110 @@
+import { RealtimeChannel, SupabaseClient } from '@supabase/supabase-js';
+import { Database } from '../types/supabase';
+import { RealtimeFeed, RealtimeHandlers } from './types';
+
+type TradeRow = Database['public']['Tables']['trades']['Row'];
+type TradeTagRow = Database['public']['Tables']['trade_tags']['Row'];
+
+// Wait before each attempt to rejoin after the channel fails
+const RETRY_DELAYS = [1000, 2000, 5000, 10000, 30000];
+
+export function createSupabaseRealtimeFeed(
+  supabase: SupabaseClient<Database>,
+  userId: string
+): RealtimeFeed {
+  return {
+    subscribe({ onChange, onReconnect }: RealtimeHandlers) {
+      const filter = `user_id=eq.${userId}`;
+      let channel: RealtimeChannel | null = null;
+      let retryTimer: ReturnType<typeof setTimeout> | null = null;
+      let attempt = 0;
+      let joinedBefore = false;
+      let stopped = false;
+
+      const connect = async () => {
+        // After a laptop sleeps the access token may have expired, and the
+        // channel cannot be joined with it; getSession refreshes it first
+        const { data } = await supabase.auth.getSession();
+        if (stopped) return;
+        if (data.session) await supabase.realtime.setAuth(data.session.access_token);
+
+        channel = supabase
+          .channel(`trades:${userId}`)
+          .on<TradeRow>(
+            'postgres_changes',
+            { event: 'INSERT', schema: 'public', table: 'trades', filter },
+            payload => onChange({ table: 'trades', type: 'saved', id: payload.new.id, updated_at: payload.new.updated_at })
+          )
+          .on<TradeRow>(
+            'postgres_changes',
+            { event: 'UPDATE', schema: 'public', table: 'trades', filter },
+            payload => onChange({ table: 'trades', type: 'saved', id: payload.new.id, updated_at: payload.new.updated_at })
+          )
+          // Deletes cannot be filtered and only carry the id; ids of other
+          // users' trades are simply not found here
+          .on<TradeRow>(
+            'postgres_changes',
+            { event: 'DELETE', schema: 'public', table: 'trades' },
+            payload => {
+              if (payload.old.id) onChange({ table: 'trades', type: 'removed', id: payload.old.id });
+            }
+          )
+          // Tags are linked after a trade is inserted
+          .on<TradeTagRow>(
+            'postgres_changes',
+            { event: 'INSERT', schema: 'public', table: 'trade_tags', filter },
+            payload => onChange({ table: 'trades', type: 'saved', id: payload.new.trade_id, updated_at: null })
+          )
+          .on(
+            'postgres_changes',
+            { event: '*', schema: 'public', table: 'settings', filter },
+            () => onChange({ table: 'settings' })
+          )
+          .subscribe(status => {
+            if (status === 'SUBSCRIBED') {
+              attempt = 0;
+              if (joinedBefore) onReconnect();
+              joinedBefore = true;
+            } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+              reconnect();
+            }
+          });
+      };
+
+      // Drops the failed channel and joins a new one after a growing delay
+      const reconnect = (delay = RETRY_DELAYS[Math.min(attempt, RETRY_DELAYS.length - 1)]) => {
+        if (stopped) return;
+        if (retryTimer) clearTimeout(retryTimer);
+        if (channel) supabase.removeChannel(channel);
+        channel = null;
+        attempt += 1;
+
+        retryTimer = setTimeout(() => {
+          retryTimer = null;
+          connect().catch(error => {
+            console.error('Error joining realtime channel:', error);
+            reconnect();
+          });
+        }, delay);
+      };
+
+      // No point waiting out the delay once the connection is back
+      const handleOnline = () => {
+        if (retryTimer) reconnect(0);
+      };
+
+      window.addEventListener('online', handleOnline);
+      connect().catch(error => {
+        console.error('Error joining realtime channel:', error);
+        reconnect();
+      });
+
+      return () => {
+        stopped = true;
+        window.removeEventListener('online', handleOnline);
+        if (retryTimer) clearTimeout(retryTimer);
+        if (channel) supabase.removeChannel(channel);
+      };
+    },
+  };
+}
@@ -0,0 +1,50 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Database } from '../types/supabase';
+import { TradeReview, TradeReviewValues } from '../types/review';
+import { ReviewsRepository } from './types';
+
+const REVIEW_COLUMNS =
+  'id, trade_id, followed_plan, grade, went_well, to_improve, lessons, mae_price, mfe_price, created_at, updated_at';
+
+export function createSupabaseReviewsRepository(
+  supabase: SupabaseClient<Database>,
+  userId: string
+): ReviewsRepository {
+  return {
+    async list() {
+      const { data, error } = await supabase
+        .from('trade_reviews')
+        .select(REVIEW_COLUMNS)
+        .eq('user_id', userId)
+        .order('updated_at', { ascending: false });
+
+      if (error) throw error;
+      return (data || []) as TradeReview[];
+    },
+
+    // A trade has at most one review, so saving replaces it
+    async save(tradeId: string, values: TradeReviewValues) {
+      const { data, error } = await supabase
+        .from('trade_reviews')
+        .upsert(
+          { ...values, trade_id: tradeId, user_id: userId, updated_at: new Date().toISOString() },
+          { onConflict: 'trade_id' }
+        )
+        .select(REVIEW_COLUMNS)
+        .single();
+
+      if (error) throw error;
+      return data as TradeReview;
+    },
+
+    async remove(tradeId: string) {
+      const { error } = await supabase
+        .from('trade_reviews')
+        .delete()
+        .eq('user_id', userId)
+        .eq('trade_id', tradeId);
+
+      if (error) throw error;
+    },
+  };
+}
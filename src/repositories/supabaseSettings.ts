@@ -0,0 +1,39 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Database } from '../types/supabase';
+import { UserSettings } from '../types/settings';
+import { SettingsRepository } from './types';
+
+const toSettings = (row: Database['public']['Tables']['settings']['Row']): UserSettings => ({
+  risk_percentage: row.risk_percentage,
+  account_balance: row.account_balance,
+});
+
+export function createSupabaseSettingsRepository(
+  supabase: SupabaseClient<Database>,
+  userId: string
+): SettingsRepository {
+  return {
+    async get() {
+      const { data, error } = await supabase
+        .from('settings')
+        .select('*')
+        .eq('user_id', userId)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data ? toSettings(data) : null;
+    },
+
+    async save(settings: UserSettings) {
+      // One settings row per user, created on first save
+      const { data, error } = await supabase
+        .from('settings')
+        .upsert({ user_id: userId, ...settings }, { onConflict: 'user_id' })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return toSettings(data);
+    },
+  };
+}
@@ -0,0 +1,44 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Database } from '../types/supabase';
+import { Tag, TagValues } from '../types/tag';
+import { TagsRepository } from './types';
+
+export function createSupabaseTagsRepository(
+  supabase: SupabaseClient<Database>,
+  userId: string
+): TagsRepository {
+  return {
+    async list() {
+      const { data, error } = await supabase
+        .from('tags')
+        .select('id, name, category, created_at')
+        .eq('user_id', userId)
+        .order('name', { ascending: true });
+
+      if (error) throw error;
+      return (data || []) as Tag[];
+    },
+
+    async create(values: TagValues) {
+      const { data, error } = await supabase
+        .from('tags')
+        .insert({ ...values, user_id: userId })
+        .select('id, name, category, created_at')
+        .single();
+
+      if (error) throw error;
+      return data as Tag;
+    },
+
+    async remove(id: string) {
+      // Links in trade_tags are removed by the foreign key cascade
+      const { error } = await supabase
+        .from('tags')
+        .delete()
+        .eq('user_id', userId)
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+  };
+}
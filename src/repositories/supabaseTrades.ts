@@ -0,0 +1,234 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Database } from '../types/supabase';
+import { Execution, Trade, TradeQuery, TradeValues } from '../types/trade';
+import { Screenshot } from '../types/screenshot';
+import { PlanCheck } from '../types/plan';
+import { applyTradeQuery, endOfRange } from '../lib/tradeQuery';
+import { TradesRepository } from './types';
+
+const SCREENSHOT_BUCKET = 'trading-journal';
+
+// PostgREST caps a single response at 1000 rows by default
+const LIST_PAGE_SIZE = 1000;
+
+// Tag links live in trade_tags; they are embedded on read and synced on write
+const TRADE_SELECT = '*, trade_tags(tag_id)';
+
+type TradeRow = Database['public']['Tables']['trades']['Row'] & {
+  trade_tags?: { tag_id: string }[];
+};
+
+const toTrade = ({ trade_tags, executions, screenshots, plan_checks, ...row }: TradeRow) =>
+  ({
+    ...row,
+    executions: (executions ?? []) as unknown as Execution[],
+    screenshots: (screenshots ?? []) as unknown as Screenshot[],
+    plan_checks: (plan_checks ?? []) as unknown as PlanCheck[],
+    tag_ids: (trade_tags ?? []).map(link => link.tag_id),
+  }) as Trade;
+
+const withoutTags = <T extends { tag_ids?: string[] }>({ tag_ids, ...columns }: T) => ({
+  columns,
+  tagIds: tag_ids,
+});
+
+export function createSupabaseTradesRepository(
+  supabase: SupabaseClient<Database>,
+  userId: string
+): TradesRepository {
+  const linkTags = async (links: { tradeId: string; tagIds: string[] }[]) => {
+    const rows = links.flatMap(({ tradeId, tagIds }) =>
+      tagIds.map(tagId => ({ trade_id: tradeId, tag_id: tagId, user_id: userId }))
+    );
+    if (rows.length === 0) return;
+
+    const { error } = await supabase.from('trade_tags').insert(rows);
+    if (error) throw error;
+  };
+
+  const replaceTags = async (tradeId: string, tagIds: string[]) => {
+    const { error } = await supabase
+      .from('trade_tags')
+      .delete()
+      .eq('user_id', userId)
+      .eq('trade_id', tradeId);
+
+    if (error) throw error;
+    await linkTags([{ tradeId, tagIds }]);
+  };
+
+  // Ids of the trades carrying a tag, for filtering by it
+  const tradeIdsWithTag = async (tagId: string) => {
+    const { data, error } = await supabase
+      .from('trade_tags')
+      .select('trade_id')
+      .eq('user_id', userId)
+      .eq('tag_id', tagId);
+
+    if (error) throw error;
+    return (data || []).map((link: { trade_id: string }) => link.trade_id);
+  };
+
+  // Every trade, read page by page until a short page marks the end
+  const list = async () => {
+    const trades: Trade[] = [];
+
+    for (let from = 0; ; from += LIST_PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('trades')
+        .select(TRADE_SELECT)
+        .eq('user_id', userId)
+        .order('entry_date', { ascending: false })
+        // Keep paging stable when several trades share an entry time
+        .order('id', { ascending: true })
+        .range(from, from + LIST_PAGE_SIZE - 1);
+
+      if (error) throw error;
+      trades.push(...(data || []).map(toTrade));
+      if (!data || data.length < LIST_PAGE_SIZE) return trades;
+    }
+  };
+
+  return {
+    list,
+
+    async query(query: TradeQuery) {
+      const { filters, sort, direction, page, pageSize } = query;
+
+      // Wins and losses are told apart by the computed result, which the
+      // database does not have, so those pages are cut from the full list
+      if (filters.outcome === 'win' || filters.outcome === 'loss') {
+        return applyTradeQuery(await list(), query);
+      }
+
+      let request = supabase
+        .from('trades')
+        .select(TRADE_SELECT, { count: 'exact' })
+        .eq('user_id', userId);
+
+      if (filters.tag) request = request.in('id', await tradeIdsWithTag(filters.tag));
+
+      if (filters.pair) request = request.eq('pair', filters.pair);
+      if (filters.timeframe) request = request.eq('timeframe', filters.timeframe);
+      if (filters.type) request = request.eq('type', filters.type);
+      if (filters.market_sentiment) request = request.eq('market_sentiment', filters.market_sentiment);
+      if (filters.from) request = request.gte('entry_date', filters.from);
+      if (filters.to) request = request.lt('entry_date', endOfRange(filters.to));
+      if (filters.outcome === 'open') request = request.is('exit_price', null);
+      if (filters.account) request = request.eq('account_id', filters.account);
+
+      const from = (page - 1) * pageSize;
+
+      const { data, error, count } = await request
+        .order(sort, { ascending: direction === 'asc', nullsFirst: false })
+        // Keep paging stable when several trades share the sort value
+        .order('id', { ascending: true })
+        .range(from, from + pageSize - 1);
+
+      if (error) throw error;
+
+      return {
+        trades: (data || []).map(toTrade),
+        total: count ?? 0,
+      };
+    },
+
+    async get(id: string) {
+      const { data, error } = await supabase
+        .from('trades')
+        .select(TRADE_SELECT)
+        .eq('user_id', userId)
+        .eq('id', id)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data ? toTrade(data) : null;
+    },
+
+    async create(values: TradeValues, id?: string) {
+      const { columns, tagIds = [] } = withoutTags(values);
+      const { data, error } = await supabase
+        .from('trades')
+        .insert({ ...columns, ...(id && { id }), user_id: userId })
+        .select(TRADE_SELECT)
+        .single();
+
+      if (error) throw error;
+      await linkTags([{ tradeId: data.id, tagIds }]);
+      return { ...toTrade(data), tag_ids: tagIds };
+    },
+
+    async createMany(values: TradeValues[]) {
+      if (values.length === 0) return [];
+
+      const { data, error } = await supabase
+        .from('trades')
+        .insert(values.map(value => ({ ...withoutTags(value).columns, user_id: userId })))
+        .select(TRADE_SELECT);
+
+      if (error) throw error;
+
+      // Rows come back in insert order, so tags can be matched by position
+      const created = (data || []).map(toTrade);
+      await linkTags(created.map((trade, index) => ({ tradeId: trade.id, tagIds: values[index].tag_ids })));
+      return created.map((trade, index) => ({ ...trade, tag_ids: values[index].tag_ids }));
+    },
+
+    async update(id: string, changes: Partial<TradeValues>) {
+      const { columns, tagIds } = withoutTags(changes);
+      const { data, error } = await supabase
+        .from('trades')
+        .update(columns)
+        .eq('user_id', userId)
+        .eq('id', id)
+        .select(TRADE_SELECT)
+        .single();
+
+      if (error) throw error;
+
+      // Relink tags only once the trade is known to exist and be the user's
+      if (!tagIds) return toTrade(data);
+      await replaceTags(id, tagIds);
+      return { ...toTrade(data), tag_ids: tagIds };
+    },
+
+    async remove(id: string) {
+      const { error } = await supabase
+        .from('trades')
+        .delete()
+        .eq('user_id', userId)
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+
+    async uploadScreenshot(file: File) {
+      const fileExt = file.name.split('.').pop();
+      // Storage policies only allow writes inside the user's own folder
+      const filePath = `${userId}/${crypto.randomUUID()}.${fileExt}`;
+
+      // Upload file to Supabase Storage
+      const { error: uploadError } = await supabase
+        .storage
+        .from(SCREENSHOT_BUCKET)
+        .upload(filePath, file, { contentType: file.type });
+
+      if (uploadError) throw uploadError;
+
+      // Get public URL
+      const { data: urlData } = supabase
+        .storage
+        .from(SCREENSHOT_BUCKET)
+        .getPublicUrl(filePath);
+
+      return { url: urlData.publicUrl, path: filePath };
+    },
+
+    async removeScreenshots(paths: string[]) {
+      if (paths.length === 0) return;
+
+      const { error } = await supabase.storage.from(SCREENSHOT_BUCKET).remove(paths);
+      if (error) throw error;
+    },
+  };
+}
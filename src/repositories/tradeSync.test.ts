@@ -0,0 +1,234 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { TradesRepository, TradeSync } from './types';
+import { Connectivity, createTradeSync } from './tradeSync';
+import { createMemoryOfflineDb } from './offlineDb';
+import { createLocalTradesRepository } from './localTrades';
+import { createMemoryStore } from './localStore';
+import { tradeValues } from '../test/fixtures';
+
+// The server, kept in memory. While it is unreachable every call fails the
+// way fetch does; `reject` makes writes fail as a server error and `broken`
+// as a bug in the code that sends them.
+function createServer() {
+  const trades = createLocalTradesRepository(createMemoryStore(), 'user-1');
+  const state = { reachable: true, reject: false, broken: false };
+
+  const call = <A extends unknown[], R>(run: (...args: A) => Promise<R>, write = false) =>
+    async (...args: A) => {
+      if (!state.reachable) throw new TypeError('Failed to fetch');
+      if (write && state.reject) throw { code: '23514', message: 'check constraint' };
+      if (write && state.broken) throw new TypeError("Cannot read properties of undefined (reading 'id')");
+      return run(...args);
+    };
+
+  const remote: TradesRepository = {
+    list: call(trades.list),
+    query: call(trades.query),
+    get: call(trades.get),
+    create: call(trades.create, true),
+    createMany: call(trades.createMany, true),
+    update: call(trades.update, true),
+    remove: call(trades.remove, true),
+    uploadScreenshot: call(trades.uploadScreenshot, true),
+    removeScreenshots: call(trades.removeScreenshots, true),
+  };
+
+  // What the server holds, read past the network stub
+  return { remote, trades, state };
+}
+
+function createConnectivity(online = true) {
+  const listeners = new Set<() => void>();
+  const connectivity: Connectivity = {
+    isOnline: () => online,
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+  };
+  const setOnline = (value: boolean) => {
+    online = value;
+    listeners.forEach(listener => listener());
+  };
+  return { connectivity, setOnline };
+}
+
+describe('createTradeSync', () => {
+  let server: ReturnType<typeof createServer>;
+  let network: ReturnType<typeof createConnectivity>;
+  let sync: TradeSync;
+
+  const at = (time: string) => vi.setSystemTime(new Date(time));
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    at('2026-10-19T09:00:00.000Z');
+    server = createServer();
+    network = createConnectivity();
+    sync = createTradeSync({ remote: server.remote, db: createMemoryOfflineDb(), connectivity: network.connectivity });
+    sync.start();
+  });
+
+  afterEach(() => {
+    sync.stop();
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('sends a trade created online', async () => {
+    const trade = await sync.trades.create(tradeValues());
+    await sync.flush();
+
+    expect(await server.trades.get(trade.id)).toMatchObject({ id: trade.id, stop_loss: 1.09 });
+    expect(sync.getStatus()).toMatchObject({ state: 'synced', pending: 0, failed: 0 });
+  });
+
+  it('queues changes while offline and sends them when the connection returns', async () => {
+    network.setOnline(false);
+    const trade = await sync.trades.create(tradeValues());
+    await sync.trades.update(trade.id, { notes: 'Entered on the retest' });
+
+    expect(sync.getStatus()).toMatchObject({ state: 'offline', pending: 1 });
+    expect(await sync.trades.get(trade.id)).toMatchObject({ notes: 'Entered on the retest' });
+    expect(await server.trades.list()).toEqual([]);
+
+    network.setOnline(true);
+    await sync.flush();
+
+    expect(await server.trades.get(trade.id)).toMatchObject({ notes: 'Entered on the retest' });
+    expect(sync.getStatus()).toMatchObject({ state: 'synced', pending: 0 });
+  });
+
+  it('keeps changes queued while the server cannot be reached', async () => {
+    server.state.reachable = false;
+    const trade = await sync.trades.create(tradeValues());
+    await sync.flush();
+
+    expect(sync.getStatus()).toMatchObject({ state: 'offline', pending: 1, failed: 0 });
+
+    server.state.reachable = true;
+    await sync.flush();
+
+    expect(await server.trades.get(trade.id)).not.toBeNull();
+    expect(sync.getStatus()).toMatchObject({ state: 'synced', pending: 0 });
+  });
+
+  it('holds a change the server rejects until it is retried', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    server.state.reject = true;
+    const trade = await sync.trades.create(tradeValues());
+    await sync.flush();
+
+    expect(sync.getStatus()).toMatchObject({ state: 'error', pending: 0, failed: 1 });
+
+    server.state.reject = false;
+    await sync.retryFailed();
+
+    expect(await server.trades.get(trade.id)).not.toBeNull();
+    expect(sync.getStatus()).toMatchObject({ state: 'synced', failed: 0 });
+  });
+
+  it('holds a change that fails with a bug instead of retrying it as offline', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    server.state.broken = true;
+    await sync.trades.create(tradeValues());
+    await sync.flush();
+
+    expect(sync.getStatus()).toMatchObject({ state: 'error', pending: 0, failed: 1 });
+  });
+
+  it('drops queued changes to a trade deleted before they were sent', async () => {
+    network.setOnline(false);
+    const trade = await sync.trades.create(tradeValues());
+    await sync.trades.remove(trade.id);
+    network.setOnline(true);
+    await sync.flush();
+
+    expect(await server.trades.list()).toEqual([]);
+    expect(sync.getStatus()).toMatchObject({ pending: 0 });
+  });
+
+  describe('with edits from another device', () => {
+    let id: string;
+
+    beforeEach(async () => {
+      id = (await sync.trades.create(tradeValues())).id;
+      await sync.flush();
+    });
+
+    it('keeps the other device\'s stop loss when only the notes were edited here', async () => {
+      at('2026-10-19T10:00:00.000Z');
+      await server.trades.update(id, { stop_loss: 1.095 });
+
+      // The journal form sends every field, the stale stop loss included
+      at('2026-10-19T11:00:00.000Z');
+      await sync.trades.update(id, tradeValues({ notes: 'Moved to break-even too early' }));
+      await sync.flush();
+
+      expect(await server.trades.get(id)).toMatchObject({ stop_loss: 1.095, notes: 'Moved to break-even too early' });
+      expect(await sync.trades.get(id)).toMatchObject({ stop_loss: 1.095 });
+      expect(sync.getStatus().conflicts).toEqual([]);
+    });
+
+    it('keeps the later edit of a field changed on both devices and records the conflict', async () => {
+      network.setOnline(false);
+      at('2026-10-19T10:00:00.000Z');
+      await sync.trades.update(id, { stop_loss: 1.08, notes: 'Widened the stop' });
+
+      at('2026-10-19T11:00:00.000Z');
+      await server.trades.update(id, { stop_loss: 1.095 });
+
+      network.setOnline(true);
+      await sync.flush();
+
+      expect(await server.trades.get(id)).toMatchObject({ stop_loss: 1.095, notes: 'Widened the stop' });
+      expect(sync.getStatus().conflicts).toEqual([
+        { trade_id: id, fields: ['stop_loss'], resolved_at: '2026-10-19T11:00:00.000Z' },
+      ]);
+    });
+
+    it('writes this device\'s edit when it is the later one', async () => {
+      at('2026-10-19T10:00:00.000Z');
+      await server.trades.update(id, { stop_loss: 1.095 });
+
+      network.setOnline(false);
+      at('2026-10-19T11:00:00.000Z');
+      await sync.trades.update(id, { stop_loss: 1.08 });
+      network.setOnline(true);
+      await sync.flush();
+
+      expect(await server.trades.get(id)).toMatchObject({ stop_loss: 1.08 });
+      expect(sync.getStatus().conflicts).toEqual([]);
+    });
+
+    it('drops a queued edit to a trade deleted on the other device', async () => {
+      const removed = vi.fn();
+      sync.onChange(removed);
+
+      network.setOnline(false);
+      await sync.trades.update(id, { notes: 'Too late' });
+      await server.trades.remove(id);
+      network.setOnline(true);
+      await sync.flush();
+
+      expect(await server.trades.get(id)).toBeNull();
+      expect(removed).toHaveBeenCalledWith({ type: 'removed', id });
+    });
+
+    it('takes in pushed changes but skips its own echoes', async () => {
+      const changed = vi.fn();
+      sync.onChange(changed);
+
+      const own = await sync.trades.get(id);
+      await sync.receive({ type: 'saved', id, updated_at: own!.updated_at });
+      expect(changed).not.toHaveBeenCalled();
+
+      at('2026-10-19T10:00:00.000Z');
+      const updated = await server.trades.update(id, { notes: 'From the phone' });
+      await sync.receive({ type: 'saved', id, updated_at: updated.updated_at });
+
+      expect(changed).toHaveBeenCalledWith({ type: 'saved', trade: expect.objectContaining({ notes: 'From the phone' }) });
+      expect(await sync.trades.get(id)).toMatchObject({ notes: 'From the phone' });
+    });
+  });
+});
@@ -0,0 +1,515 @@
+import { Trade, TradeQuery, TradeValues } from '../types/trade';
+import { Screenshot, StoredImage } from '../types/screenshot';
+import { RemoteTradeChange, SyncChange, SyncConflict, SyncStatus } from '../types/sync';
+import { applyTradeQuery } from '../lib/tradeQuery';
+import { mergeTradeChanges } from '../lib/tradeMerge';
+import { assertValidTrade } from '../lib/tradeSchema';
+import { errorMessage, isNetworkError } from '../lib/errors';
+import { TradeSync, TradesRepository } from './types';
+import { OfflineDb, OutboxEntry, OutboxOperation } from './offlineDb';
+import { generateId } from './localStore';
+
+// Screenshots taken offline are kept in the local database under this prefix
+// until their trade is sent
+const PENDING_FILE_PREFIX = 'pending:';
+
+export interface Connectivity {
+  isOnline(): boolean;
+  // Calls back when the connection drops or comes back
+  subscribe(listener: () => void): () => void;
+}
+
+export const browserConnectivity: Connectivity = {
+  isOnline: () => navigator.onLine,
+  subscribe(listener) {
+    window.addEventListener('online', listener);
+    window.addEventListener('offline', listener);
+    return () => {
+      window.removeEventListener('online', listener);
+      window.removeEventListener('offline', listener);
+    };
+  },
+};
+
+interface TradeSyncOptions {
+  remote: TradesRepository;
+  db: OfflineDb;
+  connectivity?: Connectivity;
+  // Wait before trying again after the server could not be reached
+  retryInterval?: number;
+  now?: () => Date;
+}
+
+const isUniqueViolation = (error: unknown) =>
+  typeof error === 'object' && error !== null && (error as { code?: unknown }).code === '23505';
+
+const isPendingFile = (screenshot: Screenshot) => screenshot.path?.startsWith(PENDING_FILE_PREFIX) ?? false;
+
+const tradeIdOf = (operation: OutboxOperation) => (operation.type === 'remove_files' ? null : operation.tradeId);
+
+const byEntryDate = (a: Trade, b: Trade) => b.entry_date.localeCompare(a.entry_date);
+
+const sameTime = (a: string, b: string) => new Date(a).getTime() === new Date(b).getTime();
+
+// The screenshots an operation writes, if any
+const screenshotsOf = (operation: OutboxOperation) => {
+  if (operation.type === 'create') return operation.values.screenshots;
+  if (operation.type === 'update') return operation.changes.screenshots;
+  return undefined;
+};
+
+const withScreenshots = (operation: OutboxOperation, screenshots: Screenshot[]): OutboxOperation => {
+  if (operation.type === 'create') return { ...operation, values: { ...operation.values, screenshots } };
+  if (operation.type === 'update') return { ...operation, changes: { ...operation.changes, screenshots } };
+  return operation;
+};
+
+const replaceUploaded = (screenshots: Screenshot[], uploaded: Map<string, StoredImage>) =>
+  screenshots.map(screenshot => {
+    const stored = screenshot.path ? uploaded.get(screenshot.path) : undefined;
+    return stored ? { ...screenshot, ...stored } : screenshot;
+  });
+
+// Offline-first trades. Every write lands in the local database and an
+// outbox first, and the outbox is sent to the server in order whenever it
+// can be reached. Edits are merged field by field with the server's copy,
+// so a trade changed on two devices keeps both sets of changes.
+export function createTradeSync({
+  remote,
+  db,
+  connectivity = browserConnectivity,
+  retryInterval = 30000,
+  now = () => new Date(),
+}: TradeSyncOptions): TradeSync {
+  let status: SyncStatus = { state: 'synced', pending: 0, failed: 0, lastSyncedAt: null, conflicts: [] };
+  let reachable = true;
+  let flushing: Promise<void> | null = null;
+  // The entry being sent, which later edits must not be folded into
+  let inFlight: number | null = null;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+  let unsubscribeConnectivity: (() => void) | null = null;
+  const listeners = new Set<() => void>();
+  const changeListeners = new Set<(change: SyncChange) => void>();
+  // Object URLs for the screenshots taken offline, by file key
+  const fileUrls = new Map<string, string>();
+
+  const setStatus = (next: Partial<SyncStatus>) => {
+    const merged = { ...status, ...next };
+    const state = flushing && merged.pending > 0
+      ? 'syncing'
+      : !connectivity.isOnline() || !reachable
+        ? 'offline'
+        : merged.failed > 0 ? 'error' : 'synced';
+    status = { ...merged, state };
+    listeners.forEach(listener => listener());
+  };
+
+  const refreshStatus = async (changes: Partial<SyncStatus> = {}) => {
+    const entries = await db.listOutbox();
+    const failed = entries.filter(entry => entry.error !== null).length;
+    setStatus({ ...changes, pending: entries.length - failed, failed });
+  };
+
+  const emit = (change: SyncChange) => changeListeners.forEach(listener => listener(change));
+
+  const fileUrl = async (key: string) => {
+    const cached = fileUrls.get(key);
+    if (cached) return cached;
+
+    const file = await db.getFile(key);
+    if (!file) return null;
+    const url = URL.createObjectURL(file);
+    fileUrls.set(key, url);
+    return url;
+  };
+
+  const deleteFile = async (key: string) => {
+    await db.deleteFile(key);
+    const url = fileUrls.get(key);
+    if (url) URL.revokeObjectURL(url);
+    fileUrls.delete(key);
+  };
+
+  // Object URLs do not outlive the page, so offline screenshots get new ones
+  const restoreFileUrls = async (trade: Trade) => {
+    if (!trade.screenshots.some(isPendingFile)) return trade;
+
+    const screenshots = await Promise.all(trade.screenshots.map(async screenshot => {
+      if (!isPendingFile(screenshot) || !screenshot.path) return screenshot;
+      const url = await fileUrl(screenshot.path);
+      return url ? { ...screenshot, url } : screenshot;
+    }));
+    return { ...trade, screenshots };
+  };
+
+  const localTrades = async () => Promise.all((await db.listTrades()).map(restoreFileUrls));
+
+  const pendingTradeIds = async () =>
+    new Set((await db.listOutbox()).flatMap(entry => tradeIdOf(entry.operation) ?? []));
+
+  // Queues a change, folding it into a change for the same trade that has
+  // not been sent yet. Folding into a rejected change clears its error, so
+  // editing a trade that failed to sync sends it again.
+  const enqueue = async (operation: OutboxOperation) => {
+    const queuedAt = now().toISOString();
+    const tradeId = tradeIdOf(operation);
+    const entries = await db.listOutbox();
+    const queued = tradeId
+      ? entries.find(entry => entry.seq !== inFlight && tradeIdOf(entry.operation) === tradeId)
+      : undefined;
+
+    if (queued && operation.type === 'update') {
+      if (queued.operation.type === 'create') {
+        const values = { ...queued.operation.values, ...operation.changes };
+        await db.updateOutbox({ ...queued, operation: { ...queued.operation, values }, queued_at: queuedAt, error: null });
+        return;
+      }
+      if (queued.operation.type === 'update') {
+        const changes = { ...queued.operation.changes, ...operation.changes };
+        await db.updateOutbox({ ...queued, operation: { ...queued.operation, changes }, queued_at: queuedAt, error: null });
+        return;
+      }
+    }
+
+    if (queued && operation.type === 'delete') {
+      await db.removeFromOutbox(queued.seq);
+      // A trade the server never saw has nothing to delete there
+      if (queued.operation.type === 'create') return;
+    }
+
+    await db.addToOutbox(operation, queuedAt);
+  };
+
+  const scheduleRetry = () => {
+    if (retryTimer || !unsubscribeConnectivity) return;
+    retryTimer = setTimeout(() => {
+      retryTimer = null;
+      flush();
+    }, retryInterval);
+  };
+
+  // Uploads the screenshots an operation took offline and rewrites every
+  // queued change and the local trade to point at the uploaded files
+  const uploadFiles = async (entry: OutboxEntry) => {
+    const screenshots = screenshotsOf(entry.operation);
+    const pending = (screenshots ?? []).filter(isPendingFile);
+    if (!screenshots || pending.length === 0) return entry;
+
+    const uploaded = new Map<string, StoredImage>();
+    const missing = new Set<string>();
+    for (const screenshot of pending) {
+      const key = screenshot.path as string;
+      const file = await db.getFile(key);
+      if (file) uploaded.set(key, await remote.uploadScreenshot(file));
+      else missing.add(key);
+    }
+
+    const rewrite = (list: Screenshot[]) =>
+      replaceUploaded(list, uploaded).filter(screenshot => !screenshot.path || !missing.has(screenshot.path));
+
+    if (missing.size > 0) console.error('Screenshots saved offline are missing:', Array.from(missing));
+
+    for (const queued of await db.listOutbox()) {
+      const list = screenshotsOf(queued.operation);
+      if (list?.some(isPendingFile)) {
+        await db.updateOutbox({ ...queued, operation: withScreenshots(queued.operation, rewrite(list)) });
+      }
+    }
+
+    const tradeId = tradeIdOf(entry.operation);
+    const local = tradeId ? await db.getTrade(tradeId) : null;
+    if (local) {
+      const trade = { ...local, screenshots: rewrite(local.screenshots) };
+      await db.putTrades([trade]);
+      emit({ type: 'saved', trade });
+    }
+
+    await Promise.all([...uploaded.keys(), ...missing].map(deleteFile));
+    return { ...entry, operation: withScreenshots(entry.operation, rewrite(screenshots)) };
+  };
+
+  // Keeps the server's copy locally unless newer edits are still queued
+  const settle = async (trade: Trade, seq: number) => {
+    const later = (await db.listOutbox())
+      .some(entry => entry.seq !== seq && tradeIdOf(entry.operation) === trade.id);
+    if (later) return;
+
+    await db.putTrades([trade]);
+    emit({ type: 'saved', trade: await restoreFileUrls(trade) });
+  };
+
+  const send = async (queued: OutboxEntry) => {
+    const entry = await uploadFiles(queued);
+    const { operation } = entry;
+
+    switch (operation.type) {
+      case 'create': {
+        let created: Trade | null;
+        try {
+          created = await remote.create(operation.values, operation.tradeId);
+        } catch (error) {
+          // Sent before, but the reply never arrived
+          if (!isUniqueViolation(error)) throw error;
+          created = await remote.get(operation.tradeId);
+        }
+        if (created) await settle(created, entry.seq);
+        return;
+      }
+
+      case 'update': {
+        const current = await remote.get(operation.tradeId);
+        if (!current) {
+          // Deleted on another device, which wins over the edit
+          await db.deleteTrade(operation.tradeId);
+          emit({ type: 'removed', id: operation.tradeId });
+          return;
+        }
+
+        const { changes, conflicts } = mergeTradeChanges(operation.base, operation.changes, current, entry.queued_at);
+        if (conflicts.length > 0) {
+          const conflict: SyncConflict = { trade_id: operation.tradeId, fields: conflicts, resolved_at: now().toISOString() };
+          setStatus({ conflicts: [...status.conflicts, conflict] });
+        }
+
+        const saved = Object.keys(changes).length > 0 ? await remote.update(operation.tradeId, changes) : current;
+        await settle(saved, entry.seq);
+        return;
+      }
+
+      case 'delete':
+        await remote.remove(operation.tradeId);
+        return;
+
+      case 'remove_files':
+        await remote.removeScreenshots(operation.paths);
+        return;
+    }
+  };
+
+  // Sends queued changes in order. A change the server rejects is kept with
+  // its error and holds back later changes to the same trade; losing the
+  // connection stops the run until it comes back.
+  const drain = async () => {
+    reachable = true;
+    await refreshStatus();
+
+    for (;;) {
+      const blocked = new Set<string>();
+      const next = (await db.listOutbox()).find(entry => {
+        const tradeId = tradeIdOf(entry.operation);
+        if (entry.error !== null) {
+          if (tradeId) blocked.add(tradeId);
+          return false;
+        }
+        return !tradeId || !blocked.has(tradeId);
+      });
+      if (!next) break;
+
+      inFlight = next.seq;
+      try {
+        await send(next);
+        await db.removeFromOutbox(next.seq);
+      } catch (error) {
+        if (isNetworkError(error)) {
+          reachable = false;
+          scheduleRetry();
+          break;
+        }
+        console.error('Error syncing trade change:', error);
+        await db.updateOutbox({ ...next, error: errorMessage(error, 'The server rejected the change') });
+      } finally {
+        inFlight = null;
+      }
+      await refreshStatus();
+    }
+
+    if (reachable) setStatus({ lastSyncedAt: now().toISOString() });
+  };
+
+  const flush = () => {
+    if (!connectivity.isOnline()) return refreshStatus();
+
+    flushing ??= drain()
+      .catch(error => console.error('Error syncing trades:', error))
+      .finally(() => {
+        flushing = null;
+        refreshStatus();
+      });
+    return flushing;
+  };
+
+  // Queues a change and tries to send it straight away
+  const write = async (operation: OutboxOperation) => {
+    await enqueue(operation);
+    await refreshStatus();
+    flush();
+  };
+
+  // Runs a server read, falling back to the local copy when offline
+  const readRemote = async <T,>(read: () => Promise<T>, fallback: () => Promise<T>) => {
+    if (!connectivity.isOnline()) return fallback();
+    try {
+      return await read();
+    } catch (error) {
+      if (!isNetworkError(error)) throw error;
+      reachable = false;
+      setStatus({});
+      scheduleRetry();
+      return fallback();
+    }
+  };
+
+  const trades: TradesRepository = {
+    // The server's trades with the changes still queued on top, kept as the
+    // local copy for when the server cannot be reached
+    list: () => readRemote(
+      async () => {
+        const fromServer = await remote.list();
+        const pending = await pendingTradeIds();
+        const queued = (await db.listTrades()).filter(trade => pending.has(trade.id));
+        const merged = [...fromServer.filter(trade => !pending.has(trade.id)), ...queued];
+        await db.putTrades(merged, true);
+        return (await Promise.all(merged.map(restoreFileUrls))).sort(byEntryDate);
+      },
+      async () => (await localTrades()).sort(byEntryDate)
+    ),
+
+    async query(query: TradeQuery) {
+      const local = async () => applyTradeQuery(await localTrades(), query);
+      if ((await db.listOutbox()).length > 0) return local();
+      return readRemote(() => remote.query(query), local);
+    },
+
+    async get(id: string) {
+      const local = await db.getTrade(id);
+      if (local && (await pendingTradeIds()).has(id)) return restoreFileUrls(local);
+
+      return readRemote(
+        async () => {
+          const trade = await remote.get(id);
+          if (trade) await db.putTrades([trade]);
+          return trade;
+        },
+        async () => (local ? restoreFileUrls(local) : null)
+      );
+    },
+
+    async create(values: TradeValues, id = generateId()) {
+      assertValidTrade(values);
+      const createdAt = now().toISOString();
+      const trade: Trade = { ...values, id, created_at: createdAt, updated_at: createdAt };
+      await db.putTrades([trade]);
+      await write({ type: 'create', tradeId: id, values });
+      return restoreFileUrls(trade);
+    },
+
+    async createMany(values: TradeValues[]) {
+      const created: Trade[] = [];
+      for (const value of values) created.push(await trades.create(value));
+      return created;
+    },
+
+    async update(id: string, changes: Partial<TradeValues>) {
+      const base = await db.getTrade(id) ?? await remote.get(id);
+      if (!base) throw new Error(`Trade ${id} not found`);
+      assertValidTrade({ ...base, ...changes }, Object.keys(changes));
+
+      const updated = { ...base, ...changes, updated_at: now().toISOString() };
+      await db.putTrades([updated]);
+      await write({ type: 'update', tradeId: id, changes, base });
+      return restoreFileUrls(updated);
+    },
+
+    async remove(id: string) {
+      await db.deleteTrade(id);
+      await write({ type: 'delete', tradeId: id });
+    },
+
+    async uploadScreenshot(file: File) {
+      const key = `${PENDING_FILE_PREFIX}${generateId()}.${file.name.split('.').pop()}`;
+      await db.putFile(key, file);
+      const url = URL.createObjectURL(file);
+      fileUrls.set(key, url);
+      return { url, path: key };
+    },
+
+    async removeScreenshots(paths: string[]) {
+      const pending = paths.filter(path => path.startsWith(PENDING_FILE_PREFIX));
+      const uploaded = paths.filter(path => !path.startsWith(PENDING_FILE_PREFIX));
+
+      await Promise.all(pending.map(deleteFile));
+      if (uploaded.length > 0) await write({ type: 'remove_files', paths: uploaded });
+    },
+  };
+
+  return {
+    trades,
+
+    start() {
+      if (unsubscribeConnectivity) return;
+      unsubscribeConnectivity = connectivity.subscribe(() => {
+        if (connectivity.isOnline()) flush();
+        else setStatus({});
+      });
+      flush();
+    },
+
+    stop() {
+      unsubscribeConnectivity?.();
+      unsubscribeConnectivity = null;
+      if (retryTimer) clearTimeout(retryTimer);
+      retryTimer = null;
+    },
+
+    flush,
+
+    async retryFailed() {
+      const entries = await db.listOutbox();
+      await Promise.all(entries
+        .filter(entry => entry.error !== null)
+        .map(entry => db.updateOutbox({ ...entry, error: null })));
+      await flush();
+    },
+
+    async receive(change: RemoteTradeChange) {
+      if ((await pendingTradeIds()).has(change.id)) return;
+
+      const local = await db.getTrade(change.id);
+      if (change.type === 'removed') {
+        if (!local) return;
+        await db.deleteTrade(change.id);
+        emit({ type: 'removed', id: change.id });
+        return;
+      }
+
+      // This device's own writes come back too, already stored as sent
+      if (local && change.updated_at && sameTime(local.updated_at, change.updated_at)) return;
+
+      // The pushed row lacks the tag links, so the trade is read in full
+      const trade = await remote.get(change.id);
+      if (trade) {
+        await db.putTrades([trade]);
+        emit({ type: 'saved', trade: await restoreFileUrls(trade) });
+      } else if (local) {
+        await db.deleteTrade(change.id);
+        emit({ type: 'removed', id: change.id });
+      }
+    },
+
+    getStatus: () => status,
+
+    subscribe(listener: () => void) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    onChange(listener: (change: SyncChange) => void) {
+      changeListeners.add(listener);
+      return () => {
+        changeListeners.delete(listener);
+      };
+    },
+  };
+}
@@ -0,0 +1,106 @@
+import { Trade, TradePage, TradeQuery, TradeValues } from '../types/trade';
+import { UserSettings } from '../types/settings';
+import { Tag, TagValues } from '../types/tag';
+import { Account, AccountValues } from '../types/account';
+import { LedgerEntry, LedgerEntryValues } from '../types/ledger';
+import { StoredImage } from '../types/screenshot';
+import { TradeReview, TradeReviewValues } from '../types/review';
+import { PlanRule, PlanRuleValues } from '../types/plan';
+import { RealtimeChange, RemoteTradeChange, SyncChange, SyncStatus } from '../types/sync';
+
+// Every repository is bound to the signed-in user when it is created, so
+// callers can never read or write another user's rows by mistake.
+
+export interface TradesRepository {
+  list(): Promise<Trade[]>;
+  query(query: TradeQuery): Promise<TradePage>;
+  get(id: string): Promise<Trade | null>;
+  // The id may be chosen by the caller, e.g. for trades created offline
+  create(values: TradeValues, id?: string): Promise<Trade>;
+  createMany(values: TradeValues[]): Promise<Trade[]>;
+  update(id: string, changes: Partial<TradeValues>): Promise<Trade>;
+  remove(id: string): Promise<void>;
+  // Stores an image under the user's own folder
+  uploadScreenshot(file: File): Promise<StoredImage>;
+  removeScreenshots(paths: string[]): Promise<void>;
+}
+
+export interface SettingsRepository {
+  get(): Promise<UserSettings | null>;
+  save(settings: UserSettings): Promise<UserSettings>;
+}
+
+export interface TagsRepository {
+  list(): Promise<Tag[]>;
+  create(values: TagValues): Promise<Tag>;
+  remove(id: string): Promise<void>;
+}
+
+export interface AccountsRepository {
+  list(): Promise<Account[]>;
+  create(values: AccountValues): Promise<Account>;
+  update(id: string, changes: Partial<AccountValues>): Promise<Account>;
+  remove(id: string): Promise<void>;
+}
+
+export interface LedgerRepository {
+  list(): Promise<LedgerEntry[]>;
+  create(values: LedgerEntryValues): Promise<LedgerEntry>;
+  remove(id: string): Promise<void>;
+}
+
+// Reviews are keyed by the trade they belong to
+export interface ReviewsRepository {
+  list(): Promise<TradeReview[]>;
+  save(tradeId: string, values: TradeReviewValues): Promise<TradeReview>;
+  remove(tradeId: string): Promise<void>;
+}
+
+export interface PlanRulesRepository {
+  list(): Promise<PlanRule[]>;
+  create(values: PlanRuleValues): Promise<PlanRule>;
+  update(id: string, changes: Partial<PlanRuleValues>): Promise<PlanRule>;
+  remove(id: string): Promise<void>;
+}
+
+// Sends trade changes saved offline to the server in the background
+export interface TradeSync {
+  // Reads and writes the local copy first and queues writes for the server
+  trades: TradesRepository;
+  // Starts syncing now and whenever the connection comes back
+  start(): void;
+  stop(): void;
+  flush(): Promise<void>;
+  // Sends the changes the server rejected once more
+  retryFailed(): Promise<void>;
+  getStatus(): SyncStatus;
+  subscribe(listener: () => void): () => void;
+  onChange(listener: (change: SyncChange) => void): () => void;
+  // Takes in a change another device made, unless edits to the same trade
+  // are still queued here; those are merged when they are sent
+  receive(change: RemoteTradeChange): Promise<void>;
+}
+
+export interface RealtimeHandlers {
+  onChange(change: RealtimeChange): void;
+  // The connection dropped and came back, so changes may have been missed
+  onReconnect(): void;
+}
+
+// Pushes changes to the user's rows as they happen on any device
+export interface RealtimeFeed {
+  subscribe(handlers: RealtimeHandlers): () => void;
+}
+
+export interface Repositories {
+  trades: TradesRepository;
+  settings: SettingsRepository;
+  tags: TagsRepository;
+  accounts: AccountsRepository;
+  ledger: LedgerRepository;
+  reviews: ReviewsRepository;
+  planRules: PlanRulesRepository;
+  // Only the Supabase backend syncs; the offline backends are local already
+  sync: TradeSync | null;
+  realtime: RealtimeFeed | null;
+}
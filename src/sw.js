@@ -0,0 +1,84 @@
+// Service worker for the installed app. The build prepends VERSION and
+// PRECACHE_URLS (see vite.config.ts), so every deploy ships a new worker.
+/* global VERSION, PRECACHE_URLS */
+
+const SHELL_CACHE = `fx-journal-shell-${VERSION}`;
+const SCREENSHOT_CACHE = 'fx-journal-screenshots';
+// Oldest screenshots are dropped past this many
+const MAX_SCREENSHOTS = 200;
+
+// Public URLs of the files in Supabase Storage
+const isScreenshot = url => url.pathname.includes('/storage/v1/object/public/');
+
+self.addEventListener('install', event => {
+  event.waitUntil(caches.open(SHELL_CACHE).then(cache => cache.addAll(PRECACHE_URLS)));
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys
+        .filter(key => key.startsWith('fx-journal-shell-') && key !== SHELL_CACHE)
+        .map(key => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+// The page asks the new worker to take over once the user accepts the update
+self.addEventListener('message', event => {
+  if (event.data?.type === 'SKIP_WAITING') self.skipWaiting();
+});
+
+const trimScreenshots = async () => {
+  const cache = await caches.open(SCREENSHOT_CACHE);
+  const keys = await cache.keys();
+  await Promise.all(keys.slice(0, Math.max(0, keys.length - MAX_SCREENSHOTS)).map(key => cache.delete(key)));
+};
+
+// Screenshot files never change once uploaded, so a cached copy is always good
+const cachedScreenshot = async request => {
+  const cache = await caches.open(SCREENSHOT_CACHE);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+
+  // Images are requested without CORS and would come back opaque, with no
+  // status to check and a padded size against the storage quota. Storage
+  // allows CORS, so fetch them that way and keep only real successes.
+  const response = await fetch(request.url, { mode: 'cors', credentials: 'omit' })
+    .catch(() => fetch(request));
+  if (response.ok) {
+    await cache.put(request, response.clone());
+    trimScreenshots();
+  }
+  return response;
+};
+
+// Pages are served from the cached app shell so the app opens instantly,
+// even offline; the router takes it from there
+const appShell = async request => {
+  const cached = await caches.match('/index.html', { cacheName: SHELL_CACHE });
+  return cached ?? fetch(request);
+};
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+
+  if (request.mode === 'navigate' && url.origin === self.location.origin) {
+    event.respondWith(appShell(request));
+    return;
+  }
+
+  if (isScreenshot(url)) {
+    event.respondWith(cachedScreenshot(request));
+    return;
+  }
+
+  // Built files carry a content hash, so the cached copy is always current;
+  // Supabase API calls and anything else go straight to the network
+  if (url.origin === self.location.origin) {
+    event.respondWith(caches.match(request, { cacheName: SHELL_CACHE }).then(cached => cached ?? fetch(request)));
+  }
+});
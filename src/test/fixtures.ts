@@ -0,0 +1,62 @@
+import { Trade, TradeFormData, TradeValues } from '../types/trade';
+
+// Shared by the unit tests: an open EUR/USD buy of 1 lot with a 10 pip stop
+// and a 20 pip target. Tests override only the fields they are about.
+
+export const tradeValues = (overrides: Partial<TradeValues> = {}): TradeValues => ({
+  pair: 'EUR/USD',
+  timeframe: 'H1',
+  type: 'Buy',
+  entry_price: 1.1,
+  exit_price: null,
+  stop_loss: 1.09,
+  take_profit: 1.12,
+  lot_size: 1,
+  suggested_lot_size: null,
+  entry_date: '2026-10-19T08:00:00.000Z',
+  exit_date: null,
+  timezone: 'UTC',
+  profit_loss: null,
+  commission: 0,
+  swap: 0,
+  risk_reward_ratio: 2,
+  bb_upper: null,
+  bb_middle: null,
+  bb_lower: null,
+  macd_line: null,
+  macd_signal: null,
+  macd_histogram: null,
+  stochastic_k: null,
+  stochastic_d: null,
+  market_sentiment: null,
+  notes: null,
+  screenshots: [],
+  tag_ids: [],
+  executions: [],
+  plan_checks: [],
+  account_id: null,
+  ...overrides,
+});
+
+let nextId = 1;
+
+export const buildTrade = (overrides: Partial<Trade> = {}): Trade => ({
+  id: `trade-${nextId++}`,
+  ...tradeValues(),
+  created_at: '2026-10-01T00:00:00.000Z',
+  updated_at: '2026-10-01T00:00:00.000Z',
+  ...overrides,
+});
+
+// The same trade as entered in the journal form, in datetime-local format
+export const tradeForm = (overrides: Partial<TradeFormData> = {}): TradeFormData => ({
+  pair: 'EUR/USD',
+  timeframe: 'H1',
+  type: 'Buy',
+  entry_price: 1.1,
+  stop_loss: 1.09,
+  take_profit: 1.12,
+  lot_size: 1,
+  entry_date: '2026-10-19T10:00',
+  ...overrides,
+});
@@ -0,0 +1,21 @@
+export const ACCOUNT_TYPES = ['live', 'demo', 'prop'] as const;
+
+export type AccountType = typeof ACCOUNT_TYPES[number];
+
+export const ACCOUNT_TYPE_LABELS: Record<AccountType, string> = {
+  live: 'Live',
+  demo: 'Demo',
+  prop: 'Prop firm',
+};
+
+export interface Account {
+  id: string;
+  name: string;
+  broker: string | null;
+  currency: string;
+  starting_balance: number;
+  type: AccountType;
+  created_at: string;
+}
+
+export type AccountValues = Omit<Account, 'id' | 'created_at'>;
@@ -0,0 +1,24 @@
+export const LEDGER_ENTRY_TYPES = ['deposit', 'withdrawal', 'commission', 'swap', 'adjustment'] as const;
+
+export type LedgerEntryType = typeof LEDGER_ENTRY_TYPES[number];
+
+export const LEDGER_ENTRY_TYPE_LABELS: Record<LedgerEntryType, string> = {
+  deposit: 'Deposit',
+  withdrawal: 'Withdrawal',
+  commission: 'Commission / fee',
+  swap: 'Swap',
+  adjustment: 'Adjustment',
+};
+
+export interface LedgerEntry {
+  id: string;
+  account_id: string;
+  type: LedgerEntryType;
+  // Signed change to the account balance, negative for withdrawals and fees
+  amount: number;
+  occurred_at: string;
+  note: string | null;
+  created_at: string;
+}
+
+export type LedgerEntryValues = Omit<LedgerEntry, 'id' | 'created_at'>;
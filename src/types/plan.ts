@@ -0,0 +1,35 @@
+// How a checklist rule is ticked: by the trader, or worked out from the
+// values entered in the trade form
+export const PLAN_RULE_CHECKS = ['manual', 'min_risk_reward', 'max_risk_percent', 'with_sentiment'] as const;
+
+export type PlanRuleCheck = typeof PLAN_RULE_CHECKS[number];
+
+export const PLAN_RULE_CHECK_LABELS: Record<PlanRuleCheck, string> = {
+  manual: 'Ticked by hand',
+  min_risk_reward: 'R:R at least',
+  max_risk_percent: 'Risk at most (% of balance)',
+  with_sentiment: 'Not against market sentiment',
+};
+
+// Checks that compare the trade with a number set on the rule
+export const THRESHOLD_CHECKS: PlanRuleCheck[] = ['min_risk_reward', 'max_risk_percent'];
+
+// One line of the trading plan checklist
+export interface PlanRule {
+  id: string;
+  name: string;
+  check: PlanRuleCheck;
+  // Only used by the threshold checks
+  threshold: number | null;
+  created_at: string;
+}
+
+export type PlanRuleValues = Omit<PlanRule, 'id' | 'created_at'>;
+
+// Whether a trade met a rule when it was journaled. The name is copied so
+// the result still reads the same after the rule is renamed or deleted.
+export interface PlanCheck {
+  rule_id: string;
+  name: string;
+  met: boolean;
+}
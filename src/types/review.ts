@@ -0,0 +1,30 @@
+export const EXECUTION_GRADES = ['A', 'B', 'C', 'D', 'F'] as const;
+
+export type ExecutionGrade = typeof EXECUTION_GRADES[number];
+
+export const EXECUTION_GRADE_LABELS: Record<ExecutionGrade, string> = {
+  A: 'A – Textbook',
+  B: 'B – Minor slips',
+  C: 'C – Average',
+  D: 'D – Poor',
+  F: 'F – Broke my rules',
+};
+
+// Post-trade reflection, one per trade
+export interface TradeReview {
+  id: string;
+  trade_id: string;
+  // null until answered
+  followed_plan: boolean | null;
+  grade: ExecutionGrade | null;
+  went_well: string | null;
+  to_improve: string | null;
+  lessons: string | null;
+  // Worst and best price reached while the trade was open, when known
+  mae_price: number | null;
+  mfe_price: number | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type TradeReviewValues = Omit<TradeReview, 'id' | 'trade_id' | 'created_at' | 'updated_at'>;
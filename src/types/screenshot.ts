@@ -0,0 +1,43 @@
+export const SCREENSHOT_LABELS = ['entry', 'exit', 'higher_timeframe'] as const;
+
+export type ScreenshotLabel = typeof SCREENSHOT_LABELS[number];
+
+export const SCREENSHOT_LABEL_NAMES: Record<ScreenshotLabel, string> = {
+  entry: 'Entry',
+  exit: 'Exit',
+  higher_timeframe: 'Higher timeframe',
+};
+
+export const ANNOTATION_TOOLS = ['line', 'arrow', 'box', 'text'] as const;
+
+export type AnnotationTool = typeof ANNOTATION_TOOLS[number];
+
+// A drawing on top of a screenshot. Coordinates are fractions of the image
+// width and height, so they line up at any display size.
+export interface Annotation {
+  tool: AnnotationTool;
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+  color: string;
+  // Only used by the text tool, which is placed at x1/y1
+  text?: string;
+}
+
+export interface Screenshot {
+  url: string;
+  // Location in file storage, used to delete the file; null for inline images
+  path: string | null;
+  label: ScreenshotLabel;
+  annotations: Annotation[];
+}
+
+// Where an uploaded image ended up
+export type StoredImage = Pick<Screenshot, 'url' | 'path'>;
+
+// A screenshot in the trade form; new images keep their file until the
+// trade is saved
+export interface ScreenshotDraft extends Screenshot {
+  file?: File;
+}
@@ -0,0 +1,10 @@
+export interface UserSettings {
+  risk_percentage: number;
+  // Balance in the account currency that position sizes are calculated from
+  account_balance: number;
+}
+
+export const DEFAULT_SETTINGS: UserSettings = {
+  risk_percentage: 2,
+  account_balance: 10000,
+};
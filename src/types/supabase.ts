@@ -17,12 +17,14 @@ export interface Database {
           timeframe: string
           type: 'Buy' | 'Sell'
           entry_price: number
-          exit_price: number
+          exit_price: number | null
           stop_loss: number
           take_profit: number
+          lot_size: number | null
+          suggested_lot_size: number | null
           entry_date: string
           exit_date: string | null
-          profit_loss: number
+          profit_loss: number | null
           risk_reward_ratio: number
           bb_upper: number | null
           bb_middle: number | null
@@ -34,7 +36,14 @@ export interface Database {
           stochastic_d: number | null
           market_sentiment: string | null
           notes: string | null
-          screenshot_url: string | null
+          screenshots: Json
+          account_id: string | null
+          commission: number
+          swap: number
+          executions: Json
+          timezone: string | null
+          plan_checks: Json
+          updated_at: string
           user_id: string
         }
         Insert: {
@@ -44,12 +53,14 @@ export interface Database {
           timeframe: string
           type: 'Buy' | 'Sell'
           entry_price: number
-          exit_price?: number
+          exit_price?: number | null
           stop_loss: number
           take_profit: number
+          lot_size: number | null
+          suggested_lot_size?: number | null
           entry_date: string
           exit_date?: string | null
-          profit_loss?: number
+          profit_loss?: number | null
           risk_reward_ratio?: number
           bb_upper?: number | null
           bb_middle?: number | null
@@ -61,7 +72,14 @@ export interface Database {
           stochastic_d?: number | null
           market_sentiment?: string | null
           notes?: string | null
-          screenshot_url?: string | null
+          screenshots?: Json
+          account_id?: string | null
+          commission?: number
+          swap?: number
+          executions?: Json
+          timezone?: string | null
+          plan_checks?: Json
+          updated_at?: string
           user_id: string
         }
         Update: {
@@ -71,12 +89,14 @@ export interface Database {
           timeframe?: string
           type?: 'Buy' | 'Sell'
           entry_price?: number
-          exit_price?: number
+          exit_price?: number | null
           stop_loss?: number
           take_profit?: number
+          lot_size?: number | null
+          suggested_lot_size?: number | null
           entry_date?: string
           exit_date?: string | null
-          profit_loss?: number
+          profit_loss?: number | null
           risk_reward_ratio?: number
           bb_upper?: number | null
           bb_middle?: number | null
@@ -88,30 +108,217 @@ export interface Database {
           stochastic_d?: number | null
           market_sentiment?: string | null
           notes?: string | null
-          screenshot_url?: string | null
+          screenshots?: Json
+          account_id?: string | null
+          commission?: number
+          swap?: number
+          executions?: Json
+          timezone?: string | null
+          plan_checks?: Json
+          updated_at?: string
           user_id?: string
         }
       }
+      tags: {
+        Row: {
+          id: string
+          created_at: string
+          user_id: string
+          name: string
+          category: 'strategy' | 'mistake' | 'emotion'
+        }
+        Insert: {
+          id?: string
+          created_at?: string
+          user_id: string
+          name: string
+          category: 'strategy' | 'mistake' | 'emotion'
+        }
+        Update: {
+          id?: string
+          created_at?: string
+          user_id?: string
+          name?: string
+          category?: 'strategy' | 'mistake' | 'emotion'
+        }
+      }
+      trade_tags: {
+        Row: {
+          trade_id: string
+          tag_id: string
+          user_id: string
+        }
+        Insert: {
+          trade_id: string
+          tag_id: string
+          user_id: string
+        }
+        Update: {
+          trade_id?: string
+          tag_id?: string
+          user_id?: string
+        }
+      }
+      accounts: {
+        Row: {
+          id: string
+          created_at: string
+          user_id: string
+          name: string
+          broker: string | null
+          currency: string
+          starting_balance: number
+          type: 'live' | 'demo' | 'prop'
+        }
+        Insert: {
+          id?: string
+          created_at?: string
+          user_id: string
+          name: string
+          broker?: string | null
+          currency?: string
+          starting_balance?: number
+          type?: 'live' | 'demo' | 'prop'
+        }
+        Update: {
+          id?: string
+          created_at?: string
+          user_id?: string
+          name?: string
+          broker?: string | null
+          currency?: string
+          starting_balance?: number
+          type?: 'live' | 'demo' | 'prop'
+        }
+      }
+      ledger_entries: {
+        Row: {
+          id: string
+          created_at: string
+          user_id: string
+          account_id: string
+          type: 'deposit' | 'withdrawal' | 'commission' | 'swap' | 'adjustment'
+          amount: number
+          occurred_at: string
+          note: string | null
+        }
+        Insert: {
+          id?: string
+          created_at?: string
+          user_id: string
+          account_id: string
+          type: 'deposit' | 'withdrawal' | 'commission' | 'swap' | 'adjustment'
+          amount: number
+          occurred_at: string
+          note?: string | null
+        }
+        Update: {
+          id?: string
+          created_at?: string
+          user_id?: string
+          account_id?: string
+          type?: 'deposit' | 'withdrawal' | 'commission' | 'swap' | 'adjustment'
+          amount?: number
+          occurred_at?: string
+          note?: string | null
+        }
+      }
+      trade_reviews: {
+        Row: {
+          id: string
+          created_at: string
+          updated_at: string
+          user_id: string
+          trade_id: string
+          followed_plan: boolean | null
+          grade: 'A' | 'B' | 'C' | 'D' | 'F' | null
+          went_well: string | null
+          to_improve: string | null
+          lessons: string | null
+          mae_price: number | null
+          mfe_price: number | null
+        }
+        Insert: {
+          id?: string
+          created_at?: string
+          updated_at?: string
+          user_id: string
+          trade_id: string
+          followed_plan?: boolean | null
+          grade?: 'A' | 'B' | 'C' | 'D' | 'F' | null
+          went_well?: string | null
+          to_improve?: string | null
+          lessons?: string | null
+          mae_price?: number | null
+          mfe_price?: number | null
+        }
+        Update: {
+          id?: string
+          created_at?: string
+          updated_at?: string
+          user_id?: string
+          trade_id?: string
+          followed_plan?: boolean | null
+          grade?: 'A' | 'B' | 'C' | 'D' | 'F' | null
+          went_well?: string | null
+          to_improve?: string | null
+          lessons?: string | null
+          mae_price?: number | null
+          mfe_price?: number | null
+        }
+      }
+      plan_rules: {
+        Row: {
+          id: string
+          created_at: string
+          user_id: string
+          name: string
+          check: 'manual' | 'min_risk_reward' | 'max_risk_percent' | 'with_sentiment'
+          threshold: number | null
+        }
+        Insert: {
+          id?: string
+          created_at?: string
+          user_id: string
+          name: string
+          check?: 'manual' | 'min_risk_reward' | 'max_risk_percent' | 'with_sentiment'
+          threshold?: number | null
+        }
+        Update: {
+          id?: string
+          created_at?: string
+          user_id?: string
+          name?: string
+          check?: 'manual' | 'min_risk_reward' | 'max_risk_percent' | 'with_sentiment'
+          threshold?: number | null
+        }
+      }
       settings: {
         Row: {
           id: string
           user_id: string
           risk_percentage: number
+          account_balance: number
           created_at: string
         }
         Insert: {
           id?: string
           user_id: string
           risk_percentage: number
+          account_balance?: number
           created_at?: string
         }
         Update: {
           id?: string
           user_id?: string
           risk_percentage?: number
+          account_balance?: number
           created_at?: string
         }
       }
     }
   }
-}
\ No newline at end of file
+}
+
+export type TradeInsert = Database['public']['Tables']['trades']['Insert']
+export type TradeUpdate = Database['public']['Tables']['trades']['Update']
@@ -0,0 +1,35 @@
+import { Trade, TradeValues } from './trade';
+
+export type SyncState = 'synced' | 'syncing' | 'offline' | 'error';
+
+// Fields of a queued edit that lost to a newer edit made on another device
+export interface SyncConflict {
+  trade_id: string;
+  fields: (keyof TradeValues)[];
+  resolved_at: string;
+}
+
+export interface SyncStatus {
+  state: SyncState;
+  // Changes waiting to reach the server
+  pending: number;
+  // Changes the server rejected; they wait until retried or edited again
+  failed: number;
+  lastSyncedAt: string | null;
+  conflicts: SyncConflict[];
+}
+
+// A trade the sync changed locally, e.g. merged with another device's edits
+export type SyncChange =
+  | { type: 'saved'; trade: Trade }
+  | { type: 'removed'; id: string };
+
+// A trade changed on the server by any device, as pushed by the realtime feed
+export type RemoteTradeChange =
+  // `updated_at` is null when only the trade's tag links changed
+  | { type: 'saved'; id: string; updated_at: string | null }
+  | { type: 'removed'; id: string };
+
+export type RealtimeChange =
+  | ({ table: 'trades' } & RemoteTradeChange)
+  | { table: 'settings' };
@@ -0,0 +1,18 @@
+export const TAG_CATEGORIES = ['strategy', 'mistake', 'emotion'] as const;
+
+export type TagCategory = typeof TAG_CATEGORIES[number];
+
+export const TAG_CATEGORY_LABELS: Record<TagCategory, string> = {
+  strategy: 'Strategy / Setup',
+  mistake: 'Mistakes',
+  emotion: 'Emotions',
+};
+
+export interface Tag {
+  id: string;
+  name: string;
+  category: TagCategory;
+  created_at: string;
+}
+
+export type TagValues = Pick<Tag, 'name' | 'category'>;
@@ -1,3 +1,6 @@
+import { Screenshot, ScreenshotDraft } from './screenshot';
+import { PlanCheck } from './plan';
+
 export type CurrencyPair = 
   | 'EUR/USD' | 'GBP/USD' | 'USD/JPY' | 'USD/CHF' 
   | 'USD/CAD' | 'AUD/USD' | 'NZD/USD' | 'EUR/GBP' 
@@ -14,6 +17,26 @@ export type MarketSentiment =
   | 'Moderate Bearish' 
   | 'Strong Bearish';
 
+export const CURRENCY_PAIRS: CurrencyPair[] = [
+  'XAU/USD', 'EUR/USD', 'GBP/USD', 'USD/JPY', 'USD/CHF',
+  'USD/CAD', 'AUD/USD', 'NZD/USD', 'EUR/GBP', 'EUR/JPY', 'GBP/JPY', 'Other'
+];
+
+export const TIMEFRAMES: Timeframe[] = ['M5', 'M15', 'M30', 'H1', 'H4', 'D1', 'W1', 'MN'];
+
+export const MARKET_SENTIMENTS: MarketSentiment[] = [
+  'Strong Bullish', 'Moderate Bullish', 'Neutral', 'Moderate Bearish', 'Strong Bearish'
+];
+
+// One fill of a position: orders in the trade's direction add to it, the
+// opposite side scales out or closes it
+export interface Execution {
+  side: TradeType;
+  price: number;
+  lot_size: number;
+  executed_at: string;
+}
+
 export interface Trade {
   id: string;
   pair: CurrencyPair;
@@ -23,9 +46,17 @@ export interface Trade {
   exit_price: number | null;
   stop_loss: number;
   take_profit: number;
+  lot_size: number | null;
+  // Size the position sizer proposed for the configured risk when the trade was entered
+  suggested_lot_size: number | null;
   entry_date: string;
   exit_date: string | null;
+  // IANA zone the times were entered in; null for trades recorded by date only
+  timezone: string | null;
   profit_loss: number | null;
+  // Broker costs as signed balance changes, e.g. -7 for a $7 commission
+  commission: number;
+  swap: number;
   risk_reward_ratio: number;
   bb_upper: number | null;
   bb_middle: number | null;
@@ -37,10 +68,25 @@ export interface Trade {
   stochastic_d: number | null;
   market_sentiment: MarketSentiment | null;
   notes: string | null;
-  screenshot_url: string | null;
+  // Chart images with their annotations
+  screenshots: Screenshot[];
+  // Ids of the user's tags attached to this trade
+  tag_ids: string[];
+  // Fills of trades that were scaled into or partially closed; empty for a
+  // single entry and exit, which the price and size columns describe alone
+  executions: Execution[];
+  // Trading plan rules and whether the trade met them; empty for trades
+  // journaled without a plan
+  plan_checks: PlanCheck[];
+  account_id: string | null;
   created_at: string;
+  // Time of the last write, used to settle edits made on two devices
+  updated_at: string;
 }
 
+// Everything stored for a trade except the keys the backend assigns
+export type TradeValues = Omit<Trade, 'id' | 'created_at' | 'updated_at'>;
+
 export interface TradeFormData {
   pair: CurrencyPair;
   timeframe: Timeframe;
@@ -49,8 +95,11 @@ export interface TradeFormData {
   exit_price?: number;
   stop_loss: number;
   take_profit: number;
+  lot_size?: number;
   entry_date: string;
   exit_date?: string;
+  commission?: number;
+  swap?: number;
   bb_upper?: number;
   bb_middle?: number;
   bb_lower?: number;
@@ -61,5 +110,54 @@ export interface TradeFormData {
   stochastic_d?: number;
   market_sentiment?: MarketSentiment;
   notes?: string;
-  screenshot?: File;
-}
\ No newline at end of file
+  tag_ids?: string[];
+  account_id?: string;
+  // executed_at holds a datetime-local value while in the form
+  executions?: Execution[];
+  screenshots?: ScreenshotDraft[];
+  // Ticks of the plan rules checked by hand
+  plan_checks?: PlanCheck[];
+}
+
+export type TradeOutcome = 'win' | 'loss' | 'open';
+
+export type TradeSortField =
+  | 'entry_date'
+  | 'exit_date'
+  | 'pair'
+  | 'timeframe'
+  | 'type'
+  | 'entry_price'
+  | 'exit_price'
+  | 'stop_loss'
+  | 'take_profit'
+  | 'profit_loss'
+  | 'risk_reward_ratio'
+  | 'market_sentiment';
+
+export type SortDirection = 'asc' | 'desc';
+
+export interface TradeFilters {
+  pair?: CurrencyPair;
+  timeframe?: Timeframe;
+  type?: TradeType;
+  market_sentiment?: MarketSentiment;
+  from?: string;
+  to?: string;
+  outcome?: TradeOutcome;
+  tag?: string;
+  account?: string;
+}
+
+export interface TradeQuery {
+  filters: TradeFilters;
+  sort: TradeSortField;
+  direction: SortDirection;
+  page: number;
+  pageSize: number;
+}
+
+export interface TradePage {
+  trades: Trade[];
+  total: number;
+}
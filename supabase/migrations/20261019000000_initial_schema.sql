@@ -0,0 +1,64 @@
+-- Trades and settings, each row owned by one auth user
+
+create table if not exists public.trades (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  pair text not null,
+  timeframe text not null,
+  type text not null check (type in ('Buy', 'Sell')),
+  entry_price numeric not null,
+  exit_price numeric,
+  stop_loss numeric not null,
+  take_profit numeric not null,
+  lot_size numeric,
+  entry_date timestamptz not null,
+  exit_date timestamptz,
+  profit_loss numeric,
+  risk_reward_ratio numeric not null default 0,
+  bb_upper numeric,
+  bb_middle numeric,
+  bb_lower numeric,
+  macd_line numeric,
+  macd_signal numeric,
+  macd_histogram numeric,
+  stochastic_k numeric,
+  stochastic_d numeric,
+  market_sentiment text,
+  notes text,
+  screenshot_url text
+);
+
+create index if not exists trades_user_entry_date_idx on public.trades (user_id, entry_date desc);
+
+create table if not exists public.settings (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  user_id uuid not null unique references auth.users (id) on delete cascade,
+  risk_percentage numeric not null default 2
+);
+
+-- Row level security: every query only ever sees the signed-in user's rows
+
+alter table public.trades enable row level security;
+alter table public.settings enable row level security;
+
+create policy "Users manage their own trades" on public.trades
+  for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+create policy "Users manage their own settings" on public.settings
+  for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+-- Screenshot storage
+
+insert into storage.buckets (id, name, public)
+values ('trading-journal', 'trading-journal', true)
+on conflict (id) do nothing;
+
+create policy "Authenticated users upload screenshots" on storage.objects
+  for insert to authenticated
+  with check (bucket_id = 'trading-journal');
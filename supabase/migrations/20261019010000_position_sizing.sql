@@ -0,0 +1,8 @@
+-- Position sizing: the balance risk is measured against, and the size the
+-- sizer proposed for each trade so discipline can be reported later
+
+alter table public.settings
+  add column if not exists account_balance numeric not null default 10000;
+
+alter table public.trades
+  add column if not exists suggested_lot_size numeric;
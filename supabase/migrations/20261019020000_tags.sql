@@ -0,0 +1,33 @@
+-- User-defined tags for strategies/setups, mistakes and emotions, linked to
+-- trades through trade_tags
+
+create table if not exists public.tags (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  name text not null check (length(trim(name)) > 0),
+  category text not null check (category in ('strategy', 'mistake', 'emotion')),
+  unique (user_id, category, name)
+);
+
+create table if not exists public.trade_tags (
+  trade_id uuid not null references public.trades (id) on delete cascade,
+  tag_id uuid not null references public.tags (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  primary key (trade_id, tag_id)
+);
+
+create index if not exists trade_tags_tag_idx on public.trade_tags (tag_id);
+
+alter table public.tags enable row level security;
+alter table public.trade_tags enable row level security;
+
+create policy "Users manage their own tags" on public.tags
+  for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+create policy "Users manage their own trade tags" on public.trade_tags
+  for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
@@ -0,0 +1,39 @@
+-- Trading accounts: each trade belongs to one, and equity curves start from
+-- the account's starting balance
+
+create table if not exists public.accounts (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  name text not null check (length(trim(name)) > 0),
+  broker text,
+  currency text not null default 'USD',
+  starting_balance numeric not null default 0,
+  type text not null default 'live' check (type in ('live', 'demo', 'prop'))
+);
+
+alter table public.trades
+  add column if not exists account_id uuid references public.accounts (id) on delete set null;
+
+create index if not exists trades_account_idx on public.trades (account_id);
+
+alter table public.accounts enable row level security;
+
+create policy "Users manage their own accounts" on public.accounts
+  for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+-- Move existing journals into a default account so nothing is left unassigned
+
+insert into public.accounts (user_id, name, starting_balance)
+select distinct t.user_id, 'Main account', coalesce(s.account_balance, 10000)
+from public.trades t
+left join public.settings s on s.user_id = t.user_id
+where not exists (select 1 from public.accounts a where a.user_id = t.user_id);
+
+update public.trades t
+set account_id = a.id
+from public.accounts a
+where a.user_id = t.user_id
+  and t.account_id is null;
@@ -0,0 +1,28 @@
+-- Cash flows and costs per account, so equity reflects what the broker holds
+-- rather than raw trade P/L
+
+alter table public.trades
+  add column if not exists commission numeric not null default 0,
+  add column if not exists swap numeric not null default 0;
+
+create table if not exists public.ledger_entries (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  account_id uuid not null references public.accounts (id) on delete cascade,
+  type text not null check (type in ('deposit', 'withdrawal', 'commission', 'swap', 'adjustment')),
+  -- Signed change to the balance: withdrawals and fees are negative
+  amount numeric not null,
+  occurred_at timestamptz not null,
+  note text
+);
+
+create index if not exists ledger_entries_account_idx
+  on public.ledger_entries (account_id, occurred_at);
+
+alter table public.ledger_entries enable row level security;
+
+create policy "Users manage their own ledger entries" on public.ledger_entries
+  for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
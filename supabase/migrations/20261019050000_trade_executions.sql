@@ -0,0 +1,9 @@
+-- Scale-ins and partial closes. Each fill is { side, price, lot_size,
+-- executed_at }; entry_price, lot_size, exit_price and profit_loss keep the
+-- derived totals so filters and sorting work unchanged.
+
+alter table public.trades
+  add column if not exists executions jsonb not null default '[]'::jsonb;
+
+alter table public.trades
+  add constraint trades_executions_is_array check (jsonb_typeof(executions) = 'array');
@@ -0,0 +1,5 @@
+-- Zone the entry and exit times were recorded in. Trades entered before
+-- times were captured keep null and are left out of time-of-day analysis.
+
+alter table public.trades
+  add column if not exists timezone text;
@@ -0,0 +1,38 @@
+-- Several screenshots per trade, each { url, path, label, annotations },
+-- replacing the single screenshot_url. Existing images become the entry
+-- screenshot; they sit outside the per-user folders, so path stays null and
+-- the app never tries to delete them.
+
+alter table public.trades
+  add column if not exists screenshots jsonb not null default '[]'::jsonb;
+
+alter table public.trades
+  add constraint trades_screenshots_is_array check (jsonb_typeof(screenshots) = 'array');
+
+update public.trades
+set screenshots = jsonb_build_array(jsonb_build_object(
+  'url', screenshot_url,
+  'path', null,
+  'label', 'entry',
+  'annotations', '[]'::jsonb
+))
+where screenshot_url is not null;
+
+alter table public.trades drop column if exists screenshot_url;
+
+-- Uploads go to a folder named after the user, e.g. <user id>/<file>, and
+-- only that user may add, replace or delete files in it
+
+drop policy if exists "Authenticated users upload screenshots" on storage.objects;
+
+create policy "Users upload to their own screenshot folder" on storage.objects
+  for insert to authenticated
+  with check (bucket_id = 'trading-journal' and (storage.foldername(name))[1] = auth.uid()::text);
+
+create policy "Users update their own screenshots" on storage.objects
+  for update to authenticated
+  using (bucket_id = 'trading-journal' and (storage.foldername(name))[1] = auth.uid()::text);
+
+create policy "Users delete their own screenshots" on storage.objects
+  for delete to authenticated
+  using (bucket_id = 'trading-journal' and (storage.foldername(name))[1] = auth.uid()::text);
@@ -0,0 +1,27 @@
+-- Post-trade reviews, one per trade, kept apart from the trade itself so
+-- weekly reviews can list and search them on their own
+
+create table if not exists public.trade_reviews (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  trade_id uuid not null unique references public.trades (id) on delete cascade,
+  followed_plan boolean,
+  grade text check (grade in ('A', 'B', 'C', 'D', 'F')),
+  went_well text,
+  to_improve text,
+  lessons text,
+  -- Maximum adverse and favourable excursion, as prices
+  mae_price numeric,
+  mfe_price numeric
+);
+
+create index if not exists trade_reviews_user_idx on public.trade_reviews (user_id, updated_at desc);
+
+alter table public.trade_reviews enable row level security;
+
+create policy "Users manage their own trade reviews" on public.trade_reviews
+  for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
@@ -0,0 +1,22 @@
+-- Trading plan checklist rules, and the result of each rule recorded on the
+-- trades journaled against them
+
+create table if not exists public.plan_rules (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  name text not null check (length(trim(name)) > 0),
+  "check" text not null default 'manual'
+    check ("check" in ('manual', 'min_risk_reward', 'max_risk_percent', 'with_sentiment')),
+  threshold numeric
+);
+
+alter table public.trades
+  add column if not exists plan_checks jsonb not null default '[]'::jsonb;
+
+alter table public.plan_rules enable row level security;
+
+create policy "Users manage their own plan rules" on public.plan_rules
+  for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
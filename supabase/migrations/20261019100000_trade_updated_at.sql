@@ -0,0 +1,22 @@
+-- Time of each trade's last write, so edits queued offline on two devices
+-- can be merged field by field with the newer edit winning
+
+alter table public.trades
+  add column if not exists updated_at timestamptz not null default now();
+
+update public.trades set updated_at = created_at;
+
+create or replace function public.set_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at = now();
+  return new;
+end;
+$$;
+
+create trigger trades_set_updated_at
+  before update on public.trades
+  for each row
+  execute function public.set_updated_at();
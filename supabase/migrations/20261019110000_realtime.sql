@@ -0,0 +1,17 @@
+-- Broadcast changes to trades, their tag links and settings, so every open
+-- device updates live. Row level security limits each user to their own rows.
+
+do $$
+declare
+  table_name text;
+begin
+  foreach table_name in array array['trades', 'trade_tags', 'settings'] loop
+    if not exists (
+      select 1 from pg_publication_tables
+      where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = table_name
+    ) then
+      execute format('alter publication supabase_realtime add table public.%I', table_name);
+    end if;
+  end loop;
+end;
+$$;
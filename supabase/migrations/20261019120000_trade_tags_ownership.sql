@@ -0,0 +1,20 @@
+-- A trade tag row may only link a trade and a tag that both belong to the
+-- user, so nobody can attach their tags to another user's trade or the
+-- other way round by guessing ids
+
+drop policy if exists "Users manage their own trade tags" on public.trade_tags;
+
+create policy "Users manage their own trade tags" on public.trade_tags
+  for all
+  using (auth.uid() = user_id)
+  with check (
+    auth.uid() = user_id
+    and exists (
+      select 1 from public.trades
+      where trades.id = trade_tags.trade_id and trades.user_id = auth.uid()
+    )
+    and exists (
+      select 1 from public.tags
+      where tags.id = trade_tags.tag_id and tags.user_id = auth.uid()
+    )
+  );
@@ -1,9 +1,46 @@
-import { defineConfig } from 'vite';
+import { readFileSync } from 'node:fs';
+import { createHash } from 'node:crypto';
+import { defineConfig, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// The page and the files from public/ the installed app needs offline. The
+// page is written after the bundle, so it is listed here.
+const SHELL_FILES = [
+  '/index.html',
+  '/manifest.webmanifest',
+  '/icons/icon.svg',
+  '/icons/icon-192.png',
+  '/icons/icon-512.png',
+  '/icons/apple-touch-icon.png',
+];
+
+// Emits sw.js with the list of built files to precache. The version is a
+// hash of that list, so each deploy changes the worker and browsers offer
+// the update.
+function serviceWorker(): Plugin {
+  return {
+    name: 'fx-journal-service-worker',
+    apply: 'build',
+    generateBundle(_options, bundle) {
+      const built = Object.keys(bundle)
+        .filter(fileName => !fileName.endsWith('.map'))
+        .map(fileName => `/${fileName}`);
+      const urls = [...built, ...SHELL_FILES].sort();
+      const version = createHash('sha256').update(urls.join('\n')).digest('hex').slice(0, 12);
+      const source = readFileSync(new URL('./src/sw.js', import.meta.url), 'utf-8');
+
+      this.emitFile({
+        type: 'asset',
+        fileName: 'sw.js',
+        source: `const VERSION = ${JSON.stringify(version)};\nconst PRECACHE_URLS = ${JSON.stringify(urls)};\n\n${source}`,
+      });
+    },
+  };
+}
+
 // https://vitejs.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), serviceWorker()],
   optimizeDeps: {
     exclude: ['lucide-react'],
   },